@@ -0,0 +1,90 @@
+// =====================================================================
+// ACTION RESULT ENVELOPE
+// =====================================================================
+// Shared by search-server-actions.ts and search-server-actions-direct-schema.ts.
+// Lets callers tell "no matches" (ok with empty data) apart from a failed
+// RPC or rejected input. This module has no 'use server' directive so it
+// can export plain helper functions.
+// =====================================================================
+
+export type ActionErrorCode = 'VALIDATION' | 'RPC_ERROR' | 'TIMEOUT' | 'NOT_FOUND' | 'UNAUTHORIZED'
+
+export interface ValidationIssue {
+  field: string
+  message: string
+}
+
+export interface ActionError {
+  code: ActionErrorCode
+  message: string
+  issues?: ValidationIssue[]  // Only set for VALIDATION errors
+}
+
+export type ActionResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ActionError }
+
+/**
+ * Minimal shape of the error object returned by supabase-js (PostgrestError)
+ */
+interface RpcErrorLike {
+  code?: string
+  message?: string
+}
+
+// Postgres: 57014 = query_canceled (statement_timeout)
+const TIMEOUT_CODES = ['57014']
+
+// PostgREST: PGRST202 = function not found in schema cache
+// Postgres: 42883 = undefined_function
+const NOT_FOUND_CODES = ['PGRST202', '42883']
+
+// Postgres: 42501 = insufficient_privilege (no EXECUTE grant, signed out)
+const UNAUTHORIZED_CODES = ['42501']
+
+export function actionOk<T>(data: T): ActionResult<T> {
+  return { ok: true, data }
+}
+
+export function actionError<T = never>(
+  code: ActionErrorCode,
+  message: string,
+  issues?: ValidationIssue[]
+): ActionResult<T> {
+  return { ok: false, error: issues ? { code, message, issues } : { code, message } }
+}
+
+export function validationError<T = never>(issues: ValidationIssue[]): ActionResult<T> {
+  return actionError('VALIDATION', issues.map(i => `${i.field}: ${i.message}`).join('; '), issues)
+}
+
+/**
+ * Map an error returned by .rpc() to an ActionResult
+ */
+export function rpcError<T = never>(error: RpcErrorLike): ActionResult<T> {
+  const message = error.message || 'RPC call failed'
+
+  if (error.code && TIMEOUT_CODES.includes(error.code)) {
+    return actionError('TIMEOUT', message)
+  }
+  if (error.code && NOT_FOUND_CODES.includes(error.code)) {
+    return actionError('NOT_FOUND', message)
+  }
+  if (error.code && UNAUTHORIZED_CODES.includes(error.code)) {
+    return actionError('UNAUTHORIZED', message)
+  }
+  return actionError('RPC_ERROR', message)
+}
+
+/**
+ * Map an exception thrown while calling an RPC (network failure, abort) to an ActionResult
+ */
+export function thrownError<T = never>(error: unknown): ActionResult<T> {
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return actionError('TIMEOUT', error.message)
+    }
+    return actionError('RPC_ERROR', error.message)
+  }
+  return actionError('RPC_ERROR', String(error))
+}
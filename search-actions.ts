@@ -0,0 +1,2234 @@
+// =====================================================================
+// SEARCH ACTIONS - SHARED IMPLEMENTATION
+// =====================================================================
+// Single implementation behind both server action entry points:
+//   search-server-actions.ts               -> 'public-wrappers' (.rpc())
+//   search-server-actions-direct-schema.ts -> 'direct-schema' (.schema('search').rpc())
+//
+// No 'use server' directive here: this module exports types and a
+// factory, which a 'use server' file is not allowed to do.
+// =====================================================================
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import {
+  ActionResult,
+  ValidationIssue,
+  actionError,
+  actionOk,
+  rpcError,
+  thrownError,
+  validationError
+} from './search-action-result'
+import {
+  FilterDefinitionRecord,
+  FilterValueV3,
+  ValidationOutcome,
+  checkRangeBound,
+  getFilterValidationKind,
+  validateTechnicalFilters
+} from './search-filter-validation'
+import {
+  UUID_PATTERN,
+  V3SortOption,
+  V3_SORT_OPTIONS,
+  cursorAfterRow,
+  decodeSearchCursor,
+  getCursorSortKey
+} from './search-cursor'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_MIME_TYPES,
+  ExportColumn,
+  ExportFormat,
+  buildCsv,
+  buildXlsx,
+  streamSpreadsheet
+} from './search-export'
+import { normalizeSearchText } from './search-normalize'
+import {
+  InterpretedFilter,
+  ParsedSearchQuery,
+  QueryParserContext,
+  parseSearchQuery
+} from './search-query-parser'
+import {
+  ClassificationRule,
+  PRODUCT_FLAG_COLUMNS,
+  validateFeatureCondition
+} from './search-classification'
+
+// =====================================================================
+// TYPE DEFINITIONS
+// =====================================================================
+
+export type {
+  ActionResult,
+  ActionError,
+  ActionErrorCode,
+  ValidationIssue
+} from './search-action-result'
+
+export type { FilterDefinitionRecord, FilterValueV3 } from './search-filter-validation'
+export type { ExportColumn, ExportFormat } from './search-export'
+export type { V3SortOption } from './search-cursor'
+export type { InterpretedFilter, ParsedSearchQuery } from './search-query-parser'
+export type { ClassificationRule, FeatureCondition } from './search-classification'
+
+export interface SearchFilters {
+  query?: string
+  indoor?: boolean
+  outdoor?: boolean
+  ceiling?: boolean
+  wall?: boolean
+  pendant?: boolean
+  recessed?: boolean
+  dimmable?: boolean
+  powerMin?: number
+  powerMax?: number
+  colorTempMin?: number
+  colorTempMax?: number
+  ipRatings?: string[]
+  sortBy?: 'relevance' | 'price_asc' | 'price_desc' | 'power_asc' | 'power_desc'
+  limit?: number
+  offset?: number
+}
+
+export interface SearchProduct {
+  product_id: string
+  foss_pid: string
+  description_short: string
+  description_long: string | null
+  supplier_name: string
+  class_name: string | null
+  price: number | null
+  image_url: string | null
+  taxonomy_path: string[]
+  flags: {
+    indoor: boolean
+    outdoor: boolean
+    ceiling: boolean
+    wall: boolean
+    pendant: boolean
+    recessed: boolean
+    dimmable: boolean
+  }
+  key_features: {
+    power: number | null
+    color_temp: number | null
+    luminous_flux: number | null
+    ip_rating: string | null
+  }
+  relevance_score: number
+}
+
+export interface SearchStatistics {
+  total_products: number
+  indoor_products: number
+  outdoor_products: number
+  dimmable_products: number
+  filter_entries: number
+  taxonomy_nodes: number
+  classification_rules: number
+  filter_definitions: number
+}
+
+/**
+ * Locales with translations (sql/24-create-translations.sql).
+ * English is the base language; anything untranslated falls back to it.
+ */
+export const SUPPORTED_LOCALES = ['en', 'el'] as const
+export type Locale = typeof SUPPORTED_LOCALES[number]
+
+export interface FacetData {
+  filter_key: string
+  filter_type: 'boolean' | 'numeric_range' | 'alphanumeric'
+  label: string     // In the requested locale
+  label_el: string  // Greek (English when untranslated)
+  label_en: string  // English
+  facet_data: {
+    min?: number
+    max?: number
+    avg?: number
+    count?: number
+    values?: Array<{
+      value: string
+      count: number
+      label?: string  // Translated value, when one exists
+    }>
+  }
+}
+
+export interface TaxonomyNode {
+  code: string
+  parent_code: string | null
+  level: number
+  name: string     // In the requested locale
+  name_el: string  // Greek (English when untranslated)
+  name_en: string  // English
+  product_count: number
+  icon: string | null
+}
+
+// ---------------------------------------------------------------------
+// v3 (search.product_search wide table)
+// ---------------------------------------------------------------------
+
+export interface SearchFiltersV3 {
+  query?: string
+  filters?: Record<string, FilterValueV3>
+  taxonomyCodes?: string[]
+  suppliers?: string[]
+  indoor?: boolean
+  outdoor?: boolean
+  submersible?: boolean
+  trimless?: boolean
+  cutShapeRound?: boolean
+  cutShapeRectangular?: boolean
+  sortBy?: V3SortOption  // relevance, name, or <column>_asc / _desc (price, lumens_output, cct, voltage, supplier, foss_pid)
+  limit?: number
+  offset?: number
+  cursor?: string  // Opaque nextCursor from a previous page (use instead of offset)
+  parseQuery?: boolean  // Turn spec tokens in query (IP65, 3000K, 800lm, CRI>90, 24V) into filters
+}
+
+export interface SearchProductV3 {
+  product_id: string
+  foss_pid: string
+  description_short: string
+  description_long: string | null
+  supplier_name: string
+  class_name: string | null
+  price: number | null
+  image_url: string | null
+  taxonomy_path: string[]
+  // Feature columns
+  voltage: number | null
+  cct: number | null
+  cri: string | null
+  ip_rating: string | null
+  finishing_colour: string | null
+  light_source: string | null
+  light_distribution: string | null
+  beam_angle_type: string | null
+  protection_class: string | null
+  lumens_output: number | null
+  // Boolean flags
+  indoor: boolean
+  outdoor: boolean
+  ceiling: boolean
+  wall: boolean
+  recessed: boolean
+  dimmable: boolean
+  submersible: boolean
+  trimless: boolean
+  cut_shape_round: boolean
+  cut_shape_rectangular: boolean
+  relevance_score: number
+}
+
+export type FacetValueV3 = {
+  value: string
+  count: number
+  label?: string  // Translated value, when one exists
+}
+
+/**
+ * get_facets_v3 result: 'total' plus one entry per facet key.
+ * Categorical facets (incl. 'supplier') are value/count arrays,
+ * range facets are { min, max, count }, boolean facets are { true, false }.
+ */
+export type FacetsV3 = {
+  total: number
+  supplier?: FacetValueV3[]
+} & {
+  [filterKey: string]:
+    | number
+    | FacetValueV3[]
+    | { min: number | null; max: number | null; count: number }
+    | { true: number; false: number }
+    | undefined
+}
+
+export type SuggestionType = 'product' | 'supplier' | 'taxonomy' | 'term'
+
+export interface SearchSuggestion {
+  type: SuggestionType
+  value: string   // foss_pid, supplier name, taxonomy code or term
+  label: string   // Text to display (description for products, name for taxonomy)
+  count: number   // Matching products (1 for product suggestions)
+  productId: string | null  // product_id of product suggestions (for the product page), else null
+}
+
+/**
+ * get_search_suggestions result grouped by type
+ */
+export interface SearchSuggestions {
+  products: SearchSuggestion[]
+  suppliers: SearchSuggestion[]
+  taxonomies: SearchSuggestion[]
+  terms: SearchSuggestion[]
+}
+
+/**
+ * One page of results plus the total, so the UI can render "24 of 1,532"
+ * without a separate count call. nextCursor continues after the last item
+ * (null on the last page); offset is 0 when paging by cursor.
+ */
+export interface PaginatedResult<T> {
+  items: T[]
+  total: number
+  limit: number
+  offset: number
+  hasMore: boolean
+  nextCursor: string | null
+  interpreted?: InterpretedFilter[]  // Spec tokens taken from the query (parseQuery)
+}
+
+export interface ProductFeature {
+  feature_id: string            // ETIM feature id, e.g. 'EF009346'
+  filter_key: string | null     // Set when the feature is also a search filter
+  label: string
+  value: string | number | boolean | null
+  unit: string | null
+}
+
+export interface ProductTaxonomyNode {
+  code: string
+  name: string
+  level: number
+  parent_code: string | null
+}
+
+export interface ProductImage {
+  mime_code: string             // MD01 = thumbnail, MD02+ = further images
+  url: string
+}
+
+/**
+ * get_product_detail result: the product_search row, every boolean flag,
+ * the full ETIM feature sheet, taxonomy nodes for breadcrumbs and images
+ */
+export interface ProductDetail {
+  product: Omit<SearchProductV3, 'relevance_score'>
+  flags: Record<string, boolean>
+  features: ProductFeature[]
+  taxonomy: ProductTaxonomyNode[]
+  images: ProductImage[]
+}
+
+export type SimilarityFeature =
+  | 'cct'
+  | 'lumens_output'
+  | 'voltage'
+  | 'ip_rating'
+  | 'cri'
+  | 'light_distribution'
+
+// Per-feature weights (0-10); omitted features keep the SQL defaults
+// (cct 1, lumens_output 1, voltage 0.5, ip_rating 1, cri 0.5, light_distribution 0.5)
+export type SimilarityWeights = Partial<Record<SimilarityFeature, number>>
+
+export interface SimilarProductsOptions {
+  limit?: number                  // 1-50, default 12
+  weights?: SimilarityWeights
+  otherSuppliersOnly?: boolean    // Default true: substitutes from other suppliers
+}
+
+export interface SimilarProduct {
+  product_id: string
+  foss_pid: string
+  description_short: string
+  supplier_name: string
+  price: number | null
+  image_url: string | null
+  cct: number | null
+  lumens_output: number | null
+  voltage: number | null
+  ip_rating: string | null
+  cri: string | null
+  light_distribution: string | null
+  similarity: number              // 0-1 weighted closeness to the source product
+}
+
+export interface ExportOptions {
+  format?: ExportFormat           // Default 'csv'
+  columns?: ExportColumn[]        // Default: code, description, supplier, price and key features
+}
+
+/**
+ * Spreadsheet built from every product matching the filters.
+ * content is base64 so it survives the server action boundary;
+ * truncated is set when more than EXPORT_MAX_ROWS products matched
+ * (use streamProductsV3 from a route handler for larger exports).
+ */
+export interface ProductExport {
+  filename: string
+  mimeType: string
+  content: string
+  rowCount: number
+  truncated: boolean
+}
+
+/**
+ * Spreadsheet written while the products are fetched, for a route
+ * handler response body. Not serialisable: not a server action result.
+ */
+export interface ProductExportStream {
+  filename: string
+  mimeType: string
+  stream: ReadableStream<Uint8Array>
+}
+
+/**
+ * Everything needed to restore a search: the v3 filters (minus paging)
+ * plus the active root tab of the UI
+ */
+export type SavedSearchState = Omit<SearchFiltersV3, 'limit' | 'offset' | 'cursor'> & {
+  tab?: string
+}
+
+export interface SavedSearch {
+  id: string
+  owner: string
+  name: string
+  state: SavedSearchState
+  created_at: string
+  updated_at: string
+  last_run_at: string | null
+}
+
+/**
+ * runSavedSearch result: the saved search (with last_run_at updated)
+ * and the first page of its results
+ */
+export interface SavedSearchRun {
+  savedSearch: SavedSearch
+  results: PaginatedResult<SearchProductV3>
+}
+
+/**
+ * search.classification_rules row (getClassificationRules)
+ */
+export interface ClassificationRuleRecord extends ClassificationRule {
+  id: number
+  description: string | null
+  priority: number
+  active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Draft rule for previewClassificationChanges. With id, the given columns
+ * replace the stored rule's ({ id: 12, active: false }); without id, a new
+ * rule (active, priority 100 unless given).
+ */
+export type ClassificationRuleChange = Partial<Omit<ClassificationRuleRecord, 'created_at' | 'updated_at'>>
+
+export interface ClassificationImpactEntry {
+  code: string                // Taxonomy code or flag name
+  gained: number              // Products that would get it
+  lost: number                // Products that would lose it
+  sample_gained: string[]     // foss_pids, up to sampleSize
+  sample_lost: string[]
+}
+
+/**
+ * What a rule change would move. products counts the products gaining /
+ * losing at least one code or flag; only codes and flags that move are listed.
+ */
+export interface ClassificationImpact {
+  products: Omit<ClassificationImpactEntry, 'code'>
+  taxonomy: ClassificationImpactEntry[]
+  flags: ClassificationImpactEntry[]
+}
+
+// =====================================================================
+// INPUT VALIDATION
+// =====================================================================
+
+// Actions return a VALIDATION error when ValidationOutcome.issues is non-empty.
+// Ranges and patterns come from filter_definitions.ui_config when loaded;
+// the constants below are only used as a fallback.
+
+const DEFAULT_RANGE = { min: 0, max: 10000 }
+const DEFAULT_IP_PATTERN = /^IP\d{2}$/i
+
+// Export pages through search_products_v3 in batches (PostgREST caps a
+// response at 1000 rows by default); exportProductsV3 keeps the file in
+// memory, so it stops at EXPORT_MAX_ROWS (streamProductsV3 has no cap)
+const EXPORT_BATCH_SIZE = 1000
+const EXPORT_MAX_ROWS = 50000
+
+const SAVED_SEARCH_NAME_MAX = 100
+const SAVED_SEARCH_OWNER_MAX = 200
+const SIGNED_OUT_MESSAGE = 'Saved searches need a signed-in user'
+const TAXONOMY_CODE_PATTERN = /^[A-Z0-9_-]{1,100}$/i
+
+/**
+ * Check the name / id arguments shared by the saved search actions
+ */
+function validateSavedSearchArgs(args: { name?: string; id?: string }): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  if ('name' in args) {
+    const name = typeof args.name === 'string' ? args.name.trim() : ''
+    if (!name || name.length > SAVED_SEARCH_NAME_MAX) {
+      issues.push({ field: 'name', message: `must be 1-${SAVED_SEARCH_NAME_MAX} characters` })
+    }
+  }
+  if ('id' in args && (typeof args.id !== 'string' || !UUID_PATTERN.test(args.id))) {
+    issues.push({ field: 'id', message: 'must be a UUID' })
+  }
+
+  return issues
+}
+
+// Postgres: 23505 = unique_violation (saved search name already used by the user)
+const isDuplicateName = (error: { code?: string }) => error.code === '23505'
+
+const RULE_CHANGES_MAX = 50
+const RULE_CHANGE_COLUMNS = [
+  'id', 'rule_name', 'description', 'taxonomy_code', 'flag_name', 'priority',
+  'etim_group_ids', 'etim_class_ids', 'etim_feature_conditions', 'text_pattern', 'active'
+]
+const ETIM_ID_PATTERNS = {
+  etim_group_ids: /^EG\d{6}$/,
+  etim_class_ids: /^EC\d{6}$/
+} as const
+
+/**
+ * Check the draft rules passed to previewClassificationChanges
+ */
+function validateClassificationRuleChanges(changes: unknown): ValidationIssue[] {
+  if (!Array.isArray(changes) || changes.length === 0 || changes.length > RULE_CHANGES_MAX) {
+    return [{ field: 'changes', message: `must be an array of 1-${RULE_CHANGES_MAX} rule changes` }]
+  }
+
+  const issues: ValidationIssue[] = []
+  changes.forEach((change, index) => {
+    const field = `changes[${index}]`
+    if (!change || typeof change !== 'object' || Array.isArray(change)) {
+      issues.push({ field, message: 'must be an object' })
+      return
+    }
+
+    for (const key of Object.keys(change)) {
+      if (!RULE_CHANGE_COLUMNS.includes(key)) {
+        issues.push({ field: `${field}.${key}`, message: 'not a classification_rules column' })
+      }
+    }
+
+    const rule = change as ClassificationRuleChange
+    if ('id' in rule && !(Number.isInteger(rule.id) && rule.id! > 0)) {
+      issues.push({ field: `${field}.id`, message: 'must be a positive integer' })
+    }
+    if (!('id' in rule) && rule.taxonomy_code == null && rule.flag_name == null) {
+      issues.push({ field, message: 'a new rule needs a taxonomy_code or flag_name' })
+    }
+    if ('rule_name' in rule && (typeof rule.rule_name !== 'string' || !rule.rule_name.trim())) {
+      issues.push({ field: `${field}.rule_name`, message: 'must be a non-empty string' })
+    }
+    if (rule.taxonomy_code != null && (typeof rule.taxonomy_code !== 'string' || !TAXONOMY_CODE_PATTERN.test(rule.taxonomy_code))) {
+      issues.push({ field: `${field}.taxonomy_code`, message: 'must be a taxonomy code' })
+    }
+    if (rule.flag_name != null && !(PRODUCT_FLAG_COLUMNS as readonly string[]).includes(rule.flag_name)) {
+      issues.push({ field: `${field}.flag_name`, message: 'must be a product_taxonomy_flags column' })
+    }
+    if ('priority' in rule && !Number.isInteger(rule.priority)) {
+      issues.push({ field: `${field}.priority`, message: 'must be an integer' })
+    }
+    if ('active' in rule && typeof rule.active !== 'boolean') {
+      issues.push({ field: `${field}.active`, message: 'must be true or false' })
+    }
+    for (const [key, pattern] of Object.entries(ETIM_ID_PATTERNS)) {
+      const ids: unknown = rule[key as keyof typeof ETIM_ID_PATTERNS]
+      if (ids != null && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string' && pattern.test(id)))) {
+        issues.push({ field: `${field}.${key}`, message: `must be an array of ETIM ids (${pattern.source})` })
+      }
+    }
+    if (rule.etim_feature_conditions != null) {
+      issues.push(...validateFeatureCondition(rule.etim_feature_conditions, `${field}.etim_feature_conditions`))
+    }
+    if (rule.text_pattern != null && (typeof rule.text_pattern !== 'string' || !rule.text_pattern)) {
+      issues.push({ field: `${field}.text_pattern`, message: 'must be a non-empty regular expression' })
+    }
+  })
+
+  return issues
+}
+
+// Postgres: 2201B = invalid_regular_expression, 22P02 = invalid_text_representation
+// (a draft text_pattern or condition value the SQL can't evaluate)
+const isInvalidRuleError = (error: { code?: string }) => error.code === '2201B' || error.code === '22P02'
+
+function validateLocale(locale: unknown): ValidationIssue[] {
+  return typeof locale === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(locale)
+    ? []
+    : [{ field: 'locale', message: `must be one of: ${SUPPORTED_LOCALES.join(', ')}` }]
+}
+
+/**
+ * get_filter_translations rows of one locale, keyed for lookup
+ */
+interface FilterTranslations {
+  labels: Record<string, string>                  // filter_key -> label
+  values: Record<string, Record<string, string>>  // filter_key -> value -> label
+}
+
+const NO_TRANSLATIONS: FilterTranslations = { labels: {}, values: {} }
+
+function toFilterTranslations(
+  rows: Array<{ filter_key: string; filter_value: string | null; label: string }>
+): FilterTranslations {
+  const translations: FilterTranslations = { labels: {}, values: {} }
+  for (const row of rows) {
+    if (row.filter_value === null) {
+      translations.labels[row.filter_key] = row.label
+    } else {
+      (translations.values[row.filter_key] ??= {})[row.filter_value] = row.label
+    }
+  }
+  return translations
+}
+
+/**
+ * Add the translated label to facet values that have one
+ */
+function translateFacetValues<T extends { value: string; label?: string }>(
+  values: T[],
+  valueLabels: Record<string, string> | undefined
+): T[] {
+  if (!valueLabels) return values
+  return values.map(v => (v.value in valueLabels ? { ...v, label: valueLabels[v.value] } : v))
+}
+
+const SIMILARITY_FEATURES: SimilarityFeature[] = [
+  'cct', 'lumens_output', 'voltage', 'ip_rating', 'cri', 'light_distribution'
+]
+
+/**
+ * Check a legacy numeric filter against the ui_config of a filter_definitions row
+ */
+function checkLegacyRange(
+  definitions: FilterDefinitionRecord[] | null,
+  filterKey: string,
+  value: number
+): string | null {
+  const definition = definitions?.find(d => d.filter_key === filterKey)
+  if (definition?.ui_config && getFilterValidationKind(definition.filter_type) === 'numeric_range') {
+    return checkRangeBound(value, definition.ui_config)
+  }
+  if (value < DEFAULT_RANGE.min || value > DEFAULT_RANGE.max) {
+    return `must be between ${DEFAULT_RANGE.min} and ${DEFAULT_RANGE.max}`
+  }
+  return null
+}
+
+function validateSearchFilters(
+  filters: SearchFilters,
+  definitions: FilterDefinitionRecord[] | null = null
+): ValidationOutcome<SearchFilters> {
+  const validated: SearchFilters = {}
+  const issues: ValidationIssue[] = []
+
+  // Text query validation
+  if (filters.query !== undefined && filters.query !== null) {
+    const trimmed = String(filters.query).trim().slice(0, 200)
+    if (trimmed.length > 0) {
+      validated.query = trimmed
+    }
+  }
+
+  // Boolean flags - ensure they're actually boolean or undefined
+  const booleanFlags = ['indoor', 'outdoor', 'ceiling', 'wall', 'pendant', 'recessed', 'dimmable'] as const
+  for (const flag of booleanFlags) {
+    if (filters[flag] === true || filters[flag] === false) {
+      validated[flag] = filters[flag]
+    }
+  }
+
+  // Numeric ranges - power has no filter definition, colour temperature maps to 'cct'
+  const numericRanges = [
+    ['powerMin', 'power'],
+    ['powerMax', 'power'],
+    ['colorTempMin', 'cct'],
+    ['colorTempMax', 'cct']
+  ] as const
+  for (const [field, filterKey] of numericRanges) {
+    if (filters[field] === undefined || filters[field] === null) continue
+    const val = Number(filters[field])
+    const problem = Number.isFinite(val)
+      ? checkLegacyRange(definitions, filterKey, val)
+      : 'must be a number'
+    if (problem) {
+      issues.push({ field, message: problem })
+    } else {
+      validated[field] = val
+    }
+  }
+
+  // IP Ratings array - validate each value against the 'ip' definition pattern
+  if (Array.isArray(filters.ipRatings) && filters.ipRatings.length > 0) {
+    const ipPattern = definitions?.find(d => d.filter_key === 'ip')?.ui_config?.pattern
+    let validIpPattern = DEFAULT_IP_PATTERN
+    try {
+      if (ipPattern) validIpPattern = new RegExp(ipPattern, 'i')
+    } catch {
+      console.error('Invalid ui_config.pattern for ip:', ipPattern)
+    }
+
+    validated.ipRatings = filters.ipRatings
+      .filter(ip => typeof ip === 'string' && validIpPattern.test(ip))
+      .slice(0, 20) // Max 20 IP ratings
+
+    const invalid = filters.ipRatings.filter(ip => typeof ip !== 'string' || !validIpPattern.test(ip))
+    if (invalid.length > 0) {
+      issues.push({ field: 'ipRatings', message: `invalid IP rating(s): ${invalid.slice(0, 5).join(', ')}` })
+    }
+  }
+
+  // Sort by validation
+  const validSortOptions = ['relevance', 'price_asc', 'price_desc', 'power_asc', 'power_desc']
+  if (filters.sortBy && validSortOptions.includes(filters.sortBy)) {
+    validated.sortBy = filters.sortBy
+  } else {
+    if (filters.sortBy) {
+      issues.push({ field: 'sortBy', message: `must be one of ${validSortOptions.join(', ')}` })
+    }
+    validated.sortBy = 'relevance'
+  }
+
+  // Pagination validation
+  if (filters.limit !== undefined && filters.limit !== null) {
+    const val = Number(filters.limit)
+    if (!isNaN(val) && val > 0 && val <= 100) {
+      validated.limit = val
+    } else {
+      issues.push({ field: 'limit', message: 'must be a number between 1 and 100' })
+      validated.limit = 24
+    }
+  } else {
+    validated.limit = 24
+  }
+
+  if (filters.offset !== undefined && filters.offset !== null) {
+    const val = Number(filters.offset)
+    if (!isNaN(val) && val >= 0) {
+      validated.offset = val
+    } else {
+      issues.push({ field: 'offset', message: 'must be a non-negative number' })
+      validated.offset = 0
+    }
+  } else {
+    validated.offset = 0
+  }
+
+  return { filters: validated, issues }
+}
+
+/**
+ * Validate v3 filters. With a parser context and parseQuery set, spec tokens
+ * are moved from the query into filters (see applyQueryParsing) and the
+ * result describes the search that actually runs; without one the query is
+ * kept as typed (saved searches store it that way and parse when run).
+ */
+function validateSearchFiltersV3(
+  filters: SearchFiltersV3,
+  definitions: FilterDefinitionRecord[] | null = null,
+  parserContext: QueryParserContext | null = null
+): ValidationOutcome<SearchFiltersV3> & { interpreted: InterpretedFilter[] } {
+  const validated: SearchFiltersV3 = {}
+  const issues: ValidationIssue[] = []
+  let interpreted: InterpretedFilter[] = []
+
+  // Text query validation - kept as typed (highlighting, saved searches);
+  // toV3RpcParams sends the normalised form
+  if (filters.query !== undefined && filters.query !== null) {
+    const trimmed = String(filters.query).trim().slice(0, 200)
+    if (trimmed.length > 0) {
+      validated.query = trimmed
+    }
+  }
+
+  // Technical filters (p_filters JSONB) - validated per filter_type / ui_config
+  const technical = validateTechnicalFilters(filters.filters, definitions)
+  issues.push(...technical.issues)
+  if (Object.keys(technical.filters).length > 0) {
+    validated.filters = technical.filters
+  }
+
+  // Spec tokens in the query (IP65, 3000K, ...)
+  if (filters.parseQuery === true) {
+    if (!parserContext) {
+      validated.parseQuery = true
+    } else if (validated.query) {
+      const parsed = applyQueryParsing(validated.query, validated.filters ?? {}, definitions, parserContext)
+      interpreted = parsed.interpreted
+      validated.query = parsed.text || undefined
+      if (Object.keys(parsed.filters).length > 0) {
+        validated.filters = parsed.filters
+      }
+    }
+  } else if (filters.parseQuery !== undefined && filters.parseQuery !== false) {
+    issues.push({ field: 'parseQuery', message: 'must be true or false' })
+  }
+
+  // Taxonomy codes - e.g. 'LUMINAIRE-INDOOR-CEILING'
+  if (Array.isArray(filters.taxonomyCodes) && filters.taxonomyCodes.length > 0) {
+    const codes = filters.taxonomyCodes
+      .filter(code => typeof code === 'string' && TAXONOMY_CODE_PATTERN.test(code))
+      .slice(0, 20) // Max 20 taxonomy codes
+    if (codes.length < Math.min(filters.taxonomyCodes.length, 20)) {
+      issues.push({ field: 'taxonomyCodes', message: 'codes may only contain letters, digits, - and _' })
+    }
+    if (codes.length > 0) validated.taxonomyCodes = codes
+  }
+
+  // Suppliers - free text names
+  if (Array.isArray(filters.suppliers) && filters.suppliers.length > 0) {
+    const suppliers = filters.suppliers
+      .filter(s => typeof s === 'string' && s.trim().length > 0)
+      .map(s => s.trim().slice(0, 100))
+      .slice(0, 50) // Max 50 suppliers
+    if (suppliers.length < Math.min(filters.suppliers.length, 50)) {
+      issues.push({ field: 'suppliers', message: 'supplier names must be non-empty strings' })
+    }
+    if (suppliers.length > 0) validated.suppliers = suppliers
+  }
+
+  // Location/options flags - ensure they're actually boolean or undefined
+  const booleanFlags = [
+    'indoor', 'outdoor', 'submersible', 'trimless', 'cutShapeRound', 'cutShapeRectangular'
+  ] as const
+  for (const flag of booleanFlags) {
+    if (filters[flag] === true || filters[flag] === false) {
+      validated[flag] = filters[flag]
+    }
+  }
+
+  // Sort by validation (matches ORDER BY branches in search_products_v3)
+  if (filters.sortBy && V3_SORT_OPTIONS.includes(filters.sortBy)) {
+    validated.sortBy = filters.sortBy
+  } else {
+    if (filters.sortBy) {
+      issues.push({ field: 'sortBy', message: `must be one of ${V3_SORT_OPTIONS.join(', ')}` })
+    }
+    validated.sortBy = 'relevance'
+  }
+
+  // Pagination validation
+  validated.limit = 24
+  if (filters.limit !== undefined && filters.limit !== null) {
+    const val = Number(filters.limit)
+    if (!isNaN(val) && val > 0 && val <= 100) {
+      validated.limit = val
+    } else {
+      issues.push({ field: 'limit', message: 'must be a number between 1 and 100' })
+    }
+  }
+
+  validated.offset = 0
+  if (filters.offset !== undefined && filters.offset !== null) {
+    const val = Number(filters.offset)
+    if (!isNaN(val) && val >= 0) {
+      validated.offset = val
+    } else {
+      issues.push({ field: 'offset', message: 'must be a non-negative number' })
+    }
+  }
+
+  // Keyset cursor - must come from a page with the same sort order
+  if (filters.cursor !== undefined && filters.cursor !== null && filters.cursor !== '') {
+    const cursor = typeof filters.cursor === 'string' ? decodeSearchCursor(filters.cursor) : null
+    if (!cursor) {
+      issues.push({ field: 'cursor', message: 'invalid cursor' })
+    } else if (cursor.sortKey !== getCursorSortKey(validated.sortBy, !!validated.query)) {
+      issues.push({ field: 'cursor', message: 'cursor belongs to a different sort order' })
+    } else if (validated.offset) {
+      issues.push({ field: 'cursor', message: 'use either cursor or offset, not both' })
+    } else {
+      validated.cursor = filters.cursor
+    }
+  }
+
+  return { filters: validated, issues, interpreted }
+}
+
+/**
+ * Move the spec tokens of a query into filters
+ *
+ * Each parsed filter is validated against its definition; tokens that fail,
+ * and tokens for a key that is already filtered explicitly, stay in the text.
+ *
+ * @param explicit - Validated p_filters from the request (these win)
+ * @returns Remaining text, explicit plus parsed filters, and the applied tokens
+ */
+function applyQueryParsing(
+  query: string,
+  explicit: Record<string, FilterValueV3>,
+  definitions: FilterDefinitionRecord[] | null,
+  context: QueryParserContext
+): ParsedSearchQuery {
+  const parsed = parseSearchQuery(query, context)
+  const filters = { ...explicit }
+  const unused: string[] = []
+
+  const interpreted = parsed.interpreted.filter(item => {
+    const key = item.filterKey
+    if (!key) return true
+
+    const check = validateTechnicalFilters({ [key]: parsed.filters[key] }, definitions)
+    if (key in explicit || check.issues.length > 0) {
+      unused.push(item.token)
+      return false
+    }
+    filters[key] = check.filters[key]
+    return true
+  })
+
+  return {
+    text: [parsed.text, ...unused].filter(Boolean).join(' '),
+    filters,
+    interpreted
+  }
+}
+
+/**
+ * Map validated v3 filters to the RPC parameters shared by
+ * search_products_v3, count_products_v3 and get_facets_v3.
+ * The query is normalised like the fts column (sql/25-create-search-text-normalization.sql).
+ */
+function toV3RpcParams(validated: SearchFiltersV3) {
+  return {
+    p_query: validated.query ? normalizeSearchText(validated.query) : null,
+    p_filters: validated.filters ?? {},
+    p_taxonomy_codes: validated.taxonomyCodes ?? null,
+    p_suppliers: validated.suppliers ?? null,
+    p_indoor: validated.indoor ?? null,
+    p_outdoor: validated.outdoor ?? null,
+    p_submersible: validated.submersible ?? null,
+    p_trimless: validated.trimless ?? null,
+    p_cut_shape_round: validated.cutShapeRound ?? null,
+    p_cut_shape_rectangular: validated.cutShapeRectangular ?? null
+  }
+}
+
+/**
+ * toV3RpcParams plus sort and pagination for search_products_v3
+ * (offset, or the keyset pair from the cursor)
+ */
+function toV3SearchParams(validated: SearchFiltersV3, limit: number) {
+  const cursor = validated.cursor ? decodeSearchCursor(validated.cursor) : null
+
+  return {
+    ...toV3RpcParams(validated),
+    p_sort_by: validated.sortBy || 'relevance',
+    p_limit: limit,
+    p_offset: cursor ? 0 : validated.offset || 0,
+    p_cursor_sort_value: cursor?.sortValue ?? null,
+    p_cursor_product_id: cursor?.productId ?? null
+  }
+}
+
+// =====================================================================
+// ACCESS STRATEGY
+// =====================================================================
+
+/**
+ * How RPC functions are reached:
+ * - 'public-wrappers': public.* SECURITY DEFINER wrappers (works with anon key,
+ *                      except the saved search *_for_owner wrappers: service role
+ *                      only, and the classification rule wrappers: not anon)
+ * - 'direct-schema':   search.* functions directly (service role only)
+ */
+export type SearchAccessStrategy = 'public-wrappers' | 'direct-schema'
+
+export interface SearchActionsOptions {
+  /**
+   * Signed-in user of the current request (the entry points use the
+   * Supabase user id, see search-session.ts), used as owner of saved
+   * searches; null when signed out. Never take it from client input.
+   */
+  getSessionOwner: () => string | null | undefined | Promise<string | null | undefined>
+}
+
+// How long loaded filter definitions are reused before reloading
+const FILTER_DEFINITIONS_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Server-side Supabase client with service role key
+ */
+export function createSearchServerClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase environment variables')
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+}
+
+export type SearchActions = ReturnType<typeof createSearchActions>
+
+// =====================================================================
+// SEARCH ACTIONS
+// =====================================================================
+
+/**
+ * Build the search actions for a Supabase client and access strategy
+ *
+ * @param client - Supabase client (service role for 'direct-schema')
+ * @param strategy - Whether to call public wrappers or search.* directly
+ * @param options - Session lookup for the saved search actions (required)
+ * @returns Search actions sharing validation and error handling
+ */
+export function createSearchActions(
+  client: SupabaseClient,
+  strategy: SearchAccessStrategy,
+  options: SearchActionsOptions
+) {
+  // Route every RPC through the chosen access strategy
+  const rpc = (fn: string, args?: Record<string, unknown>) =>
+    strategy === 'direct-schema'
+      ? client.schema('search').rpc(fn, args)
+      : client.rpc(fn, args)
+
+  // Active filter definitions, reloaded after FILTER_DEFINITIONS_TTL_MS
+  let definitionsCache: { definitions: FilterDefinitionRecord[]; loadedAt: number } | null = null
+
+  /**
+   * Load active filter definitions (cached)
+   *
+   * @returns Definitions, or null when they can't be loaded (validation then
+   *          falls back to shape checks so search keeps working)
+   */
+  async function loadFilterDefinitions(): Promise<FilterDefinitionRecord[] | null> {
+    if (definitionsCache && Date.now() - definitionsCache.loadedAt < FILTER_DEFINITIONS_TTL_MS) {
+      return definitionsCache.definitions
+    }
+
+    try {
+      const { data, error } = await rpc('get_active_filter_definitions')
+
+      if (error || !Array.isArray(data)) {
+        console.error('Load filter definitions error:', error)
+        return definitionsCache?.definitions ?? null
+      }
+
+      definitionsCache = { definitions: data, loadedAt: Date.now() }
+      return data
+    } catch (error) {
+      console.error('Load filter definitions error:', error)
+      return definitionsCache?.definitions ?? null
+    }
+  }
+
+  // Filter label/value translations per locale, reloaded after FILTER_DEFINITIONS_TTL_MS
+  const translationsCache = new Map<Locale, { translations: FilterTranslations; loadedAt: number }>()
+
+  /**
+   * Load the filter label and value translations of a locale (cached)
+   *
+   * @returns Translations (none for 'en'); on failure the last loaded ones or
+   *          none, so labels fall back to English instead of failing the action
+   */
+  async function loadFilterTranslations(locale: Locale): Promise<FilterTranslations> {
+    if (locale === 'en') return NO_TRANSLATIONS
+
+    const cached = translationsCache.get(locale)
+    if (cached && Date.now() - cached.loadedAt < FILTER_DEFINITIONS_TTL_MS) {
+      return cached.translations
+    }
+
+    try {
+      const { data, error } = await rpc('get_filter_translations', { p_locale: locale })
+
+      if (error || !Array.isArray(data)) {
+        console.error('Load filter translations error:', error)
+        return cached?.translations ?? NO_TRANSLATIONS
+      }
+
+      const translations = toFilterTranslations(data)
+      translationsCache.set(locale, { translations, loadedAt: Date.now() })
+      return translations
+    } catch (error) {
+      console.error('Load filter translations error:', error)
+      return cached?.translations ?? NO_TRANSLATIONS
+    }
+  }
+
+  // Values of the categorical filters across all products, reloaded after FILTER_DEFINITIONS_TTL_MS
+  let filterValuesCache: { values: Record<string, string[]>; loadedAt: number } | null = null
+
+  /**
+   * Load the known values of every categorical filter (cached), so query
+   * tokens like 'CRI>90' can be matched to stored values such as '≥90'
+   *
+   * @returns Values keyed by filter_key; on failure the last loaded ones or
+   *          none (those tokens then stay in the text query)
+   */
+  async function loadFilterValues(): Promise<Record<string, string[]>> {
+    if (filterValuesCache && Date.now() - filterValuesCache.loadedAt < FILTER_DEFINITIONS_TTL_MS) {
+      return filterValuesCache.values
+    }
+
+    try {
+      const { data, error } = await rpc('get_facets_v3', toV3RpcParams({}))
+
+      if (error || !data) {
+        console.error('Load filter values error:', error)
+        return filterValuesCache?.values ?? {}
+      }
+
+      const values: Record<string, string[]> = {}
+      for (const [key, facet] of Object.entries(data as FacetsV3)) {
+        if (Array.isArray(facet)) {
+          values[key] = facet.map(v => v.value)
+        }
+      }
+
+      filterValuesCache = { values, loadedAt: Date.now() }
+      return values
+    } catch (error) {
+      console.error('Load filter values error:', error)
+      return filterValuesCache?.values ?? {}
+    }
+  }
+
+  /**
+   * Parser context for a request: filter kinds from the definitions plus the
+   * known values, or null when the request doesn't ask for query parsing
+   */
+  async function loadQueryParserContext(
+    filters: SearchFiltersV3,
+    definitions: FilterDefinitionRecord[] | null
+  ): Promise<QueryParserContext | null> {
+    if (filters?.parseQuery !== true) return null
+
+    const kinds: QueryParserContext['kinds'] = {}
+    for (const definition of definitions ?? []) {
+      const kind = getFilterValidationKind(definition.filter_type)
+      if (kind) kinds[definition.filter_key] = kind
+    }
+
+    // Spec tokens always contain a digit; skip the facet query for plain text
+    const values = /\d/.test(String(filters.query ?? '')) ? await loadFilterValues() : {}
+    return { kinds, values }
+  }
+
+  /**
+   * Get active filter definitions used for validation
+   *
+   * @param locale - Language of the labels ('en' or 'el', default 'en')
+   * @returns Definitions with filter_type and ui_config, or a typed error
+   */
+  async function getFilterDefinitions(locale: Locale = 'en'): Promise<ActionResult<FilterDefinitionRecord[]>> {
+    const localeIssues = validateLocale(locale)
+    if (localeIssues.length > 0) {
+      return validationError(localeIssues)
+    }
+
+    const definitions = await loadFilterDefinitions()
+    if (!definitions) {
+      return actionError('RPC_ERROR', 'Filter definitions could not be loaded')
+    }
+
+    const { labels } = await loadFilterTranslations(locale)
+    return actionOk(definitions.map(d => ({ ...d, label: labels[d.filter_key] ?? d.label })))
+  }
+
+  /**
+   * Search products with filters
+   *
+   * @param filters - Search filters including text query, boolean flags, numeric ranges
+   * @returns Matching products with relevance scores, or a typed error
+   */
+  async function searchProducts(
+    filters: SearchFilters = {}
+  ): Promise<ActionResult<SearchProduct[]>> {
+    try {
+      const definitions = await loadFilterDefinitions()
+      const { filters: validated, issues } = validateSearchFilters(filters, definitions)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('search_products', {
+        p_query: validated.query || null,
+        p_indoor: validated.indoor ?? null,
+        p_outdoor: validated.outdoor ?? null,
+        p_ceiling: validated.ceiling ?? null,
+        p_wall: validated.wall ?? null,
+        p_pendant: validated.pendant ?? null,
+        p_recessed: validated.recessed ?? null,
+        p_dimmable: validated.dimmable ?? null,
+        p_power_min: validated.powerMin ?? null,
+        p_power_max: validated.powerMax ?? null,
+        p_color_temp_min: validated.colorTempMin ?? null,
+        p_color_temp_max: validated.colorTempMax ?? null,
+        p_ip_ratings: validated.ipRatings ?? null,
+        p_sort_by: validated.sortBy || 'relevance',
+        p_limit: validated.limit || 24,
+        p_offset: validated.offset || 0
+      })
+
+      if (error) {
+        console.error('Search products error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(data || [])
+    } catch (error) {
+      console.error('Search products action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Get search system statistics
+   *
+   * @returns Statistics about indexed products and filters, or a typed error
+   */
+  async function getSearchStatistics(): Promise<ActionResult<SearchStatistics>> {
+    try {
+      const { data, error } = await rpc('get_search_statistics')
+
+      if (error) {
+        console.error('Get statistics error:', error)
+        return rpcError(error)
+      }
+
+      if (!data || !Array.isArray(data)) {
+        return actionError('NOT_FOUND', 'No search statistics returned')
+      }
+
+      // Convert array of {stat_name, stat_value} to object
+      const stats: Record<string, number> = {}
+      for (const row of data) {
+        stats[row.stat_name] = Number(row.stat_value) || 0
+      }
+
+      return actionOk({
+        total_products: stats.total_products || 0,
+        indoor_products: stats.indoor_products || 0,
+        outdoor_products: stats.outdoor_products || 0,
+        dimmable_products: stats.dimmable_products || 0,
+        filter_entries: stats.filter_entries || 0,
+        taxonomy_nodes: stats.taxonomy_nodes || 0,
+        classification_rules: stats.classification_rules || 0,
+        filter_definitions: stats.filter_definitions || 0
+      })
+    } catch (error) {
+      console.error('Get statistics action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Get available facets for filters
+   *
+   * @param locale - Language of labels and values ('en' or 'el', default 'en')
+   * @returns Available filter facets with counts and value distributions, or a typed error
+   */
+  async function getAvailableFacets(locale: Locale = 'en'): Promise<ActionResult<FacetData[]>> {
+    try {
+      const localeIssues = validateLocale(locale)
+      if (localeIssues.length > 0) {
+        return validationError(localeIssues)
+      }
+
+      // Greek labels are always loaded: label_el is returned in every locale
+      const [{ data, error }, greek] = await Promise.all([
+        rpc('get_available_facets'),
+        loadFilterTranslations('el')
+      ])
+
+      if (error) {
+        console.error('Get facets error:', error)
+        return rpcError(error)
+      }
+
+      const translations = locale === 'el' ? greek : NO_TRANSLATIONS
+      const facets: FacetData[] = (data || []).map((facet: FacetData) => {
+        const labelEn = facet.label
+        const labelEl = greek.labels[facet.filter_key] ?? labelEn
+        return {
+          ...facet,
+          label: locale === 'el' ? labelEl : labelEn,
+          label_el: labelEl,
+          label_en: labelEn,
+          facet_data: facet.facet_data?.values
+            ? {
+                ...facet.facet_data,
+                values: translateFacetValues(facet.facet_data.values, translations.values[facet.filter_key])
+              }
+            : facet.facet_data
+        }
+      })
+
+      return actionOk(facets)
+    } catch (error) {
+      console.error('Get facets action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Get taxonomy tree structure
+   *
+   * @param locale - Language of the node names ('en' or 'el', default 'en')
+   * @returns Hierarchical taxonomy tree with product counts, or a typed error
+   */
+  async function getTaxonomyTree(locale: Locale = 'en'): Promise<ActionResult<TaxonomyNode[]>> {
+    try {
+      const localeIssues = validateLocale(locale)
+      if (localeIssues.length > 0) {
+        return validationError(localeIssues)
+      }
+
+      // Both locales: name_en and name_el are returned whatever the locale
+      const [english, greek] = await Promise.all([
+        rpc('get_taxonomy_tree', { p_locale: 'en' }),
+        rpc('get_taxonomy_tree', { p_locale: 'el' })
+      ])
+
+      const error = english.error ?? greek.error
+      if (error) {
+        console.error('Get taxonomy error:', error)
+        return rpcError(error)
+      }
+
+      const greekNames = new Map<string, string>(
+        (greek.data || []).map((node: TaxonomyNode) => [node.code, node.name])
+      )
+      const nodes: TaxonomyNode[] = (english.data || []).map((node: TaxonomyNode) => {
+        const nameEl = greekNames.get(node.code) ?? node.name
+        return {
+          ...node,
+          name: locale === 'el' ? nameEl : node.name,
+          name_el: nameEl,
+          name_en: node.name
+        }
+      })
+
+      return actionOk(nodes)
+    } catch (error) {
+      console.error('Get taxonomy action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Search products in the v3 wide table (search.product_search)
+   *
+   * @param filters - Text query, technical filters, taxonomy, suppliers, flags and sort
+   * @returns Matching products with feature columns and flags, or a typed error
+   */
+  async function searchProductsV3(
+    filters: SearchFiltersV3 = {}
+  ): Promise<ActionResult<SearchProductV3[]>> {
+    try {
+      const definitions = await loadFilterDefinitions()
+      const parserContext = await loadQueryParserContext(filters, definitions)
+      const { filters: validated, issues } = validateSearchFiltersV3(filters, definitions, parserContext)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('search_products_v3', toV3SearchParams(validated, validated.limit || 24))
+
+      if (error) {
+        console.error('Search products v3 error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(data || [])
+    } catch (error) {
+      console.error('Search products v3 action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Search one page of v3 products together with the total count
+   * (search_products_v3 and count_products_v3 run concurrently)
+   *
+   * @param filters - Same filters as searchProductsV3; pass the previous nextCursor to continue
+   * @returns { items, total, limit, offset, hasMore, nextCursor } plus the
+   *          interpreted query tokens when parseQuery is set, or a typed error
+   */
+  async function searchProductsV3Paginated(
+    filters: SearchFiltersV3 = {}
+  ): Promise<ActionResult<PaginatedResult<SearchProductV3>>> {
+    try {
+      const definitions = await loadFilterDefinitions()
+      const parserContext = await loadQueryParserContext(filters, definitions)
+      const { filters: validated, issues, interpreted } = validateSearchFiltersV3(filters, definitions, parserContext)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const limit = validated.limit || 24
+      const offset = validated.cursor ? 0 : validated.offset || 0
+
+      // One extra row tells whether another page exists, even when
+      // count_products_v3 only returns an estimate
+      const [search, count] = await Promise.all([
+        rpc('search_products_v3', toV3SearchParams(validated, limit + 1)),
+        rpc('count_products_v3', toV3RpcParams(validated))
+      ])
+
+      if (search.error) {
+        console.error('Search products v3 paginated error:', search.error)
+        return rpcError(search.error)
+      }
+      if (count.error) {
+        console.error('Count products v3 paginated error:', count.error)
+        return rpcError(count.error)
+      }
+
+      const rows: SearchProductV3[] = search.data || []
+      const items = rows.slice(0, limit)
+      const hasMore = rows.length > limit
+      const lastItem = items[items.length - 1]
+
+      return actionOk({
+        items,
+        // count_products_v3 returns an estimate above 500K rows
+        total: Math.max(Number(count.data) || 0, offset + items.length),
+        limit,
+        offset,
+        hasMore,
+        nextCursor: hasMore && lastItem
+          ? cursorAfterRow(lastItem, getCursorSortKey(validated.sortBy, !!validated.query))
+          : null,
+        ...(parserContext ? { interpreted } : {})
+      })
+    } catch (error) {
+      console.error('Search products v3 paginated action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Count products matching v3 filters
+   *
+   * @param filters - Same filters as searchProductsV3 (sort/pagination ignored)
+   * @returns Total number of matching products, or a typed error
+   */
+  async function countProductsV3(
+    filters: SearchFiltersV3 = {}
+  ): Promise<ActionResult<number>> {
+    try {
+      const definitions = await loadFilterDefinitions()
+      const parserContext = await loadQueryParserContext(filters, definitions)
+      const { filters: validated, issues } = validateSearchFiltersV3(filters, definitions, parserContext)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('count_products_v3', toV3RpcParams(validated))
+
+      if (error) {
+        console.error('Count products v3 error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(Number(data) || 0)
+    } catch (error) {
+      console.error('Count products v3 action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Get v3 facets for the current search context
+   *
+   * @param filters - Same filters as searchProductsV3 (sort/pagination ignored)
+   * @param locale - Language of the facet value labels ('en' or 'el', default 'en')
+   * @returns Facet counts keyed by filter_key (plus 'total' and 'supplier'), or a typed error
+   */
+  async function getFacetsV3(
+    filters: SearchFiltersV3 = {},
+    locale: Locale = 'en'
+  ): Promise<ActionResult<FacetsV3>> {
+    try {
+      const definitions = await loadFilterDefinitions()
+      const parserContext = await loadQueryParserContext(filters, definitions)
+      const { filters: validated, issues } = validateSearchFiltersV3(filters, definitions, parserContext)
+      issues.push(...validateLocale(locale))
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const [{ data, error }, translations] = await Promise.all([
+        rpc('get_facets_v3', toV3RpcParams(validated)),
+        loadFilterTranslations(locale)
+      ])
+
+      if (error) {
+        console.error('Get facets v3 error:', error)
+        return rpcError(error)
+      }
+
+      if (!data) {
+        return actionError('NOT_FOUND', 'No facets returned')
+      }
+
+      // Categorical facets are value/count arrays; ranges and booleans have no values to translate
+      const facets: FacetsV3 = { ...data }
+      for (const [key, facet] of Object.entries(facets)) {
+        if (Array.isArray(facet)) {
+          facets[key] = translateFacetValues(facet, translations.values[key])
+        }
+      }
+
+      return actionOk(facets)
+    } catch (error) {
+      console.error('Get facets v3 action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Split a query into spec filters and remaining text, as the v3 actions
+   * do with parseQuery, without searching (e.g. to show chips while typing)
+   *
+   * @param query - Search box text (max 200 characters)
+   * @returns { text, filters, interpreted }; filters holds only the parsed
+   *          tokens, validated against the filter definitions
+   */
+  async function interpretSearchQuery(query: string): Promise<ActionResult<ParsedSearchQuery>> {
+    try {
+      if (typeof query !== 'string') {
+        return validationError([{ field: 'query', message: 'must be a string' }])
+      }
+
+      const filters: SearchFiltersV3 = { query, parseQuery: true }
+      const definitions = await loadFilterDefinitions()
+      const parserContext = await loadQueryParserContext(filters, definitions)
+      const { filters: validated, issues, interpreted } = validateSearchFiltersV3(filters, definitions, parserContext)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      return actionOk({
+        text: validated.query ?? '',
+        filters: validated.filters ?? {},
+        interpreted
+      })
+    } catch (error) {
+      console.error('Interpret search query action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Type-ahead suggestions for a search prefix
+   *
+   * @param prefix - What the user has typed so far (min 2 characters)
+   * @param limit - Max suggestions per group (1-10, default 5)
+   * @returns Product codes, suppliers, taxonomy nodes and description terms with counts, or a typed error
+   */
+  async function getSearchSuggestions(
+    prefix: string,
+    limit = 5
+  ): Promise<ActionResult<SearchSuggestions>> {
+    const suggestions: SearchSuggestions = { products: [], suppliers: [], taxonomies: [], terms: [] }
+
+    try {
+      const issues: ValidationIssue[] = []
+      if (typeof prefix !== 'string') {
+        issues.push({ field: 'prefix', message: 'must be a string' })
+      }
+      const val = Number(limit)
+      if (isNaN(val) || val < 1 || val > 10) {
+        issues.push({ field: 'limit', message: 'must be a number between 1 and 10' })
+      }
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      // Too short to be useful - not an error, just nothing to suggest yet
+      const sanitized = prefix.trim().slice(0, 100)
+      if (sanitized.length < 2) {
+        return actionOk(suggestions)
+      }
+
+      const { data, error } = await rpc('get_search_suggestions', {
+        p_prefix: sanitized,
+        p_limit: val
+      })
+
+      if (error) {
+        console.error('Get suggestions error:', error)
+        return rpcError(error)
+      }
+
+      const groups: Record<SuggestionType, keyof SearchSuggestions> = {
+        product: 'products',
+        supplier: 'suppliers',
+        taxonomy: 'taxonomies',
+        term: 'terms'
+      }
+      for (const row of data || []) {
+        const group = groups[row.suggestion_type as SuggestionType]
+        if (!group) continue
+        suggestions[group].push({
+          type: row.suggestion_type,
+          value: row.value,
+          label: row.label,
+          count: Number(row.product_count) || 0,
+          productId: row.product_id ?? null
+        })
+      }
+
+      return actionOk(suggestions)
+    } catch (error) {
+      console.error('Get suggestions action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Full detail for one product (feature sheet, breadcrumbs, flags, images)
+   *
+   * @param productId - product_id (UUID)
+   * @returns NOT_FOUND when no product has this id
+   */
+  async function getProductDetail(productId: string): Promise<ActionResult<ProductDetail>> {
+    try {
+      if (typeof productId !== 'string' || !UUID_PATTERN.test(productId)) {
+        return validationError([{ field: 'productId', message: 'must be a UUID' }])
+      }
+
+      const { data, error } = await rpc('get_product_detail', { p_product_id: productId })
+
+      if (error) {
+        console.error('Get product detail error:', error)
+        return rpcError(error)
+      }
+      if (!data) {
+        return actionError('NOT_FOUND', `Product ${productId} not found`)
+      }
+
+      return actionOk(data as ProductDetail)
+    } catch (error) {
+      console.error('Get product detail action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Substitutes for a product: same taxonomy node, ranked by closeness of
+   * cct / lumens_output / voltage and matching ip_rating / cri / light_distribution
+   *
+   * @param productId - Source product_id (UUID)
+   * @param options - limit, per-feature weights, otherSuppliersOnly
+   * @returns Products ordered by similarity (empty when the product is unknown)
+   */
+  async function findSimilarProducts(
+    productId: string,
+    options: SimilarProductsOptions = {}
+  ): Promise<ActionResult<SimilarProduct[]>> {
+    try {
+      const issues: ValidationIssue[] = []
+      if (typeof productId !== 'string' || !UUID_PATTERN.test(productId)) {
+        issues.push({ field: 'productId', message: 'must be a UUID' })
+      }
+
+      const limit = options.limit ?? 12
+      if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+        issues.push({ field: 'limit', message: 'must be an integer between 1 and 50' })
+      }
+
+      const weights: SimilarityWeights = {}
+      for (const [key, weight] of Object.entries(options.weights ?? {})) {
+        if (!SIMILARITY_FEATURES.includes(key as SimilarityFeature)) {
+          issues.push({ field: `weights.${key}`, message: `unknown feature (use ${SIMILARITY_FEATURES.join(', ')})` })
+        } else if (typeof weight !== 'number' || !isFinite(weight) || weight < 0 || weight > 10) {
+          issues.push({ field: `weights.${key}`, message: 'must be a number between 0 and 10' })
+        } else {
+          weights[key as SimilarityFeature] = weight
+        }
+      }
+
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('find_similar_products', {
+        p_product_id: productId,
+        p_limit: limit,
+        p_weights: weights,
+        p_other_suppliers_only: options.otherSuppliersOnly ?? true
+      })
+
+      if (error) {
+        console.error('Find similar products error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(
+        (data || []).map((row: SimilarProduct) => ({ ...row, similarity: Number(row.similarity) }))
+      )
+    } catch (error) {
+      console.error('Find similar products action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Validate export filters, format and columns
+   */
+  async function validateExport(filters: SearchFiltersV3, options: ExportOptions) {
+    const definitions = await loadFilterDefinitions()
+    const { limit, offset, cursor, ...searchFilters } = filters
+    const parserContext = await loadQueryParserContext(searchFilters, definitions)
+    const { filters: validated, issues } = validateSearchFiltersV3(searchFilters, definitions, parserContext)
+
+    const format = options.format ?? 'csv'
+    if (format !== 'csv' && format !== 'xlsx') {
+      issues.push({ field: 'format', message: "must be 'csv' or 'xlsx'" })
+    }
+
+    const columns = options.columns ?? DEFAULT_EXPORT_COLUMNS
+    if (!Array.isArray(columns) || columns.length === 0) {
+      issues.push({ field: 'columns', message: 'must be a non-empty array' })
+    } else {
+      const unknown = columns.filter(key => !EXPORT_COLUMNS.some(c => c.key === key))
+      if (unknown.length > 0) {
+        issues.push({ field: 'columns', message: `unknown columns: ${unknown.join(', ')}` })
+      }
+    }
+
+    return { validated, format, columns, issues }
+  }
+
+  /**
+   * One search_products_v3 export batch, continuing after cursor
+   */
+  function fetchExportBatch(validated: SearchFiltersV3, cursor: string | undefined, limit = EXPORT_BATCH_SIZE) {
+    return rpc('search_products_v3', toV3SearchParams({ ...validated, cursor }, limit))
+  }
+
+  const exportFilename = (format: ExportFormat) =>
+    `products-${new Date().toISOString().slice(0, 10)}.${format}`
+
+  /**
+   * Export all products matching v3 filters as CSV or XLSX
+   *
+   * Fetches every page with the keyset cursor (not just the loaded page),
+   * in the same order as searchProductsV3, up to EXPORT_MAX_ROWS rows.
+   *
+   * @param filters - Same filters as searchProductsV3 (limit/offset/cursor ignored)
+   * @param options - format and columns from search.product_search
+   * @returns Base64 file content with filename and MIME type, or a typed error
+   */
+  async function exportProductsV3(
+    filters: SearchFiltersV3 = {},
+    options: ExportOptions = {}
+  ): Promise<ActionResult<ProductExport>> {
+    try {
+      const { validated, format, columns, issues } = await validateExport(filters, options)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const sortKey = getCursorSortKey(validated.sortBy, !!validated.query)
+      const rows: SearchProductV3[] = []
+      let cursor: string | undefined
+      let truncated = false
+
+      while (true) {
+        const { data, error } = await fetchExportBatch(validated, cursor)
+
+        if (error) {
+          console.error('Export products v3 error:', error)
+          return rpcError(error)
+        }
+
+        const batch: SearchProductV3[] = data || []
+        rows.push(...batch)
+
+        if (batch.length < EXPORT_BATCH_SIZE) break
+        cursor = cursorAfterRow(batch[batch.length - 1], sortKey)
+
+        if (rows.length >= EXPORT_MAX_ROWS) {
+          // The cap was reached with a full batch: one more row tells whether any were left out
+          const { data: next, error: nextError } = await fetchExportBatch(validated, cursor, 1)
+          if (nextError) {
+            console.error('Export products v3 error:', nextError)
+            return rpcError(nextError)
+          }
+          truncated = rows.length > EXPORT_MAX_ROWS || (next || []).length > 0
+          rows.length = EXPORT_MAX_ROWS
+          break
+        }
+      }
+
+      const content = format === 'xlsx'
+        ? Buffer.from(buildXlsx(rows, columns)).toString('base64')
+        : Buffer.from(buildCsv(rows, columns), 'utf8').toString('base64')
+
+      return actionOk({
+        filename: exportFilename(format),
+        mimeType: EXPORT_MIME_TYPES[format],
+        content,
+        rowCount: rows.length,
+        truncated
+      })
+    } catch (error) {
+      console.error('Export products v3 action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Stream all products matching v3 filters as CSV or XLSX, without a row cap
+   *
+   * Meant for a route handler: return the stream as the response body.
+   * Batches are fetched with the keyset cursor as the client reads, so only
+   * one batch is in memory. The first batch is fetched before returning, so
+   * validation and RPC errors come back as typed errors; a later RPC error
+   * aborts the stream (the download fails instead of ending early).
+   *
+   * @param filters - Same filters as searchProductsV3 (limit/offset/cursor ignored)
+   * @param options - format and columns from search.product_search
+   * @returns Stream with filename and MIME type, or a typed error
+   */
+  async function streamProductsV3(
+    filters: SearchFiltersV3 = {},
+    options: ExportOptions = {}
+  ): Promise<ActionResult<ProductExportStream>> {
+    try {
+      const { validated, format, columns, issues } = await validateExport(filters, options)
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const first = await fetchExportBatch(validated, undefined)
+      if (first.error) {
+        console.error('Stream products v3 error:', first.error)
+        return rpcError(first.error)
+      }
+
+      const sortKey = getCursorSortKey(validated.sortBy, !!validated.query)
+
+      async function* batches(): AsyncGenerator<SearchProductV3[]> {
+        let batch: SearchProductV3[] = first.data || []
+        yield batch
+
+        while (batch.length === EXPORT_BATCH_SIZE) {
+          const { data, error } = await fetchExportBatch(validated, cursorAfterRow(batch[batch.length - 1], sortKey))
+          if (error) {
+            console.error('Stream products v3 error:', error)
+            throw new Error(error.message)
+          }
+          batch = data || []
+          yield batch
+        }
+      }
+
+      const chunks = streamSpreadsheet(format, batches(), columns)
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { value, done } = await chunks.next()
+            if (done) controller.close()
+            else controller.enqueue(value)
+          } catch (error) {
+            controller.error(error)
+          }
+        },
+        async cancel() {
+          await chunks.return(undefined)
+        }
+      })
+
+      return actionOk({
+        filename: exportFilename(format),
+        mimeType: EXPORT_MIME_TYPES[format],
+        stream
+      })
+    } catch (error) {
+      console.error('Stream products v3 action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Owner of the saved searches: the signed-in user from options.getSessionOwner
+   *
+   * @returns The owner, or null without a usable session
+   */
+  async function sessionOwner(): Promise<string | null> {
+    const owner = await options.getSessionOwner()
+    if (typeof owner !== 'string' || !owner.trim() || owner.length > SAVED_SEARCH_OWNER_MAX) {
+      return null
+    }
+    return owner.trim()
+  }
+
+  /**
+   * Saved searches of the signed-in user, ordered by name
+   *
+   * @returns The searches; UNAUTHORIZED without a session
+   */
+  async function listSavedSearches(): Promise<ActionResult<SavedSearch[]>> {
+    try {
+      const owner = await sessionOwner()
+      if (!owner) {
+        return actionError('UNAUTHORIZED', SIGNED_OUT_MESSAGE)
+      }
+
+      const { data, error } = await rpc('list_saved_searches_for_owner', { p_owner: owner })
+
+      if (error) {
+        console.error('List saved searches error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(data || [])
+    } catch (error) {
+      console.error('List saved searches action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Save the current search under a name. Saving again under an existing
+   * name (case-insensitive) overwrites that search's state.
+   *
+   * @param name - Display name, 1-100 characters
+   * @param state - Search to save; validated like searchProductsV3 filters
+   * @returns The stored saved search, or a typed error (UNAUTHORIZED without a session)
+   */
+  async function saveSearch(
+    name: string,
+    state: SavedSearchState
+  ): Promise<ActionResult<SavedSearch>> {
+    try {
+      const owner = await sessionOwner()
+      if (!owner) {
+        return actionError('UNAUTHORIZED', SIGNED_OUT_MESSAGE)
+      }
+
+      const issues = validateSavedSearchArgs({ name })
+
+      const definitions = await loadFilterDefinitions()
+      const { tab, ...filters } = state ?? {}
+      const { filters: validated, issues: filterIssues } = validateSearchFiltersV3(filters, definitions)
+      issues.push(...filterIssues)
+
+      if (tab !== undefined && tab !== '' && (typeof tab !== 'string' || !TAXONOMY_CODE_PATTERN.test(tab))) {
+        issues.push({ field: 'state.tab', message: 'must be a taxonomy code' })
+      }
+
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      // Paging is not part of a saved search
+      const { limit, offset, cursor, ...stored } = validated
+      const { data, error } = await rpc('save_search_for_owner', {
+        p_owner: owner,
+        p_name: name.trim(),
+        p_state: tab ? { ...stored, tab } : stored
+      })
+
+      if (error) {
+        console.error('Save search error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(data)
+    } catch (error) {
+      console.error('Save search action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Rename a saved search
+   *
+   * @returns The renamed search; NOT_FOUND for an unknown id, VALIDATION
+   *          when the user already has a search with that name
+   */
+  async function renameSavedSearch(
+    id: string,
+    name: string
+  ): Promise<ActionResult<SavedSearch>> {
+    try {
+      const owner = await sessionOwner()
+      if (!owner) {
+        return actionError('UNAUTHORIZED', SIGNED_OUT_MESSAGE)
+      }
+
+      const issues = validateSavedSearchArgs({ id, name })
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('rename_saved_search_for_owner', {
+        p_owner: owner,
+        p_id: id,
+        p_name: name.trim()
+      })
+
+      if (error) {
+        if (isDuplicateName(error)) {
+          return validationError([{ field: 'name', message: 'a saved search with this name already exists' }])
+        }
+        console.error('Rename saved search error:', error)
+        return rpcError(error)
+      }
+
+      if (!data?.id) {
+        return actionError('NOT_FOUND', `Saved search not found: ${id}`)
+      }
+
+      return actionOk(data)
+    } catch (error) {
+      console.error('Rename saved search action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Delete a saved search
+   *
+   * @returns true, or NOT_FOUND for an unknown id
+   */
+  async function deleteSavedSearch(id: string): Promise<ActionResult<true>> {
+    try {
+      const owner = await sessionOwner()
+      if (!owner) {
+        return actionError('UNAUTHORIZED', SIGNED_OUT_MESSAGE)
+      }
+
+      const issues = validateSavedSearchArgs({ id })
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('delete_saved_search_for_owner', { p_owner: owner, p_id: id })
+
+      if (error) {
+        console.error('Delete saved search error:', error)
+        return rpcError(error)
+      }
+
+      if (data !== true) {
+        return actionError('NOT_FOUND', `Saved search not found: ${id}`)
+      }
+
+      return actionOk(true)
+    } catch (error) {
+      console.error('Delete saved search action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Re-run a saved search: records last_run_at and returns the first page
+   * of results (continue with searchProductsV3Paginated and nextCursor)
+   *
+   * @param limit - Page size, 1-100 (default 24)
+   * @returns The saved search and its results; NOT_FOUND for an unknown id
+   */
+  async function runSavedSearch(
+    id: string,
+    limit = 24
+  ): Promise<ActionResult<SavedSearchRun>> {
+    try {
+      const owner = await sessionOwner()
+      if (!owner) {
+        return actionError('UNAUTHORIZED', SIGNED_OUT_MESSAGE)
+      }
+
+      const issues = validateSavedSearchArgs({ id })
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('mark_saved_search_run_for_owner', { p_owner: owner, p_id: id })
+
+      if (error) {
+        console.error('Run saved search error:', error)
+        return rpcError(error)
+      }
+
+      if (!data?.id) {
+        return actionError('NOT_FOUND', `Saved search not found: ${id}`)
+      }
+
+      const savedSearch: SavedSearch = data
+      const { tab, ...filters } = savedSearch.state ?? {}
+      const results = await searchProductsV3Paginated({ ...filters, limit })
+      if (!results.ok) {
+        return results
+      }
+
+      return actionOk({ savedSearch, results: results.data })
+    } catch (error) {
+      console.error('Run saved search action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * All classification rules (active and inactive), by priority
+   */
+  async function getClassificationRules(): Promise<ActionResult<ClassificationRuleRecord[]>> {
+    try {
+      const { data, error } = await rpc('get_classification_rules')
+
+      if (error) {
+        console.error('Get classification rules error:', error)
+        return rpcError(error)
+      }
+
+      return actionOk(data || [])
+    } catch (error) {
+      console.error('Get classification rules action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Preview which products would gain or lose taxonomy codes and flags if
+   * draft rules were applied. Read-only: product_taxonomy_flags is untouched.
+   *
+   * Priority-only changes move nothing: every matching rule contributes.
+   *
+   * @param changes - Edits of existing rules ({ id, ...columns }) and/or new rules
+   * @param sampleSize - foss_pids listed per code/flag, 0-100 (default 10)
+   * @returns Counts and samples per code/flag; NOT_FOUND for an unknown rule id
+   */
+  async function previewClassificationChanges(
+    changes: ClassificationRuleChange[],
+    sampleSize = 10
+  ): Promise<ActionResult<ClassificationImpact>> {
+    try {
+      const issues = validateClassificationRuleChanges(changes)
+      if (!Number.isInteger(sampleSize) || sampleSize < 0 || sampleSize > 100) {
+        issues.push({ field: 'sampleSize', message: 'must be an integer between 0 and 100' })
+      }
+
+      if (issues.length > 0) {
+        return validationError(issues)
+      }
+
+      const { data, error } = await rpc('preview_classification_changes', {
+        p_changes: changes,
+        p_sample_size: sampleSize
+      })
+
+      if (error) {
+        // Postgres: P0002 = no_data_found (edit of an unknown rule id)
+        if (error.code === 'P0002') {
+          return actionError('NOT_FOUND', error.message)
+        }
+        if (isInvalidRuleError(error)) {
+          return validationError([{ field: 'changes', message: error.message }])
+        }
+        console.error('Preview classification changes error:', error)
+        return rpcError(error)
+      }
+
+      const impact: ClassificationImpact = {
+        products: { gained: 0, lost: 0, sample_gained: [], sample_lost: [] },
+        taxonomy: [],
+        flags: []
+      }
+      for (const row of data || []) {
+        const entry: ClassificationImpactEntry = {
+          code: row.code,
+          gained: Number(row.gained),
+          lost: Number(row.lost),
+          sample_gained: row.sample_gained || [],
+          sample_lost: row.sample_lost || []
+        }
+        if (row.change_type === 'product') {
+          const { code, ...counts } = entry
+          impact.products = counts
+        } else {
+          (row.change_type === 'taxonomy' ? impact.taxonomy : impact.flags).push(entry)
+        }
+      }
+
+      return actionOk(impact)
+    } catch (error) {
+      console.error('Preview classification changes action error:', error)
+      return thrownError(error)
+    }
+  }
+
+  /**
+   * Simple search function matching existing FOSSAPP pattern
+   * Can be used as drop-in replacement for searchProductsAction
+   *
+   * @param query - Text search query
+   * @returns Array of products matching the query
+   */
+  async function searchProductsCompat(query: string): Promise<SearchProduct[]> {
+    try {
+      // Validate query similar to existing pattern
+      if (!query || typeof query !== 'string') {
+        return []
+      }
+
+      const sanitized = query.trim().slice(0, 100)
+      if (sanitized.length === 0) {
+        return []
+      }
+
+      // Use search with just query parameter - unwrap to the legacy [] on any error
+      const result = await searchProducts({ query: sanitized, limit: 50 })
+      if (!result.ok) {
+        console.error('Search products compat error:', result.error)
+        return []
+      }
+
+      return result.data
+    } catch (error) {
+      console.error('Search products compat error:', error)
+      return []
+    }
+  }
+
+  return {
+    searchProducts,
+    getSearchStatistics,
+    getAvailableFacets,
+    getTaxonomyTree,
+    searchProductsV3,
+    searchProductsV3Paginated,
+    countProductsV3,
+    getFacetsV3,
+    interpretSearchQuery,
+    getFilterDefinitions,
+    getSearchSuggestions,
+    getProductDetail,
+    findSimilarProducts,
+    exportProductsV3,
+    streamProductsV3,
+    listSavedSearches,
+    saveSearch,
+    renameSavedSearch,
+    deleteSavedSearch,
+    runSavedSearch,
+    getClassificationRules,
+    previewClassificationChanges,
+    searchProductsCompat
+  }
+}
@@ -0,0 +1,200 @@
+// =====================================================================
+// CLASSIFICATION CONFORMANCE CASES
+// =====================================================================
+// Pins evaluateFeatureCondition() and evaluateFeatureConditions()
+// (search-classification.ts) to search.evaluate_feature_condition() and
+// search.evaluate_feature_conditions(). The same cases, with the same
+// names, are checked against the database by
+// sql/26-test-classification-conformance.sql; keep both lists identical
+// when adding a case or changing the SQL functions.
+//
+// Run both sides after a change:
+//   checkClassificationConformance()        -> [] when the TS engine agrees
+//   sql/26-test-classification-conformance  -> no rows when the SQL agrees
+// npm test (tests/search-classification.test.ts) runs the first and fails
+// when the case lists here and in sql/26 differ.
+// =====================================================================
+
+import {
+  evaluateFeatureCondition,
+  evaluateFeatureConditions,
+  type EtimFeature,
+  type FeatureCondition,
+  type FeatureLeafCondition,
+  type SqlBoolean
+} from './search-classification'
+
+/**
+ * One feature/condition pair and what the SQL function returns for it
+ */
+export interface ConformanceCase {
+  name: string
+  feature: EtimFeature
+  condition: FeatureLeafCondition
+  expected: SqlBoolean | 'error'  // 'error' = the SQL call raises
+}
+
+/**
+ * One feature array/condition pair and what evaluate_feature_conditions() returns
+ */
+export interface FeatureConditionsConformanceCase {
+  name: string
+  features: EtimFeature[] | null  // null = SQL NULL (no features)
+  condition: FeatureCondition
+  expected: boolean | 'error'
+}
+
+export const CLASSIFICATION_CONFORMANCE_CASES: ConformanceCase[] = [
+  // Feature id check
+  { name: 'exists: same feature', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'exists' } }, expected: true },
+  { name: 'exists: other feature', feature: { FEATUREID: 'EF000002' }, condition: { EF000001: { operator: 'exists' } }, expected: false },
+  { name: 'exists: feature without FEATUREID', feature: { fvalueN: 5 }, condition: { EF000001: { operator: 'exists' } }, expected: true },
+  { name: 'first key in jsonb order wins', feature: { FEATUREID: 'EF1' }, condition: { EF000001: { operator: 'exists' }, EF1: { operator: 'exists' } }, expected: true },
+  { name: 'later key is ignored', feature: { FEATUREID: 'EF000002' }, condition: { EF000001: { operator: 'exists' }, EF000002: { operator: 'exists' } }, expected: false },
+  { name: 'empty condition', feature: { FEATUREID: 'EF000001' }, condition: {}, expected: false },
+
+  // Operators
+  { name: 'unknown operator', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'starts_with', value: 'EV' } }, expected: false },
+  { name: 'missing operator', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { value: 'EV000001' } } as unknown as FeatureLeafCondition, expected: false },
+  { name: 'operator is case sensitive', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'EXISTS' } }, expected: false },
+
+  // equals
+  { name: 'equals: fvalueC', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'equals', value: 'EV000001' } }, expected: true },
+  { name: 'equals: neither value matches', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001', fvalueB: false }, condition: { EF000001: { operator: 'equals', value: 'EV000002' } }, expected: false },
+  { name: 'equals: fvalueC is case sensitive', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001', fvalueB: false }, condition: { EF000001: { operator: 'equals', value: 'ev000001' } }, expected: false },
+  { name: 'equals: fvalueB true', feature: { FEATUREID: 'EF000001', fvalueB: true }, condition: { EF000001: { operator: 'equals', value: 'true' } }, expected: true },
+  { name: 'equals: fvalueB against JSON boolean', feature: { FEATUREID: 'EF000001', fvalueB: false }, condition: { EF000001: { operator: 'equals', value: false } }, expected: true },
+  { name: 'equals: no value in feature', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'equals', value: 'EV000001' } }, expected: null },
+  { name: 'equals: fvalueC differs, fvalueB missing', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000002' }, condition: { EF000001: { operator: 'equals', value: 'EV000001' } }, expected: null },
+  { name: 'equals: fvalueN is not compared', feature: { FEATUREID: 'EF000001', fvalueN: 5 }, condition: { EF000001: { operator: 'equals', value: '5' } }, expected: null },
+
+  // not_equals
+  { name: 'not_equals: other value', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000002' }, condition: { EF000001: { operator: 'not_equals', value: 'EV000001' } }, expected: true },
+  { name: 'not_equals: same value', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'not_equals', value: 'EV000001' } }, expected: false },
+  { name: 'not_equals: fvalueB same value', feature: { FEATUREID: 'EF000001', fvalueB: true }, condition: { EF000001: { operator: 'not_equals', value: true } }, expected: false },
+  { name: 'not_equals: no value in feature', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'not_equals', value: 'EV000001' } }, expected: true },
+  { name: 'not_equals: other feature', feature: { FEATUREID: 'EF000002', fvalueC: 'EV000002' }, condition: { EF000001: { operator: 'not_equals', value: 'EV000001' } }, expected: false },
+
+  // in
+  { name: 'in: fvalueC listed', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000002' }, condition: { EF000001: { operator: 'in', values: ['EV000001', 'EV000002'] } }, expected: true },
+  { name: 'in: fvalueC not listed', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000003' }, condition: { EF000001: { operator: 'in', values: ['EV000001', 'EV000002'] } }, expected: false },
+  { name: 'in: fvalueB against JSON boolean', feature: { FEATUREID: 'EF000001', fvalueB: false }, condition: { EF000001: { operator: 'in', values: [false] } }, expected: true },
+  { name: 'in: no value in feature', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'in', values: ['EV000001'] } }, expected: false },
+  { name: 'in: null in the list', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'in', values: [null] } }, expected: false },
+  { name: 'in: no values', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'in' } }, expected: false },
+  { name: 'in: values is not an array', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'in', values: 'EV000001' } }, expected: 'error' },
+
+  // contains (ILIKE)
+  { name: 'contains: case insensitive', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Recessed mounting' }, condition: { EF000001: { operator: 'contains', value: 'RECESSED' } }, expected: true },
+  { name: 'contains: no match', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Surface' }, condition: { EF000001: { operator: 'contains', value: 'recessed' } }, expected: false },
+  { name: 'contains: % is a wildcard', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Wall recessed' }, condition: { EF000001: { operator: 'contains', value: 'wall%recessed' } }, expected: true },
+  { name: 'contains: _ is a wildcard', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'IP-65' }, condition: { EF000001: { operator: 'contains', value: 'IP_65' } }, expected: true },
+  { name: 'contains: escaped _', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'IP-65' }, condition: { EF000001: { operator: 'contains', value: 'IP\\_65' } }, expected: false },
+  { name: 'contains: regex characters are literal', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Ø 80 (round)' }, condition: { EF000001: { operator: 'contains', value: '(round)' } }, expected: true },
+  { name: 'contains: no description', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'contains', value: 'recessed' } }, expected: null },
+  { name: 'contains: no value', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Recessed' }, condition: { EF000001: { operator: 'contains' } }, expected: null },
+  { name: 'contains: trailing backslash escapes the closing %', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Data%' }, condition: { EF000001: { operator: 'contains', value: 'a\\' } }, expected: true },
+
+  // regex (~*)
+  { name: 'regex: case insensitive', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Recessed mounting' }, condition: { EF000001: { operator: 'regex', value: '^recessed' } }, expected: true },
+  { name: 'regex: anchored no match', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Wall recessed' }, condition: { EF000001: { operator: 'regex', value: '^recessed' } }, expected: false },
+  { name: 'regex: alternation', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Square' }, condition: { EF000001: { operator: 'regex', value: '^(round|square)$' } }, expected: true },
+  { name: 'regex: no description', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'regex', value: 'recessed' } }, expected: null },
+  { name: 'regex: invalid pattern', feature: { FEATUREID: 'EF000001', fvalueC_desc: 'Recessed' }, condition: { EF000001: { operator: 'regex', value: '(' } }, expected: 'error' },
+  { name: 'regex: invalid pattern, no description', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'regex', value: '(' } }, expected: null },
+
+  // not_exists is product level
+  { name: 'not_exists: false for a single feature', feature: { FEATUREID: 'EF000002' }, condition: { EF000001: { operator: 'not_exists' } }, expected: false },
+
+  // greater_than / less_than
+  { name: 'greater_than: above', feature: { FEATUREID: 'EF000001', fvalueN: 1200 }, condition: { EF000001: { operator: 'greater_than', value: 1000 } }, expected: true },
+  { name: 'greater_than: equal is not greater', feature: { FEATUREID: 'EF000001', fvalueN: 1000 }, condition: { EF000001: { operator: 'greater_than', value: '1000' } }, expected: false },
+  { name: 'greater_than: numeric, not text, order', feature: { FEATUREID: 'EF000001', fvalueN: 9 }, condition: { EF000001: { operator: 'greater_than', value: '10' } }, expected: false },
+  { name: 'greater_than: numeric string in feature', feature: { FEATUREID: 'EF000001', fvalueN: ' 12.5 ' }, condition: { EF000001: { operator: 'greater_than', value: 12 } }, expected: true },
+  { name: 'greater_than: no fvalueN', feature: { FEATUREID: 'EF000001', fvalueC: 'EV000001' }, condition: { EF000001: { operator: 'greater_than', value: 10 } }, expected: null },
+  { name: 'greater_than: no value', feature: { FEATUREID: 'EF000001', fvalueN: 10 }, condition: { EF000001: { operator: 'greater_than' } }, expected: null },
+  { name: 'greater_than: text value', feature: { FEATUREID: 'EF000001', fvalueN: 10 }, condition: { EF000001: { operator: 'greater_than', value: 'ten' } }, expected: 'error' },
+  { name: 'greater_than: text value, no fvalueN', feature: { FEATUREID: 'EF000001' }, condition: { EF000001: { operator: 'greater_than', value: 'ten' } }, expected: 'error' },
+  { name: 'greater_than: other feature skips the cast', feature: { FEATUREID: 'EF000002', fvalueN: 10 }, condition: { EF000001: { operator: 'greater_than', value: 'ten' } }, expected: false },
+  { name: 'less_than: below', feature: { FEATUREID: 'EF000001', fvalueN: -5 }, condition: { EF000001: { operator: 'less_than', value: 0 } }, expected: true },
+  { name: 'less_than: exponent notation', feature: { FEATUREID: 'EF000001', fvalueN: 2000 }, condition: { EF000001: { operator: 'less_than', value: '1e3' } }, expected: false },
+  { name: 'less_than: NaN is above everything', feature: { FEATUREID: 'EF000001', fvalueN: 'NaN' }, condition: { EF000001: { operator: 'less_than', value: 'Infinity' } }, expected: false },
+
+  // in_range (BETWEEN, inclusive)
+  { name: 'in_range: inside', feature: { FEATUREID: 'EF000001', fvalueN: 3000 }, condition: { EF000001: { operator: 'in_range', min: 2700, max: 4000 } }, expected: true },
+  { name: 'in_range: bounds are inclusive', feature: { FEATUREID: 'EF000001', fvalueN: 4000 }, condition: { EF000001: { operator: 'in_range', min: 2700, max: 4000 } }, expected: true },
+  { name: 'in_range: outside', feature: { FEATUREID: 'EF000001', fvalueN: 6500 }, condition: { EF000001: { operator: 'in_range', min: 2700, max: 4000 } }, expected: false },
+  { name: 'in_range: min above max', feature: { FEATUREID: 'EF000001', fvalueN: 3000 }, condition: { EF000001: { operator: 'in_range', min: 4000, max: 2700 } }, expected: false },
+  { name: 'in_range: value is ignored', feature: { FEATUREID: 'EF000001', fvalueN: 3000 }, condition: { EF000001: { operator: 'in_range', value: 3000 } }, expected: null },
+  { name: 'in_range: no max, above min', feature: { FEATUREID: 'EF000001', fvalueN: 3000 }, condition: { EF000001: { operator: 'in_range', min: 2700 } }, expected: null },
+  { name: 'in_range: no max, below min', feature: { FEATUREID: 'EF000001', fvalueN: 2000 }, condition: { EF000001: { operator: 'in_range', min: 2700 } }, expected: false },
+  { name: 'in_range: text max, below min', feature: { FEATUREID: 'EF000001', fvalueN: 2000 }, condition: { EF000001: { operator: 'in_range', min: 2700, max: 'high' } }, expected: false },
+  { name: 'in_range: text max, above min', feature: { FEATUREID: 'EF000001', fvalueN: 3000 }, condition: { EF000001: { operator: 'in_range', min: 2700, max: 'high' } }, expected: 'error' }
+]
+
+const EF1_EV1 = { FEATUREID: 'EF000001', fvalueC: 'EV000001' }
+const EF2_EV2 = { FEATUREID: 'EF000002', fvalueC: 'EV000002' }
+
+export const FEATURE_CONDITIONS_CONFORMANCE_CASES: FeatureConditionsConformanceCase[] = [
+  // Leaves: some feature matches
+  { name: 'leaf: second feature matches', features: [EF2_EV2, EF1_EV1], condition: { EF000001: { operator: 'equals', value: 'EV000001' } }, expected: true },
+  { name: 'leaf: no feature matches', features: [EF2_EV2], condition: { EF000001: { operator: 'exists' } }, expected: false },
+  { name: 'leaf: no features', features: null, condition: { EF000001: { operator: 'exists' } }, expected: false },
+  { name: 'leaf: empty features', features: [], condition: { EF000001: { operator: 'exists' } }, expected: false },
+  { name: 'leaf: not_equals needs the feature', features: [EF2_EV2], condition: { EF000001: { operator: 'not_equals', value: 'EV000001' } }, expected: false },
+  { name: 'leaf: error after a match is not reached', features: [{ FEATUREID: 'EF000001', fvalueN: 5 }, { FEATUREID: 'EF000001', fvalueN: 'x' }], condition: { EF000001: { operator: 'greater_than', value: 1 } }, expected: true },
+  { name: 'leaf: non-object condition', features: [EF1_EV1], condition: [] as unknown as FeatureCondition, expected: 'error' },
+
+  // not_exists
+  { name: 'not_exists: feature missing', features: [EF2_EV2], condition: { EF000001: { operator: 'not_exists' } }, expected: true },
+  { name: 'not_exists: feature present', features: [EF2_EV2, EF1_EV1], condition: { EF000001: { operator: 'not_exists' } }, expected: false },
+  { name: 'not_exists: no features', features: null, condition: { EF000001: { operator: 'not_exists' } }, expected: true },
+  { name: 'not_exists: feature without FEATUREID counts as present', features: [{ fvalueN: 5 }], condition: { EF000001: { operator: 'not_exists' } }, expected: false },
+
+  // all / any / not
+  { name: 'all: every condition matches', features: [EF1_EV1, EF2_EV2], condition: { all: [{ EF000001: { operator: 'exists' } }, { EF000002: { operator: 'equals', value: 'EV000002' } }] }, expected: true },
+  { name: 'all: one condition fails', features: [EF1_EV1], condition: { all: [{ EF000001: { operator: 'exists' } }, { EF000002: { operator: 'exists' } }] }, expected: false },
+  { name: 'all: empty list', features: null, condition: { all: [] }, expected: true },
+  { name: 'all: stops at the first failure', features: [{ FEATUREID: 'EF000001', fvalueN: 5 }], condition: { all: [{ EF000002: { operator: 'exists' } }, { EF000001: { operator: 'greater_than', value: 'ten' } }] }, expected: false },
+  { name: 'any: one condition matches', features: [EF2_EV2], condition: { any: [{ EF000001: { operator: 'exists' } }, { EF000002: { operator: 'exists' } }] }, expected: true },
+  { name: 'any: none matches', features: [EF2_EV2], condition: { any: [{ EF000001: { operator: 'exists' } }, { EF000002: { operator: 'equals', value: 'EV000001' } }] }, expected: false },
+  { name: 'any: empty list', features: [EF1_EV1], condition: { any: [] }, expected: false },
+  { name: 'any: stops at the first match', features: [{ FEATUREID: 'EF000001', fvalueN: 5 }], condition: { any: [{ EF000001: { operator: 'exists' } }, { EF000001: { operator: 'greater_than', value: 'ten' } }] }, expected: true },
+  { name: 'not: value is absent', features: [EF1_EV1], condition: { not: { EF000001: { operator: 'equals', value: 'EV000009' } } }, expected: true },
+  { name: 'not: value is present', features: [EF1_EV1], condition: { not: { EF000001: { operator: 'equals', value: 'EV000001' } } }, expected: false },
+  { name: 'not: no features', features: null, condition: { not: { EF000001: { operator: 'exists' } } }, expected: true },
+  { name: 'nested: all of any and not', features: [EF1_EV1, EF2_EV2], condition: { all: [{ any: [{ EF000003: { operator: 'exists' } }, { EF000001: { operator: 'in', values: ['EV000001'] } }] }, { not: { EF000002: { operator: 'regex', value: '^x' } } }] }, expected: true },
+  { name: 'all that is not an array is a feature key', features: [EF1_EV1], condition: { all: { operator: 'exists' } } as unknown as FeatureCondition, expected: false },
+  { name: 'not that is not an object is a feature key', features: [EF1_EV1], condition: { not: [{ EF000001: { operator: 'exists' } }] } as unknown as FeatureCondition, expected: false }
+]
+
+/**
+ * Run the cases against evaluateFeatureCondition() and evaluateFeatureConditions()
+ *
+ * @returns Names of the cases whose result differs from the SQL functions
+ */
+export function checkClassificationConformance(
+  cases: ConformanceCase[] = CLASSIFICATION_CONFORMANCE_CASES,
+  conditionsCases: FeatureConditionsConformanceCase[] = FEATURE_CONDITIONS_CONFORMANCE_CASES
+): string[] {
+  const failures: string[] = []
+  for (const testCase of cases) {
+    let actual: SqlBoolean | 'error'
+    try {
+      actual = evaluateFeatureCondition(testCase.feature, testCase.condition)
+    } catch {
+      actual = 'error'
+    }
+    if (actual !== testCase.expected) failures.push(testCase.name)
+  }
+  for (const testCase of conditionsCases) {
+    let actual: boolean | 'error'
+    try {
+      actual = evaluateFeatureConditions(testCase.features, testCase.condition)
+    } catch {
+      actual = 'error'
+    }
+    if (actual !== testCase.expected) failures.push(testCase.name)
+  }
+  return failures
+}
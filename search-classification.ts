@@ -0,0 +1,571 @@
+// =====================================================================
+// CLASSIFICATION RULE ENGINE
+// =====================================================================
+// TypeScript mirror of how search.product_taxonomy_flags is built from
+// search.classification_rules (sql/04-create-materialized-views.sql,
+// search.evaluate_feature_condition() and evaluate_feature_conditions() in
+// sql/28-extend-feature-condition-grammar.sql), so rule changes can be
+// previewed and checked without a database refresh.
+//
+// A rule matches a product when ANY of its non-null conditions match:
+//   etim_group_ids           product "group" is in the list
+//   etim_class_ids           product class is in the list
+//   etim_feature_conditions  the features satisfy the condition
+//   text_pattern             description_short or description_long ~* pattern
+//
+// etim_feature_conditions is a leaf, { "EF000001": { "operator": ... } },
+// which matches when some feature satisfies it (not_exists: when none has
+// the feature id), or { "all": [...] }, { "any": [...] }, { "not": {...} }.
+//
+// The SQL quirks are kept on purpose (the conformance cases in
+// search-classification-conformance.ts and sql/26 pin them):
+//   - Only the first key of a condition counts, in jsonb key order
+//     (shorter keys first, then byte order), not the order written
+//   - A feature without FEATUREID passes the feature id check
+//   - 'contains' is ILIKE: % and _ in the value are wildcards
+//   - Numeric operators cast with ::NUMERIC; a value that isn't a number
+//     throws, as it aborts the SQL refresh
+//   - A product matched only by flag rules has taxonomy_path null
+// text_pattern and the 'regex' operator run as JavaScript regexes with the
+// 'i' flag; POSIX-only syntax (\m, \M, [[:alpha:]]) is not supported.
+// =====================================================================
+
+import type { ValidationIssue } from './search-action-result'
+
+// =====================================================================
+// TYPE DEFINITIONS
+// =====================================================================
+
+/**
+ * Leaf operators of etim_feature_conditions
+ */
+export type FeatureConditionOperator =
+  | 'exists'
+  | 'not_exists'    // No feature with this id (product level)
+  | 'equals'
+  | 'not_equals'
+  | 'in'            // "values": list of fvalueC / fvalueB values
+  | 'contains'
+  | 'regex'         // POSIX regex on fvalueC_desc, case-insensitive
+  | 'greater_than'
+  | 'less_than'
+  | 'in_range'
+
+/**
+ * One feature test, e.g. { "EF006760": { "operator": "exists" } }
+ */
+export type FeatureLeafCondition = Record<string, {
+  operator: FeatureConditionOperator | string
+  value?: unknown
+  values?: unknown
+  min?: unknown
+  max?: unknown
+}>
+
+/**
+ * etim_feature_conditions: a leaf or a combination of conditions
+ */
+export type FeatureCondition =
+  | FeatureLeafCondition
+  | { all: FeatureCondition[] }
+  | { any: FeatureCondition[] }
+  | { not: FeatureCondition }
+
+/**
+ * Element of items.product_info.features
+ */
+export interface EtimFeature {
+  FEATUREID?: string | null
+  fvalueC?: unknown       // Alphanumeric value code (e.g. 'EV000123')
+  fvalueC_desc?: unknown  // Its description (e.g. 'Recessed')
+  fvalueN?: unknown       // Numeric value
+  fvalueB?: unknown       // Boolean value
+  [key: string]: unknown
+}
+
+/**
+ * Row of search.classification_rules (columns used for matching)
+ */
+export interface ClassificationRule {
+  rule_name: string
+  taxonomy_code: string | null
+  flag_name: string | null
+  priority?: number
+  etim_group_ids: string[] | null
+  etim_class_ids: string[] | null
+  etim_feature_conditions: FeatureCondition | null
+  text_pattern: string | null
+  active?: boolean | null  // Omitted = true (column default); false or null = skipped
+}
+
+/**
+ * Row of items.product_info (columns used for matching)
+ */
+export interface ClassifiableProduct {
+  product_id: string
+  foss_pid: string
+  group: string | null
+  class: string | null
+  features: EtimFeature[] | null
+  description_short: string | null
+  description_long: string | null
+}
+
+/**
+ * What a product's search.product_taxonomy_flags row would contain
+ */
+export interface ProductClassification {
+  product_id: string
+  foss_pid: string
+  taxonomy_path: string[] | null  // Distinct codes, sorted; null when only flag rules match
+  flags: string[]                 // Flag columns set to true, sorted
+  matched_rules: string[]         // rule_name of every matching rule, by priority
+}
+
+/**
+ * SQL three-valued result: null is NULL (treated as "no match" in WHERE)
+ */
+export type SqlBoolean = boolean | null
+
+// =====================================================================
+// CONSTANTS
+// =====================================================================
+
+// Flag columns of search.product_taxonomy_flags filled from rule flag_name
+// (sql/13-convert-taxonomy-flags-to-table.sql); other flag names are dropped.
+// decorative and special are computed columns, not rule flags.
+export const PRODUCT_FLAG_COLUMNS = [
+  'luminaire', 'lamp', 'driver', 'accessory',
+  'indoor', 'outdoor', 'submersible', 'trimless', 'cut_shape_round', 'cut_shape_rectangular',
+  'ceiling', 'wall', 'floor',
+  'recessed', 'surface_mounted', 'suspended',
+  'ceiling_recessed', 'ceiling_surface', 'ceiling_suspended',
+  'wall_recessed', 'wall_surface', 'floor_recessed', 'floor_surface',
+  'decorative_table', 'decorative_pendant', 'decorative_floor',
+  'led_strip', 'track_system', 'batten', 'pole_mounted',
+  'constant_current', 'constant_voltage', 'driver_accessory',
+  'filament', 'led_module',
+  'dimmable',
+  'accessory_track', 'accessory_strip', 'accessory_pole', 'accessory_optics',
+  'accessory_electrical', 'accessory_mechanical',
+  'track_profile', 'track_spare', 'optics_lens',
+  'electrical_boxes', 'electrical_connectors', 'mechanical_kits'
+] as const
+
+const FLAG_COLUMN_SET = new Set<string>(PRODUCT_FLAG_COLUMNS)
+
+export const FEATURE_CONDITION_OPERATORS: FeatureConditionOperator[] = [
+  'exists', 'not_exists', 'equals', 'not_equals', 'in', 'contains', 'regex',
+  'greater_than', 'less_than', 'in_range'
+]
+
+const ETIM_FEATURE_PATTERN = /^EF\d{6}$/
+
+// ::NUMERIC input syntax (surrounding whitespace allowed)
+const NUMERIC_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i
+const NUMERIC_SPECIAL: Record<string, number> = {
+  'nan': NaN,
+  'infinity': Infinity,
+  '+infinity': Infinity,
+  '-infinity': -Infinity
+}
+
+// =====================================================================
+// SQL VALUE HELPERS
+// =====================================================================
+
+/**
+ * jsonb ->> text: strings as is, other scalars as JSON text, null/missing as NULL
+ */
+function jsonText(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+/**
+ * text::NUMERIC, throwing like Postgres on invalid input
+ */
+function toNumeric(text: string | null): number | null {
+  if (text === null) return null
+  const trimmed = text.trim()
+  const special = NUMERIC_SPECIAL[trimmed.toLowerCase()]
+  if (special !== undefined) return special
+  if (!NUMERIC_PATTERN.test(trimmed)) {
+    throw new Error(`invalid input syntax for type numeric: "${text}"`)
+  }
+  return Number(trimmed)
+}
+
+/**
+ * NUMERIC ordering: NaN equals NaN and sorts above every other value
+ */
+function compareNumeric(a: number, b: number): number {
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    return Number.isNaN(a) === Number.isNaN(b) ? 0 : Number.isNaN(a) ? 1 : -1
+  }
+  return a === b ? 0 : a < b ? -1 : 1
+}
+
+function sqlOr(a: SqlBoolean, b: SqlBoolean): SqlBoolean {
+  if (a === true || b === true) return true
+  if (a === null || b === null) return null
+  return false
+}
+
+function sqlAnd(a: SqlBoolean, b: SqlBoolean): SqlBoolean {
+  if (a === false || b === false) return false
+  if (a === null || b === null) return null
+  return true
+}
+
+/**
+ * NUMERIC comparison of two texts; both are cast before NULL is checked
+ */
+function numericCompare(a: string | null, b: string | null, test: (order: number) => boolean): SqlBoolean {
+  const left = toNumeric(a)
+  const right = toNumeric(b)
+  return left === null || right === null ? null : test(compareNumeric(left, right))
+}
+
+function sqlEquals(a: string | null, b: string | null): SqlBoolean {
+  return a === null || b === null ? null : a === b
+}
+
+/**
+ * text ILIKE pattern (% any run, _ one character, \ escapes the next one)
+ */
+function ilike(text: string | null, pattern: string | null): SqlBoolean {
+  if (text === null || pattern === null) return null
+
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      if (i + 1 === pattern.length) throw new Error('LIKE pattern must not end with escape character')
+      source += escapeRegExp(pattern[++i])
+    } else if (char === '%') {
+      source += '[\\s\\S]*'
+    } else if (char === '_') {
+      source += '[\\s\\S]'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+  return new RegExp(`^${source}$`, 'iu').test(text)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+/**
+ * Keys in jsonb storage order (what jsonb_object_keys returns):
+ * shorter keys first (in UTF-8 bytes), then bytewise
+ */
+export function jsonbKeyOrder(keys: string[]): string[] {
+  const encoder = new TextEncoder()
+  const encoded = keys.map(key => ({ key, bytes: encoder.encode(key) }))
+  encoded.sort((a, b) => {
+    if (a.bytes.length !== b.bytes.length) return a.bytes.length - b.bytes.length
+    for (let i = 0; i < a.bytes.length; i++) {
+      if (a.bytes[i] !== b.bytes[i]) return a.bytes[i] - b.bytes[i]
+    }
+    return 0
+  })
+  return encoded.map(e => e.key)
+}
+
+// =====================================================================
+// EVALUATION
+// =====================================================================
+
+/**
+ * Feature id of a leaf condition: its first key in jsonb order
+ */
+function leafFeatureId(condition: FeatureLeafCondition | null): string | null {
+  if (condition !== null && (typeof condition !== 'object' || Array.isArray(condition))) {
+    throw new Error('cannot call jsonb_object_keys on a non-object condition')
+  }
+  return condition !== null ? jsonbKeyOrder(Object.keys(condition))[0] ?? null : null
+}
+
+/**
+ * search.evaluate_feature_condition(feature, condition): one leaf, one feature
+ *
+ * @returns true / false, or null where the SQL function returns NULL
+ * @throws When a numeric operator meets a value that isn't a number, on an
+ *         invalid regex, or when 'in' values isn't an array
+ */
+export function evaluateFeatureCondition(feature: EtimFeature, condition: FeatureLeafCondition | null): SqlBoolean {
+  const featureId = leafFeatureId(condition)
+
+  // IF feature->>'FEATUREID' != feature_id: a NULL comparison doesn't return
+  const actualId = jsonText(feature.FEATUREID)
+  if (actualId !== null && featureId !== null && actualId !== featureId) {
+    return false
+  }
+
+  const spec = featureId !== null ? condition![featureId] : undefined
+  const specObject = spec && typeof spec === 'object' && !Array.isArray(spec) ? spec : null
+  const operator = jsonText(specObject?.operator)
+  const expected = jsonText(specObject?.value)
+
+  switch (operator) {
+    case 'exists':
+      return true
+    case 'equals':
+      return sqlOr(sqlEquals(jsonText(feature.fvalueC), expected), sqlEquals(jsonText(feature.fvalueB), expected))
+    case 'not_equals':
+      return sqlOr(sqlEquals(jsonText(feature.fvalueC), expected), sqlEquals(jsonText(feature.fvalueB), expected)) !== true
+    case 'in': {
+      // jsonb_array_elements_text(COALESCE(values, '[]')): a JSON null or scalar throws
+      const values = specObject?.values === undefined ? [] : specObject.values
+      if (!Array.isArray(values)) throw new Error('cannot extract elements from a non-array values')
+      const actual = [jsonText(feature.fvalueC), jsonText(feature.fvalueB)]
+      return values.some(value => {
+        const text = jsonText(value)
+        return text !== null && actual.includes(text)
+      })
+    }
+    case 'contains':
+      return ilike(jsonText(feature.fvalueC_desc), expected === null ? null : `%${expected}%`)
+    case 'regex': {
+      // ~* is strict: the pattern is only compiled when both sides are non-NULL
+      const description = jsonText(feature.fvalueC_desc)
+      return description === null || expected === null ? null : new RegExp(expected, 'i').test(description)
+    }
+    case 'greater_than':
+      return numericCompare(jsonText(feature.fvalueN), expected, order => order > 0)
+    case 'less_than':
+      return numericCompare(jsonText(feature.fvalueN), expected, order => order < 0)
+    case 'in_range': {
+      // BETWEEN is x >= min AND x <= max: max is only cast when the first part isn't false
+      const actual = jsonText(feature.fvalueN)
+      const aboveMin = numericCompare(actual, jsonText(specObject?.min), order => order >= 0)
+      if (aboveMin === false) return false
+      return sqlAnd(aboveMin, numericCompare(actual, jsonText(specObject?.max), order => order <= 0))
+    }
+    default:
+      // Unknown operators, and not_exists (see evaluateFeatureConditions)
+      return false
+  }
+}
+
+/**
+ * search.evaluate_feature_conditions(features, condition): the whole
+ * condition against all features of a product
+ *
+ * @returns Whether the features satisfy the condition (never null)
+ * @throws Like evaluateFeatureCondition, or when features isn't an array
+ *         and a leaf has to look at it
+ */
+export function evaluateFeatureConditions(
+  features: EtimFeature[] | null,
+  condition: FeatureCondition | null
+): boolean {
+  // Combinators: children in order, stopping once the result is known
+  const node: Record<string, unknown> = isPlainObject(condition) ? condition : {}
+  if (Array.isArray(node.all)) {
+    return node.all.every(child => evaluateFeatureConditions(features, child))
+  }
+  if (Array.isArray(node.any)) {
+    return node.any.some(child => evaluateFeatureConditions(features, child))
+  }
+  if (isPlainObject(node.not)) {
+    return !evaluateFeatureConditions(features, node.not as FeatureCondition)
+  }
+
+  const leaf = condition as FeatureLeafCondition | null
+  const featureId = leafFeatureId(leaf)
+  if (features !== null && !Array.isArray(features)) {
+    throw new Error('cannot extract elements from a non-array features value')
+  }
+
+  if (featureId !== null && jsonText(leaf![featureId]?.operator) === 'not_exists') {
+    const exists: FeatureLeafCondition = { [featureId]: { operator: 'exists' } }
+    return !(features ?? []).some(feature => evaluateFeatureCondition(feature, exists) === true)
+  }
+
+  return (features ?? []).some(feature => evaluateFeatureCondition(feature, leaf) === true)
+}
+
+/**
+ * Whether a rule applies to a product (the WHERE clause of product_classifications)
+ *
+ * @throws On an invalid text_pattern or regex, or a non-numeric value under a numeric operator
+ */
+export function ruleMatchesProduct(rule: ClassificationRule, product: ClassifiableProduct): boolean {
+  if (rule.active === false || rule.active === null) return false
+
+  if (rule.etim_group_ids && product.group !== null && rule.etim_group_ids.includes(product.group)) {
+    return true
+  }
+
+  if (rule.etim_class_ids && product.class !== null && rule.etim_class_ids.includes(product.class)) {
+    return true
+  }
+
+  if (rule.etim_feature_conditions && evaluateFeatureConditions(product.features, rule.etim_feature_conditions)) {
+    return true
+  }
+
+  if (rule.text_pattern !== null && rule.text_pattern !== undefined) {
+    // ~* is strict: the pattern is only compiled for a non-NULL description
+    const descriptions = [product.description_short, product.description_long].filter(d => d !== null)
+    if (descriptions.length > 0) {
+      const pattern = new RegExp(rule.text_pattern, 'i')
+      if (descriptions.some(d => pattern.test(d!))) return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Taxonomy codes and flags one product would get from a set of rules
+ *
+ * @returns The product_taxonomy_flags row, or null when no rule matches
+ *          (the product then has no row)
+ */
+export function classifyProduct(
+  product: ClassifiableProduct,
+  rules: ClassificationRule[]
+): ProductClassification | null {
+  const matched = [...rules]
+    .sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100))
+    .filter(rule => ruleMatchesProduct(rule, product))
+
+  if (matched.length === 0) return null
+
+  const codes = new Set<string>()
+  const flags = new Set<string>()
+  for (const rule of matched) {
+    if (rule.taxonomy_code !== null) codes.add(rule.taxonomy_code)
+    if (rule.flag_name !== null && FLAG_COLUMN_SET.has(rule.flag_name)) flags.add(rule.flag_name)
+  }
+
+  return {
+    product_id: product.product_id,
+    foss_pid: product.foss_pid,
+    // Code point order (the SQL ORDER BY uses the database collation)
+    taxonomy_path: codes.size > 0 ? Array.from(codes).sort() : null,
+    flags: Array.from(flags).sort(),
+    matched_rules: matched.map(rule => rule.rule_name)
+  }
+}
+
+/**
+ * classifyProduct for many products; products without a row are left out
+ */
+export function classifyProducts(
+  products: ClassifiableProduct[],
+  rules: ClassificationRule[]
+): ProductClassification[] {
+  const results: ProductClassification[] = []
+  for (const product of products) {
+    const classification = classifyProduct(product, rules)
+    if (classification) results.push(classification)
+  }
+  return results
+}
+
+// =====================================================================
+// VALIDATION
+// =====================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Check an etim_feature_conditions value before it is saved or previewed.
+ * Rejects what the SQL functions would quietly treat as "no match" (unknown
+ * operator, missing value, extra feature keys, empty all/any) or fail on
+ * (non-numeric bounds, 'in' without a list). Combinators are checked
+ * recursively.
+ *
+ * @param condition - etim_feature_conditions value
+ * @param field - Field name used in the issues
+ * @returns One issue per problem (empty when valid)
+ */
+export function validateFeatureCondition(
+  condition: unknown,
+  field = 'etim_feature_conditions'
+): ValidationIssue[] {
+  if (!isPlainObject(condition)) {
+    return [{ field, message: 'must be an object keyed by ETIM feature id, or all / any / not' }]
+  }
+
+  const keys = Object.keys(condition)
+  if (keys.length !== 1) {
+    return [{ field, message: 'must name exactly one feature or combinator (only the first key in jsonb order is used)' }]
+  }
+
+  const [key] = keys
+  if (key === 'all' || key === 'any') {
+    const children = condition[key]
+    if (!Array.isArray(children) || children.length === 0) {
+      return [{ field: `${field}.${key}`, message: 'must be a non-empty array of conditions' }]
+    }
+    return children.flatMap((child, i) => validateFeatureCondition(child, `${field}.${key}[${i}]`))
+  }
+  if (key === 'not') {
+    return validateFeatureCondition(condition.not, `${field}.not`)
+  }
+
+  const issues: ValidationIssue[] = []
+  const featureId = key
+  const at = `${field}.${featureId}`
+  if (!ETIM_FEATURE_PATTERN.test(featureId)) {
+    issues.push({ field: at, message: 'must be an ETIM feature id (EF + 6 digits)' })
+  }
+
+  const spec = condition[featureId]
+  if (!isPlainObject(spec)) {
+    return [...issues, { field: at, message: 'must be an object with an operator' }]
+  }
+
+  const operator = spec.operator
+  if (typeof operator !== 'string' || !(FEATURE_CONDITION_OPERATORS as string[]).includes(operator)) {
+    return [...issues, { field: `${at}.operator`, message: `must be one of: ${FEATURE_CONDITION_OPERATORS.join(', ')}` }]
+  }
+
+  switch (operator) {
+    case 'equals':
+    case 'not_equals':
+      if (typeof spec.value !== 'string' && typeof spec.value !== 'boolean') {
+        issues.push({ field: `${at}.value`, message: 'must be a value code (fvalueC) or a boolean' })
+      }
+      break
+    case 'in':
+      if (!Array.isArray(spec.values) || spec.values.length === 0
+          || !spec.values.every(value => typeof value === 'string' || typeof value === 'boolean')) {
+        issues.push({ field: `${at}.values`, message: 'must be a non-empty array of value codes (fvalueC) or booleans' })
+      }
+      break
+    case 'contains':
+    case 'regex':
+      if (typeof spec.value !== 'string' || !spec.value) {
+        issues.push({ field: `${at}.value`, message: 'must be a non-empty string' })
+      }
+      break
+    case 'greater_than':
+    case 'less_than':
+      if (!isFiniteNumber(spec.value)) {
+        issues.push({ field: `${at}.value`, message: 'must be a number' })
+      }
+      break
+    case 'in_range':
+      if (!isFiniteNumber(spec.min) || !isFiniteNumber(spec.max)) {
+        issues.push({ field: at, message: 'min and max must be numbers' })
+      } else if (spec.min > spec.max) {
+        issues.push({ field: at, message: 'min must not exceed max' })
+      }
+      break
+  }
+
+  return issues
+}
@@ -0,0 +1,149 @@
+// =====================================================================
+// KEYSET CURSOR FOR search_products_v3
+// =====================================================================
+// The cursor is an opaque base64url token holding the sort key, the sort
+// value of the last row shown and its product_id. search_products_v3
+// continues strictly after that row (see sql/16-add-keyset-pagination-v3.sql).
+//
+// Callers must treat the token as opaque: pass back nextCursor unchanged.
+// =====================================================================
+
+/**
+ * p_sort_by values accepted by search_products_v3 (sql/23-extend-v3-sort-options.sql).
+ * Column sorts come in _asc / _desc pairs; product_id ASC breaks ties.
+ */
+export const V3_SORT_OPTIONS = [
+  'relevance',
+  'name',
+  'price_asc', 'price_desc',
+  'lumens_output_asc', 'lumens_output_desc',
+  'cct_asc', 'cct_desc',
+  'voltage_asc', 'voltage_desc',
+  'supplier_asc', 'supplier_desc',
+  'foss_pid_asc', 'foss_pid_desc'
+] as const
+
+export type V3SortOption = typeof V3_SORT_OPTIONS[number]
+
+/**
+ * Column the v3 ORDER BY is based on for a given sortBy / query combination.
+ * 'relevance' without a query falls back to foss_pid ordering in SQL, and
+ * foss_pid_asc uses the same key so its tokens stay interchangeable.
+ */
+export type CursorSortKey =
+  | 'rank'
+  | 'foss_pid'
+  | Exclude<V3SortOption, 'relevance' | 'foss_pid_asc'>
+
+export interface SearchCursor {
+  sortKey: CursorSortKey
+  sortValue: string | null  // Value of the sort column in the last row
+  productId: string
+}
+
+/**
+ * Minimal row shape needed to build the next cursor
+ */
+interface CursorRow {
+  product_id: string
+  foss_pid: string
+  description_short: string | null
+  supplier_name: string | null
+  price: number | null
+  lumens_output: number | null
+  cct: number | null
+  voltage: number | null
+  relevance_score: number
+}
+
+const CURSOR_SORT_KEYS: CursorSortKey[] = [
+  'rank', 'foss_pid',
+  ...V3_SORT_OPTIONS.filter((o): o is Exclude<V3SortOption, 'relevance' | 'foss_pid_asc'> =>
+    o !== 'relevance' && o !== 'foss_pid_asc')
+]
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Map sortBy + query to the effective sort column (mirrors the ORDER BY
+ * branches in search_products_v3)
+ */
+export function getCursorSortKey(sortBy: string | undefined, hasQuery: boolean): CursorSortKey {
+  switch (sortBy) {
+    case 'relevance':
+    case undefined:
+      return hasQuery ? 'rank' : 'foss_pid'
+    case 'foss_pid_asc':
+      return 'foss_pid'
+    default:
+      return CURSOR_SORT_KEYS.includes(sortBy as CursorSortKey) ? sortBy as CursorSortKey : 'foss_pid'
+  }
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const payload = JSON.stringify([cursor.sortKey, cursor.sortValue, cursor.productId])
+  return Buffer.from(payload, 'utf8').toString('base64url')
+}
+
+/**
+ * Decode a cursor token
+ *
+ * @returns The cursor, or null when the token is malformed
+ */
+export function decodeSearchCursor(token: string): SearchCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    if (!Array.isArray(payload) || payload.length !== 3) return null
+
+    const [sortKey, sortValue, productId] = payload
+    if (!CURSOR_SORT_KEYS.includes(sortKey)) return null
+    if (sortValue !== null && typeof sortValue !== 'string') return null
+    if (typeof productId !== 'string' || !UUID_PATTERN.test(productId)) return null
+
+    return { sortKey, sortValue, productId }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the cursor pointing after the given row
+ */
+export function cursorAfterRow(row: CursorRow, sortKey: CursorSortKey): string {
+  let sortValue: string | number | null
+  switch (sortKey) {
+    case 'rank':
+      sortValue = row.relevance_score
+      break
+    case 'name':
+      sortValue = row.description_short
+      break
+    case 'price_asc':
+    case 'price_desc':
+      sortValue = row.price
+      break
+    case 'lumens_output_asc':
+    case 'lumens_output_desc':
+      sortValue = row.lumens_output
+      break
+    case 'cct_asc':
+    case 'cct_desc':
+      sortValue = row.cct
+      break
+    case 'voltage_asc':
+    case 'voltage_desc':
+      sortValue = row.voltage
+      break
+    case 'supplier_asc':
+    case 'supplier_desc':
+      sortValue = row.supplier_name
+      break
+    default:
+      sortValue = row.foss_pid
+  }
+
+  return encodeSearchCursor({
+    sortKey,
+    sortValue: sortValue === null || sortValue === undefined ? null : String(sortValue),
+    productId: row.product_id
+  })
+}
@@ -0,0 +1,389 @@
+// =====================================================================
+// SPREADSHEET EXPORT (CSV / XLSX)
+// =====================================================================
+// Turns search.product_search rows into a CSV or XLSX file for tenders.
+// The XLSX writer is dependency-free: a single worksheet with inline
+// strings, packed into an uncompressed (stored) zip archive.
+//
+// buildCsv / buildXlsx take every row at once; streamCsv / streamXlsx
+// write batches as they arrive (for a route handler streaming the file).
+// =====================================================================
+
+import type { SearchProductV3 } from './search-actions'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+/**
+ * search.product_search columns that can be exported
+ */
+export type ExportColumn = Exclude<keyof SearchProductV3, 'relevance_score'>
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string }[] = [
+  { key: 'foss_pid', label: 'Product Code' },
+  { key: 'description_short', label: 'Description' },
+  { key: 'description_long', label: 'Long Description' },
+  { key: 'supplier_name', label: 'Supplier' },
+  { key: 'class_name', label: 'ETIM Class' },
+  { key: 'price', label: 'Price' },
+  { key: 'voltage', label: 'Voltage (V)' },
+  { key: 'cct', label: 'CCT (K)' },
+  { key: 'cri', label: 'CRI' },
+  { key: 'lumens_output', label: 'Luminous Flux (lm)' },
+  { key: 'ip_rating', label: 'IP Rating' },
+  { key: 'protection_class', label: 'Protection Class' },
+  { key: 'beam_angle_type', label: 'Beam Angle' },
+  { key: 'light_source', label: 'Light Source' },
+  { key: 'light_distribution', label: 'Light Distribution' },
+  { key: 'finishing_colour', label: 'Finishing Colour' },
+  { key: 'indoor', label: 'Indoor' },
+  { key: 'outdoor', label: 'Outdoor' },
+  { key: 'ceiling', label: 'Ceiling' },
+  { key: 'wall', label: 'Wall' },
+  { key: 'recessed', label: 'Recessed' },
+  { key: 'dimmable', label: 'Dimmable' },
+  { key: 'submersible', label: 'Submersible' },
+  { key: 'trimless', label: 'Trimless' },
+  { key: 'cut_shape_round', label: 'Round Cut-out' },
+  { key: 'cut_shape_rectangular', label: 'Rectangular Cut-out' },
+  { key: 'taxonomy_path', label: 'Categories' },
+  { key: 'image_url', label: 'Image URL' },
+  { key: 'product_id', label: 'Product ID' }
+]
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  'foss_pid', 'description_short', 'supplier_name', 'price',
+  'voltage', 'cct', 'cri', 'lumens_output', 'ip_rating', 'finishing_colour'
+]
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+type ExportRow = Pick<SearchProductV3, ExportColumn>
+type CellValue = string | number | null
+
+function columnLabel(key: ExportColumn): string {
+  return EXPORT_COLUMNS.find(c => c.key === key)?.label ?? key
+}
+
+/**
+ * Spreadsheet value for a column: numbers stay numeric, flags become
+ * Yes/No and the taxonomy path a comma-separated list
+ */
+function cellValue(row: ExportRow, key: ExportColumn): CellValue {
+  const value = row[key]
+  if (value === null || value === undefined) return null
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.join(', ')
+  if (key === 'price' || key === 'voltage' || key === 'cct' || key === 'lumens_output') {
+    const num = Number(value)
+    return isFinite(num) ? num : String(value)
+  }
+  return String(value)
+}
+
+// =====================================================================
+// CSV
+// =====================================================================
+
+/**
+ * RFC 4180 CSV with a UTF-8 BOM (Excel otherwise misreads Greek text).
+ * Text starting with = + - @ is prefixed with ' so spreadsheet apps
+ * don't evaluate supplier data as formulas.
+ */
+export function buildCsv(rows: ExportRow[], columns: ExportColumn[]): string {
+  return csvHeader(columns) + rows.map(row => csvRow(row, columns)).join('')
+}
+
+/**
+ * buildCsv, one chunk per batch of rows
+ */
+export async function* streamCsv(
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[]
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder()
+  yield encoder.encode(csvHeader(columns))
+  for await (const rows of batches) {
+    if (rows.length > 0) yield encoder.encode(rows.map(row => csvRow(row, columns)).join(''))
+  }
+}
+
+function csvEscape(value: CellValue): string {
+  if (value === null) return ''
+  if (typeof value === 'number') return String(value)
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// BOM + header line
+function csvHeader(columns: ExportColumn[]): string {
+  return '\uFEFF' + columns.map(key => csvEscape(columnLabel(key))).join(',') + '\r\n'
+}
+
+function csvRow(row: ExportRow, columns: ExportColumn[]): string {
+  return columns.map(key => csvEscape(cellValue(row, key))).join(',') + '\r\n'
+}
+
+// =====================================================================
+// XLSX
+// =====================================================================
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+
+// 0 -> 'A', 26 -> 'AA'
+function columnLetter(index: number): string {
+  let letter = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter
+  }
+  return letter
+}
+
+function sheetCell(ref: string, value: CellValue): string {
+  if (value === null) return ''
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+// Worksheet up to and including the header row
+function sheetXmlHead(columns: ExportColumn[]): string {
+  const header = columns.map((key, i) => sheetCell(`${columnLetter(i)}1`, columnLabel(key))).join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData><row r="1">${header}</row>`
+}
+
+function sheetRow(row: ExportRow, columns: ExportColumn[], rowNumber: number): string {
+  return `<row r="${rowNumber}">` +
+    columns.map((key, i) => sheetCell(`${columnLetter(i)}${rowNumber}`, cellValue(row, key))).join('') +
+    '</row>'
+}
+
+const SHEET_XML_TAIL = '</sheetData></worksheet>'
+const SHEET_PATH = 'xl/worksheets/sheet1.xml'
+
+/**
+ * Single-sheet XLSX workbook ("Products") with a frozen header row
+ */
+export function buildXlsx(rows: ExportRow[], columns: ExportColumn[]): Uint8Array<ArrayBuffer> {
+  const sheetXml = sheetXmlHead(columns) + rows.map((row, r) => sheetRow(row, columns, r + 2)).join('') + SHEET_XML_TAIL
+  return zipStored({ ...XLSX_PACKAGE_FILES, [SHEET_PATH]: sheetXml })
+}
+
+/**
+ * buildXlsx written as batches of rows arrive. The worksheet is the last
+ * zip entry; its CRC and size follow the data (data descriptor), so no
+ * more than one batch is held in memory.
+ */
+export async function* streamXlsx(
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[]
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder()
+  const entries: ZipEntry[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(XLSX_PACKAGE_FILES)) {
+    const data = encoder.encode(content)
+    const entry: ZipEntry = { name: encoder.encode(name), crc: crc32(data), size: data.length, offset, streamed: false }
+    const header = localFileHeader(entry)
+    entries.push(entry)
+    offset += header.length + data.length
+    yield header
+    yield data
+  }
+
+  const sheet: ZipEntry = { name: encoder.encode(SHEET_PATH), crc: 0, size: 0, offset, streamed: true }
+  const header = localFileHeader(sheet)
+  entries.push(sheet)
+  offset += header.length
+  yield header
+
+  const write = (text: string): Uint8Array => {
+    const bytes = encoder.encode(text)
+    sheet.crc = crc32(bytes, sheet.crc)
+    sheet.size += bytes.length
+    return bytes
+  }
+
+  yield write(sheetXmlHead(columns))
+  let rowNumber = 2
+  for await (const rows of batches) {
+    if (rows.length > 0) yield write(rows.map(row => sheetRow(row, columns, rowNumber++)).join(''))
+  }
+  yield write(SHEET_XML_TAIL)
+
+  const descriptor = dataDescriptor(sheet)
+  offset += sheet.size + descriptor.length
+  yield descriptor
+  yield centralDirectory(entries, offset)
+}
+
+/**
+ * streamCsv or streamXlsx
+ */
+export function streamSpreadsheet(
+  format: ExportFormat,
+  batches: AsyncIterable<ExportRow[]>,
+  columns: ExportColumn[]
+): AsyncGenerator<Uint8Array> {
+  return format === 'xlsx' ? streamXlsx(batches, columns) : streamCsv(batches, columns)
+}
+
+// Every workbook part except the worksheet
+const XLSX_PACKAGE_FILES: Record<string, string> = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Products" sheetId="1" r:id="rId1"/></sheets>' +
+    '</workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>'
+}
+
+// ---------------------------------------------------------------------
+// Minimal zip writer (stored entries, no compression)
+// ---------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+// Pass the previous result to continue a checksum over several chunks
+function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+interface ZipEntry {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number     // Of the local file header
+  streamed: boolean  // CRC and size follow the data in a data descriptor
+}
+
+const DOS_DATE = 0x21 // 1980-01-01, time 00:00
+
+// UTF-8 names, plus bit 3 when a data descriptor follows
+const entryFlags = (entry: ZipEntry) => 0x0800 | (entry.streamed ? 0x0008 : 0)
+
+function localFileHeader(entry: ZipEntry): Uint8Array {
+  const local = new DataView(new ArrayBuffer(30))
+  local.setUint32(0, 0x04034b50, true)  // Local file header signature
+  local.setUint16(4, 20, true)           // Version needed
+  local.setUint16(6, entryFlags(entry), true)
+  local.setUint16(8, 0, true)            // Stored
+  local.setUint16(10, 0, true)
+  local.setUint16(12, DOS_DATE, true)
+  if (!entry.streamed) {
+    local.setUint32(14, entry.crc, true)
+    local.setUint32(18, entry.size, true)
+    local.setUint32(22, entry.size, true)
+  }
+  local.setUint16(26, entry.name.length, true)
+  local.setUint16(28, 0, true)
+  return concatBytes([new Uint8Array(local.buffer), entry.name])
+}
+
+function dataDescriptor(entry: ZipEntry): Uint8Array {
+  const descriptor = new DataView(new ArrayBuffer(16))
+  descriptor.setUint32(0, 0x08074b50, true)  // Data descriptor signature
+  descriptor.setUint32(4, entry.crc, true)
+  descriptor.setUint32(8, entry.size, true)
+  descriptor.setUint32(12, entry.size, true)
+  return new Uint8Array(descriptor.buffer)
+}
+
+// Central directory and end record; offset is where the directory starts
+function centralDirectory(entries: ZipEntry[], offset: number): Uint8Array {
+  const central: Uint8Array[] = []
+  for (const entry of entries) {
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)  // Central directory signature
+    header.setUint16(4, 20, true)           // Version made by
+    header.setUint16(6, 20, true)
+    header.setUint16(8, entryFlags(entry), true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, 0, true)
+    header.setUint16(14, DOS_DATE, true)
+    header.setUint32(16, entry.crc, true)
+    header.setUint32(20, entry.size, true)
+    header.setUint32(24, entry.size, true)
+    header.setUint16(28, entry.name.length, true)
+    header.setUint32(42, entry.offset, true)  // Local header offset (other fields 0)
+    central.push(new Uint8Array(header.buffer), entry.name)
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)      // End of central directory signature
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return concatBytes([...central, new Uint8Array(end.buffer)])
+}
+
+function zipStored(files: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const entries: ZipEntry[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = encoder.encode(content)
+    const entry: ZipEntry = { name: encoder.encode(name), crc: crc32(data), size: data.length, offset, streamed: false }
+    const header = localFileHeader(entry)
+    entries.push(entry)
+    parts.push(header, data)
+    offset += header.length + data.length
+  }
+
+  return concatBytes([...parts, centralDirectory(entries, offset)])
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    out.set(part, position)
+    position += part.length
+  }
+  return out
+}
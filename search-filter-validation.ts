@@ -0,0 +1,284 @@
+// =====================================================================
+// FILTER VALIDATION - DRIVEN BY search.filter_definitions
+// =====================================================================
+// Validates the p_filters JSONB object of the v3 search functions against
+// the active filter definitions instead of hard-coded ranges. Each key is
+// checked according to its filter_type and ui_config, and every rejected
+// value is reported as a per-key ValidationIssue (nothing is silently
+// dropped).
+//
+// When definitions are not available (RPC failed), only the value shapes
+// are checked so that search keeps working.
+// =====================================================================
+
+import type { ValidationIssue } from './search-action-result'
+
+// =====================================================================
+// TYPE DEFINITIONS
+// =====================================================================
+
+/**
+ * Value of a single technical filter in p_filters:
+ * - categorical filters (ip, class, cri, ...): array of selected values
+ * - range filters (cct, lumens_output, voltage): { min, max }
+ * - boolean filters (dimmable): true / false
+ */
+export type FilterValueV3 = string[] | { min?: number; max?: number } | boolean
+
+/**
+ * Row returned by get_active_filter_definitions()
+ */
+export interface FilterDefinitionRecord {
+  filter_key: string
+  label: string
+  filter_type: string  // 'range' | 'multi-select' | 'categorical' | 'boolean' | legacy names
+  etim_feature_id: string | null
+  ui_config: {
+    min?: number
+    max?: number
+    step?: number
+    unit?: string
+    pattern?: string
+    [key: string]: unknown
+  } | null
+  applicable_taxonomy_codes: string[] | null
+  display_order: number
+}
+
+/**
+ * Validation kinds from the filter_definitions.filter_type comment
+ */
+export type FilterValidationKind = 'numeric_range' | 'alphanumeric' | 'boolean'
+
+/**
+ * Validated value plus the list of rejected inputs
+ */
+export type ValidationOutcome<T> = {
+  filters: T
+  issues: ValidationIssue[]
+}
+
+// =====================================================================
+// HELPERS
+// =====================================================================
+
+const FILTER_KEY_PATTERN = /^[a-z0-9_]{1,50}$/
+const MAX_VALUES_PER_FILTER = 50
+const MAX_VALUE_LENGTH = 100
+
+/**
+ * Map the filter_type names used across migrations to a validation kind.
+ * Older rows use 'numeric_range' / 'alphanumeric', newer ones the UI names
+ * ('range', 'multi-select', 'categorical').
+ */
+export function getFilterValidationKind(filterType: string): FilterValidationKind | null {
+  switch (filterType) {
+    case 'numeric_range':
+    case 'range':
+    case 'numeric':
+      return 'numeric_range'
+    case 'alphanumeric':
+    case 'multi-select':
+    case 'categorical':
+      return 'alphanumeric'
+    case 'boolean':
+      return 'boolean'
+    default:
+      return null
+  }
+}
+
+/**
+ * Check a bound against ui_config min/max. ui_config.step only sets the
+ * slider increment: typed values in between (2750 K) are valid.
+ *
+ * @returns Problem description, or null when the value is acceptable
+ */
+export function checkRangeBound(
+  value: number,
+  uiConfig: NonNullable<FilterDefinitionRecord['ui_config']>
+): string | null {
+  const unit = uiConfig.unit ? ` ${uiConfig.unit}` : ''
+
+  if (typeof uiConfig.min === 'number' && value < uiConfig.min) {
+    return `must be at least ${uiConfig.min}${unit}`
+  }
+  if (typeof uiConfig.max === 'number' && value > uiConfig.max) {
+    return `must be at most ${uiConfig.max}${unit}`
+  }
+  return null
+}
+
+function validateRange(
+  field: string,
+  value: unknown,
+  uiConfig: FilterDefinitionRecord['ui_config'],
+  issues: ValidationIssue[]
+): FilterValueV3 | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ field, message: 'must be a { min, max } range' })
+    return undefined
+  }
+
+  const input = value as { min?: unknown; max?: unknown }
+  const range: { min?: number; max?: number } = {}
+  let valid = true
+
+  for (const bound of ['min', 'max'] as const) {
+    if (input[bound] === undefined || input[bound] === null) continue
+    const val = Number(input[bound])
+    if (!Number.isFinite(val)) {
+      issues.push({ field: `${field}.${bound}`, message: 'must be a number' })
+      valid = false
+      continue
+    }
+    const problem = uiConfig ? checkRangeBound(val, uiConfig) : null
+    if (problem) {
+      issues.push({ field: `${field}.${bound}`, message: problem })
+      valid = false
+      continue
+    }
+    range[bound] = val
+  }
+
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    issues.push({ field, message: 'min must not be greater than max' })
+    return undefined
+  }
+
+  if (!valid || (range.min === undefined && range.max === undefined)) {
+    return undefined
+  }
+  return range
+}
+
+function validateValues(
+  field: string,
+  value: unknown,
+  uiConfig: FilterDefinitionRecord['ui_config'],
+  issues: ValidationIssue[]
+): FilterValueV3 | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ field, message: 'must be an array of values' })
+    return undefined
+  }
+  if (value.length > MAX_VALUES_PER_FILTER) {
+    issues.push({ field, message: `must not have more than ${MAX_VALUES_PER_FILTER} values` })
+    return undefined
+  }
+
+  let pattern: RegExp | null = null
+  if (uiConfig?.pattern) {
+    try {
+      pattern = new RegExp(uiConfig.pattern, 'i')
+    } catch {
+      // Broken pattern in ui_config - don't reject user input because of it
+      console.error(`Invalid ui_config.pattern for ${field}:`, uiConfig.pattern)
+    }
+  }
+
+  const values: string[] = []
+  const invalid: string[] = []
+  for (const v of value) {
+    if (typeof v !== 'string' || v.trim().length === 0 || v.length > MAX_VALUE_LENGTH) {
+      invalid.push(String(v))
+    } else if (pattern && !pattern.test(v.trim())) {
+      invalid.push(v)
+    } else {
+      values.push(v.trim())
+    }
+  }
+
+  if (invalid.length > 0) {
+    issues.push({ field, message: `invalid value(s): ${invalid.slice(0, 5).join(', ')}` })
+    return undefined
+  }
+  return values.length > 0 ? values : undefined
+}
+
+/**
+ * Shape-only check used when no definition is available for a key
+ */
+function inferKind(value: unknown): FilterValidationKind | null {
+  if (Array.isArray(value)) return 'alphanumeric'
+  if (typeof value === 'boolean') return 'boolean'
+  if (value && typeof value === 'object') return 'numeric_range'
+  return null
+}
+
+// =====================================================================
+// VALIDATION
+// =====================================================================
+
+/**
+ * Validate a p_filters object against filter definitions
+ *
+ * @param input - Untrusted p_filters object keyed by filter_key
+ * @param definitions - Active filter definitions, or null to check shapes only
+ * @returns Well-formed filters and one issue per rejected key/bound
+ */
+export function validateTechnicalFilters(
+  input: unknown,
+  definitions: FilterDefinitionRecord[] | null
+): ValidationOutcome<Record<string, FilterValueV3>> {
+  const filters: Record<string, FilterValueV3> = {}
+  const issues: ValidationIssue[] = []
+
+  if (input === undefined || input === null) {
+    return { filters, issues }
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    issues.push({ field: 'filters', message: 'must be an object keyed by filter_key' })
+    return { filters, issues }
+  }
+
+  const byKey = new Map((definitions ?? []).map(d => [d.filter_key, d]))
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    const field = `filters.${key}`
+
+    if (!FILTER_KEY_PATTERN.test(key)) {
+      issues.push({ field, message: 'invalid filter key' })
+      continue
+    }
+
+    const definition = byKey.get(key)
+    if (definitions && !definition) {
+      issues.push({ field, message: 'unknown or inactive filter' })
+      continue
+    }
+
+    const kind = definition ? getFilterValidationKind(definition.filter_type) : inferKind(value)
+    const uiConfig = definition?.ui_config ?? null
+    let validated: FilterValueV3 | undefined
+
+    switch (kind) {
+      case 'numeric_range':
+        validated = validateRange(field, value, uiConfig, issues)
+        break
+      case 'alphanumeric':
+        validated = validateValues(field, value, uiConfig, issues)
+        break
+      case 'boolean':
+        if (typeof value === 'boolean') {
+          validated = value
+        } else {
+          issues.push({ field, message: 'must be true or false' })
+        }
+        break
+      default:
+        issues.push({
+          field,
+          message: definition
+            ? `unsupported filter_type '${definition.filter_type}'`
+            : 'must be an array, a { min, max } range or a boolean'
+        })
+    }
+
+    if (validated !== undefined) {
+      filters[key] = validated
+    }
+  }
+
+  return { filters, issues }
+}
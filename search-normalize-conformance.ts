@@ -0,0 +1,82 @@
+// =====================================================================
+// SEARCH TEXT NORMALISATION CORPUS
+// =====================================================================
+// Pins normalizeSearchText() (search-normalize.ts) to
+// search.normalize_search_text() (sql/25) on real product wording:
+// accented and capital Greek, Greeklish, English, and mixed-script text.
+// The same inputs and expected outputs are checked against the database
+// by sql/30-test-search-text-normalization.sql; keep both lists identical.
+//
+// Run both sides after changing either function:
+//   checkSearchTextNormalization()              -> [] when the TS side agrees
+//   sql/30-test-search-text-normalization       -> no rows when the SQL agrees
+// npm test (tests/search-normalize.test.ts) runs the first and fails when
+// the corpus here and in sql/30 differ.
+// =====================================================================
+
+import { normalizeSearchText } from './search-normalize'
+
+export interface NormalizationCase {
+  input: string
+  expected: string  // What search.normalize_search_text() returns
+}
+
+export const SEARCH_TEXT_CORPUS: NormalizationCase[] = [
+  // Greek, accented
+  { input: 'Φωτιστικό οροφής LED 3000K', expected: 'fotistiko orofis led 3000k' },
+  { input: 'Χωνευτό σποτ IP65', expected: 'chonevto spot ip65' },
+  { input: 'Προβολέας εξωτερικού χώρου', expected: 'provoleas exoterikou chorou' },
+  { input: 'Ψυχρό λευκό 6500K', expected: 'psychro levko 6500k' },
+  { input: 'Απλίκα τοίχου μαύρη', expected: 'aplika toichou mavri' },
+  { input: 'Γραμμικό φωτιστικό αλουμινίου', expected: 'grammiko fotistiko alouminiou' },
+  { input: 'Ταινία LED 24V θερμό λευκό', expected: 'tainia led 24v thermo levko' },
+  { input: 'Κρεμαστό φωτιστικό ράγας', expected: 'kremasto fotistiko ragas' },
+  { input: 'Επιφανειακό στεγανό IP66', expected: 'epifaneiako stegano ip66' },
+  { input: 'Φωτεινός δακτύλιος', expected: 'foteinos daktylios' },
+  { input: 'Ρυθμιζόμενη δέσμη 24°-60°', expected: 'rythmizomeni desmi 24°-60°' },
+  { input: 'Τροφοδοτικό σταθερής τάσης 24V DC', expected: 'trofodotiko statheris tasis 24v dc' },
+  { input: 'Ποδαρικό ψηλό δαπέδου', expected: 'podariko psilo dapedou' },
+  { input: 'Διακόπτης αφής ντίμερ', expected: 'diakoptis afis ntimer' },
+
+  // Greek, diaeresis
+  { input: 'Προϊόντα εξωτερικού χώρου', expected: 'proionta exoterikou chorou' },
+  { input: 'Ευρωπαϊκό πρότυπο', expected: 'evropaiko protypo' },
+
+  // Greek, unaccented capitals (final sigma from toLowerCase / lower())
+  { input: 'ΦΩΤΙΣΤΙΚΟ ΟΡΟΦΗΣ', expected: 'fotistiko orofis' },
+  { input: 'ΑΛΟΥΜΙΝΙΟ ΜΑΥΡΟ ΜΑΤ', expected: 'alouminio mavro mat' },
+  { input: 'ΛΑΜΠΤΗΡΑΣ LED E27 9W', expected: 'lamptiras led e27 9w' },
+  { input: 'ΧΩΝΕΥΤΟ ΣΠΟΤ', expected: 'chonevto spot' },
+
+  // Mixed script
+  { input: 'LΕD Downlight', expected: 'led downlight' },  // Greek Epsilon
+  { input: 'Μοντέλο DALI-2 dimmable', expected: 'montelo dali-2 dimmable' },
+  { input: 'Προφίλ αλουμινίου για LED strip', expected: 'profil alouminiou gia led strip' },
+
+  // English and Latin accents
+  { input: 'Recessed downlight 3000K CRI90', expected: 'recessed downlight 3000k cri90' },
+  { input: 'Track spotlight, 3-phase, black', expected: 'track spotlight, 3-phase, black' },
+  { input: 'Café  Crème   finish', expected: 'cafe creme finish' },
+  { input: 'Façade wall washer', expected: 'facade wall washer' },
+  { input: 'Señal Über Ångström', expected: 'senal uber angstrom' },
+
+  // Greeklish (already normalised: unchanged)
+  { input: 'fotistiko orofis', expected: 'fotistiko orofis' },
+  { input: 'chonevto spot ip65', expected: 'chonevto spot ip65' },
+  { input: 'provoleas exoterikou chorou', expected: 'provoleas exoterikou chorou' },
+
+  // Whitespace
+  { input: '  Leading and trailing\tspaces\n', expected: 'leading and trailing spaces' },
+  { input: '', expected: '' }
+]
+
+/**
+ * Run the corpus through normalizeSearchText()
+ *
+ * @returns Inputs whose result differs from search.normalize_search_text()
+ */
+export function checkSearchTextNormalization(corpus: NormalizationCase[] = SEARCH_TEXT_CORPUS): string[] {
+  return corpus
+    .filter(testCase => normalizeSearchText(testCase.input) !== testCase.expected)
+    .map(testCase => testCase.input)
+}
@@ -0,0 +1,80 @@
+// =====================================================================
+// SEARCH TEXT NORMALISATION (GREEK / ENGLISH)
+// =====================================================================
+// Folds text the same way search.normalize_search_text() does when
+// search.product_search.fts is built (sql/25-create-search-text-normalization.sql),
+// so a query matches whatever spelling the supplier used:
+//
+//   1. lower case and accent folding ("Φωτιστικό" -> "φωτιστικο", "Café" -> "cafe")
+//   2. final sigma ("φωτεινός" -> "φωτεινοσ")
+//   3. Greek -> Greeklish ("φωτιστικο" -> "fotistiko"), so Greek, Greeklish
+//      and mixed-script queries ("LΕD" with a Greek Epsilon) meet on one form
+//
+// The character tables below must stay identical to the translate() calls
+// in the SQL function, otherwise queries and the index drift apart.
+// npm test compares them with sql/25 and runs the corpus of
+// search-normalize-conformance.ts (checked in SQL by sql/30).
+// =====================================================================
+
+// Step 1 + 2, one character in, one character out
+const FOLD_FROM =
+  'ΑΒΓΔΕΖΗΘΙΚΛΜΝΞΟΠΡΣΤΥΦΧΨΩΆΈΉΊΌΎΏΪΫ' +
+  'άέήίόύώϊϋΐΰς' +
+  'àáâãäåèéêëìíîïòóôõöùúûüýÿñç' +
+  'ÀÁÂÃÄÅÈÉÊËÌÍÎÏÒÓÔÕÖÙÚÛÜÝÑÇ'
+const FOLD_TO =
+  'αβγδεζηθικλμνξοπρστυφχψωαεηιουωιυ' +
+  'αεηιουωιυιυσ' +
+  'aaaaaaeeeeiiiiooooouuuuyync' +
+  'aaaaaaeeeeiiiiooooouuuuync'
+
+// Step 3: digraphs and multi-letter sounds first, then letter by letter
+const GREEKLISH_MULTI: [RegExp, string][] = [
+  [/ου/g, 'ou'],
+  [/αυ/g, 'av'],
+  [/ευ/g, 'ev'],
+  [/θ/g, 'th'],
+  [/χ/g, 'ch'],
+  [/ψ/g, 'ps']
+]
+const GREEKLISH_FROM = 'αβγδεζηικλμνξοπρστυφω'
+const GREEKLISH_TO = 'avgdeziiklmnxoprstyfo'
+
+const FOLD_MAP = buildCharMap(FOLD_FROM, FOLD_TO)
+const GREEKLISH_MAP = buildCharMap(GREEKLISH_FROM, GREEKLISH_TO)
+
+function buildCharMap(from: string, to: string): Map<string, string> {
+  const map = new Map<string, string>()
+  Array.from(from).forEach((char, index) => map.set(char, to[index]))
+  return map
+}
+
+function translateChars(text: string, map: Map<string, string>): string {
+  let result = ''
+  for (const char of text) {
+    result += map.get(char) ?? char
+  }
+  return result
+}
+
+/**
+ * Lower case with accents and final sigma folded. Keeps the length and
+ * character positions of the input, so it can be used to locate matches
+ * in the original text (highlighting).
+ */
+export function foldAccents(text: string): string {
+  return translateChars(text.toLowerCase(), FOLD_MAP)
+}
+
+/**
+ * Full normalisation used for the fts column and for v3 queries:
+ * foldAccents, Greek -> Greeklish, collapsed whitespace.
+ * Idempotent: normalising an already normalised string changes nothing.
+ */
+export function normalizeSearchText(text: string): string {
+  let result = foldAccents(text)
+  for (const [pattern, replacement] of GREEKLISH_MULTI) {
+    result = result.replace(pattern, replacement)
+  }
+  return translateChars(result, GREEKLISH_MAP).replace(/\s+/g, ' ').trim()
+}
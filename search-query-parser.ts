@@ -0,0 +1,305 @@
+// =====================================================================
+// STRUCTURED QUERY PARSING
+// =====================================================================
+// Users type specs straight into the search box ("IP65 3000K 10W downlight").
+// parseSearchQuery() picks out the spec tokens, turns them into p_filters
+// entries and leaves the remaining words as the text query:
+//
+//   IP65, IP 44, IPX4          -> ip             ['IP65']
+//   3000K, 2700-3000K, <4000K  -> cct            { min, max }
+//   800lm, >1000lm             -> lumens_output  { min }  (a bare value is a minimum)
+//   24V, 220-240V              -> voltage        { min, max }
+//   Ra90, CRI>90, CRI 80       -> cri            matching values (a minimum)
+//   10W                        -> reported, but matched as text: product_search
+//                                 has no power column
+//
+// A token may be split by spaces ("CRI > 90", "3000 K"). Each key is
+// shaped by its filter definition: ranges for numeric_range filters,
+// values from the known value list for alphanumeric ones (e.g. CRI values
+// such as '≥90' are matched by their number). A token that can't be
+// turned into a filter stays in the text query.
+// =====================================================================
+
+import type { FilterValidationKind, FilterValueV3 } from './search-filter-validation'
+
+// =====================================================================
+// TYPE DEFINITIONS
+// =====================================================================
+
+/**
+ * Spec token recognised in the query
+ */
+export interface InterpretedFilter {
+  token: string                  // As typed, e.g. '3000K' or 'CRI > 90' (pass to removeQueryToken)
+  filterKey: string | null       // p_filters key, or null when the token is matched as text (wattage)
+  value: FilterValueV3 | null    // Value contributed to p_filters (null for text matches)
+  label: string                  // Display text, e.g. 'CCT 3000 K', 'CRI ≥ 90'
+}
+
+/**
+ * What parseSearchQuery made of a query
+ */
+export interface ParsedSearchQuery {
+  text: string                                // Remaining words for full-text search ('' when none)
+  filters: Record<string, FilterValueV3>      // p_filters entries from the spec tokens
+  interpreted: InterpretedFilter[]            // One entry per recognised token, in query order
+}
+
+/**
+ * How to shape the filters: validation kind per filter_key (from the
+ * filter definitions) and the known values of alphanumeric filters
+ */
+export interface QueryParserContext {
+  kinds?: Record<string, FilterValidationKind>
+  values?: Record<string, string[]>
+}
+
+type Bounds = { min?: number; max?: number }
+
+// =====================================================================
+// TOKEN PATTERNS
+// =====================================================================
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)'
+const IP_PATTERN = /^ip([0-9x][0-9x])$/i
+const CRI_PATTERN = /^(?:cri|ra)(>=|≥|>)?(\d{2,3})$/i
+const RANGE_PATTERN = new RegExp(`^${NUMBER}[-–]${NUMBER}(k|lm|v|w)$`, 'i')
+const VALUE_PATTERN = new RegExp(`^(>=|<=|≥|≤|>|<)?${NUMBER}(k|lm|v|w)$`, 'i')
+
+// Longest spelling of a token in words: "CRI", ">", "90"
+const MAX_TOKEN_WORDS = 3
+
+const UNIT_KEYS: Record<string, string> = {
+  k: 'cct',
+  lm: 'lumens_output',
+  v: 'voltage',
+  w: 'power'
+}
+
+// Plausible values; anything outside is more likely part of a name or code
+const PLAUSIBLE: Record<string, Bounds> = {
+  cct: { min: 1000, max: 10000 },
+  lumens_output: { min: 1, max: 200000 },
+  voltage: { min: 1, max: 1000 },
+  power: { min: 0.1, max: 5000 },
+  cri: { min: 50, max: 100 }
+}
+
+const UNIT_LABELS: Record<string, { name: string; unit: string }> = {
+  cct: { name: 'CCT', unit: 'K' },
+  lumens_output: { name: 'Flux', unit: 'lm' },
+  voltage: { name: 'Voltage', unit: 'V' },
+  power: { name: 'Power', unit: 'W' },
+  cri: { name: 'CRI', unit: '' }
+}
+
+// v3 SQL shapes, used when no filter definition says otherwise
+const DEFAULT_KINDS: Record<string, FilterValidationKind> = {
+  ip: 'alphanumeric',
+  cri: 'alphanumeric',
+  cct: 'numeric_range',
+  lumens_output: 'numeric_range',
+  voltage: 'numeric_range'
+}
+
+// =====================================================================
+// HELPERS
+// =====================================================================
+
+const toNumber = (value: string) => Number(value.replace(',', '.'))
+
+const isPlausible = (key: string, value: number) => {
+  const bounds = PLAUSIBLE[key]
+  return Number.isFinite(value) && value >= (bounds.min ?? -Infinity) && value <= (bounds.max ?? Infinity)
+}
+
+/**
+ * Bounds for a value typed with an optional comparison. Without one, CCT,
+ * voltage and wattage mean that exact value; flux and CRI mean "at least".
+ */
+function boundsFor(key: string, operator: string | undefined, value: number): Bounds {
+  if (operator === '<' || operator === '<=' || operator === '≤') return { max: value }
+  if (operator || key === 'lumens_output' || key === 'cri') return { min: value }
+  return { min: value, max: value }
+}
+
+function formatBounds(key: string, bounds: Bounds): string {
+  const { name, unit } = UNIT_LABELS[key]
+  const suffix = unit ? ` ${unit}` : ''
+  if (bounds.min !== undefined && bounds.max !== undefined) {
+    return bounds.min === bounds.max
+      ? `${name} ${bounds.min}${suffix}`
+      : `${name} ${bounds.min}–${bounds.max}${suffix}`
+  }
+  if (bounds.min !== undefined) return `${name} ≥ ${bounds.min}${suffix}`
+  return `${name} ≤ ${bounds.max}${suffix}`
+}
+
+/**
+ * Known values whose number (e.g. 90 in '≥90' or 'Ra90') lies within the bounds
+ */
+function valuesWithin(values: string[], bounds: Bounds): string[] {
+  return values.filter(value => {
+    const match = value.match(/\d+(?:[.,]\d+)?/)
+    if (!match) return false
+    const number = toNumber(match[0])
+    return (bounds.min === undefined || number >= bounds.min) &&
+      (bounds.max === undefined || number <= bounds.max)
+  })
+}
+
+/**
+ * Filter value for a spec token, shaped by the key's validation kind
+ *
+ * @returns The value, or null when the token can't become a filter
+ */
+function shapeValue(key: string, bounds: Bounds, context: QueryParserContext): FilterValueV3 | null {
+  const kind = context.kinds?.[key] ?? DEFAULT_KINDS[key]
+  if (kind === 'numeric_range') return bounds
+  if (kind === 'alphanumeric') {
+    const matching = valuesWithin(context.values?.[key] ?? [], bounds)
+    return matching.length > 0 ? matching : null
+  }
+  return null
+}
+
+/**
+ * One filter value for two tokens of the same key: values add up, ranges
+ * take the lowest min and the highest max given
+ */
+function mergeValues(current: FilterValueV3, next: FilterValueV3): FilterValueV3 {
+  if (Array.isArray(current) && Array.isArray(next)) {
+    return Array.from(new Set([...current, ...next]))
+  }
+  if (typeof current === 'object' && typeof next === 'object' && !Array.isArray(current) && !Array.isArray(next)) {
+    const mins = [current.min, next.min].filter((n): n is number => n !== undefined)
+    const maxes = [current.max, next.max].filter((n): n is number => n !== undefined)
+    const merged: Bounds = {}
+    if (mins.length > 0) merged.min = Math.min(...mins)
+    if (maxes.length > 0) merged.max = Math.max(...maxes)
+    return merged
+  }
+  return current
+}
+
+/**
+ * Interpret one candidate token (words joined without spaces)
+ */
+function interpretToken(
+  compact: string,
+  token: string,
+  context: QueryParserContext
+): InterpretedFilter | null {
+  const ip = compact.match(IP_PATTERN)
+  if (ip) {
+    const code = `IP${ip[1].toUpperCase()}`
+    const known = context.values?.ip
+    const value = known ? known.find(v => v.toUpperCase() === code) : code
+    return value ? { token, filterKey: 'ip', value: [value], label: value } : null
+  }
+
+  const cri = compact.match(CRI_PATTERN)
+  if (cri) {
+    const threshold = Number(cri[2])
+    if (!isPlausible('cri', threshold)) return null
+    const bounds = boundsFor('cri', cri[1], threshold)
+    const value = shapeValue('cri', bounds, context)
+    return value ? { token, filterKey: 'cri', value, label: formatBounds('cri', bounds) } : null
+  }
+
+  let key: string
+  let bounds: Bounds
+  const range = compact.match(RANGE_PATTERN)
+  const single = range ? null : compact.match(VALUE_PATTERN)
+  if (range) {
+    key = UNIT_KEYS[range[3].toLowerCase()]
+    const [a, b] = [toNumber(range[1]), toNumber(range[2])]
+    if (!isPlausible(key, a) || !isPlausible(key, b)) return null
+    bounds = { min: Math.min(a, b), max: Math.max(a, b) }
+  } else if (single) {
+    key = UNIT_KEYS[single[3].toLowerCase()]
+    const value = toNumber(single[2])
+    if (!isPlausible(key, value)) return null
+    bounds = boundsFor(key, single[1], value)
+  } else {
+    return null
+  }
+
+  if (key === 'power') {
+    return { token, filterKey: null, value: null, label: formatBounds(key, bounds) }
+  }
+
+  const value = shapeValue(key, bounds, context)
+  return value ? { token, filterKey: key, value, label: formatBounds(key, bounds) } : null
+}
+
+// =====================================================================
+// PARSING
+// =====================================================================
+
+/**
+ * Split a query into spec filters and remaining text
+ *
+ * Repeated tokens for a key merge into one filter: values add up
+ * ('IP65 IP67'), ranges span from the lowest min to the highest max
+ * ('3000K 4000K' -> 3000–4000 K).
+ *
+ * @param query - Search box text
+ * @param context - Filter kinds and known values (defaults to the v3 SQL shapes)
+ */
+export function parseSearchQuery(query: string, context: QueryParserContext = {}): ParsedSearchQuery {
+  const words = query.split(/\s+/).filter(Boolean)
+  const textWords: string[] = []
+  const filters: Record<string, FilterValueV3> = {}
+  const interpreted: InterpretedFilter[] = []
+
+  let i = 0
+  while (i < words.length) {
+    let found: InterpretedFilter | null = null
+    let length = 0
+
+    for (let n = Math.min(MAX_TOKEN_WORDS, words.length - i); n >= 1 && !found; n--) {
+      const candidate = words.slice(i, i + n)
+      found = interpretToken(candidate.join(''), candidate.join(' '), context)
+      length = n
+    }
+
+    if (!found) {
+      textWords.push(words[i])
+      i += 1
+      continue
+    }
+
+    const key = found.filterKey
+    if (key) {
+      filters[key] = key in filters ? mergeValues(filters[key], found.value!) : found.value!
+    } else {
+      // Recognised, but only full-text search can use it
+      textWords.push(found.token)
+    }
+
+    interpreted.push(found)
+    i += length
+  }
+
+  return { text: textWords.join(' '), filters, interpreted }
+}
+
+/**
+ * Query without one interpreted token (for removable chips)
+ *
+ * @param query - Query the token was parsed from
+ * @param token - InterpretedFilter.token
+ */
+export function removeQueryToken(query: string, token: string): string {
+  const words = query.split(/\s+/).filter(Boolean)
+  const tokenWords = token.split(/\s+/).filter(Boolean)
+
+  for (let i = 0; i + tokenWords.length <= words.length; i++) {
+    if (tokenWords.every((word, j) => words[i + j] === word)) {
+      words.splice(i, tokenWords.length)
+      break
+    }
+  }
+  return words.join(' ')
+}
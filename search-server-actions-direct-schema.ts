@@ -1,343 +1,290 @@
 'use server'
 
-import { createClient } from '@supabase/supabase-js'
-
-// Server-side Supabase client with service role key
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
-
-if (!supabaseUrl || !supabaseServiceKey) {
-  throw new Error('Missing Supabase environment variables')
-}
+// =====================================================================
+// SEARCH SERVER ACTIONS - DIRECT SCHEMA ACCESS
+// =====================================================================
+// Thin 'use server' entry point. All validation, RPC calls and error
+// handling live in search-actions.ts; this file only picks the access
+// strategy (search.* via .schema('search').rpc()) and the session lookup
+// (search-session.ts) that owns saved searches.
+// =====================================================================
 
-const supabaseServer = createClient(supabaseUrl, supabaseServiceKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
-  }
+import { createSearchActions, createSearchServerClient } from './search-actions'
+import { getSupabaseSessionOwner } from './search-session'
+import type {
+  ActionResult,
+  ClassificationImpact,
+  ClassificationRuleChange,
+  ClassificationRuleRecord,
+  ExportOptions,
+  FacetData,
+  FacetsV3,
+  FilterDefinitionRecord,
+  Locale,
+  PaginatedResult,
+  ParsedSearchQuery,
+  ProductDetail,
+  ProductExport,
+  SavedSearch,
+  SavedSearchRun,
+  SavedSearchState,
+  SearchFilters,
+  SearchSuggestions,
+  SearchFiltersV3,
+  SearchProduct,
+  SearchProductV3,
+  SearchStatistics,
+  SimilarProduct,
+  SimilarProductsOptions,
+  TaxonomyNode
+} from './search-actions'
+
+export type {
+  ActionResult,
+  ActionError,
+  ActionErrorCode,
+  ValidationIssue,
+  SearchFilters,
+  SearchProduct,
+  SearchStatistics,
+  FacetData,
+  TaxonomyNode,
+  FilterValueV3,
+  FilterDefinitionRecord,
+  SearchFiltersV3,
+  SearchProductV3,
+  FacetValueV3,
+  FacetsV3,
+  PaginatedResult,
+  SuggestionType,
+  SearchSuggestion,
+  SearchSuggestions,
+  ProductFeature,
+  ProductTaxonomyNode,
+  ProductImage,
+  ProductDetail,
+  SimilarityFeature,
+  SimilarityWeights,
+  SimilarProductsOptions,
+  SimilarProduct,
+  ExportColumn,
+  ExportFormat,
+  ExportOptions,
+  ProductExport,
+  SavedSearchState,
+  SavedSearch,
+  SavedSearchRun,
+  V3SortOption,
+  Locale,
+  InterpretedFilter,
+  ParsedSearchQuery,
+  ClassificationRule,
+  ClassificationRuleRecord,
+  ClassificationRuleChange,
+  ClassificationImpactEntry,
+  ClassificationImpact,
+  FeatureCondition
+} from './search-actions'
+
+const actions = createSearchActions(createSearchServerClient(), 'direct-schema', {
+  getSessionOwner: getSupabaseSessionOwner
 })
 
 // =====================================================================
-// TYPE DEFINITIONS
+// SERVER ACTIONS - DIRECT SCHEMA ACCESS
 // =====================================================================
 
-export interface SearchFilters {
-  query?: string
-  indoor?: boolean
-  outdoor?: boolean
-  ceiling?: boolean
-  wall?: boolean
-  pendant?: boolean
-  recessed?: boolean
-  dimmable?: boolean
-  powerMin?: number
-  powerMax?: number
-  colorTempMin?: number
-  colorTempMax?: number
-  ipRatings?: string[]
-  sortBy?: 'relevance' | 'price_asc' | 'price_desc' | 'power_asc' | 'power_desc'
-  limit?: number
-  offset?: number
+/**
+ * Search products with filters
+ */
+export async function searchProductsServerAction(
+  filters: SearchFilters = {}
+): Promise<ActionResult<SearchProduct[]>> {
+  return actions.searchProducts(filters)
 }
 
-export interface SearchProduct {
-  product_id: string
-  foss_pid: string
-  description_short: string
-  description_long: string | null
-  supplier_name: string
-  class_name: string | null
-  price: number | null
-  image_url: string | null
-  taxonomy_path: string[]
-  flags: {
-    indoor: boolean
-    outdoor: boolean
-    ceiling: boolean
-    wall: boolean
-    pendant: boolean
-    recessed: boolean
-    dimmable: boolean
-  }
-  key_features: {
-    power: number | null
-    color_temp: number | null
-    luminous_flux: number | null
-    ip_rating: string | null
-  }
-  relevance_score: number
+/**
+ * Get search system statistics
+ */
+export async function getSearchStatisticsServerAction(): Promise<ActionResult<SearchStatistics>> {
+  return actions.getSearchStatistics()
 }
 
-export interface SearchStatistics {
-  total_products: number
-  indoor_products: number
-  outdoor_products: number
-  dimmable_products: number
-  filter_entries: number
-  taxonomy_nodes: number
-  classification_rules: number
-  filter_definitions: number
+/**
+ * Get available facets for filters (labels and values in the given locale)
+ */
+export async function getAvailableFacetsServerAction(
+  locale: Locale = 'en'
+): Promise<ActionResult<FacetData[]>> {
+  return actions.getAvailableFacets(locale)
 }
 
-export interface FacetData {
-  filter_key: string
-  filter_type: 'boolean' | 'numeric_range' | 'alphanumeric'
-  label_el: string
-  label_en: string
-  facet_data: {
-    min?: number
-    max?: number
-    avg?: number
-    count?: number
-    values?: Array<{
-      value: string
-      count: number
-    }>
-  }
+/**
+ * Get taxonomy tree structure (node names in the given locale)
+ */
+export async function getTaxonomyTreeServerAction(
+  locale: Locale = 'en'
+): Promise<ActionResult<TaxonomyNode[]>> {
+  return actions.getTaxonomyTree(locale)
 }
 
-export interface TaxonomyNode {
-  code: string
-  parent_code: string | null
-  level: number
-  name_el: string
-  name_en: string
-  product_count: number
-  icon: string | null
+/**
+ * Search products in the v3 wide table (search.product_search)
+ */
+export async function searchProductsV3ServerAction(
+  filters: SearchFiltersV3 = {}
+): Promise<ActionResult<SearchProductV3[]>> {
+  return actions.searchProductsV3(filters)
 }
 
-// =====================================================================
-// INPUT VALIDATION
-// =====================================================================
-
-function validateSearchFilters(filters: SearchFilters): SearchFilters {
-  const validated: SearchFilters = {}
-
-  // Text query validation
-  if (filters.query !== undefined && filters.query !== null) {
-    const trimmed = String(filters.query).trim().slice(0, 200)
-    if (trimmed.length > 0) {
-      validated.query = trimmed
-    }
-  }
-
-  // Boolean flags - ensure they're actually boolean or undefined
-  const booleanFlags = ['indoor', 'outdoor', 'ceiling', 'wall', 'pendant', 'recessed', 'dimmable'] as const
-  for (const flag of booleanFlags) {
-    if (filters[flag] === true || filters[flag] === false) {
-      validated[flag] = filters[flag]
-    }
-  }
-
-  // Numeric ranges - validate they're positive numbers
-  if (filters.powerMin !== undefined && filters.powerMin !== null) {
-    const val = Number(filters.powerMin)
-    if (!isNaN(val) && val >= 0 && val <= 10000) {
-      validated.powerMin = val
-    }
-  }
-  if (filters.powerMax !== undefined && filters.powerMax !== null) {
-    const val = Number(filters.powerMax)
-    if (!isNaN(val) && val >= 0 && val <= 10000) {
-      validated.powerMax = val
-    }
-  }
-
-  if (filters.colorTempMin !== undefined && filters.colorTempMin !== null) {
-    const val = Number(filters.colorTempMin)
-    if (!isNaN(val) && val >= 0 && val <= 10000) {
-      validated.colorTempMin = val
-    }
-  }
-  if (filters.colorTempMax !== undefined && filters.colorTempMax !== null) {
-    const val = Number(filters.colorTempMax)
-    if (!isNaN(val) && val >= 0 && val <= 10000) {
-      validated.colorTempMax = val
-    }
-  }
-
-  // IP Ratings array - validate each value
-  if (Array.isArray(filters.ipRatings) && filters.ipRatings.length > 0) {
-    const validIpPattern = /^IP\d{2}$/i
-    validated.ipRatings = filters.ipRatings
-      .filter(ip => typeof ip === 'string' && validIpPattern.test(ip))
-      .slice(0, 20) // Max 20 IP ratings
-  }
-
-  // Sort by validation
-  const validSortOptions = ['relevance', 'price_asc', 'price_desc', 'power_asc', 'power_desc']
-  if (filters.sortBy && validSortOptions.includes(filters.sortBy)) {
-    validated.sortBy = filters.sortBy
-  } else {
-    validated.sortBy = 'relevance'
-  }
-
-  // Pagination validation
-  if (filters.limit !== undefined && filters.limit !== null) {
-    const val = Number(filters.limit)
-    if (!isNaN(val) && val > 0 && val <= 100) {
-      validated.limit = val
-    } else {
-      validated.limit = 24
-    }
-  } else {
-    validated.limit = 24
-  }
-
-  if (filters.offset !== undefined && filters.offset !== null) {
-    const val = Number(filters.offset)
-    if (!isNaN(val) && val >= 0) {
-      validated.offset = val
-    } else {
-      validated.offset = 0
-    }
-  } else {
-    validated.offset = 0
-  }
-
-  return validated
+/**
+ * Search one page of v3 products with total count and hasMore
+ */
+export async function searchProductsV3PaginatedServerAction(
+  filters: SearchFiltersV3 = {}
+): Promise<ActionResult<PaginatedResult<SearchProductV3>>> {
+  return actions.searchProductsV3Paginated(filters)
 }
 
-// =====================================================================
-// SERVER ACTIONS - DIRECT SCHEMA ACCESS
-// =====================================================================
-
 /**
- * Search products with filters
- * Uses direct schema access: .schema('search').rpc()
- *
- * @param filters - Search filters including text query, boolean flags, numeric ranges
- * @returns Array of matching products with relevance scores
+ * Count products matching v3 filters
  */
-export async function searchProductsServerAction(
-  filters: SearchFilters = {}
-): Promise<SearchProduct[]> {
-  try {
-    const validated = validateSearchFilters(filters)
+export async function countProductsV3ServerAction(
+  filters: SearchFiltersV3 = {}
+): Promise<ActionResult<number>> {
+  return actions.countProductsV3(filters)
+}
 
-    // Direct schema access - no public wrapper needed
-    const { data, error } = await supabaseServer
-      .schema('search')
-      .rpc('search_products', {
-        p_query: validated.query || null,
-        p_indoor: validated.indoor ?? null,
-        p_outdoor: validated.outdoor ?? null,
-        p_ceiling: validated.ceiling ?? null,
-        p_wall: validated.wall ?? null,
-        p_pendant: validated.pendant ?? null,
-        p_recessed: validated.recessed ?? null,
-        p_dimmable: validated.dimmable ?? null,
-        p_power_min: validated.powerMin ?? null,
-        p_power_max: validated.powerMax ?? null,
-        p_color_temp_min: validated.colorTempMin ?? null,
-        p_color_temp_max: validated.colorTempMax ?? null,
-        p_ip_ratings: validated.ipRatings ?? null,
-        p_sort_by: validated.sortBy || 'relevance',
-        p_limit: validated.limit || 24,
-        p_offset: validated.offset || 0
-      })
+/**
+ * Get v3 facets for the current search context (value labels in the given locale)
+ */
+export async function getFacetsV3ServerAction(
+  filters: SearchFiltersV3 = {},
+  locale: Locale = 'en'
+): Promise<ActionResult<FacetsV3>> {
+  return actions.getFacetsV3(filters, locale)
+}
 
-    if (error) {
-      console.error('Search products error:', error)
-      return []
-    }
+/**
+ * Split a query into spec filters (IP65, 3000K, 800lm, CRI>90, 24V) and remaining text
+ */
+export async function interpretSearchQueryServerAction(
+  query: string
+): Promise<ActionResult<ParsedSearchQuery>> {
+  return actions.interpretSearchQuery(query)
+}
 
-    return data || []
-  } catch (error) {
-    console.error('Search products action error:', error)
-    return []
-  }
+/**
+ * Get active filter definitions (filter_type and ui_config used for validation,
+ * labels in the given locale)
+ */
+export async function getFilterDefinitionsServerAction(
+  locale: Locale = 'en'
+): Promise<ActionResult<FilterDefinitionRecord[]>> {
+  return actions.getFilterDefinitions(locale)
 }
 
 /**
- * Get search system statistics
- * Uses direct schema access: .schema('search').rpc()
- *
- * @returns Statistics about indexed products and filters
+ * Type-ahead suggestions (product codes, suppliers, categories, terms) for a prefix
  */
-export async function getSearchStatisticsServerAction(): Promise<SearchStatistics | null> {
-  try {
-    const { data, error } = await supabaseServer
-      .schema('search')
-      .rpc('get_search_statistics')
+export async function getSearchSuggestionsServerAction(
+  prefix: string,
+  limit = 5
+): Promise<ActionResult<SearchSuggestions>> {
+  return actions.getSearchSuggestions(prefix, limit)
+}
 
-    if (error) {
-      console.error('Get statistics error:', error)
-      return null
-    }
+/**
+ * Product detail: full ETIM feature sheet, taxonomy breadcrumbs, flags and images
+ */
+export async function getProductDetailServerAction(
+  productId: string
+): Promise<ActionResult<ProductDetail>> {
+  return actions.getProductDetail(productId)
+}
 
-    if (!data || !Array.isArray(data)) {
-      return null
-    }
+/**
+ * Substitutes for a product from the same taxonomy node, ranked by feature closeness
+ */
+export async function findSimilarProductsServerAction(
+  productId: string,
+  options: SimilarProductsOptions = {}
+): Promise<ActionResult<SimilarProduct[]>> {
+  return actions.findSimilarProducts(productId, options)
+}
 
-    // Convert array of {stat_name, stat_value} to object
-    const stats: Record<string, number> = {}
-    for (const row of data) {
-      stats[row.stat_name] = Number(row.stat_value) || 0
-    }
+/**
+ * Export every product matching v3 filters as CSV or XLSX (base64 content)
+ */
+export async function exportProductsV3ServerAction(
+  filters: SearchFiltersV3 = {},
+  options: ExportOptions = {}
+): Promise<ActionResult<ProductExport>> {
+  return actions.exportProductsV3(filters, options)
+}
 
-    return {
-      total_products: stats.total_products || 0,
-      indoor_products: stats.indoor_products || 0,
-      outdoor_products: stats.outdoor_products || 0,
-      dimmable_products: stats.dimmable_products || 0,
-      filter_entries: stats.filter_entries || 0,
-      taxonomy_nodes: stats.taxonomy_nodes || 0,
-      classification_rules: stats.classification_rules || 0,
-      filter_definitions: stats.filter_definitions || 0
-    }
-  } catch (error) {
-    console.error('Get statistics action error:', error)
-    return null
-  }
+/**
+ * Saved searches of the signed-in user (UNAUTHORIZED without a session)
+ */
+export async function listSavedSearchesServerAction(): Promise<ActionResult<SavedSearch[]>> {
+  return actions.listSavedSearches()
 }
 
 /**
- * Get available facets for filters
- * Uses direct schema access: .schema('search').rpc()
- *
- * @returns Available filter facets with counts and value distributions
+ * Save a search under a name (overwrites a same-named search of the user)
  */
-export async function getAvailableFacetsServerAction(): Promise<FacetData[]> {
-  try {
-    const { data, error } = await supabaseServer
-      .schema('search')
-      .rpc('get_available_facets')
+export async function saveSearchServerAction(
+  name: string,
+  state: SavedSearchState
+): Promise<ActionResult<SavedSearch>> {
+  return actions.saveSearch(name, state)
+}
 
-    if (error) {
-      console.error('Get facets error:', error)
-      return []
-    }
+/**
+ * Rename a saved search of the signed-in user
+ */
+export async function renameSavedSearchServerAction(
+  id: string,
+  name: string
+): Promise<ActionResult<SavedSearch>> {
+  return actions.renameSavedSearch(id, name)
+}
 
-    return data || []
-  } catch (error) {
-    console.error('Get facets action error:', error)
-    return []
-  }
+/**
+ * Delete a saved search of the signed-in user
+ */
+export async function deleteSavedSearchServerAction(
+  id: string
+): Promise<ActionResult<true>> {
+  return actions.deleteSavedSearch(id)
 }
 
 /**
- * Get taxonomy tree structure
- * Uses direct schema access: .schema('search').rpc()
- *
- * @returns Hierarchical taxonomy tree with product counts
+ * Re-run a saved search: first page of results plus the saved state to restore the UI
  */
-export async function getTaxonomyTreeServerAction(): Promise<TaxonomyNode[]> {
-  try {
-    const { data, error } = await supabaseServer
-      .schema('search')
-      .rpc('get_taxonomy_tree')
+export async function runSavedSearchServerAction(
+  id: string,
+  limit = 24
+): Promise<ActionResult<SavedSearchRun>> {
+  return actions.runSavedSearch(id, limit)
+}
 
-    if (error) {
-      console.error('Get taxonomy error:', error)
-      return []
-    }
+/**
+ * All classification rules (active and inactive), by priority
+ */
+export async function getClassificationRulesServerAction(): Promise<ActionResult<ClassificationRuleRecord[]>> {
+  return actions.getClassificationRules()
+}
 
-    return data || []
-  } catch (error) {
-    console.error('Get taxonomy action error:', error)
-    return []
-  }
+/**
+ * Preview which products would gain/lose taxonomy codes and flags under
+ * draft rule changes (nothing is written)
+ */
+export async function previewClassificationChangesServerAction(
+  changes: ClassificationRuleChange[],
+  sampleSize = 10
+): Promise<ActionResult<ClassificationImpact>> {
+  return actions.previewClassificationChanges(changes, sampleSize)
 }
 
 // =====================================================================
@@ -347,26 +294,7 @@ export async function getTaxonomyTreeServerAction(): Promise<TaxonomyNode[]> {
 /**
  * Simple search function matching existing FOSSAPP pattern
  * Can be used as drop-in replacement for searchProductsAction
- *
- * @param query - Text search query
- * @returns Array of products matching the query
  */
 export async function searchProductsCompatAction(query: string): Promise<SearchProduct[]> {
-  try {
-    // Validate query similar to existing pattern
-    if (!query || typeof query !== 'string') {
-      return []
-    }
-
-    const sanitized = query.trim().slice(0, 100)
-    if (sanitized.length === 0) {
-      return []
-    }
-
-    // Use search with just query parameter
-    return await searchProductsServerAction({ query: sanitized, limit: 50 })
-  } catch (error) {
-    console.error('Search products compat error:', error)
-    return []
-  }
+  return actions.searchProductsCompat(query)
 }
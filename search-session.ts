@@ -0,0 +1,42 @@
+// =====================================================================
+// SEARCH SESSION
+// =====================================================================
+// Signed-in user of a server action request, shared by
+// search-server-actions.ts and search-server-actions-direct-schema.ts
+// as the getSessionOwner of createSearchActions().
+//
+// The user comes from the Supabase Auth session cookies of the request
+// (@supabase/ssr) and is verified with auth.getUser(), so the owner is
+// the same auth.uid() the public saved search wrappers use. No
+// 'use server' directive: a 'use server' file may only export actions.
+// =====================================================================
+
+import { cookies } from 'next/headers'
+import { createServerClient } from '@supabase/ssr'
+
+/**
+ * Supabase user id of the request's session
+ *
+ * @returns The user id, or null when signed out or the session is invalid
+ */
+export async function getSupabaseSessionOwner(): Promise<string | null> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables')
+  }
+
+  const cookieStore = await cookies()
+  const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      // Refreshed tokens are written by the app's middleware, not by actions
+      setAll: () => {}
+    }
+  })
+
+  const { data, error } = await supabase.auth.getUser()
+  if (error || !data.user) return null
+  return data.user.id
+}
@@ -0,0 +1,45 @@
+import type { ActionError, ActionResult } from '@search/search-action-result'
+import { getServerSearchActions } from '@/lib/search-server'
+
+// Rules change while the page is open
+export const dynamic = 'force-dynamic'
+
+const STATUS: Record<ActionError['code'], number> = {
+  VALIDATION: 400,
+  NOT_FOUND: 404,
+  UNAUTHORIZED: 403,
+  TIMEOUT: 504,
+  RPC_ERROR: 502
+}
+
+function toResponse<T>(result: ActionResult<T>): Response {
+  return result.ok
+    ? Response.json({ data: result.data })
+    : Response.json({ error: result.error }, { status: STATUS[result.error.code] })
+}
+
+/**
+ * GET /api/classification - every classification rule (getClassificationRules).
+ * The rule RPCs are granted to service_role only (sql/27), so the browser
+ * reaches them through this route and the server client.
+ */
+export async function GET() {
+  return toResponse(await getServerSearchActions().getClassificationRules())
+}
+
+/**
+ * POST /api/classification - what draft rules would move
+ * (previewClassificationChanges). Body: { changes, sampleSize? }.
+ * Errors come back as JSON ({ error }) with a 4xx/5xx.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    const error: ActionError = { code: 'VALIDATION', message: 'body: must be a JSON object', issues: [{ field: 'body', message: 'must be a JSON object' }] }
+    return Response.json({ error }, { status: 400 })
+  }
+
+  // previewClassificationChanges validates the drafts and the sample size
+  const { changes, sampleSize } = body
+  return toResponse(await getServerSearchActions().previewClassificationChanges(changes, sampleSize ?? undefined))
+}
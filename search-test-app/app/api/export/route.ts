@@ -0,0 +1,115 @@
+import type { SearchFiltersV3 } from '@search/search-actions'
+import type { ActionError, ValidationIssue } from '@search/search-action-result'
+import type { ExportColumn, ExportFormat } from '@search/search-export'
+import type { V3SortOption } from '@search/search-cursor'
+import { getServerSearchActions } from '@/lib/search-server'
+
+// Export requests stream for as long as the client reads
+export const dynamic = 'force-dynamic'
+
+const FLAG_PARAMS = {
+  p_indoor: 'indoor',
+  p_outdoor: 'outdoor',
+  p_submersible: 'submersible',
+  p_trimless: 'trimless',
+  p_cut_shape_round: 'cutShapeRound',
+  p_cut_shape_rectangular: 'cutShapeRectangular'
+} as const
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+function badRequest(issues: ValidationIssue[]): Response {
+  const error: ActionError = {
+    code: 'VALIDATION',
+    message: issues.map(i => `${i.field}: ${i.message}`).join('; '),
+    issues
+  }
+  return Response.json({ error }, { status: 400 })
+}
+
+/**
+ * Search filters from the SearchParams of lib/search.ts. Only the shapes are
+ * checked here; streamProductsV3 validates the values (filters, sort, columns).
+ */
+function toSearchFilters(params: Record<string, unknown>, issues: ValidationIssue[]): SearchFiltersV3 {
+  const filters: SearchFiltersV3 = {}
+
+  if (typeof params.p_query === 'string') filters.query = params.p_query
+  else if (params.p_query != null) issues.push({ field: 'params.p_query', message: 'must be a string or null' })
+
+  if (isObject(params.p_filters)) filters.filters = params.p_filters as SearchFiltersV3['filters']
+  else if (params.p_filters != null) issues.push({ field: 'params.p_filters', message: 'must be an object' })
+
+  if (isStringArray(params.p_taxonomy_codes)) filters.taxonomyCodes = params.p_taxonomy_codes
+  else if (params.p_taxonomy_codes != null) issues.push({ field: 'params.p_taxonomy_codes', message: 'must be an array of strings or null' })
+
+  if (isStringArray(params.p_suppliers)) filters.suppliers = params.p_suppliers
+  else if (params.p_suppliers != null) issues.push({ field: 'params.p_suppliers', message: 'must be an array of strings or null' })
+
+  for (const [param, key] of Object.entries(FLAG_PARAMS)) {
+    const value = params[param]
+    if (typeof value === 'boolean') filters[key] = value
+    else if (value != null) issues.push({ field: `params.${param}`, message: 'must be a boolean or null' })
+  }
+
+  return filters
+}
+
+/**
+ * POST /api/export - every product matching the search as a CSV or XLSX
+ * download, streamed while streamProductsV3 pages through the keyset cursor.
+ * Body: { params: SearchParams, sortBy, format, columns } (see lib/export.ts).
+ * Bad bodies, validation and first-batch errors come back as JSON ({ error })
+ * with a 4xx/5xx.
+ */
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest([{ field: 'body', message: 'must be JSON' }])
+  }
+  if (!isObject(body)) {
+    return badRequest([{ field: 'body', message: 'must be an object' }])
+  }
+
+  const issues: ValidationIssue[] = []
+  const { params, sortBy, format, columns } = body
+
+  let filters: SearchFiltersV3 = {}
+  if (isObject(params)) filters = toSearchFilters(params, issues)
+  else issues.push({ field: 'params', message: 'must be an object' })
+
+  if (typeof sortBy === 'string') filters.sortBy = sortBy as V3SortOption
+  else if (sortBy != null) issues.push({ field: 'sortBy', message: 'must be a string' })
+
+  if (format != null && typeof format !== 'string') issues.push({ field: 'format', message: 'must be a string' })
+  if (columns != null && !isStringArray(columns)) issues.push({ field: 'columns', message: 'must be an array of strings' })
+
+  if (issues.length > 0) {
+    return badRequest(issues)
+  }
+
+  const result = await getServerSearchActions().streamProductsV3(filters, {
+    format: (format ?? undefined) as ExportFormat | undefined,
+    columns: (columns ?? undefined) as ExportColumn[] | undefined
+  })
+
+  if (!result.ok) {
+    const status = result.error.code === 'VALIDATION' ? 400 : result.error.code === 'TIMEOUT' ? 504 : 502
+    return Response.json({ error: result.error }, { status })
+  }
+
+  const { stream, filename, mimeType } = result.data
+  return new Response(stream, {
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    }
+  })
+}
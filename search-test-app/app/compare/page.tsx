@@ -0,0 +1,190 @@
+'use client'
+
+import { useEffect, useState, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft, Box, X } from 'lucide-react'
+import { fetchProductDetail, formatFeatureValue, ProductDetail } from '@/lib/product'
+import { useCompareList, MAX_COMPARE } from '@/lib/compare'
+
+type ProductRow = ProductDetail['product']
+
+// product_search feature columns lined up in the comparison
+const FEATURE_ROWS: { key: keyof ProductRow; label: string; unit?: string }[] = [
+  { key: 'voltage', label: 'Voltage', unit: 'V' },
+  { key: 'cct', label: 'Colour Temperature', unit: 'K' },
+  { key: 'cri', label: 'CRI' },
+  { key: 'lumens_output', label: 'Luminous Flux', unit: 'lm' },
+  { key: 'beam_angle_type', label: 'Beam Angle' },
+  { key: 'ip_rating', label: 'IP Rating' },
+  { key: 'protection_class', label: 'Protection Class' },
+  { key: 'finishing_colour', label: 'Finishing Colour' }
+]
+
+// 'cut_shape_round' -> 'Cut shape round'
+const flagLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, ' ')
+
+// useSearchParams() needs a Suspense boundary in the app router
+export default function ComparePage() {
+  return (
+    <Suspense fallback={null}>
+      <ComparePageContent />
+    </Suspense>
+  )
+}
+
+function ComparePageContent() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const compare = useCompareList()
+
+  // ?ids= makes a comparison shareable; without it the pinned products are used
+  const idsParam = searchParams.get('ids')
+  const ids = (idsParam ? idsParam.split(',') : compare.items.map(item => item.product_id))
+    .filter(Boolean)
+    .slice(0, MAX_COMPARE)
+  const idsKey = ids.join(',')
+
+  const [products, setProducts] = useState<ProductDetail[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [onlyDifferences, setOnlyDifferences] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    if (!idsKey) {
+      setProducts([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    Promise.all(idsKey.split(',').map(id => fetchProductDetail(id)))
+      .then(results => {
+        if (cancelled) return
+        setProducts(results.filter((r): r is ProductDetail => r !== null))
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Compare load error:', err)
+        setError(err.message || 'Failed to load products')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [idsKey])
+
+  const removeProduct = (productId: string) => {
+    compare.remove(productId)
+    const remaining = ids.filter(id => id !== productId)
+    router.replace(remaining.length > 0 ? `/compare?ids=${remaining.join(',')}` : '/compare')
+  }
+
+  // Flags that are true for at least one product
+  const flagKeys = Array.from(new Set(
+    products.flatMap(p => Object.entries(p.flags).filter(([, v]) => v).map(([k]) => k))
+  )).sort()
+
+  const rows = [
+    { label: 'Supplier', values: products.map(p => p.product.supplier_name || '—') },
+    { label: 'Price', values: products.map(p => (p.product.price != null ? `€${Number(p.product.price).toFixed(2)}` : '—')) },
+    ...FEATURE_ROWS.map(row => ({
+      label: row.label,
+      values: products.map(p => formatFeatureValue({ value: p.product[row.key] as string | number | null, unit: row.unit ?? null }))
+    })),
+    ...flagKeys.map(key => ({
+      label: flagLabel(key),
+      values: products.map(p => (p.flags[key] ? 'Yes' : 'No'))
+    }))
+  ].map(row => ({ ...row, differs: new Set(row.values).size > 1 }))
+
+  const visibleRows = onlyDifferences ? rows.filter(row => row.differs) : rows
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50">
+      <div className="max-w-7xl mx-auto p-8">
+        <Link href="/" className="flex items-center gap-2 text-slate-600 hover:text-blue-600 mb-6 transition-colors w-fit">
+          <ArrowLeft size={18} /> Back to search
+        </Link>
+
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-slate-800">Compare Products</h1>
+          {products.length > 1 && (
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={onlyDifferences}
+                onChange={(e) => setOnlyDifferences(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Only show differences
+            </label>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 mb-6 text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="h-96 bg-slate-200 rounded-xl animate-pulse"></div>
+        ) : products.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-12 text-center text-slate-500">
+            No products to compare. Use the Compare button on product cards to pin up to {MAX_COMPARE}.
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-x-auto">
+            <table className="w-full text-sm table-fixed">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="w-48 p-4"></th>
+                  {products.map(({ product }) => (
+                    <th key={product.product_id} className="p-4 align-top text-left font-normal">
+                      <div className="relative">
+                        <button
+                          onClick={() => removeProduct(product.product_id)}
+                          className="absolute top-0 right-0 p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                          title="Remove from comparison"
+                        >
+                          <X size={14} />
+                        </button>
+                        <div className="h-32 mb-3 bg-slate-50 rounded-lg flex items-center justify-center overflow-hidden">
+                          {product.image_url ? (
+                            <img src={product.image_url} alt={product.foss_pid} className="max-h-full object-contain" />
+                          ) : (
+                            <Box size={32} strokeWidth={1} className="text-slate-400" />
+                          )}
+                        </div>
+                        <Link href={`/product/${product.product_id}`} className="font-bold text-slate-800 hover:text-blue-600">
+                          {product.foss_pid}
+                        </Link>
+                        <p className="text-xs text-slate-500 mt-1 line-clamp-2">{product.description_short}</p>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => (
+                  <tr key={row.label} className={`border-b border-slate-100 last:border-b-0 ${row.differs ? 'bg-amber-50' : ''}`}>
+                    <td className="px-4 py-2.5 text-slate-600 font-medium">{row.label}</td>
+                    {row.values.map((value, index) => (
+                      <td key={index} className={`px-4 py-2.5 ${row.differs ? 'text-slate-900 font-medium' : 'text-slate-700'}`}>
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,23 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { supabase } from '@/lib/supabase'
-import { BarChart3, Lightbulb } from 'lucide-react'
+import {
+  fetchQueryParserContext,
+  searchProductsPage,
+  type PageCursor,
+  splitSearchQuery,
+  SearchParams,
+  SORT_OPTIONS,
+  type SortOption,
+  type Suggestion
+} from '@/lib/search'
+import { removeQueryToken, type QueryParserContext } from '@search/search-query-parser'
+import { useLocale } from '@/lib/i18n'
+import { decodeSearchState, searchStateToQueryString, SearchState } from '@/lib/search-state'
+import { ArrowUpDown, BarChart3, Lightbulb } from 'lucide-react'
 import FacetedCategoryNavigation from '@/components/FacetedCategoryNavigation'
 import ActiveFilters from '@/components/ActiveFilters'
 import ProductTabs from '@/components/ProductTabs'
@@ -11,6 +26,14 @@ import ProductCard from '@/components/ProductCard'
 import ProductCardSkeleton from '@/components/ProductCardSkeleton'
 import EmptyState from '@/components/EmptyState'
 import SystemStatsModal from '@/components/SystemStatsModal'
+import SearchBox from '@/components/SearchBox'
+import QueryInterpretation from '@/components/QueryInterpretation'
+import SupplierFilter from '@/components/SupplierFilter'
+import CompareTray from '@/components/CompareTray'
+import ExportMenu from '@/components/ExportMenu'
+import SavedSearchMenu from '@/components/SavedSearchMenu'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import { useCompareList } from '@/lib/compare'
 
 type Product = {
   product_id: string
@@ -43,24 +66,108 @@ type Product = {
   relevance_score: number
 }
 
+const PAGE_SIZE = 24
+
+// useSearchParams() needs a Suspense boundary in the app router
 export default function SearchPage() {
-  const [query, setQuery] = useState('')
-  const [suppliers, setSuppliers] = useState<string[]>([])
+  return (
+    <Suspense fallback={null}>
+      <SearchPageContent />
+    </Suspense>
+  )
+}
+
+function SearchPageContent() {
+  // Initial state comes from the URL so searches can be bookmarked and shared
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const [initialState] = useState<SearchState>(() => decodeSearchState(new URLSearchParams(searchParams.toString())))
+
+  const [query, setQuery] = useState(initialState.query)
+  const [suppliers, setSuppliers] = useState<string[]>(initialState.suppliers)
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [stats, setStats] = useState<any>(null)
   const [showStatsModal, setShowStatsModal] = useState(false)
-  const [limit, setLimit] = useState(24)
   const [hasMore, setHasMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null)
   const [totalCount, setTotalCount] = useState<number | null>(null)
-  const [selectedTaxonomies, setSelectedTaxonomies] = useState<string[]>([])
-  const [activeTab, setActiveTab] = useState('') // Now holds taxonomy code (e.g., 'LUMINAIRE')
-  const [activeFilters, setActiveFilters] = useState<any>({})
+  const [selectedTaxonomies, setSelectedTaxonomies] = useState<string[]>(initialState.taxonomies)
+  const [activeTab, setActiveTab] = useState(initialState.tab) // Now holds taxonomy code (e.g., 'LUMINAIRE')
+  const [activeFilters, setActiveFilters] = useState<any>(initialState.filters)
+  const [sortBy, setSortBy] = useState<SortOption>(initialState.sort)
+  const [parserContext, setParserContext] = useState<QueryParserContext>({})
+  const compare = useCompareList()
+  const { t } = useLocale()
+
+  // Filter kinds and known values for spec tokens in the query (CRI>90 -> '≥90').
+  // Without them IP, CCT, flux and voltage tokens still work with the v3 shapes.
+  useEffect(() => {
+    fetchQueryParserContext()
+      .then(setParserContext)
+      .catch(err => console.error('Query parser context error:', err))
+  }, [])
+
+  // Spec tokens (IP65, 3000K, 800lm, ...) become filters; the rest is the text query.
+  // The URL and saved searches keep the query as typed.
+  const parsedQuery = useMemo(
+    () => splitSearchQuery(query, activeFilters, parserContext),
+    [query, activeFilters, parserContext]
+  )
+
+  // === URL SYNC ===
+  // State -> URL: push a history entry per change. Until the tabs have
+  // loaded (no activeTab yet) the URL is only normalised, not pushed.
+  const urlTabRef = useRef('')
+  useEffect(() => {
+    const queryString = searchStateToQueryString({
+      query,
+      tab: activeTab,
+      taxonomies: selectedTaxonomies,
+      suppliers,
+      filters: activeFilters,
+      sort: sortBy
+    })
+    const previousTab = urlTabRef.current
+    urlTabRef.current = activeTab
+    if (queryString === window.location.search.replace(/^\?/, '')) return
+
+    const url = queryString ? `?${queryString}` : window.location.pathname
+    if (previousTab) {
+      window.history.pushState(null, '', url)
+    } else {
+      window.history.replaceState(null, '', url)
+    }
+  }, [query, activeTab, selectedTaxonomies, suppliers, activeFilters, sortBy])
+
+  // Replace the whole search (back/forward, saved searches)
+  const applySearchState = useCallback((state: SearchState) => {
+    setQuery(state.query)
+    setActiveTab(state.tab)
+    setSelectedTaxonomies(state.taxonomies)
+    setSuppliers(state.suppliers)
+    setActiveFilters(state.filters)
+    setSortBy(state.sort)
+  }, [])
+
+  // URL -> state: restore a previous search on back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = decodeSearchState(new URLSearchParams(window.location.search))
+      console.log('↩️ page.tsx: restoring search state from URL:', state)
+      applySearchState(state)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [applySearchState])
 
   const handleTaxonomiesChange = useCallback((codes: string[]) => {
     console.log('🎯 page.tsx: handleTaxonomiesChange called with:', codes)
-    setSelectedTaxonomies(codes)
+    // Keep the same array when nothing changed (avoids a duplicate search and history entry)
+    setSelectedTaxonomies(prev =>
+      prev.length === codes.length && prev.every((c, i) => c === codes[i]) ? prev : codes
+    )
     // Search will be triggered by useEffect below
   }, [])
 
@@ -68,8 +175,23 @@ export default function SearchPage() {
     setSelectedTaxonomies(prev => prev.filter(c => c !== code))
   }, [])
 
-  const handleClearAllTaxonomies = useCallback(() => {
+  const handleRemoveFilter = useCallback((filterKey: string) => {
+    setActiveFilters((prev: Record<string, any>) => {
+      const next = { ...prev }
+      delete next[filterKey]
+      return next
+    })
+  }, [])
+
+  const handleRemoveSupplier = useCallback((supplier: string) => {
+    setSuppliers(prev => prev.filter(s => s !== supplier))
+  }, [])
+
+  // Clear every chip: categories, technical filters, flags and suppliers
+  const handleClearAllFilters = useCallback(() => {
     setSelectedTaxonomies([])
+    setActiveFilters({})
+    setSuppliers([])
   }, [])
 
   const handleTabChange = useCallback((value: string) => {
@@ -99,6 +221,32 @@ export default function SearchPage() {
     return rootCode
   }
 
+  // Type-ahead: products open their page, categories and suppliers become filters,
+  // terms become the query
+  const handleSelectSuggestion = (suggestion: Suggestion) => {
+    switch (suggestion.type) {
+      case 'taxonomy': {
+        const rootCode = getRootTaxonomyCode(suggestion.value)
+        setActiveTab(rootCode)
+        setSelectedTaxonomies(suggestion.value === rootCode ? [] : [suggestion.value])
+        break
+      }
+      case 'supplier':
+        setSuppliers(prev => (prev.includes(suggestion.value) ? prev : [...prev, suggestion.value]))
+        break
+      case 'product':
+        if (suggestion.productId) {
+          router.push(`/product/${suggestion.productId}`)
+        } else {
+          setQuery(suggestion.value)
+        }
+        break
+      case 'term':
+        setQuery(suggestion.value)
+        break
+    }
+  }
+
   // Get combined taxonomy codes (tab filter + user selections)
   const getCombinedTaxonomies = useCallback(() => {
     // If user has made specific selections, use only those (they're already filtered by tab)
@@ -110,137 +258,87 @@ export default function SearchPage() {
     return activeTab ? [activeTab] : null
   }, [activeTab, selectedTaxonomies])
 
-  // Auto-trigger search when any filter changes (instant, no debounce)
+  // Auto-trigger search when any filter changes (instant, no debounce).
+  // Keyed on the parsed query, so e.g. a changed token spacing doesn't search again.
   useEffect(() => {
     console.log('🔍 Search triggered by filter change:', {
-      selectedTaxonomies, activeTab, suppliers, activeFilters
+      query, parsedQuery, selectedTaxonomies, activeTab, suppliers, activeFilters, sortBy
     })
     handleSearch()
-  }, [selectedTaxonomies, activeTab, suppliers, JSON.stringify(activeFilters)]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [parsedQuery.text, JSON.stringify(parsedQuery.filters), selectedTaxonomies, activeTab, suppliers, sortBy]) // eslint-disable-line react-hooks/exhaustive-deps
 
   const handleFilterChange = useCallback((filters: any) => {
     console.log('📥 page.tsx handleFilterChange received:', filters)
     setActiveFilters(filters)
   }, [])
 
-  const getTotalCount = async () => {
-    try {
-      const combinedTaxonomies = getCombinedTaxonomies()
-
-      // Extract location/options flags from activeFilters (now managed by FilterPanel)
-      const indoor = activeFilters.indoor ?? null
-      const outdoor = activeFilters.outdoor ?? null
-      const submersible = activeFilters.submersible ?? null
-      const trimless = activeFilters.trimless ?? null
-      const cutShapeRound = activeFilters.cut_shape_round ?? null
-      const cutShapeRectangular = activeFilters.cut_shape_rectangular ?? null
-
-      console.log('📊 Calling count RPC with params:', {
-        p_query: query || null,
-        p_filters: activeFilters,
-        p_taxonomy_codes: combinedTaxonomies,
-        p_suppliers: suppliers.length > 0 ? suppliers : null,
-        p_indoor: indoor,
-        p_outdoor: outdoor,
-        p_submersible: submersible,
-        p_trimless: trimless,
-        p_cut_shape_round: cutShapeRound,
-        p_cut_shape_rectangular: cutShapeRectangular
-      })
-      const { data, error } = await supabase.rpc('count_products_with_filters', {
-        p_query: query || null,
-        p_filters: activeFilters,
-        p_taxonomy_codes: combinedTaxonomies,
-        p_suppliers: suppliers.length > 0 ? suppliers : null,
-        p_indoor: indoor,
-        p_outdoor: outdoor,
-        p_submersible: submersible,
-        p_trimless: trimless,
-        p_cut_shape_round: cutShapeRound,
-        p_cut_shape_rectangular: cutShapeRectangular
-      })
-
-      console.log('📊 Count RPC result:', { count: data, hasError: !!error, error })
-      if (error) throw error
-      setTotalCount(data as number)
-    } catch (err: any) {
-      console.error('Count error:', err)
-      setTotalCount(null)
-    }
-  }
+  // Everything except the supplier selection (shared by the search and the supplier facet)
+  // Location/options flags come from activeFilters (managed by FilterPanel)
+  const getSearchContext = (): Omit<SearchParams, 'p_suppliers'> => ({
+    p_query: parsedQuery.text || null,
+    p_filters: parsedQuery.filters,
+    p_taxonomy_codes: getCombinedTaxonomies(),
+    p_indoor: activeFilters.indoor ?? null,
+    p_outdoor: activeFilters.outdoor ?? null,
+    p_submersible: activeFilters.submersible ?? null,
+    p_trimless: activeFilters.trimless ?? null,
+    p_cut_shape_round: activeFilters.cut_shape_round ?? null,
+    p_cut_shape_rectangular: activeFilters.cut_shape_rectangular ?? null
+  })
+
+  // In-flight search; aborted when a newer search starts so stale responses never win
+  const searchAbortRef = useRef<AbortController | null>(null)
+
+  // append = true fetches only the next page (Load More) instead of starting over
+  const handleSearch = async (append = false) => {
+    console.log('🔎 handleSearch called', { append })
+    searchAbortRef.current?.abort()
+    const controller = new AbortController()
+    searchAbortRef.current = controller
 
-  const handleSearch = async (resetLimit = true) => {
-    console.log('🔎 handleSearch called')
     setLoading(true)
     setError(null)
 
-    const searchLimit = resetLimit ? 24 : limit
-    const combinedTaxonomies = getCombinedTaxonomies()
-
-    // Extract location/options flags from activeFilters (now managed by FilterPanel)
-    const indoor = activeFilters.indoor ?? null
-    const outdoor = activeFilters.outdoor ?? null
-    const submersible = activeFilters.submersible ?? null
-    const trimless = activeFilters.trimless ?? null
-    const cutShapeRound = activeFilters.cut_shape_round ?? null
-    const cutShapeRectangular = activeFilters.cut_shape_rectangular ?? null
+    const cursor = append ? nextCursor : null
+    const params: SearchParams = {
+      ...getSearchContext(),
+      p_suppliers: suppliers.length > 0 ? suppliers : null
+    }
 
     try {
-      // Get total count first
-      await getTotalCount()
-
-      // Uses public.search_products_with_filters() with Delta-style filters
-      console.log('🔎 Calling search RPC with params:', {
-        p_query: query || null,
-        p_filters: activeFilters,
-        p_taxonomy_codes: combinedTaxonomies,
-        p_suppliers: suppliers.length > 0 ? suppliers : null,
-        p_indoor: indoor,
-        p_outdoor: outdoor,
-        p_submersible: submersible,
-        p_trimless: trimless,
-        p_cut_shape_round: cutShapeRound,
-        p_cut_shape_rectangular: cutShapeRectangular,
-        p_limit: searchLimit + 1
-      })
-      const { data, error: searchError } = await supabase.rpc('search_products_with_filters', {
-        p_query: query || null,
-        p_filters: activeFilters,
-        p_taxonomy_codes: combinedTaxonomies,
-        p_suppliers: suppliers.length > 0 ? suppliers : null,
-        p_indoor: indoor,
-        p_outdoor: outdoor,
-        p_submersible: submersible,
-        p_trimless: trimless,
-        p_cut_shape_round: cutShapeRound,
-        p_cut_shape_rectangular: cutShapeRectangular,
-        p_limit: searchLimit + 1, // Request one extra to check if there are more
-        p_offset: 0
+      // Page + total count in one round trip (search_products_v3 + count_products_v3)
+      console.log('🔎 Calling paginated search with params:', params, 'cursor:', cursor)
+      const page = await searchProductsPage<Product>(params, PAGE_SIZE, cursor, controller.signal, sortBy)
+
+      console.log('🔎 Paginated search result:', {
+        resultCount: page.items.length,
+        total: page.total,
+        hasMore: page.hasMore
       })
 
-      console.log('🔎 Search RPC result:', {
-        resultCount: data?.length,
-        hasError: !!searchError,
-        error: searchError
-      })
-
-      if (searchError) throw searchError
-
-      const results = data || []
-      setHasMore(results.length > searchLimit)
-      setProducts(results.slice(0, searchLimit))
-      if (resetLimit) setLimit(24)
+      // The cursor continues strictly after the last row shown, so pages never overlap
+      setProducts(prev => (append ? [...prev, ...page.items] : page.items))
+      setTotalCount(page.total)
+      setHasMore(page.hasMore)
+      setNextCursor(page.nextCursor)
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        console.log('🔎 Search superseded by a newer one')
+        return
+      }
       setError(err.message)
+      setTotalCount(null)
       console.error('Search error:', err)
     } finally {
-      setLoading(false)
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null
+        setLoading(false)
+      }
     }
   }
 
   const loadMore = () => {
-    setLimit(prev => prev + 24)
-    handleSearch(false)
+    handleSearch(true)
   }
 
   const loadStats = async () => {
@@ -258,23 +356,7 @@ export default function SearchPage() {
     }
   }
 
-  const toggleSupplier = (supplier: string) => {
-    setSuppliers(prev =>
-      prev.includes(supplier)
-        ? prev.filter(s => s !== supplier)
-        : [...prev, supplier]
-    )
-  }
-
-  const toggleIpRating = (rating: string) => {
-    setIpRatings(prev =>
-      prev.includes(rating)
-        ? prev.filter(r => r !== rating)
-        : [...prev, rating]
-    )
-  }
-
-  const hasAnyFilters = selectedTaxonomies.length > 0 || suppliers.length > 0 || Object.keys(activeFilters).length > 0
+  const hasAnyFilters = query.length > 0 || selectedTaxonomies.length > 0 || suppliers.length > 0 || Object.keys(activeFilters).length > 0
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
@@ -291,18 +373,27 @@ export default function SearchPage() {
                 <h1 className="text-2xl font-bold bg-gradient-to-r from-slate-800 to-slate-600 bg-clip-text text-transparent">
                   Foss SA
                 </h1>
-                <p className="text-sm text-slate-500">Lighting Product Search</p>
+                <p className="text-sm text-slate-500">{t('header.subtitle')}</p>
               </div>
             </div>
 
-            {/* Stats Button */}
-            <button
-              onClick={loadStats}
-              className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold shadow-md hover:shadow-lg hover:from-blue-700 hover:to-indigo-700 transition-all"
-            >
-              <BarChart3 size={18} />
-              <span className="hidden sm:inline">System Stats</span>
-            </button>
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher />
+
+              <SavedSearchMenu
+                currentState={{ query, tab: activeTab, taxonomies: selectedTaxonomies, suppliers, filters: activeFilters, sort: sortBy }}
+                onApply={applySearchState}
+              />
+
+              {/* Stats Button */}
+              <button
+                onClick={loadStats}
+                className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold shadow-md hover:shadow-lg hover:from-blue-700 hover:to-indigo-700 transition-all"
+              >
+                <BarChart3 size={18} />
+                <span className="hidden sm:inline">{t('header.stats')}</span>
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -312,14 +403,24 @@ export default function SearchPage() {
         <SystemStatsModal stats={stats} onClose={() => setShowStatsModal(false)} />
       )}
 
-      {/* Main Content */}
-      <div className="max-w-[1800px] mx-auto px-6 py-8">
-        <ProductTabs onTabChange={handleTabChange}>
+      {/* Main Content (extra bottom space so the compare tray never covers results) */}
+      <div className={`max-w-[1800px] mx-auto px-6 py-8 ${compare.items.length > 0 ? 'pb-28' : ''}`}>
+        {/* Free-text search (debounced) */}
+        <SearchBox value={query} onSearch={setQuery} onSelectSuggestion={handleSelectSuggestion} />
+
+        {/* Spec tokens taken from the query, removable */}
+        <QueryInterpretation
+          interpreted={parsedQuery.interpreted}
+          onRemove={(token) => setQuery(prev => removeQueryToken(prev, token))}
+        />
+
+        <ProductTabs activeTab={activeTab} onTabChange={handleTabChange}>
           {/* Three-Column Layout: Categories | Technical Filters | Location & Options */}
           <div style={{ display: 'flex', gap: '24px', marginBottom: '24px' }}>
             {/* Column 1: Categories */}
             <div style={{ flex: 1, minWidth: 0 }}>
               <FacetedCategoryNavigation
+                selectedTaxonomies={selectedTaxonomies}
                 onSelectTaxonomies={handleTaxonomiesChange}
                 autoSearch={true}
                 debounceMs={0}
@@ -329,20 +430,20 @@ export default function SearchPage() {
 
             {/* Column 2: Technical Filters */}
             <div style={{ flex: 1, minWidth: 0 }}>
-              {console.log('🎨 RENDER: About to render FilterPanel conditional. selectedTaxonomies=', selectedTaxonomies, 'length=', selectedTaxonomies.length) || null}
               {selectedTaxonomies.length > 0 ? (
                 <FilterPanel
+                  filters={activeFilters}
                   onFilterChange={handleFilterChange}
                   taxonomyCode={getRootTaxonomyCode(selectedTaxonomies[0])}
                   selectedTaxonomies={selectedTaxonomies}
-                  query={query || null}
+                  query={parsedQuery.text || null}
                   suppliers={suppliers}
                 />
               ) : (
                 <div className="bg-gradient-to-br from-slate-50 to-white rounded-xl shadow-lg border border-slate-200 p-8 text-center">
                   <div className="text-slate-400 text-sm">
                     <div className="mb-2">🔍</div>
-                    Select a category to see technical filters
+                    {t('filters.selectCategory')}
                   </div>
                 </div>
               )}
@@ -353,31 +454,14 @@ export default function SearchPage() {
           <div className="bg-gradient-to-br from-slate-50 to-white rounded-xl shadow-lg border border-slate-200 p-6 mb-6">
             <div className="flex items-center gap-2 mb-4">
               <div className="w-1 h-6 bg-amber-500 rounded-full"></div>
-              <h3 className="font-bold text-lg text-slate-800">Suppliers</h3>
+              <h3 className="font-bold text-lg text-slate-800">{t('suppliers.title')}</h3>
             </div>
 
-            <div className="flex flex-wrap gap-3">
-              {['Delta Light', 'Meyer Lighting'].map(supplier => (
-                <label
-                  key={supplier}
-                  className={`
-                    flex items-center gap-2 px-4 py-2.5 rounded-lg border-2 cursor-pointer transition-all font-medium
-                    ${suppliers.includes(supplier)
-                      ? 'bg-blue-500 text-white border-blue-600 shadow-md'
-                      : 'bg-white text-slate-700 border-slate-200 hover:border-slate-300 hover:bg-slate-50'
-                    }
-                  `}
-                >
-                  <input
-                    type="checkbox"
-                    checked={suppliers.includes(supplier)}
-                    onChange={() => toggleSupplier(supplier)}
-                    className="sr-only"
-                  />
-                  {supplier}
-                </label>
-              ))}
-            </div>
+            <SupplierFilter
+              context={getSearchContext()}
+              selected={suppliers}
+              onChange={setSuppliers}
+            />
           </div>
 
           {/* Error Display */}
@@ -385,7 +469,7 @@ export default function SearchPage() {
             <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 mb-6 flex items-start gap-3">
               <div className="text-red-500 font-bold text-lg">⚠</div>
               <div>
-                <strong className="text-red-800 font-bold">Error:</strong>
+                <strong className="text-red-800 font-bold">{t('common.error')}</strong>
                 <p className="text-red-700 mt-1">{error}</p>
               </div>
             </div>
@@ -394,8 +478,12 @@ export default function SearchPage() {
           {/* Active Filter Chips */}
           <ActiveFilters
             selectedTaxonomyCodes={selectedTaxonomies}
+            filters={activeFilters}
+            suppliers={suppliers}
             onRemoveTaxonomy={handleRemoveTaxonomy}
-            onClearAll={handleClearAllTaxonomies}
+            onRemoveFilter={handleRemoveFilter}
+            onRemoveSupplier={handleRemoveSupplier}
+            onClearAll={handleClearAllFilters}
           />
 
           {/* Results Section */}
@@ -403,21 +491,42 @@ export default function SearchPage() {
             {/* Results Header */}
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-slate-800">
-                Products
+                {t('results.title')}
                 <span className="ml-3 text-lg font-normal text-slate-500">
                   {loading ? (
                     <span className="inline-flex items-center gap-2">
                       <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
-                      Searching...
+                      {t('results.searching')}
                     </span>
                   ) : (
                     <>
-                      ({products.length}{hasMore ? '+' : ''})
-                      {totalCount !== null && ` of ${totalCount.toLocaleString()}`}
+                      {totalCount !== null
+                        ? t('results.countOfTotal', { shown: products.length, total: totalCount.toLocaleString() })
+                        : t('results.count', { shown: products.length })}
                     </>
                   )}
                 </span>
               </h2>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <ArrowUpDown size={16} className="text-slate-400" />
+                  <span className="hidden md:inline">{t('results.sortBy')}</span>
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as SortOption)}
+                    className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm text-slate-700 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {SORT_OPTIONS.map(option => (
+                      <option key={option} value={option}>{t(`sort.${option}`)}</option>
+                    ))}
+                  </select>
+                </label>
+                <ExportMenu
+                  params={{ ...getSearchContext(), p_suppliers: suppliers.length > 0 ? suppliers : null }}
+                  sortBy={sortBy}
+                  totalCount={totalCount}
+                />
+              </div>
             </div>
 
             {/* Loading Skeletons */}
@@ -438,7 +547,19 @@ export default function SearchPage() {
             {products.length > 0 && (
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: '24px' }}>
                 {products.map((product) => (
-                  <ProductCard key={product.product_id} product={product} />
+                  <Link key={product.product_id} href={`/product/${product.product_id}`} className="block">
+                    <ProductCard
+                      product={product}
+                      highlight={parsedQuery.text}
+                      pinned={compare.isPinned(product.product_id)}
+                      pinDisabled={compare.isFull}
+                      onTogglePin={() => compare.toggle({
+                        product_id: product.product_id,
+                        foss_pid: product.foss_pid,
+                        image_url: product.image_url
+                      })}
+                    />
+                  </Link>
                 ))}
               </div>
             )}
@@ -454,10 +575,10 @@ export default function SearchPage() {
                   {loading ? (
                     <span className="flex items-center gap-2">
                       <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                      Loading...
+                      {t('common.loading')}
                     </span>
                   ) : (
-                    'Load More (24 more)'
+                    t('results.loadMore', { count: PAGE_SIZE })
                   )}
                 </button>
               </div>
@@ -465,6 +586,8 @@ export default function SearchPage() {
           </div>
         </ProductTabs>
       </div>
+
+      <CompareTray />
     </div>
   )
 }
@@ -0,0 +1,237 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { ArrowLeft, Box, ChevronRight, Zap } from 'lucide-react'
+import {
+  fetchProductDetail,
+  buildBreadcrumbs,
+  formatFeatureValue,
+  ProductDetail
+} from '@/lib/product'
+import SimilarProducts from '@/components/SimilarProducts'
+
+// 'cut_shape_round' -> 'Cut shape round'
+const flagLabel = (key: string) => key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, ' ')
+
+export default function ProductDetailPage() {
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const productId = params.id
+
+  const [detail, setDetail] = useState<ProductDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [activeImage, setActiveImage] = useState(0)
+  const [featureFilter, setFeatureFilter] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setActiveImage(0)
+
+    fetchProductDetail(productId)
+      .then(result => {
+        if (cancelled) return
+        if (!result) setError('Product not found')
+        setDetail(result)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Product detail error:', err)
+        setError(err.message || 'Failed to load product')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [productId])
+
+  // Back to the search with its filters when we came from it, home otherwise
+  const goBack = () => {
+    if (window.history.length > 1) router.back()
+    else router.push('/')
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50 p-8">
+        <div className="max-w-6xl mx-auto animate-pulse space-y-4">
+          <div className="h-6 bg-slate-200 rounded w-48"></div>
+          <div className="h-96 bg-slate-200 rounded-xl"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50 p-8">
+        <div className="max-w-6xl mx-auto">
+          <button onClick={goBack} className="flex items-center gap-2 text-slate-600 hover:text-blue-600 mb-6">
+            <ArrowLeft size={18} /> Back to search
+          </button>
+          <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 text-red-700">
+            {error || 'Product not found'}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const { product, flags, features, taxonomy, images } = detail
+  const breadcrumbs = buildBreadcrumbs(taxonomy)
+  const gallery = images.length > 0
+    ? images
+    : product.image_url ? [{ mime_code: 'MD01', url: product.image_url }] : []
+  const activeFlags = Object.entries(flags).filter(([, value]) => value).map(([key]) => key)
+
+  const term = featureFilter.trim().toLowerCase()
+  const visibleFeatures = term
+    ? features.filter(f =>
+        f.label.toLowerCase().includes(term) ||
+        formatFeatureValue(f).toLowerCase().includes(term) ||
+        f.feature_id.toLowerCase().includes(term))
+    : features
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50">
+      <div className="max-w-6xl mx-auto p-8">
+        <button onClick={goBack} className="flex items-center gap-2 text-slate-600 hover:text-blue-600 mb-4 transition-colors">
+          <ArrowLeft size={18} /> Back to search
+        </button>
+
+        {/* Breadcrumbs (one trail per taxonomy branch) */}
+        {breadcrumbs.length > 0 && (
+          <div className="space-y-1 mb-6">
+            {breadcrumbs.map(trail => (
+              <nav key={trail[trail.length - 1].code} className="flex flex-wrap items-center gap-1 text-sm text-slate-500">
+                {trail.map((node, index) => (
+                  <span key={node.code} className="flex items-center gap-1">
+                    {index > 0 && <ChevronRight size={14} className="text-slate-300" />}
+                    <Link
+                      href={`/?tab=${encodeURIComponent(trail[0].code)}${index > 0 ? `&cat=${encodeURIComponent(node.code)}` : ''}`}
+                      className="hover:text-blue-600 hover:underline"
+                    >
+                      {node.name}
+                    </Link>
+                  </span>
+                ))}
+              </nav>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          {/* Images */}
+          <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-4">
+            <div className="bg-gradient-to-br from-slate-100 to-slate-50 rounded-lg overflow-hidden flex items-center justify-center" style={{ height: '400px' }}>
+              {gallery.length > 0 ? (
+                <img src={gallery[activeImage]?.url} alt={product.foss_pid} className="max-w-full max-h-full object-contain" />
+              ) : (
+                <Box size={64} strokeWidth={1} className="text-slate-400" />
+              )}
+            </div>
+            {gallery.length > 1 && (
+              <div className="flex gap-2 mt-3 overflow-x-auto">
+                {gallery.map((image, index) => (
+                  <button
+                    key={`${image.mime_code}-${index}`}
+                    onClick={() => setActiveImage(index)}
+                    className={`w-16 h-16 shrink-0 rounded-lg border-2 overflow-hidden ${index === activeImage ? 'border-blue-500' : 'border-slate-200 hover:border-slate-300'}`}
+                    title={image.mime_code}
+                  >
+                    <img src={image.url} alt="" className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6">
+            <h1 className="text-3xl font-bold text-slate-800 mb-2">{product.foss_pid}</h1>
+            <p className="text-lg text-slate-700 mb-4">{product.description_short}</p>
+            <div className="flex items-center gap-2 text-sm text-slate-500 mb-4 pb-4 border-b border-slate-100">
+              <span className="font-medium">{product.supplier_name}</span>
+              {product.class_name && (
+                <>
+                  <span className="text-slate-300">•</span>
+                  <span>{product.class_name}</span>
+                </>
+              )}
+            </div>
+
+            {product.price != null && (
+              <div className="text-2xl font-bold text-green-600 mb-4">€{Number(product.price).toFixed(2)}</div>
+            )}
+
+            {product.description_long && (
+              <p className="text-sm text-slate-600 mb-4 whitespace-pre-line">{product.description_long}</p>
+            )}
+
+            {activeFlags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {activeFlags.map(flag => (
+                  <span key={flag} className="px-2 py-1 rounded-md text-xs font-medium border bg-blue-50 text-blue-700 border-blue-200">
+                    {flagLabel(flag)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Full ETIM feature sheet */}
+        <div className="bg-white rounded-xl shadow-lg border border-slate-200">
+          <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <div className="w-1 h-6 bg-blue-500 rounded-full"></div>
+              <h2 className="font-bold text-xl text-slate-800">Technical Specifications</h2>
+              <span className="text-sm text-slate-500">({features.length})</span>
+            </div>
+            {features.length > 10 && (
+              <input
+                type="search"
+                value={featureFilter}
+                onChange={(e) => setFeatureFilter(e.target.value)}
+                placeholder="Find a feature..."
+                className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            )}
+          </div>
+
+          {visibleFeatures.length === 0 ? (
+            <div className="px-6 py-8 text-center text-sm text-slate-400">No features found</div>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {visibleFeatures.map((feature, index) => (
+                  <tr key={`${feature.feature_id}-${index}`} className="border-b border-slate-100 last:border-b-0 hover:bg-slate-50">
+                    <td className="px-6 py-2.5 text-slate-600 w-1/2">
+                      <span className="flex items-center gap-2">
+                        {feature.label}
+                        {feature.filter_key && (
+                          <span title="Searchable filter"><Zap size={12} className="text-amber-500" /></span>
+                        )}
+                      </span>
+                    </td>
+                    <td className="px-6 py-2.5 font-medium text-slate-800">{formatFeatureValue(feature)}</td>
+                    <td className="px-6 py-2.5 text-xs text-slate-400 text-right">{feature.feature_id}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <SimilarProducts productId={product.product_id} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Eye, Pencil, Plus, Power, RotateCcw } from 'lucide-react'
+import ClassificationImpactPanel from '@/components/ClassificationImpactPanel'
+import type {
+  ClassificationImpact,
+  ClassificationRuleChange,
+  ClassificationRuleRecord
+} from '@search/search-actions'
+import type { FeatureCondition } from '@search/search-classification'
+import { fetchClassificationRules, previewClassificationChanges, toRuleChange } from '@/lib/classification'
+
+const NEW_RULE_TEMPLATE: ClassificationRuleChange = {
+  rule_name: 'draft_rule',
+  taxonomy_code: null,
+  flag_name: 'dimmable',
+  text_pattern: 'dimmable',
+  priority: 100
+}
+
+// 'EF006760 exists', 'all(EF006760 exists, not(EF000664 in EV000001|EV000002))'
+function describeFeatureCondition(condition: FeatureCondition): string {
+  if ('all' in condition && Array.isArray(condition.all)) {
+    return `all(${condition.all.map(describeFeatureCondition).join(', ')})`
+  }
+  if ('any' in condition && Array.isArray(condition.any)) {
+    return `any(${condition.any.map(describeFeatureCondition).join(', ')})`
+  }
+  if ('not' in condition && condition.not && !Array.isArray(condition.not) && typeof condition.not === 'object') {
+    return `not(${describeFeatureCondition(condition.not as FeatureCondition)})`
+  }
+  return Object.entries(condition).map(([featureId, spec]) =>
+    [
+      featureId,
+      spec?.operator,
+      Array.isArray(spec?.values) ? spec.values.join('|') : spec?.value ?? (spec?.min != null ? `${spec.min}–${spec.max}` : '')
+    ]
+      .filter(part => part !== undefined && part !== '')
+      .join(' ')
+  ).join(', ')
+}
+
+// 'EG000027 · EC002710 · EF006760 exists · /outdoor/'
+function describeConditions(rule: ClassificationRuleRecord): string {
+  const parts = [
+    ...(rule.etim_group_ids ?? []),
+    ...(rule.etim_class_ids ?? []),
+    ...(rule.etim_feature_conditions ? [describeFeatureCondition(rule.etim_feature_conditions)] : []),
+    ...(rule.text_pattern ? [`/${rule.text_pattern}/`] : [])
+  ]
+  return parts.filter(Boolean).join(' · ') || '—'
+}
+
+/**
+ * Classification rules with a "what would move" preview: build a draft
+ * (edits of existing rules and/or new rules) and see which products would
+ * gain or lose taxonomy codes and flags. Nothing is saved.
+ */
+export default function RulesPage() {
+  const [rules, setRules] = useState<ClassificationRuleRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [draft, setDraft] = useState('[]')
+  const [draftError, setDraftError] = useState<string | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [impact, setImpact] = useState<ClassificationImpact | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchClassificationRules()
+      .then(result => {
+        if (!cancelled) setRules(result)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Classification rules load error:', err)
+        setError(err.message || 'Failed to load classification rules')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Parse the draft editor; null (with an error shown) when it isn't a JSON array
+  const parseDraft = (): ClassificationRuleChange[] | null => {
+    try {
+      const parsed = JSON.parse(draft)
+      if (!Array.isArray(parsed)) throw new Error('The draft must be a JSON array of rule changes')
+      setDraftError(null)
+      return parsed
+    } catch (err: any) {
+      setDraftError(err.message)
+      return null
+    }
+  }
+
+  const addChange = (change: ClassificationRuleChange) => {
+    const changes = parseDraft()
+    if (!changes) return
+    // An existing rule appears once: a new edit replaces the previous one
+    const others = change.id != null ? changes.filter(c => c.id !== change.id) : changes
+    setDraft(JSON.stringify([...others, change], null, 2))
+    setImpact(null)
+  }
+
+  const resetDraft = () => {
+    setDraft('[]')
+    setDraftError(null)
+    setImpact(null)
+  }
+
+  const runPreview = async () => {
+    const changes = parseDraft()
+    if (!changes) return
+    if (changes.length === 0) {
+      setDraftError('Add at least one rule change')
+      return
+    }
+
+    setPreviewing(true)
+    setImpact(null)
+    try {
+      console.log('🔍 Previewing classification changes:', changes)
+      setImpact(await previewClassificationChanges(changes))
+    } catch (err: any) {
+      console.error('Classification preview error:', err)
+      setDraftError(err.message || 'Preview failed')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50">
+      <div className="max-w-7xl mx-auto p-8">
+        <Link href="/" className="flex items-center gap-2 text-slate-600 hover:text-blue-600 mb-6 transition-colors w-fit">
+          <ArrowLeft size={18} /> Back to search
+        </Link>
+
+        <h1 className="text-3xl font-bold text-slate-800 mb-2">Classification Rules</h1>
+        <p className="text-slate-500 mb-6">
+          Preview which products would gain or lose taxonomy codes and flags before changing a rule.
+          Nothing is saved and product_taxonomy_flags is not touched.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 mb-6 text-red-700">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+          {/* Rules */}
+          <div className="xl:col-span-3 bg-white rounded-xl shadow-lg border border-slate-200 overflow-x-auto">
+            {loading ? (
+              <div className="h-96 bg-slate-200 animate-pulse"></div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-slate-500">
+                    <th className="px-3 py-2 font-medium">Prio</th>
+                    <th className="px-3 py-2 font-medium">Rule</th>
+                    <th className="px-3 py-2 font-medium">Gives</th>
+                    <th className="px-3 py-2 font-medium">Conditions</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map(rule => (
+                    <tr
+                      key={rule.id}
+                      className={`border-b border-slate-100 last:border-b-0 align-top ${rule.active ? '' : 'text-slate-400'}`}
+                    >
+                      <td className="px-3 py-2">{rule.priority}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{rule.rule_name}</div>
+                        {!rule.active && <div className="text-xs">inactive</div>}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs">
+                        {[rule.taxonomy_code, rule.flag_name && `flag:${rule.flag_name}`].filter(Boolean).join(' ')}
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs break-all">{describeConditions(rule)}</td>
+                      <td className="px-3 py-2">
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => addChange(toRuleChange(rule))}
+                            className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                            title="Edit in draft"
+                          >
+                            <Pencil size={14} />
+                          </button>
+                          <button
+                            onClick={() => addChange({ id: rule.id, active: !rule.active })}
+                            className="p-1.5 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                            title={rule.active ? 'Deactivate in draft' : 'Activate in draft'}
+                          >
+                            <Power size={14} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Draft */}
+          <div className="xl:col-span-2">
+            <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-4 xl:sticky xl:top-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold text-slate-800">Draft changes</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => addChange(NEW_RULE_TEMPLATE)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 border border-slate-200 rounded hover:bg-slate-50"
+                  >
+                    <Plus size={12} /> New rule
+                  </button>
+                  <button
+                    onClick={resetDraft}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 border border-slate-200 rounded hover:bg-slate-50"
+                  >
+                    <RotateCcw size={12} /> Reset
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 mb-2">
+                {'{ "id": N, ... }'} replaces those columns of rule N; an object without id is a new rule.
+              </p>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                rows={16}
+                className="w-full p-3 font-mono text-xs border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {draftError && <p className="text-sm text-red-600 mt-2">{draftError}</p>}
+              <button
+                onClick={runPreview}
+                disabled={previewing}
+                className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold shadow-md hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 transition-all"
+              >
+                <Eye size={18} />
+                {previewing ? 'Evaluating rules…' : 'Preview impact'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {impact && (
+          <div className="mt-8">
+            <h2 className="text-xl font-bold text-slate-800 mb-4">What would move</h2>
+            <ClassificationImpactPanel impact={impact} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,92 +1,196 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
+import { fetchFilterDefinitions } from '@/lib/search'
+import { fetchFilterTranslations, FilterTranslations, Locale, MessageKey, useLocale } from '@/lib/i18n'
+import type { FilterDefinition } from '@/components/filters'
 
 type ActiveFiltersProps = {
   selectedTaxonomyCodes: string[]
+  filters?: Record<string, any> // FilterPanel state: technical filters and location/options flags
+  suppliers?: string[]
   onRemoveTaxonomy: (code: string) => void
+  onRemoveFilter?: (filterKey: string) => void
+  onRemoveSupplier?: (supplier: string) => void
   onClearAll: () => void
 }
 
+type TaxonomyNode = {
+  code: string
+  name: string
+  parent_code: string | null
+}
+
 type TaxonomyInfo = {
   code: string
   name: string
   full_path: string // Formatted path like "Luminaires > Ceiling > Recessed"
 }
 
+type FilterChipInfo = {
+  key: string
+  label: string // e.g. "CCT: 2700–3000 K", "IP: IP65, IP67", "Indoor"
+}
+
+// Location/options flags have their own UI strings (flag.*)
+const FLAG_KEYS = ['indoor', 'outdoor', 'submersible', 'trimless', 'cut_shape_round', 'cut_shape_rectangular']
+
+/**
+ * Display text of a filter value: translated categorical values, ranges
+ * with the ui_config unit ("2700–3000 K", "≥ 800 lm"), booleans as yes/no.
+ *
+ * @returns The text, or null for an empty selection
+ */
+function formatFilterValue(
+  value: any,
+  definition: FilterDefinition | undefined,
+  valueLabels: Record<string, string> | undefined,
+  t: (key: MessageKey) => string
+): string | null {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(v => valueLabels?.[v] ?? v).join(', ') : null
+  }
+  if (typeof value === 'boolean') {
+    return t(value ? 'activeFilters.yes' : 'activeFilters.no')
+  }
+  if (value && typeof value === 'object') {
+    const unit = definition?.ui_config?.unit ? ` ${definition.ui_config.unit}` : ''
+    const { min, max } = value
+    if (min != null && max != null) return min === max ? `${min}${unit}` : `${min}–${max}${unit}`
+    if (min != null) return `≥ ${min}${unit}`
+    if (max != null) return `≤ ${max}${unit}`
+  }
+  return null
+}
+
 export default function ActiveFilters({
   selectedTaxonomyCodes,
+  filters = {},
+  suppliers = [],
   onRemoveTaxonomy,
+  onRemoveFilter,
+  onRemoveSupplier,
   onClearAll
 }: ActiveFiltersProps) {
-  const [taxonomyInfo, setTaxonomyInfo] = useState<Map<string, TaxonomyInfo>>(new Map())
-  const [loading, setLoading] = useState(false)
+  const [taxonomyTree, setTaxonomyTree] = useState<{ locale: Locale; nodes: Map<string, TaxonomyNode> } | null>(null)
+  const [definitions, setDefinitions] = useState<FilterDefinition[]>([])
+  const [translations, setTranslations] = useState<FilterTranslations>({ labels: {}, values: {} })
+  const { locale, t } = useLocale()
+  const hasTaxonomies = selectedTaxonomyCodes.length > 0
 
-  // Load taxonomy names for selected codes
+  // Taxonomy names (in the current language), loaded once per language
+  // when the first category is selected; paths are built from it on render
   useEffect(() => {
-    if (selectedTaxonomyCodes.length === 0) {
-      setTaxonomyInfo(new Map())
-      return
-    }
+    if (!hasTaxonomies || taxonomyTree?.locale === locale) return
+
+    const controller = new AbortController()
 
-    const loadTaxonomyInfo = async () => {
-      setLoading(true)
+    const loadTaxonomyNodes = async () => {
       try {
-        const { data, error } = await supabase.rpc('get_taxonomy_tree')
+        const { data, error } = await supabase
+          .rpc('get_taxonomy_tree', { p_locale: locale })
+          .abortSignal(controller.signal)
 
+        if (controller.signal.aborted) return
         if (error) throw error
 
-        if (data) {
-          const infoMap = new Map<string, TaxonomyInfo>()
-          const nodeMap = new Map<string, any>()
-
-          // First pass: create node map
-          data.forEach((item: any) => {
-            nodeMap.set(item.code, {
-              code: item.code,
-              name: item.name, // Database returns 'name' field directly
-              parent_code: item.parent_code,
-              level: item.level
-            })
-          })
-
-          // Second pass: build full paths for selected codes
-          selectedTaxonomyCodes.forEach(code => {
-            const node = nodeMap.get(code)
-            if (!node) return
-
-            // Build path by traversing parents
-            const path: string[] = [node.name]
-            let currentCode = node.parent_code
-            while (currentCode && nodeMap.has(currentCode)) {
-              const parentNode = nodeMap.get(currentCode)
-              if (parentNode.code !== 'ROOT') {
-                path.unshift(parentNode.name)
-              }
-              currentCode = parentNode.parent_code
-            }
-
-            infoMap.set(code, {
-              code,
-              name: node.name,
-              full_path: path.join(' > ')
-            })
+        const nodeMap = new Map<string, TaxonomyNode>()
+        for (const item of data || []) {
+          nodeMap.set(item.code, {
+            code: item.code,
+            name: item.name, // Database returns 'name' field directly
+            parent_code: item.parent_code
           })
-
-          setTaxonomyInfo(infoMap)
         }
+        setTaxonomyTree({ locale, nodes: nodeMap })
       } catch (err) {
+        if (controller.signal.aborted) return
         console.error('Error loading taxonomy info:', err)
-      } finally {
-        setLoading(false)
       }
     }
 
-    loadTaxonomyInfo()
-  }, [selectedTaxonomyCodes])
+    loadTaxonomyNodes()
+    return () => controller.abort()
+  }, [hasTaxonomies, locale, taxonomyTree])
+
+  // Filter labels and units (definitions are cached for the session)
+  useEffect(() => {
+    let cancelled = false
+    fetchFilterDefinitions()
+      .then(result => {
+        if (!cancelled) setDefinitions(result)
+      })
+      .catch(error => console.error('Error loading filter definitions:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    fetchFilterTranslations(locale)
+      .then(result => {
+        if (!cancelled) setTranslations(result)
+      })
+      .catch(error => {
+        console.error('Error loading filter translations:', error)
+        if (!cancelled) setTranslations({ labels: {}, values: {} })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [locale])
+
+  const taxonomyInfo = useMemo(() => {
+    const infoMap = new Map<string, TaxonomyInfo>()
+    const taxonomyNodes = taxonomyTree?.nodes
+    if (!taxonomyNodes) return infoMap
+
+    selectedTaxonomyCodes.forEach(code => {
+      const node = taxonomyNodes.get(code)
+      if (!node) return
+
+      // Build path by traversing parents
+      const path: string[] = [node.name]
+      let currentCode = node.parent_code
+      while (currentCode && taxonomyNodes.has(currentCode)) {
+        const parentNode = taxonomyNodes.get(currentCode)!
+        if (parentNode.code !== 'ROOT') {
+          path.unshift(parentNode.name)
+        }
+        currentCode = parentNode.parent_code
+      }
 
-  if (selectedTaxonomyCodes.length === 0) {
+      infoMap.set(code, { code, name: node.name, full_path: path.join(' > ') })
+    })
+    return infoMap
+  }, [taxonomyTree, selectedTaxonomyCodes])
+
+  const filterChips = useMemo(() => {
+    const byKey = new Map(definitions.map(d => [d.filter_key, d]))
+    const chips: FilterChipInfo[] = []
+
+    for (const [key, value] of Object.entries(filters)) {
+      if (FLAG_KEYS.includes(key)) {
+        if (typeof value !== 'boolean') continue
+        const name = t(`flag.${key}` as MessageKey)
+        chips.push({ key, label: value ? name : `${name}: ${t('activeFilters.no')}` })
+        continue
+      }
+
+      const definition = byKey.get(key)
+      const text = formatFilterValue(value, definition, translations.values[key], t)
+      if (text === null) continue
+
+      const name = translations.labels[key] ?? definition?.label ?? key
+      chips.push({ key, label: `${name}: ${text}` })
+    }
+    return chips
+  }, [filters, definitions, translations, t])
+
+  const chipCount = selectedTaxonomyCodes.length + filterChips.length + suppliers.length
+  if (chipCount === 0) {
     return null
   }
 
@@ -96,112 +200,172 @@ export default function ActiveFilters({
       backgroundColor: '#f9fafb',
       border: '1px solid #e5e7eb',
       borderRadius: '6px',
-      marginBottom: '16px'
+      marginBottom: '16px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px'
     }}>
-      <div style={{
-        display: 'flex',
-        alignItems: 'center',
-        flexWrap: 'wrap',
-        gap: '8px'
-      }}>
-        <span style={{
-          fontSize: '14px',
-          fontWeight: '500',
-          color: '#374151',
-          marginRight: '4px'
-        }}>
-          📁 Categories:
-        </span>
-
-        {loading ? (
-          <span style={{ fontSize: '12px', color: '#6b7280' }}>Loading...</span>
-        ) : (
-          <>
-            {selectedTaxonomyCodes.map(code => {
+      {hasTaxonomies && (
+        <ChipRow label={`📁 ${t('activeFilters.categories')}`}>
+          {!taxonomyTree ? (
+            <span style={{ fontSize: '12px', color: '#6b7280' }}>{t('common.loading')}</span>
+          ) : (
+            selectedTaxonomyCodes.map(code => {
               const info = taxonomyInfo.get(code)
               if (!info) return null
 
               return (
-                <div
+                <Chip
                   key={code}
+                  label={info.name}
                   title={info.full_path} // Tooltip showing full path
-                  style={{
-                    display: 'inline-flex',
-                    alignItems: 'center',
-                    gap: '6px',
-                    padding: '4px 8px 4px 12px',
-                    backgroundColor: '#dbeafe',
-                    color: '#1e40af',
-                    borderRadius: '16px',
-                    fontSize: '13px',
-                    border: '1px solid #93c5fd',
-                    transition: 'all 0.2s',
-                    cursor: 'default'
-                  }}
-                >
-                  <span>{info.name}</span>
-                  <button
-                    onClick={() => onRemoveTaxonomy(code)}
-                    aria-label={`Remove ${info.name} filter`}
-                    style={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      width: '16px',
-                      height: '16px',
-                      padding: 0,
-                      backgroundColor: '#1e40af',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '50%',
-                      cursor: 'pointer',
-                      fontSize: '12px',
-                      lineHeight: '1',
-                      transition: 'all 0.2s'
-                    }}
-                    onMouseEnter={(e) => {
-                      e.currentTarget.style.backgroundColor = '#1e3a8a'
-                      e.currentTarget.style.transform = 'scale(1.1)'
-                    }}
-                    onMouseLeave={(e) => {
-                      e.currentTarget.style.backgroundColor = '#1e40af'
-                      e.currentTarget.style.transform = 'scale(1)'
-                    }}
-                  >
-                    ✕
-                  </button>
-                </div>
+                  removeLabel={t('activeFilters.remove', { name: info.name })}
+                  onRemove={() => onRemoveTaxonomy(code)}
+                />
               )
-            })}
-
-            {selectedTaxonomyCodes.length > 1 && (
-              <button
-                onClick={onClearAll}
-                style={{
-                  padding: '4px 12px',
-                  fontSize: '13px',
-                  fontWeight: '500',
-                  color: '#dc2626',
-                  backgroundColor: 'transparent',
-                  border: '1px solid #dc2626',
-                  borderRadius: '16px',
-                  cursor: 'pointer',
-                  transition: 'all 0.2s',
-                  marginLeft: '4px'
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = '#fef2f2'
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = 'transparent'
-                }}
-              >
-                Clear All
-              </button>
-            )}
-          </>
-        )}
-      </div>
+            })
+          )}
+        </ChipRow>
+      )}
+
+      {filterChips.length > 0 && (
+        <ChipRow label={`🎛️ ${t('activeFilters.filters')}`}>
+          {filterChips.map(chip => (
+            <Chip
+              key={chip.key}
+              label={chip.label}
+              removeLabel={t('activeFilters.remove', { name: chip.label })}
+              onRemove={onRemoveFilter ? () => onRemoveFilter(chip.key) : undefined}
+            />
+          ))}
+        </ChipRow>
+      )}
+
+      {suppliers.length > 0 && (
+        <ChipRow label={`🏭 ${t('activeFilters.suppliers')}`}>
+          {suppliers.map(supplier => (
+            <Chip
+              key={supplier}
+              label={supplier}
+              removeLabel={t('activeFilters.remove', { name: supplier })}
+              onRemove={onRemoveSupplier ? () => onRemoveSupplier(supplier) : undefined}
+            />
+          ))}
+        </ChipRow>
+      )}
+
+      {chipCount > 1 && (
+        <div>
+          <button
+            onClick={onClearAll}
+            style={{
+              padding: '4px 12px',
+              fontSize: '13px',
+              fontWeight: '500',
+              color: '#dc2626',
+              backgroundColor: 'transparent',
+              border: '1px solid #dc2626',
+              borderRadius: '16px',
+              cursor: 'pointer',
+              transition: 'all 0.2s'
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = '#fef2f2'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'transparent'
+            }}
+          >
+            {t('common.clearAll')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * One labelled line of chips (categories, filters, suppliers)
+ */
+function ChipRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: '8px'
+    }}>
+      <span style={{
+        fontSize: '14px',
+        fontWeight: '500',
+        color: '#374151',
+        marginRight: '4px'
+      }}>
+        {label}
+      </span>
+      {children}
+    </div>
+  )
+}
+
+type ChipProps = {
+  label: string
+  title?: string
+  removeLabel: string
+  onRemove?: () => void // No remove button when omitted
+}
+
+function Chip({ label, title, removeLabel, onRemove }: ChipProps) {
+  return (
+    <div
+      title={title}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: onRemove ? '4px 8px 4px 12px' : '4px 12px',
+        backgroundColor: '#dbeafe',
+        color: '#1e40af',
+        borderRadius: '16px',
+        fontSize: '13px',
+        border: '1px solid #93c5fd',
+        transition: 'all 0.2s',
+        cursor: 'default'
+      }}
+    >
+      <span>{label}</span>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          aria-label={removeLabel}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: '16px',
+            height: '16px',
+            padding: 0,
+            backgroundColor: '#1e40af',
+            color: 'white',
+            border: 'none',
+            borderRadius: '50%',
+            cursor: 'pointer',
+            fontSize: '12px',
+            lineHeight: '1',
+            transition: 'all 0.2s'
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = '#1e3a8a'
+            e.currentTarget.style.transform = 'scale(1.1)'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = '#1e40af'
+            e.currentTarget.style.transform = 'scale(1)'
+          }}
+        >
+          ✕
+        </button>
+      )}
     </div>
   )
 }
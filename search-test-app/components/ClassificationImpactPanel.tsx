@@ -0,0 +1,109 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowDownRight, ArrowUpRight } from 'lucide-react'
+import type { ClassificationImpact, ClassificationImpactEntry } from '@search/search-actions'
+
+type ClassificationImpactPanelProps = {
+  impact: ClassificationImpact
+}
+
+/**
+ * Result of a rule-change preview: how many products gain / lose each
+ * taxonomy code and flag, with sample foss_pids (linked to a search)
+ */
+export default function ClassificationImpactPanel({ impact }: ClassificationImpactPanelProps) {
+  const { products } = impact
+
+  if (products.gained === 0 && products.lost === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 p-6 text-slate-600">
+        Nothing would move: no product gains or loses a taxonomy code or flag.
+        <p className="text-xs text-slate-400 mt-2">
+          Priority alone never moves products: every matching rule contributes its code and flag.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <Summary direction="gained" count={products.gained} samples={products.sample_gained} />
+        <Summary direction="lost" count={products.lost} samples={products.sample_lost} />
+      </div>
+
+      <ImpactTable title="Taxonomy codes" entries={impact.taxonomy} />
+      <ImpactTable title="Flags" entries={impact.flags} />
+    </div>
+  )
+}
+
+function Summary({ direction, count, samples }: { direction: 'gained' | 'lost'; count: number; samples: string[] }) {
+  const gained = direction === 'gained'
+  return (
+    <div className={`rounded-xl border p-4 ${gained ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      <div className={`flex items-center gap-2 font-semibold ${gained ? 'text-green-800' : 'text-red-800'}`}>
+        {gained ? <ArrowUpRight size={18} /> : <ArrowDownRight size={18} />}
+        {count.toLocaleString()} products {gained ? 'gain' : 'lose'} a code or flag
+      </div>
+      <Samples samples={samples} total={count} />
+    </div>
+  )
+}
+
+function ImpactTable({ title, entries }: { title: string; entries: ClassificationImpactEntry[] }) {
+  if (entries.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-slate-200 text-left text-slate-500">
+            <th className="px-4 py-2 font-medium">{title}</th>
+            <th className="px-4 py-2 font-medium text-right">Gained</th>
+            <th className="px-4 py-2 font-medium text-right">Lost</th>
+            <th className="px-4 py-2 font-medium">Sample</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(entry => (
+            <tr key={entry.code} className="border-b border-slate-100 last:border-b-0 align-top">
+              <td className="px-4 py-2.5 font-mono text-slate-800">{entry.code}</td>
+              <td className="px-4 py-2.5 text-right text-green-700">{entry.gained > 0 ? `+${entry.gained.toLocaleString()}` : '—'}</td>
+              <td className="px-4 py-2.5 text-right text-red-700">{entry.lost > 0 ? `−${entry.lost.toLocaleString()}` : '—'}</td>
+              <td className="px-4 py-2.5 space-y-1">
+                {entry.sample_gained.length > 0 && <Samples samples={entry.sample_gained} total={entry.gained} prefix="+" />}
+                {entry.sample_lost.length > 0 && <Samples samples={entry.sample_lost} total={entry.lost} prefix="−" />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function Samples({ samples, total, prefix }: { samples: string[]; total: number; prefix?: string }) {
+  if (samples.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+      {prefix && <span className="text-slate-400 w-3">{prefix}</span>}
+      {samples.map(fossPid => (
+        <Link
+          key={fossPid}
+          href={`/?q=${encodeURIComponent(fossPid)}`}
+          className="px-2 py-0.5 bg-white border border-slate-200 rounded font-mono text-slate-700 hover:border-blue-400 hover:text-blue-700"
+        >
+          {fossPid}
+        </Link>
+      ))}
+      {total > samples.length && <span className="text-slate-400">+{(total - samples.length).toLocaleString()} more</span>}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import Link from 'next/link'
+import { Box, Columns3, X } from 'lucide-react'
+import { useCompareList, MAX_COMPARE } from '@/lib/compare'
+
+/**
+ * Bottom bar listing the products pinned for comparison
+ */
+export default function CompareTray() {
+  const { items, remove, clear } = useCompareList()
+
+  if (items.length === 0) return null
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-40 bg-white/95 backdrop-blur border-t border-slate-200 shadow-[0_-4px_20px_rgba(0,0,0,0.08)]">
+      <div className="max-w-[1800px] mx-auto px-6 py-3 flex items-center gap-4">
+        <div className="text-sm font-semibold text-slate-700 shrink-0">
+          Compare <span className="text-slate-400 font-normal">({items.length}/{MAX_COMPARE})</span>
+        </div>
+
+        <div className="flex-1 flex items-center gap-3 overflow-x-auto">
+          {items.map(item => (
+            <div key={item.product_id} className="flex items-center gap-2 pl-1 pr-2 py-1 bg-slate-50 border border-slate-200 rounded-lg shrink-0">
+              <div className="w-10 h-10 rounded bg-slate-100 overflow-hidden flex items-center justify-center">
+                {item.image_url ? (
+                  <img src={item.image_url} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <Box size={18} strokeWidth={1} className="text-slate-400" />
+                )}
+              </div>
+              <span className="text-sm font-medium text-slate-700">{item.foss_pid}</span>
+              <button
+                onClick={() => remove(item.product_id)}
+                className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                title={`Remove ${item.foss_pid}`}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button onClick={clear} className="text-sm text-slate-500 hover:text-red-600 shrink-0">
+          Clear
+        </button>
+        <Link
+          href={`/compare?ids=${items.map(item => item.product_id).join(',')}`}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium shrink-0 transition-colors ${
+            items.length >= 2
+              ? 'bg-blue-500 text-white hover:bg-blue-600'
+              : 'bg-slate-100 text-slate-400 pointer-events-none'
+          }`}
+          aria-disabled={items.length < 2}
+        >
+          <Columns3 size={16} />
+          Compare
+        </Link>
+      </div>
+    </div>
+  )
+}
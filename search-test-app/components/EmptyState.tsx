@@ -1,12 +1,15 @@
 'use client'
 
 import { Search, Filter } from 'lucide-react'
+import { useLocale } from '@/lib/i18n'
 
 type EmptyStateProps = {
   hasFilters?: boolean
 }
 
 export default function EmptyState({ hasFilters = false }: EmptyStateProps) {
+  const { t } = useLocale()
+
   return (
     <div className="flex flex-col items-center justify-center py-16 px-4">
       <div className="bg-gradient-to-br from-slate-100 to-slate-50 rounded-full p-6 mb-6">
@@ -18,19 +21,17 @@ export default function EmptyState({ hasFilters = false }: EmptyStateProps) {
       </div>
 
       <h3 className="text-xl font-bold text-slate-700 mb-2">
-        {hasFilters ? 'No products match your filters' : 'No products found'}
+        {hasFilters ? t('empty.noMatchTitle') : t('empty.noResultsTitle')}
       </h3>
 
       <p className="text-slate-500 text-center max-w-md mb-6">
-        {hasFilters
-          ? 'Try adjusting your filter selections to see more results.'
-          : 'Start by selecting a category or adjusting your search criteria.'}
+        {hasFilters ? t('empty.noMatchText') : t('empty.noResultsText')}
       </p>
 
       {hasFilters && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 max-w-md">
           <p className="text-sm text-blue-800">
-            <strong>Tip:</strong> Remove some filters or try selecting different categories to expand your search.
+            <strong>{t('empty.tipLabel')}</strong> {t('empty.tip')}
           </p>
         </div>
       )}
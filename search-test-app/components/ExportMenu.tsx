@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Download, Loader2 } from 'lucide-react'
+import type { SearchParams, SortOption } from '@/lib/search'
+import { downloadProducts } from '@/lib/export'
+import { useLocale } from '@/lib/i18n'
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, ExportColumn, ExportFormat } from '@search/search-export'
+
+// 1536 -> '1.5 KB'
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+type ExportMenuProps = {
+  params: SearchParams // Current search (all matching rows are exported, not just the loaded page)
+  sortBy: SortOption
+  totalCount: number | null
+}
+
+/**
+ * Results header button: pick CSV/XLSX and columns, then download every
+ * product matching the current search
+ */
+export default function ExportMenu({ params, sortBy, totalCount }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const { t } = useLocale()
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  // Cancel a running export when the page goes away
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const toggleColumn = (key: ExportColumn) => {
+    // Keep the EXPORT_COLUMNS order whatever order they were ticked in
+    const next = columns.includes(key) ? columns.filter(c => c !== key) : [...columns, key]
+    setColumns(EXPORT_COLUMNS.map(c => c.key).filter(c => next.includes(c)))
+  }
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress(0)
+    setMessage(null)
+
+    try {
+      console.log('📥 Exporting products:', { format, columns, params })
+      const size = await downloadProducts(params, sortBy, format, columns, setProgress, controller.signal)
+      setMessage(t('export.done', { size: formatSize(size) }))
+    } catch (err: any) {
+      if (controller.signal.aborted) return
+      console.error('Export error:', err)
+      setMessage(t('export.failed', { message: err.message || 'unknown error' }))
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const exporting = progress !== null
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={totalCount === 0}
+        className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {exporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+        {exporting ? t('export.exporting', { size: formatSize(progress) }) : t('export.button')}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-slate-200 rounded-xl shadow-xl z-30">
+          <div className="p-4 border-b border-slate-100">
+            <div className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('export.format')}</div>
+            <div className="flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+              {(['xlsx', 'csv'] as ExportFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`flex-1 px-3 py-1.5 transition-colors ${
+                    format === f ? 'bg-blue-500 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {f === 'xlsx' ? 'Excel (.xlsx)' : 'CSV'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-4 border-b border-slate-100">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold text-slate-500 uppercase">{t('export.columns', { count: columns.length })}</span>
+              <button
+                onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {t('export.reset')}
+              </button>
+            </div>
+            <div className="max-h-56 overflow-y-auto space-y-1">
+              {EXPORT_COLUMNS.map(column => (
+                <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-4">
+            <button
+              onClick={handleExport}
+              disabled={exporting || columns.length === 0}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+            >
+              <Download size={16} />
+              {totalCount !== null
+                ? t('export.downloadCount', { count: totalCount.toLocaleString() })
+                : t('export.download')}
+            </button>
+            {message && <p className="mt-2 text-xs text-slate-500">{message}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
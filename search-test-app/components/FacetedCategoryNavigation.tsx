@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
+import { useLocale } from '@/lib/i18n'
 
 type TaxonomyNode = {
   code: string
@@ -18,6 +19,7 @@ type TreeNode = TaxonomyNode & {
 
 type FacetedCategoryNavigationProps = {
   onSelectTaxonomies: (codes: string[]) => void
+  selectedTaxonomies?: string[] // Controlled selection (e.g. restored from the URL or removed via chips)
   autoSearch?: boolean // Whether to trigger search automatically (default: true)
   debounceMs?: number // Debounce time in milliseconds (default: 0 for instant response)
   rootCode?: string // Optional root code to filter taxonomy tree (e.g., 'LUMINAIRE', 'ACCESSORIES')
@@ -25,6 +27,7 @@ type FacetedCategoryNavigationProps = {
 
 export default function FacetedCategoryNavigation({
   onSelectTaxonomies,
+  selectedTaxonomies,
   autoSearch = true,
   debounceMs = 0, // Changed from 300ms to 0ms for instant single-selection response
   rootCode
@@ -33,8 +36,20 @@ export default function FacetedCategoryNavigation({
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['level-1'])) // Only Level 1 expanded by default
-  const [selectedCodes, setSelectedCodes] = useState<Set<string>>(new Set())
+  const [selectedCodes, setSelectedCodes] = useState<Set<string>>(new Set(selectedTaxonomies || []))
   const debounceTimerRef = useRef<NodeJS.Timeout>()
+  const loadAbortRef = useRef<AbortController | null>(null)
+  const { locale, t } = useLocale()
+
+  // Follow selection changes made by the parent
+  useEffect(() => {
+    if (!selectedTaxonomies) return
+    const same = selectedTaxonomies.length === selectedCodes.size &&
+      selectedTaxonomies.every(code => selectedCodes.has(code))
+    if (!same) {
+      setSelectedCodes(new Set(selectedTaxonomies))
+    }
+  }, [selectedTaxonomies?.join(',')]) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Category icons mapping (updated for human-friendly codes)
   const iconMap: Record<string, string> = {
@@ -54,9 +69,11 @@ export default function FacetedCategoryNavigation({
     'LAMP-MODULE': '🔆'
   }
 
+  // Reload on language change: category names come from the database in the chosen locale
   useEffect(() => {
     loadTaxonomy()
-  }, [])
+    return () => loadAbortRef.current?.abort()
+  }, [locale]) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Debounced search trigger
   useEffect(() => {
@@ -85,12 +102,19 @@ export default function FacetedCategoryNavigation({
   }, [selectedCodes, onSelectTaxonomies, autoSearch, debounceMs])
 
   const loadTaxonomy = async () => {
+    loadAbortRef.current?.abort()
+    const controller = new AbortController()
+    loadAbortRef.current = controller
+
     setLoading(true)
     setError(null)
 
     try {
-      const { data, error } = await supabase.rpc('get_taxonomy_tree')
+      const { data, error } = await supabase
+        .rpc('get_taxonomy_tree', { p_locale: locale })
+        .abortSignal(controller.signal)
 
+      if (controller.signal.aborted) return
       if (error) throw error
 
       if (data) {
@@ -106,10 +130,11 @@ export default function FacetedCategoryNavigation({
         setNodes(taxonomyNodes)
       }
     } catch (err: any) {
+      if (controller.signal.aborted) return
       setError(err.message)
       console.error('Taxonomy load error:', err)
     } finally {
-      setLoading(false)
+      if (loadAbortRef.current === controller) setLoading(false)
     }
   }
 
@@ -253,10 +278,11 @@ export default function FacetedCategoryNavigation({
     level1Nodes = rootNode && rootNode.children ? rootNode.children : []
   }
 
-  if (loading) {
+  // Only the first load blocks; a language switch keeps the current tree until the new names arrive
+  if (loading && nodes.length === 0) {
     return (
       <div style={{ padding: '16px', textAlign: 'center', color: '#6b7280' }}>
-        Loading categories...
+        {t('categories.loading')}
       </div>
     )
   }
@@ -264,7 +290,7 @@ export default function FacetedCategoryNavigation({
   if (error) {
     return (
       <div style={{ padding: '16px' }}>
-        <p style={{ color: '#dc2626', marginBottom: '8px' }}>Error loading categories: {error}</p>
+        <p style={{ color: '#dc2626', marginBottom: '8px' }}>{t('categories.error', { message: error })}</p>
         <button
           onClick={loadTaxonomy}
           style={{
@@ -276,7 +302,7 @@ export default function FacetedCategoryNavigation({
             cursor: 'pointer'
           }}
         >
-          Retry
+          {t('common.retry')}
         </button>
       </div>
     )
@@ -318,7 +344,7 @@ export default function FacetedCategoryNavigation({
               e.currentTarget.style.backgroundColor = 'transparent'
             }}
           >
-            Clear all ({selectedCodes.size})
+            {t('categories.clearAll', { count: selectedCodes.size })}
           </button>
         </div>
       )}
@@ -341,7 +367,7 @@ export default function FacetedCategoryNavigation({
           color: '#0369a1',
           textAlign: 'center'
         }}>
-          🔍 Auto-searching with {selectedCodes.size} {selectedCodes.size === 1 ? 'category' : 'categories'}...
+          🔍 {t(selectedCodes.size === 1 ? 'categories.autoSearchOne' : 'categories.autoSearchMany', { count: selectedCodes.size })}
         </div>
       )}
     </div>
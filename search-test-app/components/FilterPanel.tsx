@@ -2,22 +2,48 @@
 
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
+import { fetchFilterTranslations, FilterTranslations, MessageKey, useLocale } from '@/lib/i18n'
 import { X } from 'lucide-react'
 import {
   BooleanFilter,
   MultiSelectFilter,
   RangeFilter,
+  NumericFilter,
   FilterCategory,
   FilterDefinition,
   FilterFacet,
+  HistogramBucket,
+  NumericFilterMode,
   Preset
 } from './filters'
 
 type FilterState = {
-  [key: string]: any // multi-select: string[], range: {min, max}, boolean: boolean
+  [key: string]: any // multi-select: string[], range/numeric: {min, max}, boolean: boolean
 }
 
+// Numeric (N) filters are stored as ranges so search and URL state treat them like R filters:
+// exact = {min: v, max: v}, at least = {min: v}, at most = {max: v}
+const numericFromRange = (range?: { min?: number; max?: number }) => {
+  if (range?.min != null && range.max != null) {
+    return { value: range.min, mode: (range.min === range.max ? 'exact' : 'min') as NumericFilterMode }
+  }
+  if (range?.min != null) return { value: range.min, mode: 'min' as NumericFilterMode }
+  if (range?.max != null) return { value: range.max, mode: 'max' as NumericFilterMode }
+  return { value: null, mode: 'exact' as NumericFilterMode }
+}
+
+const rangeFromNumeric = (value: number | null, mode: NumericFilterMode) => {
+  if (value == null) return undefined
+  if (mode === 'min') return { min: value }
+  if (mode === 'max') return { max: value }
+  return { min: value, max: value }
+}
+
+// ui_config.filter_category values with a translated label (filters.category.*)
+const KNOWN_CATEGORIES = ['electricals', 'design', 'light_engine', 'location', 'options', 'other']
+
 export type FilterPanelProps = {
+  filters?: FilterState  // Controlled filter state (e.g. restored from the URL)
   onFilterChange: (filters: FilterState) => void
   taxonomyCode?: string
   selectedTaxonomies?: string[]
@@ -26,6 +52,7 @@ export type FilterPanelProps = {
 }
 
 export default function FilterPanel({
+  filters,
   onFilterChange,
   taxonomyCode,  // No default - passed dynamically from parent
   selectedTaxonomies = [],
@@ -34,11 +61,38 @@ export default function FilterPanel({
 }: FilterPanelProps) {
   const [filterDefinitions, setFilterDefinitions] = useState<FilterDefinition[]>([])
   const [filterFacets, setFilterFacets] = useState<FilterFacet[]>([])
-  const [filterState, setFilterState] = useState<FilterState>({})
+  const [histograms, setHistograms] = useState<Record<string, HistogramBucket[]>>({})
+  const [filterState, setFilterState] = useState<FilterState>(filters || {})
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(['electricals', 'design', 'light_engine', 'location', 'options', 'other'])
   )
   const [loading, setLoading] = useState(true)
+  const [translations, setTranslations] = useState<FilterTranslations>({ labels: {}, values: {} })
+  const { locale, t } = useLocale()
+
+  // Filter labels and values are stored in English; other languages are overlaid at render time
+  useEffect(() => {
+    let cancelled = false
+    fetchFilterTranslations(locale)
+      .then(result => {
+        if (!cancelled) setTranslations(result)
+      })
+      .catch(error => {
+        // Untranslated filters are still usable: fall back to English
+        console.error('Error loading filter translations:', error)
+        if (!cancelled) setTranslations({ labels: {}, values: {} })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [locale])
+
+  // Follow filter changes made by the parent (back/forward, removed chips)
+  useEffect(() => {
+    if (filters && JSON.stringify(filters) !== JSON.stringify(filterState)) {
+      setFilterState(filters)
+    }
+  }, [JSON.stringify(filters)]) // eslint-disable-line react-hooks/exhaustive-deps
 
   // Load filter definitions and facets
   // Reload when taxonomy, selected taxonomies, query, suppliers, OR location/options filters change
@@ -98,6 +152,23 @@ export default function FilterPanel({
 
       if (facetsError) throw facetsError
 
+      // Product-count histograms for range filters, same context as the facets
+      const { data: histogramRows, error: histogramError } = await supabase
+        .rpc('get_range_histograms', {
+          p_taxonomy_codes: selectedTaxonomies.length > 0 ? selectedTaxonomies : null,
+          p_suppliers: suppliers.length > 0 ? suppliers : null,
+          p_indoor: indoor,
+          p_outdoor: outdoor,
+          p_submersible: submersible,
+          p_trimless: trimless,
+          p_cut_shape_round: cutShapeRound,
+          p_cut_shape_rectangular: cutShapeRectangular,
+          p_query: query
+        })
+
+      // Histograms are decoration: log and keep the filters usable without them
+      if (histogramError) console.error('Error loading range histograms:', histogramError)
+
       console.log('✅ Dynamic technical filter facets loaded with context:', {
         taxonomyCodes: selectedTaxonomies,
         indoor, outdoor, submersible, trimless, cutShapeRound, cutShapeRectangular
@@ -105,6 +176,17 @@ export default function FilterPanel({
 
       setFilterDefinitions(definitions || [])
       setFilterFacets(facets || [])
+      setHistograms(Object.fromEntries(
+        (histogramRows || []).map((row: { filter_key: string; histogram: HistogramBucket[] }) => [
+          row.filter_key,
+          (row.histogram || []).map(bucket => ({
+            ...bucket,
+            min: Number(bucket.min),
+            max: Number(bucket.max),
+            count: Number(bucket.count)
+          }))
+        ])
+      ))
     } catch (error) {
       console.error('Error loading filters:', error)
     } finally {
@@ -157,36 +239,35 @@ export default function FilterPanel({
   }
 
   const getFacetsForFilter = (filterKey: string): FilterFacet[] => {
-    return filterFacets.filter(f => f.filter_key === filterKey)
+    const valueLabels = translations.values[filterKey] || {}
+    return filterFacets
+      .filter(f => f.filter_key === filterKey)
+      .map(f => (valueLabels[f.filter_value] ? { ...f, value_label: valueLabels[f.filter_value] } : f))
   }
 
-  // Group filters by category
-  const groupedFilters = filterDefinitions.reduce((acc, filter) => {
+  // Group filters by category, with labels in the current language
+  const groupedFilters = filterDefinitions.reduce((acc, definition) => {
+    const filter = { ...definition, label: translations.labels[definition.filter_key] || definition.label }
     const category = filter.ui_config?.filter_category || 'other'
     if (!acc[category]) acc[category] = []
     acc[category].push(filter)
     return acc
   }, {} as Record<string, FilterDefinition[]>)
 
-  const categoryLabels: Record<string, string> = {
-    electricals: 'Electricals',
-    design: 'Design',
-    light_engine: 'Light Engine',
-    location: 'Location',
-    options: 'Options'
-  }
+  const categoryLabel = (category: string) =>
+    KNOWN_CATEGORIES.includes(category) ? t(`filters.category.${category}` as MessageKey) : category
 
   // Define presets for specific filters
   const getCCTPresets = (): Preset[] => [
-    { label: 'Warm White', min: 2700, max: 3000, description: 'Cozy, warm lighting' },
-    { label: 'Neutral White', min: 3500, max: 4500, description: 'Balanced daylight' },
-    { label: 'Cool White', min: 5000, max: 6500, description: 'Bright, energizing' }
+    { label: t('preset.warmWhite'), min: 2700, max: 3000, description: t('preset.warmWhite.description') },
+    { label: t('preset.neutralWhite'), min: 3500, max: 4500, description: t('preset.neutralWhite.description') },
+    { label: t('preset.coolWhite'), min: 5000, max: 6500, description: t('preset.coolWhite.description') }
   ]
 
   const getLumensPresets = (): Preset[] => [
-    { label: 'Low', min: 0, max: 500, description: 'Ambient lighting' },
-    { label: 'Medium', min: 500, max: 2000, description: 'Task lighting' },
-    { label: 'High', min: 2000, max: 50000, description: 'High output' }
+    { label: t('preset.low'), min: 0, max: 500, description: t('preset.low.description') },
+    { label: t('preset.medium'), min: 500, max: 2000, description: t('preset.medium.description') },
+    { label: t('preset.high'), min: 2000, max: 50000, description: t('preset.high.description') }
   ]
 
   if (loading) {
@@ -194,7 +275,7 @@ export default function FilterPanel({
       <div className="bg-gradient-to-br from-slate-50 to-white p-6 rounded-xl shadow-lg border border-slate-200">
         <div className="animate-pulse flex items-center gap-2 text-slate-600">
           <div className="w-4 h-4 bg-blue-500 rounded-full animate-bounce"></div>
-          Loading filters...
+          {t('filters.loading')}
         </div>
       </div>
     )
@@ -208,7 +289,7 @@ export default function FilterPanel({
           <div className="flex items-center gap-2">
             <div className="w-1 h-6 bg-blue-500 rounded-full"></div>
             <h3 className="font-bold text-xl text-slate-800">
-              Technical Filters
+              {t('filters.title')}
             </h3>
             {getActiveFilterCount() > 0 && (
               <span className="bg-blue-500 text-white text-xs font-bold px-2 py-1 rounded-full">
@@ -222,7 +303,7 @@ export default function FilterPanel({
               className="text-sm text-red-600 hover:text-red-700 hover:bg-red-50 px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors font-medium"
             >
               <X size={16} />
-              Clear All
+              {t('common.clearAll')}
             </button>
           )}
         </div>
@@ -232,13 +313,35 @@ export default function FilterPanel({
       {Object.entries(groupedFilters).map(([category, filters]) => (
         <FilterCategory
           key={category}
-          label={categoryLabels[category] || category}
+          category={category}
+          label={categoryLabel(category)}
           isExpanded={expandedCategories.has(category)}
           onToggle={() => toggleCategory(category)}
         >
           {filters.map(filter => {
             const facets = getFacetsForFilter(filter.filter_key)
 
+            // ETIM N features are single values, whatever filter_type they were given
+            if (filter.etim_feature_type === 'N') {
+              const numeric = numericFromRange(filterState[filter.filter_key])
+              return (
+                <NumericFilter
+                  key={filter.filter_key}
+                  filterKey={filter.filter_key}
+                  label={filter.label}
+                  etimFeatureType={filter.etim_feature_type}
+                  value={numeric.value}
+                  mode={numeric.mode}
+                  onChange={(value, mode) => updateFilterState(filter.filter_key, rangeFromNumeric(value, mode))}
+                  unit={filter.ui_config?.unit}
+                  min={filter.ui_config?.min}
+                  max={filter.ui_config?.max}
+                  step={filter.ui_config?.step || 1}
+                  onClear={() => clearFilter(filter.filter_key)}
+                />
+              )
+            }
+
             // Render appropriate filter component based on type
             switch (filter.filter_type) {
               case 'boolean':
@@ -297,6 +400,8 @@ export default function FilterPanel({
                       []
                     }
                     facets={facets}
+                    showHistogram={true}
+                    histogram={histograms[filter.filter_key]}
                     onClear={() => clearFilter(filter.filter_key)}
                   />
                 )
@@ -312,7 +417,7 @@ export default function FilterPanel({
         <div className="px-6 py-8 text-center">
           <div className="text-slate-400 text-sm">
             <div className="mb-2">🔍</div>
-            No filters available for this category
+            {t('filters.none')}
           </div>
         </div>
       )}
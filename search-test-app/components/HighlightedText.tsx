@@ -0,0 +1,48 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { foldAccents } from '@search/search-normalize'
+
+type HighlightedTextProps = {
+  text: string
+  query?: string | null // Each whitespace-separated term is highlighted
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  const terms = (query || '')
+    .split(/\s+/)
+    .filter(term => term.length > 1) // Single characters would light up everything
+    .map(term => escapeRegExp(foldAccents(term)))
+
+  if (!text || terms.length === 0) {
+    return <>{text}</>
+  }
+
+  // Match on the accent-folded text so "φωτιστικο" marks "Φωτιστικό". foldAccents keeps
+  // character positions, so matches are cut from the original text at the same offsets
+  // (if lower-casing changed the length, fall back to a case-insensitive match on the original)
+  const folded = foldAccents(text)
+  const source = folded.length === text.length ? folded : text
+
+  // Longest terms first so "downlight" wins over "down"
+  const pattern = new RegExp(terms.sort((a, b) => b.length - a.length).join('|'), 'gi')
+  const parts: ReactNode[] = []
+  let last = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(source)) !== null) {
+    const end = match.index + match[0].length
+    if (match.index > last) parts.push(text.slice(last, match.index))
+    parts.push(
+      <mark key={match.index} className="bg-yellow-100 text-slate-900 rounded px-0.5">
+        {text.slice(match.index, end)}
+      </mark>
+    )
+    last = end
+  }
+  parts.push(text.slice(last))
+
+  return <>{parts}</>
+}
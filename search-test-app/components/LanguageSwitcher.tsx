@@ -0,0 +1,32 @@
+'use client'
+
+import { Languages } from 'lucide-react'
+import { LOCALES, LOCALE_NAMES, useLocale } from '@/lib/i18n'
+
+/**
+ * Header toggle between English and Greek (labels, categories, filters and UI strings)
+ */
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useLocale()
+
+  return (
+    <div className="flex items-center gap-1.5" title={t('language.label')}>
+      <Languages size={18} className="text-slate-400" />
+      <div className="flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+        {LOCALES.map(l => (
+          <button
+            key={l}
+            onClick={() => setLocale(l)}
+            aria-pressed={locale === l}
+            title={LOCALE_NAMES[l]}
+            className={`px-2.5 py-1.5 font-semibold uppercase transition-colors ${
+              locale === l ? 'bg-blue-500 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+            }`}
+          >
+            {l}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 'use client'
 
-import { Home, TreePine, Droplet, Scissors, Circle, Square, ArrowUp, Square as SquareIcon, Flashlight, ArrowDown, Box, Link2, Zap, Thermometer, Shield } from 'lucide-react'
+import { Columns3, Home, TreePine, Droplet, Scissors, Circle, Square, ArrowUp, Square as SquareIcon, Flashlight, ArrowDown, Box, Link2, Zap, Thermometer, Shield } from 'lucide-react'
+import HighlightedText from '@/components/HighlightedText'
+import { useLocale } from '@/lib/i18n'
 
 type ProductCardProps = {
   product: {
@@ -33,22 +35,27 @@ type ProductCardProps = {
     }
     relevance_score: number
   }
+  highlight?: string | null // Search query whose terms are highlighted in code and description
+  pinned?: boolean // Pinned in the compare tray
+  pinDisabled?: boolean // Tray is full
+  onTogglePin?: () => void // Shows the compare toggle when set
 }
 
-export default function ProductCard({ product }: ProductCardProps) {
+export default function ProductCard({ product, highlight, pinned = false, pinDisabled = false, onTogglePin }: ProductCardProps) {
+  const { t } = useLocale()
   const flagIcons = [
-    { condition: product.flags.indoor, icon: Home, label: 'Indoor', color: 'bg-blue-50 text-blue-700 border-blue-200' },
-    { condition: product.flags.outdoor, icon: TreePine, label: 'Outdoor', color: 'bg-green-50 text-green-700 border-green-200' },
-    { condition: product.flags.submersible, icon: Droplet, label: 'Submersible', color: 'bg-cyan-50 text-cyan-700 border-cyan-200' },
-    { condition: product.flags.trimless, icon: Scissors, label: 'Trimless', color: 'bg-purple-50 text-purple-700 border-purple-200' },
-    { condition: product.flags.cut_shape_round, icon: Circle, label: 'Round Cut', color: 'bg-amber-50 text-amber-700 border-amber-200' },
-    { condition: product.flags.cut_shape_rectangular, icon: Square, label: 'Rect Cut', color: 'bg-orange-50 text-orange-700 border-orange-200' },
-    { condition: product.flags.ceiling, icon: ArrowUp, label: 'Ceiling', color: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
-    { condition: product.flags.wall, icon: SquareIcon, label: 'Wall', color: 'bg-violet-50 text-violet-700 border-violet-200' },
-    { condition: product.flags.floor, icon: Flashlight, label: 'Floor', color: 'bg-rose-50 text-rose-700 border-rose-200' },
-    { condition: product.flags.recessed, icon: ArrowDown, label: 'Recessed', color: 'bg-slate-50 text-slate-700 border-slate-200' },
-    { condition: product.flags.surface_mounted, icon: Box, label: 'Surface', color: 'bg-gray-50 text-gray-700 border-gray-200' },
-    { condition: product.flags.suspended, icon: Link2, label: 'Suspended', color: 'bg-teal-50 text-teal-700 border-teal-200' },
+    { condition: product.flags.indoor, icon: Home, label: t('flag.indoor'), color: 'bg-blue-50 text-blue-700 border-blue-200' },
+    { condition: product.flags.outdoor, icon: TreePine, label: t('flag.outdoor'), color: 'bg-green-50 text-green-700 border-green-200' },
+    { condition: product.flags.submersible, icon: Droplet, label: t('flag.submersible'), color: 'bg-cyan-50 text-cyan-700 border-cyan-200' },
+    { condition: product.flags.trimless, icon: Scissors, label: t('flag.trimless'), color: 'bg-purple-50 text-purple-700 border-purple-200' },
+    { condition: product.flags.cut_shape_round, icon: Circle, label: t('flag.cut_shape_round'), color: 'bg-amber-50 text-amber-700 border-amber-200' },
+    { condition: product.flags.cut_shape_rectangular, icon: Square, label: t('flag.cut_shape_rectangular'), color: 'bg-orange-50 text-orange-700 border-orange-200' },
+    { condition: product.flags.ceiling, icon: ArrowUp, label: t('flag.ceiling'), color: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+    { condition: product.flags.wall, icon: SquareIcon, label: t('flag.wall'), color: 'bg-violet-50 text-violet-700 border-violet-200' },
+    { condition: product.flags.floor, icon: Flashlight, label: t('flag.floor'), color: 'bg-rose-50 text-rose-700 border-rose-200' },
+    { condition: product.flags.recessed, icon: ArrowDown, label: t('flag.recessed'), color: 'bg-slate-50 text-slate-700 border-slate-200' },
+    { condition: product.flags.surface_mounted, icon: Box, label: t('flag.surface_mounted'), color: 'bg-gray-50 text-gray-700 border-gray-200' },
+    { condition: product.flags.suspended, icon: Link2, label: t('flag.suspended'), color: 'bg-teal-50 text-teal-700 border-teal-200' },
   ]
 
   const activeFlags = flagIcons.filter(flag => flag.condition)
@@ -71,18 +78,39 @@ export default function ProductCard({ product }: ProductCardProps) {
             <Box size={48} strokeWidth={1} />
           </div>
         )}
+
+        {/* Compare toggle (the card itself links to the detail page) */}
+        {onTogglePin && (
+          <button
+            onClick={(e) => {
+              e.preventDefault()
+              e.stopPropagation()
+              onTogglePin()
+            }}
+            disabled={!pinned && pinDisabled}
+            className={`absolute top-3 right-3 flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border shadow-sm transition-colors
+              ${pinned
+                ? 'bg-blue-500 text-white border-blue-600'
+                : 'bg-white/90 text-slate-600 border-slate-200 hover:bg-white hover:text-blue-600 disabled:opacity-50 disabled:cursor-not-allowed'
+              }`}
+            title={t(pinned ? 'compare.remove' : pinDisabled ? 'compare.full' : 'compare.add')}
+          >
+            <Columns3 size={12} />
+            {t(pinned ? 'compare.pinned' : 'compare.pin')}
+          </button>
+        )}
       </div>
 
       {/* Content */}
       <div className="p-4">
         {/* Product ID */}
         <h3 className="font-bold text-slate-800 mb-2 text-lg group-hover:text-blue-600 transition-colors">
-          {product.foss_pid}
+          <HighlightedText text={product.foss_pid} query={highlight} />
         </h3>
 
         {/* Description */}
         <p className="text-sm text-slate-600 mb-3 line-clamp-2 min-h-[2.5rem]">
-          {product.description_short}
+          <HighlightedText text={product.description_short} query={highlight} />
         </p>
 
         {/* Supplier and Class */}
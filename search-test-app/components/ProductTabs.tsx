@@ -1,10 +1,12 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
+import { useLocale } from '@/lib/i18n'
 
 interface ProductTabsProps {
   children: React.ReactNode
+  activeTab?: string  // Controlled tab (e.g. restored from the URL); defaults to the first tab
   onTabChange?: (value: string) => void
 }
 
@@ -16,31 +18,54 @@ type RootCategory = {
   display_order: number
 }
 
-export default function ProductTabs({ children, onTabChange }: ProductTabsProps) {
-  const [activeTab, setActiveTab] = useState('')
+export default function ProductTabs({ children, activeTab: controlledTab, onTabChange }: ProductTabsProps) {
+  const [activeTab, setActiveTab] = useState(controlledTab || '')
   const [tabs, setTabs] = useState<RootCategory[]>([])
   const [loading, setLoading] = useState(true)
+  const { locale, t } = useLocale()
+  const loadAbortRef = useRef<AbortController | null>(null)
 
+  // Reload on language change: tab names come from the database in the chosen locale
   useEffect(() => {
     loadRootCategories()
-  }, [])
+    return () => loadAbortRef.current?.abort()
+  }, [locale]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Follow tab changes made by the parent (e.g. back/forward navigation)
+  useEffect(() => {
+    if (controlledTab && controlledTab !== activeTab) {
+      setActiveTab(controlledTab)
+    }
+  }, [controlledTab]) // eslint-disable-line react-hooks/exhaustive-deps
 
   const loadRootCategories = async () => {
+    loadAbortRef.current?.abort()
+    const controller = new AbortController()
+    loadAbortRef.current = controller
+
     try {
       setLoading(true)
-      const { data, error } = await supabase.rpc('get_root_categories')
+      const { data, error } = await supabase
+        .rpc('get_root_categories', { p_locale: locale })
+        .abortSignal(controller.signal)
+      if (controller.signal.aborted) return
       if (error) throw error
       if (data && data.length > 0) {
         setTabs(data)
-        const initialTab = data[0].code
+        // Keep a requested tab if it exists, otherwise fall back to the first one
+        const requested = data.find((tab: RootCategory) => tab.code === controlledTab)
+        const initialTab = requested ? requested.code : data[0].code
         setActiveTab(initialTab)
-        onTabChange?.(initialTab)
+        if (initialTab !== controlledTab) {
+          onTabChange?.(initialTab)
+        }
       }
     } catch (error) {
+      if (controller.signal.aborted) return
       console.error('Error loading root categories:', error)
       setTabs([])
     } finally {
-      setLoading(false)
+      if (loadAbortRef.current === controller) setLoading(false)
     }
   }
 
@@ -49,10 +74,11 @@ export default function ProductTabs({ children, onTabChange }: ProductTabsProps)
     onTabChange?.(code)
   }
 
-  if (loading) {
+  // Only the first load blocks; a language switch keeps the current tabs until the new names arrive
+  if (loading && tabs.length === 0) {
     return (
       <div className="w-full mb-6 text-center p-10">
-        <div className="text-slate-600">Loading categories...</div>
+        <div className="text-slate-600">{t('categories.loading')}</div>
       </div>
     )
   }
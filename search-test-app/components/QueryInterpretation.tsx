@@ -0,0 +1,49 @@
+'use client'
+
+import { Type, X } from 'lucide-react'
+import type { InterpretedFilter } from '@search/search-query-parser'
+import { useLocale } from '@/lib/i18n'
+
+type QueryInterpretationProps = {
+  interpreted: InterpretedFilter[]
+  onRemove: (token: string) => void // Drop the token from the query
+}
+
+/**
+ * Chips for the spec tokens found in the search box (IP65, 3000K, CRI>90, ...).
+ * Tokens searched as text (wattage) are shown greyed out.
+ */
+export default function QueryInterpretation({ interpreted, onRemove }: QueryInterpretationProps) {
+  const { t } = useLocale()
+
+  if (interpreted.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 -mt-2 mb-6 text-sm">
+      <span className="text-slate-500">{t('search.interpreted')}</span>
+      {interpreted.map(item => (
+        <span
+          key={item.token}
+          title={item.filterKey ? item.token : t('search.textMatch')}
+          className={`inline-flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-full border ${
+            item.filterKey
+              ? 'bg-blue-50 border-blue-200 text-blue-800'
+              : 'bg-slate-50 border-slate-200 text-slate-500'
+          }`}
+        >
+          {!item.filterKey && <Type size={12} />}
+          {item.label}
+          <button
+            onClick={() => onRemove(item.token)}
+            aria-label={t('search.removeToken', { token: item.token })}
+            className="p-0.5 rounded-full hover:bg-white/80 transition-colors"
+          >
+            <X size={14} />
+          </button>
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Bookmark, Check, Pencil, Play, Trash2, X } from 'lucide-react'
+import type { SavedSearch } from '@search/search-actions'
+import type { SearchState } from '@/lib/search-state'
+import {
+  fetchSavedSearches,
+  saveSearch,
+  renameSavedSearch,
+  deleteSavedSearch,
+  markSavedSearchRun,
+  fromSavedSearchState
+} from '@/lib/saved-searches'
+import { LOCALE_TAGS, Locale, useLocale } from '@/lib/i18n'
+
+type SavedSearchMenuProps = {
+  currentState: SearchState
+  onApply: (state: SearchState) => void
+}
+
+const formatDate = (value: string, locale: Locale) =>
+  new Date(value).toLocaleDateString(LOCALE_TAGS[locale], { day: 'numeric', month: 'short' })
+
+/**
+ * Header menu: save the current search under a name, re-run, rename or delete saved ones
+ */
+export default function SavedSearchMenu({ currentState, onApply }: SavedSearchMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const { locale, t } = useLocale()
+
+  const load = async () => {
+    try {
+      setSavedSearches(await fetchSavedSearches())
+    } catch (err: any) {
+      console.error('Saved searches load error:', err)
+      setError(err.message || 'Failed to load saved searches')
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  // Run an action, then reload the list; errors are shown in the menu
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      await load()
+    } catch (err: any) {
+      console.error('Saved search error:', err)
+      setError(err.message || 'Saved search action failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSave = () => {
+    const name = newName.trim()
+    if (!name) return
+    const existing = savedSearches.find(s => s.name.toLowerCase() === name.toLowerCase())
+    if (existing && !window.confirm(t('saved.confirmOverwrite', { name: existing.name }))) return
+    run(async () => {
+      await saveSearch(name, currentState)
+      console.log('💾 Saved search:', name, currentState)
+      setNewName('')
+    })
+  }
+
+  const handleRename = (id: string) => {
+    const name = editName.trim()
+    if (!name) return
+    run(async () => {
+      await renameSavedSearch(id, name)
+      setEditingId(null)
+    })
+  }
+
+  const handleDelete = (saved: SavedSearch) => {
+    if (!window.confirm(t('saved.confirmDelete', { name: saved.name }))) return
+    run(() => deleteSavedSearch(saved.id))
+  }
+
+  const handleApply = (saved: SavedSearch) => {
+    console.log('▶️ Running saved search:', saved.name, saved.state)
+    onApply(fromSavedSearchState(saved.state))
+    setOpen(false)
+    // last_run_at is informational; the search itself already ran
+    markSavedSearchRun(saved.id).then(load).catch(err => console.error('Mark saved search run error:', err))
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 transition-colors"
+      >
+        <Bookmark size={18} />
+        <span className="hidden sm:inline">{t('saved.button')}</span>
+        {savedSearches.length > 0 && (
+          <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full">{savedSearches.length}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-slate-200 rounded-xl shadow-xl z-50">
+          {/* Save current search */}
+          <div className="p-4 border-b border-slate-100">
+            <div className="text-xs font-semibold text-slate-500 uppercase mb-2">{t('saved.saveCurrent')}</div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                maxLength={100}
+                placeholder={t('saved.placeholder')}
+                className="flex-1 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={busy || !newName.trim()}
+                className="px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 disabled:bg-slate-300 disabled:cursor-not-allowed"
+              >
+                {t('saved.save')}
+              </button>
+            </div>
+            {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+          </div>
+
+          {/* Saved list */}
+          {savedSearches.length === 0 ? (
+            <div className="p-6 text-center text-sm text-slate-400">{t('saved.empty')}</div>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto py-1">
+              {savedSearches.map(saved => (
+                <li key={saved.id} className="group flex items-center gap-2 px-4 py-2 hover:bg-slate-50">
+                  {editingId === saved.id ? (
+                    <>
+                      <input
+                        type="text"
+                        value={editName}
+                        autoFocus
+                        maxLength={100}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(saved.id)
+                          if (e.key === 'Escape') setEditingId(null)
+                        }}
+                        className="flex-1 px-2 py-1 text-sm border border-slate-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <button onClick={() => handleRename(saved.id)} disabled={busy} className="p-1 text-green-600 hover:bg-green-50 rounded" title={t('saved.saveName')}>
+                        <Check size={14} />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded" title={t('common.cancel')}>
+                        <X size={14} />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => handleApply(saved)} className="flex-1 min-w-0 text-left" title={t('saved.runTitle')}>
+                        <div className="text-sm font-medium text-slate-800 truncate">{saved.name}</div>
+                        <div className="text-xs text-slate-400">
+                          {t('saved.lastRun', { date: saved.last_run_at ? formatDate(saved.last_run_at, locale) : t('saved.never') })}
+                        </div>
+                      </button>
+                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => handleApply(saved)} className="p-1 text-blue-600 hover:bg-blue-50 rounded" title={t('saved.run')}>
+                          <Play size={14} />
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditingId(saved.id)
+                            setEditName(saved.name)
+                          }}
+                          className="p-1 text-slate-500 hover:bg-slate-100 rounded"
+                          title={t('saved.rename')}
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button onClick={() => handleDelete(saved)} disabled={busy} className="p-1 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded" title={t('saved.delete')}>
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Search, X } from 'lucide-react'
+import SearchSuggestions, { flattenSuggestions } from '@/components/SearchSuggestions'
+import { fetchSuggestions, type Suggestion, type SuggestionGroups } from '@/lib/search'
+import { useLocale } from '@/lib/i18n'
+
+type SearchBoxProps = {
+  value: string // Committed query (e.g. restored from the URL)
+  onSearch: (query: string) => void
+  debounceMs?: number // Delay after the last keystroke (default: 300ms)
+  placeholder?: string // Default: search.placeholder in the current language
+  onSelectSuggestion?: (suggestion: Suggestion) => void // Enables the type-ahead dropdown
+}
+
+const SUGGESTION_DELAY_MS = 150
+
+export default function SearchBox({
+  value,
+  onSearch,
+  debounceMs = 300,
+  placeholder,
+  onSelectSuggestion
+}: SearchBoxProps) {
+  const [input, setInput] = useState(value)
+  const [suggestions, setSuggestions] = useState<SuggestionGroups | null>(null)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const debounceTimerRef = useRef<NodeJS.Timeout>()
+  const suggestTimerRef = useRef<NodeJS.Timeout>()
+  const suggestAbortRef = useRef<AbortController | null>(null)
+  const { t } = useLocale()
+
+  const flatSuggestions = suggestions ? flattenSuggestions(suggestions) : []
+
+  // Follow query changes made by the parent (back/forward navigation)
+  useEffect(() => {
+    if (value !== input.trim()) {
+      setInput(value)
+    }
+  }, [value]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    return () => {
+      if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current)
+      if (suggestTimerRef.current) clearTimeout(suggestTimerRef.current)
+      suggestAbortRef.current?.abort()
+    }
+  }, [])
+
+  const closeSuggestions = () => {
+    if (suggestTimerRef.current) clearTimeout(suggestTimerRef.current)
+    suggestAbortRef.current?.abort()
+    setSuggestions(null)
+    setActiveIndex(-1)
+  }
+
+  const loadSuggestions = (prefix: string) => {
+    if (!onSelectSuggestion) return
+    if (suggestTimerRef.current) clearTimeout(suggestTimerRef.current)
+    suggestAbortRef.current?.abort()
+
+    if (prefix.trim().length < 2) {
+      setSuggestions(null)
+      setActiveIndex(-1)
+      return
+    }
+
+    suggestTimerRef.current = setTimeout(async () => {
+      const controller = new AbortController()
+      suggestAbortRef.current = controller
+      try {
+        const groups = await fetchSuggestions(prefix, 5, controller.signal)
+        if (controller.signal.aborted) return
+        setSuggestions(flattenSuggestions(groups).length > 0 ? groups : null)
+        setActiveIndex(-1)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error('Suggestions error:', error)
+        setSuggestions(null)
+      }
+    }, SUGGESTION_DELAY_MS)
+  }
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current)
+    closeSuggestions()
+    // Product codes and terms end up in the box; categories and suppliers become filters
+    setInput(suggestion.type === 'product' || suggestion.type === 'term' ? suggestion.value : value)
+    onSelectSuggestion?.(suggestion)
+  }
+
+  const commit = (next: string) => {
+    if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current)
+    const trimmed = next.trim()
+    if (trimmed !== value) onSearch(trimmed)
+  }
+
+  const handleChange = (next: string) => {
+    setInput(next)
+    loadSuggestions(next)
+    if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current)
+    debounceTimerRef.current = setTimeout(() => commit(next), debounceMs)
+  }
+
+  const handleClear = () => {
+    setInput('')
+    closeSuggestions()
+    commit('')
+  }
+
+  return (
+    <div className="relative mb-6">
+      <Search size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+      <input
+        type="search"
+        value={input}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowDown' && flatSuggestions.length > 0) {
+            e.preventDefault()
+            setActiveIndex(index => (index + 1) % flatSuggestions.length)
+          } else if (e.key === 'ArrowUp' && flatSuggestions.length > 0) {
+            e.preventDefault()
+            setActiveIndex(index => (index <= 0 ? flatSuggestions.length : index) - 1)
+          } else if (e.key === 'Enter') {
+            if (activeIndex >= 0 && flatSuggestions[activeIndex]) {
+              selectSuggestion(flatSuggestions[activeIndex])
+            } else {
+              closeSuggestions()
+              commit(input) // Search now, skip the debounce
+            }
+          } else if (e.key === 'Escape') {
+            // First Escape closes the dropdown, the second clears the box
+            if (suggestions) closeSuggestions()
+            else handleClear()
+          }
+        }}
+        onBlur={closeSuggestions}
+        placeholder={placeholder ?? t('search.placeholder')}
+        maxLength={200}
+        className="w-full pl-12 pr-12 py-3.5 bg-white border-2 border-slate-200 rounded-xl shadow-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-100 transition-all"
+      />
+      {input && (
+        <button
+          onClick={handleClear}
+          className="absolute right-3 top-1/2 -translate-y-1/2 p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          title={t('search.clear')}
+        >
+          <X size={18} />
+        </button>
+      )}
+      {suggestions && (
+        <SearchSuggestions
+          groups={suggestions}
+          prefix={input}
+          activeIndex={activeIndex}
+          onSelect={selectSuggestion}
+          onHover={setActiveIndex}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { Package, Building2, FolderTree, Type } from 'lucide-react'
+import HighlightedText from '@/components/HighlightedText'
+import type { Suggestion, SuggestionGroups, SuggestionType } from '@/lib/search'
+import { MessageKey, useLocale } from '@/lib/i18n'
+
+type SearchSuggestionsProps = {
+  groups: SuggestionGroups
+  prefix: string
+  activeIndex: number // Index into flattenSuggestions(groups), -1 for none
+  onSelect: (suggestion: Suggestion) => void
+  onHover: (index: number) => void
+}
+
+// Display order and headings of the groups
+const GROUPS: { type: SuggestionType; label: MessageKey; icon: typeof Package }[] = [
+  { type: 'taxonomy', label: 'suggestions.taxonomy', icon: FolderTree },
+  { type: 'supplier', label: 'suggestions.supplier', icon: Building2 },
+  { type: 'product', label: 'suggestions.product', icon: Package },
+  { type: 'term', label: 'suggestions.term', icon: Type }
+]
+
+/**
+ * Suggestions in display order (used for keyboard navigation)
+ */
+export function flattenSuggestions(groups: SuggestionGroups): Suggestion[] {
+  return GROUPS.flatMap(group => groups[group.type])
+}
+
+export default function SearchSuggestions({
+  groups,
+  prefix,
+  activeIndex,
+  onSelect,
+  onHover
+}: SearchSuggestionsProps) {
+  const { t } = useLocale()
+  let index = -1
+
+  return (
+    <div
+      className="absolute left-0 right-0 top-full mt-2 bg-white border border-slate-200 rounded-xl shadow-xl z-50 overflow-hidden"
+      role="listbox"
+    >
+      {GROUPS.filter(group => groups[group.type].length > 0).map(group => {
+        const Icon = group.icon
+        return (
+          <div key={group.type} className="py-1 border-b border-slate-100 last:border-b-0">
+            <div className="px-4 py-1.5 text-xs font-semibold text-slate-400 uppercase tracking-wide">
+              {t(group.label)}
+            </div>
+            {groups[group.type].map(suggestion => {
+              index += 1
+              const itemIndex = index
+              const isActive = itemIndex === activeIndex
+              return (
+                <button
+                  key={`${suggestion.type}-${suggestion.value}`}
+                  role="option"
+                  aria-selected={isActive}
+                  // mousedown fires before the input blur that closes the dropdown
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    onSelect(suggestion)
+                  }}
+                  onMouseEnter={() => onHover(itemIndex)}
+                  className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm transition-colors
+                    ${isActive ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                >
+                  <Icon size={16} className="text-slate-400 shrink-0" />
+                  <span className="flex-1 min-w-0 truncate text-slate-700">
+                    {suggestion.type === 'product' ? (
+                      <>
+                        <span className="font-semibold">
+                          <HighlightedText text={suggestion.value} query={prefix} />
+                        </span>
+                        <span className="ml-2 text-slate-500">{suggestion.label}</span>
+                      </>
+                    ) : (
+                      <HighlightedText text={suggestion.label} query={prefix} />
+                    )}
+                  </span>
+                  {suggestion.type !== 'product' && (
+                    <span className="text-xs text-slate-400 shrink-0">
+                      {suggestion.count.toLocaleString()}
+                    </span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
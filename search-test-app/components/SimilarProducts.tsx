@@ -0,0 +1,136 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Box } from 'lucide-react'
+import { fetchSimilarProducts, formatFeatureValue, SimilarProduct, SimilarityWeights } from '@/lib/product'
+
+// Weighting presets; the empty one keeps the SQL defaults
+const PRESETS: { id: string; label: string; weights: SimilarityWeights }[] = [
+  { id: 'balanced', label: 'Balanced', weights: {} },
+  { id: 'light', label: 'Same light', weights: { cct: 3, cri: 2, light_distribution: 1 } },
+  { id: 'output', label: 'Same output', weights: { lumens_output: 3, light_distribution: 1 } },
+  { id: 'install', label: 'Same installation', weights: { ip_rating: 3, voltage: 2 } }
+]
+
+type SimilarProductsProps = {
+  productId: string
+}
+
+/**
+ * "Similar products" strip for the detail page: substitutes from the same
+ * taxonomy node ranked by find_similar_products()
+ */
+export default function SimilarProducts({ productId }: SimilarProductsProps) {
+  const [presetId, setPresetId] = useState(PRESETS[0].id)
+  const [includeSameSupplier, setIncludeSameSupplier] = useState(false)
+  const [products, setProducts] = useState<SimilarProduct[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const preset = PRESETS.find(p => p.id === presetId) ?? PRESETS[0]
+    setLoading(true)
+    setError(null)
+
+    fetchSimilarProducts(productId, { weights: preset.weights, otherSuppliersOnly: !includeSameSupplier })
+      .then(result => {
+        if (!cancelled) setProducts(result)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Similar products error:', err)
+        setError(err.message || 'Failed to load similar products')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [productId, presetId, includeSameSupplier])
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 mt-8">
+      <div className="px-6 py-4 border-b border-slate-200 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="w-1 h-6 bg-blue-500 rounded-full"></div>
+          <h2 className="font-bold text-xl text-slate-800">Similar Products</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+            {PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setPresetId(preset.id)}
+                className={`px-3 py-1.5 transition-colors ${
+                  presetId === preset.id ? 'bg-blue-500 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeSameSupplier}
+              onChange={(e) => setIncludeSameSupplier(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Include same supplier
+          </label>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="px-6 py-8 text-center text-sm text-red-600">{error}</div>
+      ) : loading ? (
+        <div className="flex gap-4 p-6 overflow-hidden">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="w-56 h-64 shrink-0 bg-slate-100 rounded-lg animate-pulse"></div>
+          ))}
+        </div>
+      ) : products.length === 0 ? (
+        <div className="px-6 py-8 text-center text-sm text-slate-400">No similar products found</div>
+      ) : (
+        <div className="flex gap-4 p-6 overflow-x-auto">
+          {products.map(product => (
+            <Link
+              key={product.product_id}
+              href={`/product/${product.product_id}`}
+              className="w-56 shrink-0 border border-slate-200 rounded-lg p-3 hover:border-blue-300 hover:shadow-md transition-all"
+            >
+              <div className="h-32 mb-3 bg-slate-50 rounded-md flex items-center justify-center overflow-hidden">
+                {product.image_url ? (
+                  <img src={product.image_url} alt={product.foss_pid} className="max-h-full object-contain" />
+                ) : (
+                  <Box size={32} strokeWidth={1} className="text-slate-400" />
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="font-bold text-sm text-slate-800 truncate">{product.foss_pid}</span>
+                <span className="text-xs font-semibold text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded shrink-0">
+                  {Math.round(product.similarity * 100)}%
+                </span>
+              </div>
+              <p className="text-xs text-slate-500 line-clamp-2 mb-2">{product.description_short}</p>
+              <div className="text-xs text-slate-600 space-y-0.5">
+                <div>{product.supplier_name}</div>
+                <div>
+                  {formatFeatureValue({ value: product.cct, unit: 'K' })} · {formatFeatureValue({ value: product.lumens_output, unit: 'lm' })}
+                </div>
+                {product.ip_rating && <div>{product.ip_rating}</div>}
+              </div>
+              {product.price != null && (
+                <div className="text-sm font-bold text-green-600 mt-2">€{Number(product.price).toFixed(2)}</div>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { MultiSelectFilter, FilterFacet } from './filters'
+import { fetchSupplierFacets, SearchParams } from '@/lib/search'
+
+type SupplierFilterProps = {
+  context: Omit<SearchParams, 'p_suppliers'> // Current search without the supplier selection
+  selected: string[]
+  onChange: (suppliers: string[]) => void
+}
+
+export default function SupplierFilter({ context, selected, onChange }: SupplierFilterProps) {
+  const [facets, setFacets] = useState<FilterFacet[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Reload counts whenever the search context changes
+  const contextKey = JSON.stringify(context)
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+
+    fetchSupplierFacets(context, controller.signal)
+      .then(rows => {
+        console.log(`✅ Loaded ${rows.length} supplier facets`)
+        setFacets(rows)
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return
+        console.error('Error loading supplier facets:', error)
+        setFacets([])
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [contextKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Keep selected suppliers visible (count 0) so they can still be unchecked
+  const missing = selected
+    .filter(supplier => !facets.some(facet => facet.filter_value === supplier))
+    .map(supplier => ({
+      filter_key: 'supplier',
+      filter_label: 'Supplier',
+      filter_category: 'supplier',
+      filter_value: supplier,
+      product_count: 0
+    }))
+
+  if (loading && facets.length === 0) {
+    return (
+      <div className="space-y-2 animate-pulse">
+        {[1, 2, 3].map(i => (
+          <div key={i} className="h-5 bg-slate-200 rounded w-2/3"></div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className={loading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+      <MultiSelectFilter
+        filterKey="supplier"
+        label="Supplier"
+        values={selected}
+        onChange={onChange}
+        facets={[...missing, ...facets]}
+        options={{
+          searchable: true, // Search box appears once there are more than 10 suppliers
+          maxHeight: '16rem',
+          showCount: true
+        }}
+        onClear={() => onChange([])}
+      />
+    </div>
+  )
+}
@@ -73,7 +73,7 @@ export default function BooleanFilter({
                   className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 />
                 <span className={isSelected ? 'font-medium' : ''}>
-                  {facet.filter_value}
+                  {facet.value_label ?? facet.filter_value}
                 </span>
               </label>
               {showCount && (
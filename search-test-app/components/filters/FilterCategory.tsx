@@ -8,6 +8,7 @@ import { ChevronDown, ChevronUp } from 'lucide-react'
  * Groups related filters together (Electricals, Design, Light Engine)
  */
 export default function FilterCategory({
+  category,
   label,
   isExpanded,
   onToggle,
@@ -38,7 +39,7 @@ export default function FilterCategory({
         aria-expanded={isExpanded}
       >
         <div className="flex items-center gap-2">
-          <span className="text-lg">{getCategoryIcon(label)}</span>
+          <span className="text-lg">{getCategoryIcon(category ?? label)}</span>
           <span className="font-bold">{label}</span>
         </div>
         <div className={`
@@ -148,7 +148,7 @@ export default function MultiSelectFilter({
 
                 {/* Value label */}
                 <span className={`flex-1 ${isChecked ? 'font-medium' : ''}`}>
-                  {facet.filter_value}
+                  {facet.value_label ?? facet.filter_value}
                 </span>
 
                 {/* Product count */}
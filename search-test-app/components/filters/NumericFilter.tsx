@@ -0,0 +1,147 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { NumericFilterMode, NumericFilterProps } from './types'
+import { X } from 'lucide-react'
+import { MessageKey, useLocale } from '@/lib/i18n'
+
+const MODES: { mode: NumericFilterMode; label: MessageKey; symbol: string }[] = [
+  { mode: 'exact', label: 'filters.numeric.exact', symbol: '=' },
+  { mode: 'min', label: 'filters.numeric.min', symbol: '≥' },
+  { mode: 'max', label: 'filters.numeric.max', symbol: '≤' }
+]
+
+// Round to the nearest step (counted from min) and keep within bounds
+const snapToStep = (value: number, step: number, min?: number, max?: number) => {
+  let snapped = value
+  if (step > 0) {
+    const base = min ?? 0
+    const decimals = (step.toString().split('.')[1] || '').length
+    snapped = parseFloat((base + Math.round((value - base) / step) * step).toFixed(decimals))
+  }
+  if (min != null) snapped = Math.max(min, snapped)
+  if (max != null) snapped = Math.min(max, snapped)
+  return snapped
+}
+
+/**
+ * NumericFilter - For N (Numeric) type filters
+ * Single value with exact / at-least / at-most comparison
+ * Examples: Power (W), Number of light sources, Cable length
+ */
+export default function NumericFilter({
+  filterKey,
+  label,
+  etimFeatureType,
+  value,
+  mode = 'exact',
+  onChange,
+  unit = '',
+  min,
+  max,
+  step = 1,
+  placeholder,
+  onClear,
+  showClearButton = true
+}: NumericFilterProps) {
+  // Typed text is kept locally and committed on blur/Enter (after snapping)
+  const [input, setInput] = useState(value?.toString() ?? '')
+  // Mode picked before a value is typed has nothing to be stored in yet, so keep it here
+  const [currentMode, setCurrentMode] = useState(mode)
+  const { t } = useLocale()
+
+  useEffect(() => {
+    setInput(value?.toString() ?? '')
+    if (value != null) setCurrentMode(mode)
+  }, [value, mode])
+
+  const changeMode = (next: NumericFilterMode) => {
+    setCurrentMode(next)
+    if (value != null && next !== mode) onChange(value, next)
+  }
+
+  const commit = () => {
+    const parsed = input.trim() ? parseFloat(input) : NaN
+    if (Number.isNaN(parsed)) {
+      setInput(value?.toString() ?? '')
+      if (!input.trim() && value != null) onChange(null, currentMode)
+      return
+    }
+    const snapped = snapToStep(parsed, step, min, max)
+    setInput(snapped.toString())
+    if (snapped !== value || currentMode !== mode) onChange(snapped, currentMode)
+  }
+
+  const hasValue = value != null
+  const modeSymbol = MODES.find(m => m.mode === currentMode)?.symbol ?? '='
+
+  return (
+    <div className="space-y-2">
+      {/* Label with clear button */}
+      <div className="flex items-center justify-between">
+        <label htmlFor={`numeric-${filterKey}`} className="text-sm font-medium text-gray-700">
+          {label} {etimFeatureType && <span className="text-gray-500">[{etimFeatureType}]</span>}
+        </label>
+        {showClearButton && hasValue && onClear && (
+          <button
+            onClick={onClear}
+            className="text-xs text-gray-500 hover:text-gray-700"
+            aria-label={`Clear ${label} filter`}
+          >
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      {/* Comparison mode */}
+      <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label={`${label} comparison`}>
+        {MODES.map(option => (
+          <button
+            key={option.mode}
+            role="radio"
+            aria-checked={currentMode === option.mode}
+            onClick={() => changeMode(option.mode)}
+            className={`text-xs px-2 py-1 rounded transition-colors ${
+              currentMode === option.mode
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.symbol} {t(option.label)}
+          </button>
+        ))}
+      </div>
+
+      {/* Value input */}
+      <div className="relative">
+        <input
+          id={`numeric-${filterKey}`}
+          type="number"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit()
+          }}
+          placeholder={placeholder || (min != null && max != null ? `${min} - ${max}` : 'Value')}
+          min={min}
+          max={max}
+          step={step}
+          className={`w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500 ${unit ? 'pr-10' : ''}`}
+        />
+        {unit && (
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-500 pointer-events-none">
+            {unit}
+          </span>
+        )}
+      </div>
+
+      {/* Current selection summary */}
+      {hasValue && (
+        <div className="text-xs text-gray-600 pt-1 border-t">
+          {modeSymbol} {value.toLocaleString()} {unit}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,19 @@
 'use client'
 
+import { useState, useEffect } from 'react'
 import { RangeFilterProps } from './types'
 import { X } from 'lucide-react'
 
+// Round to the nearest step (counted from lo) and keep within [lo, hi]
+const snapToStep = (value: number, step: number, lo: number, hi: number) => {
+  const decimals = (step.toString().split('.')[1] || '').length
+  const snapped = parseFloat((lo + Math.round((value - lo) / step) * step).toFixed(decimals))
+  return Math.min(hi, Math.max(lo, snapped))
+}
+
 /**
  * RangeFilter - For R (Range) type filters
- * Displays min/max inputs with optional presets and histogram
+ * Displays min/max inputs with optional presets, histogram and dual-handle slider
  * Examples: CCT (Color Temperature), Luminous Flux (Lumens)
  */
 export default function RangeFilter({
@@ -21,6 +29,7 @@ export default function RangeFilter({
   presets = [],
   showHistogram = false,
   facets = [],
+  histogram = [],
   onClear,
   showClearButton = true
 }: RangeFilterProps) {
@@ -40,6 +49,42 @@ export default function RangeFilter({
 
   const hasValue = value.min !== undefined || value.max !== undefined
 
+  // Slider domain: ui_config bounds, falling back to the histogram's data range
+  const lo = minBound ?? (histogram.length > 0 ? histogram[0].min : undefined)
+  const hi = maxBound ?? (histogram.length > 0 ? histogram[histogram.length - 1].max : undefined)
+  const hasSlider = lo !== undefined && hi !== undefined && hi > lo
+
+  // Handle positions while dragging; committed on release so each drag is one search
+  const [draft, setDraft] = useState<{ min?: number; max?: number } | null>(null)
+  useEffect(() => setDraft(null), [value.min, value.max])
+
+  const span = {
+    min: draft ? draft.min : value.min,
+    max: draft ? draft.max : value.max
+  }
+  const spanLo = span.min ?? lo ?? 0
+  const spanHi = span.max ?? hi ?? 0
+
+  const handleSliderChange = (handle: 'min' | 'max', raw: string) => {
+    if (!hasSlider) return
+    const snapped = snapToStep(parseFloat(raw), step, lo!, hi!)
+    setDraft(handle === 'min'
+      ? { ...span, min: Math.min(snapped, spanHi) }
+      : { ...span, max: Math.max(snapped, spanLo) })
+  }
+
+  const commitSlider = () => {
+    if (!draft) return
+    // A handle at the end of the domain means "no limit" on that side
+    onChange({
+      min: draft.min === lo ? undefined : draft.min,
+      max: draft.max === hi ? undefined : draft.max
+    })
+  }
+
+  const toPercent = (n: number) => hasSlider ? ((n - lo!) / (hi! - lo!)) * 100 : 0
+  const maxCount = Math.max(1, ...histogram.map(bucket => bucket.count))
+
   // Get range info from facets
   const rangeInfo = facets.length > 0 ? facets[0] : null
 
@@ -127,10 +172,68 @@ export default function RangeFilter({
         </div>
       )}
 
-      {/* TODO: Histogram visualization */}
-      {showHistogram && facets.length > 0 && (
-        <div className="h-12 bg-gray-100 rounded flex items-end justify-center gap-px p-1">
-          <div className="text-xs text-gray-400">Histogram</div>
+      {/* Histogram + dual-handle slider */}
+      {hasSlider && (
+        <div className="pt-1">
+          {showHistogram && histogram.length > 0 && (
+            <div className="relative h-12" aria-hidden="true">
+              {histogram.map(bucket => {
+                const left = Math.max(0, toPercent(bucket.min))
+                const width = Math.max(0, Math.min(100, toPercent(bucket.max)) - left)
+                const selected = bucket.max > spanLo && bucket.min <= spanHi
+                const barColor = !hasValue && !draft ? 'bg-gray-300' : selected ? 'bg-blue-400' : 'bg-gray-200'
+                return (
+                  <div
+                    key={bucket.range}
+                    className={`absolute bottom-0 rounded-t-sm transition-colors ${barColor}`}
+                    style={{
+                      left: `${left}%`,
+                      width: `calc(${width}% - 1px)`,
+                      height: `${Math.max(bucket.count > 0 ? 4 : 0, (bucket.count / maxCount) * 100)}%`
+                    }}
+                    title={`${bucket.min.toLocaleString()} - ${bucket.max.toLocaleString()} ${unit}: ${bucket.count.toLocaleString()} products`}
+                  />
+                )
+              })}
+            </div>
+          )}
+
+          <div className="relative h-4">
+            {/* Track with the selected span highlighted */}
+            <div className="absolute top-1/2 -translate-y-1/2 left-0 right-0 h-1 bg-gray-200 rounded" />
+            <div
+              className="absolute top-1/2 -translate-y-1/2 h-1 bg-blue-500 rounded"
+              style={{ left: `${toPercent(spanLo)}%`, right: `${100 - toPercent(spanHi)}%` }}
+            />
+            <input
+              type="range"
+              min={lo}
+              max={hi}
+              step={step}
+              value={spanLo}
+              onChange={(e) => handleSliderChange('min', e.target.value)}
+              onPointerUp={commitSlider}
+              onKeyUp={commitSlider}
+              className="range-slider-input"
+              aria-label={`Minimum ${label}`}
+            />
+            <input
+              type="range"
+              min={lo}
+              max={hi}
+              step={step}
+              value={spanHi}
+              onChange={(e) => handleSliderChange('max', e.target.value)}
+              onPointerUp={commitSlider}
+              onKeyUp={commitSlider}
+              className="range-slider-input"
+              aria-label={`Maximum ${label}`}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-gray-400 mt-1">
+            <span>{lo!.toLocaleString()} {unit}</span>
+            <span>{hi!.toLocaleString()} {unit}</span>
+          </div>
         </div>
       )}
     </div>
@@ -6,6 +6,7 @@
 export { default as BooleanFilter } from './BooleanFilter'
 export { default as MultiSelectFilter } from './MultiSelectFilter'
 export { default as RangeFilter } from './RangeFilter'
+export { default as NumericFilter } from './NumericFilter'
 export { default as FilterCategory } from './FilterCategory'
 
 export type {
@@ -16,7 +17,9 @@ export type {
   BooleanFilterProps,
   MultiSelectFilterProps,
   NumericFilterProps,
+  NumericFilterMode,
   RangeFilterProps,
+  HistogramBucket,
   FilterCategoryProps,
   Preset
 } from './types'
@@ -3,13 +3,14 @@
  * Based on ETIM feature types: L (Logical/Boolean), A (Alphanumeric), N (Numeric), R (Range)
  */
 
-export type FilterType = 'boolean' | 'multi-select' | 'numeric' | 'range'
+export type FilterType = 'boolean' | 'multi-select' | 'categorical' | 'numeric' | 'range'
 
 export interface FilterFacet {
   filter_key: string
   filter_label: string
   filter_category: string
   filter_value: string
+  value_label?: string  // Translated filter_value for display (filtering still uses filter_value)
   product_count: number
   min_numeric_value?: number
   max_numeric_value?: number
@@ -71,9 +72,13 @@ export interface MultiSelectFilterProps extends BaseFilterProps {
   }
 }
 
+// exact: = value, min: >= value (at least), max: <= value (at most)
+export type NumericFilterMode = 'exact' | 'min' | 'max'
+
 export interface NumericFilterProps extends BaseFilterProps {
   value: number | null
-  onChange: (value: number | null) => void
+  mode?: NumericFilterMode  // Default: 'exact'
+  onChange: (value: number | null, mode: NumericFilterMode) => void
   unit?: string
   min?: number
   max?: number
@@ -91,9 +96,19 @@ export interface RangeFilterProps extends BaseFilterProps {
   presets?: Preset[]
   showHistogram?: boolean
   facets?: FilterFacet[]
+  histogram?: HistogramBucket[]  // From get_range_histograms()
+}
+
+// One search.build_histogram() bucket: [min, max) product count
+export interface HistogramBucket {
+  range: string
+  min: number
+  max: number
+  count: number
 }
 
 export interface FilterCategoryProps {
+  category?: string  // Category key (electricals, design, ...); picks the icon since label may be translated
   label: string
   isExpanded: boolean
   onToggle: () => void
@@ -0,0 +1,53 @@
+import type {
+  ClassificationImpact,
+  ClassificationRuleChange,
+  ClassificationRuleRecord
+} from '@search/search-actions'
+
+// Columns a draft can set (the rest of the row is read-only)
+export const EDITABLE_RULE_COLUMNS = [
+  'rule_name', 'taxonomy_code', 'flag_name', 'priority', 'etim_group_ids',
+  'etim_class_ids', 'etim_feature_conditions', 'text_pattern', 'active'
+] as const
+
+/**
+ * Call /api/classification: the rule RPCs are granted to service_role only,
+ * so they run on the server with the search actions
+ */
+async function requestClassification<T>(init?: RequestInit): Promise<T> {
+  const response = await fetch('/api/classification', init)
+  const body = await response.json().catch(() => null)
+  if (!response.ok || !body) {
+    throw new Error(body?.error?.message || `HTTP ${response.status}`)
+  }
+  return body.data
+}
+
+export async function fetchClassificationRules(): Promise<ClassificationRuleRecord[]> {
+  return requestClassification<ClassificationRuleRecord[]>()
+}
+
+/**
+ * Draft for editing an existing rule: its id plus the editable columns
+ */
+export function toRuleChange(rule: ClassificationRuleRecord): ClassificationRuleChange {
+  const change: ClassificationRuleChange = { id: rule.id }
+  for (const column of EDITABLE_RULE_COLUMNS) {
+    (change as Record<string, unknown>)[column] = rule[column]
+  }
+  return change
+}
+
+/**
+ * What the draft rules would move (previewClassificationChanges; read-only)
+ */
+export async function previewClassificationChanges(
+  changes: ClassificationRuleChange[],
+  sampleSize = 10
+): Promise<ClassificationImpact> {
+  return requestClassification<ClassificationImpact>({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ changes, sampleSize })
+  })
+}
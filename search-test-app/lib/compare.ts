@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Products pinned for comparison, kept in localStorage so the list survives
+// navigating between the search, detail and compare pages.
+
+export const MAX_COMPARE = 4
+
+export type CompareItem = {
+  product_id: string
+  foss_pid: string
+  image_url: string | null
+}
+
+const STORAGE_KEY = 'search-test-app:compare'
+const CHANGE_EVENT = 'compare-change' // Same-tab updates ('storage' only fires in other tabs)
+
+function readCompareList(): CompareItem[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(parsed) ? parsed.slice(0, MAX_COMPARE) : []
+  } catch {
+    return []
+  }
+}
+
+function writeCompareList(items: CompareItem[]) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+  window.dispatchEvent(new Event(CHANGE_EVENT))
+}
+
+/**
+ * Pinned products plus helpers to change them; every component using the
+ * hook (tray, cards, compare page) stays in sync
+ */
+export function useCompareList() {
+  const [items, setItems] = useState<CompareItem[]>([])
+
+  useEffect(() => {
+    const sync = () => setItems(readCompareList())
+    sync()
+    window.addEventListener(CHANGE_EVENT, sync)
+    window.addEventListener('storage', sync)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync)
+      window.removeEventListener('storage', sync)
+    }
+  }, [])
+
+  const isPinned = useCallback(
+    (productId: string) => items.some(item => item.product_id === productId),
+    [items]
+  )
+
+  // Adding beyond MAX_COMPARE is ignored; the UI disables the pin button instead
+  const toggle = useCallback((item: CompareItem) => {
+    const current = readCompareList()
+    if (current.some(i => i.product_id === item.product_id)) {
+      writeCompareList(current.filter(i => i.product_id !== item.product_id))
+    } else if (current.length < MAX_COMPARE) {
+      writeCompareList([...current, item])
+    }
+  }, [])
+
+  const remove = useCallback((productId: string) => {
+    writeCompareList(readCompareList().filter(i => i.product_id !== productId))
+  }, [])
+
+  const clear = useCallback(() => writeCompareList([]), [])
+
+  return { items, isPinned, isFull: items.length >= MAX_COMPARE, toggle, remove, clear }
+}
@@ -0,0 +1,52 @@
+import type { SearchParams, SortOption } from '@/lib/search'
+import type { ExportColumn, ExportFormat } from '@search/search-export'
+
+/**
+ * Download every product matching the search as CSV or XLSX. The file
+ * comes from /api/export (streamProductsV3), which writes it while paging
+ * through the results with the keyset cursor, so there is no row limit.
+ * Calls onProgress with the bytes received so far.
+ *
+ * @returns Size of the downloaded file in bytes
+ */
+export async function downloadProducts(
+  params: SearchParams,
+  sortBy: SortOption,
+  format: ExportFormat,
+  columns: ExportColumn[],
+  onProgress?: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<number> {
+  const response = await fetch('/api/export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ params, sortBy, format, columns }),
+    signal
+  })
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error?.message || `HTTP ${response.status}`)
+  }
+
+  // A failed batch on the server aborts the stream, so read() throws
+  const reader = response.body.getReader()
+  const chunks: Uint8Array<ArrayBuffer>[] = []
+  let size = 0
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.length
+    onProgress?.(size)
+  }
+
+  const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1]
+  const url = URL.createObjectURL(new Blob(chunks, { type: response.headers.get('Content-Type') ?? undefined }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename ?? `products.${format}`
+  link.click()
+  URL.revokeObjectURL(url)
+
+  return size
+}
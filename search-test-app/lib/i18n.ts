@@ -0,0 +1,392 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+
+// Same as Locale / SUPPORTED_LOCALES in search-actions.ts
+export const LOCALES = ['en', 'el'] as const
+export type Locale = typeof LOCALES[number]
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+
+// Switcher labels, in their own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  el: 'Ελληνικά'
+}
+
+// For toLocaleString / toLocaleDateString
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-GB',
+  el: 'el-GR'
+}
+
+// UI strings. {name} placeholders are filled by translate().
+// Product data (descriptions, suppliers, raw feature values) is not translated here.
+const en = {
+  'header.subtitle': 'Lighting Product Search',
+  'header.stats': 'System Stats',
+  'language.label': 'Language',
+
+  'common.loading': 'Loading...',
+  'common.retry': 'Retry',
+  'common.cancel': 'Cancel',
+  'common.clearAll': 'Clear All',
+  'common.error': 'Error:',
+
+  'search.placeholder': 'Search products, codes, descriptions...',
+  'search.clear': 'Clear search',
+  'search.interpreted': 'Understood as:',
+  'search.removeToken': 'Remove {token} from the search',
+  'search.textMatch': 'Searched as text (no power filter)',
+  'suggestions.taxonomy': 'Categories',
+  'suggestions.supplier': 'Suppliers',
+  'suggestions.product': 'Products',
+  'suggestions.term': 'Search for',
+
+  'categories.loading': 'Loading categories...',
+  'categories.error': 'Error loading categories: {message}',
+  'categories.clearAll': 'Clear all ({count})',
+  'categories.autoSearchOne': 'Auto-searching with {count} category...',
+  'categories.autoSearchMany': 'Auto-searching with {count} categories...',
+  'activeFilters.categories': 'Categories:',
+  'activeFilters.remove': 'Remove {name} filter',
+  'activeFilters.filters': 'Filters:',
+  'activeFilters.suppliers': 'Suppliers:',
+  'activeFilters.yes': 'Yes',
+  'activeFilters.no': 'No',
+
+  'filters.title': 'Technical Filters',
+  'filters.loading': 'Loading filters...',
+  'filters.none': 'No filters available for this category',
+  'filters.selectCategory': 'Select a category to see technical filters',
+  'filters.category.electricals': 'Electricals',
+  'filters.category.design': 'Design',
+  'filters.category.light_engine': 'Light Engine',
+  'filters.category.location': 'Location',
+  'filters.category.options': 'Options',
+  'filters.category.other': 'Other',
+  'filters.numeric.exact': 'Exactly',
+  'filters.numeric.min': 'At least',
+  'filters.numeric.max': 'At most',
+  'preset.warmWhite': 'Warm White',
+  'preset.warmWhite.description': 'Cozy, warm lighting',
+  'preset.neutralWhite': 'Neutral White',
+  'preset.neutralWhite.description': 'Balanced daylight',
+  'preset.coolWhite': 'Cool White',
+  'preset.coolWhite.description': 'Bright, energizing',
+  'preset.low': 'Low',
+  'preset.low.description': 'Ambient lighting',
+  'preset.medium': 'Medium',
+  'preset.medium.description': 'Task lighting',
+  'preset.high': 'High',
+  'preset.high.description': 'High output',
+
+  'suppliers.title': 'Suppliers',
+
+  'results.title': 'Products',
+  'results.searching': 'Searching...',
+  'results.countOfTotal': '({shown} of {total})',
+  'results.count': '({shown})',
+  'results.sortBy': 'Sort by',
+  'results.loadMore': 'Load More ({count} more)',
+
+  'sort.relevance': 'Relevance',
+  'sort.price_asc': 'Price: low to high',
+  'sort.price_desc': 'Price: high to low',
+  'sort.lumens_output_desc': 'Luminous flux: high to low',
+  'sort.lumens_output_asc': 'Luminous flux: low to high',
+  'sort.cct_asc': 'CCT: warm to cool',
+  'sort.cct_desc': 'CCT: cool to warm',
+  'sort.voltage_asc': 'Voltage: low to high',
+  'sort.voltage_desc': 'Voltage: high to low',
+  'sort.supplier_asc': 'Supplier: A-Z',
+  'sort.supplier_desc': 'Supplier: Z-A',
+  'sort.foss_pid_asc': 'Product code: A-Z',
+  'sort.foss_pid_desc': 'Product code: Z-A',
+  'sort.name': 'Description: A-Z',
+
+  'empty.noMatchTitle': 'No products match your filters',
+  'empty.noResultsTitle': 'No products found',
+  'empty.noMatchText': 'Try adjusting your filter selections to see more results.',
+  'empty.noResultsText': 'Start by selecting a category or adjusting your search criteria.',
+  'empty.tipLabel': 'Tip:',
+  'empty.tip': 'Remove some filters or try selecting different categories to expand your search.',
+
+  'flag.indoor': 'Indoor',
+  'flag.outdoor': 'Outdoor',
+  'flag.submersible': 'Submersible',
+  'flag.trimless': 'Trimless',
+  'flag.cut_shape_round': 'Round Cut',
+  'flag.cut_shape_rectangular': 'Rect Cut',
+  'flag.ceiling': 'Ceiling',
+  'flag.wall': 'Wall',
+  'flag.floor': 'Floor',
+  'flag.recessed': 'Recessed',
+  'flag.surface_mounted': 'Surface',
+  'flag.suspended': 'Suspended',
+
+  'compare.add': 'Add to comparison',
+  'compare.remove': 'Remove from comparison',
+  'compare.full': 'Compare tray is full',
+  'compare.pin': 'Compare',
+  'compare.pinned': 'Comparing',
+
+  'export.button': 'Export',
+  'export.exporting': 'Exporting {size}...',
+  'export.format': 'Format',
+  'export.columns': 'Columns ({count})',
+  'export.reset': 'Reset',
+  'export.download': 'Download',
+  'export.downloadCount': 'Download {count} products',
+  'export.done': 'Export downloaded ({size})',
+  'export.failed': 'Export failed: {message}',
+
+  'saved.button': 'Saved Searches',
+  'saved.saveCurrent': 'Save current search',
+  'saved.placeholder': 'e.g. Outdoor wall IP65 3000K',
+  'saved.save': 'Save',
+  'saved.saveName': 'Save name',
+  'saved.empty': 'No saved searches yet',
+  'saved.lastRun': 'Last run: {date}',
+  'saved.never': 'never',
+  'saved.run': 'Run',
+  'saved.runTitle': 'Run this search',
+  'saved.rename': 'Rename',
+  'saved.delete': 'Delete',
+  'saved.confirmOverwrite': 'Overwrite "{name}" with the current search?',
+  'saved.confirmDelete': 'Delete saved search "{name}"?'
+}
+
+export type MessageKey = keyof typeof en
+
+const el: Record<MessageKey, string> = {
+  'header.subtitle': 'Αναζήτηση προϊόντων φωτισμού',
+  'header.stats': 'Στατιστικά',
+  'language.label': 'Γλώσσα',
+
+  'common.loading': 'Φόρτωση...',
+  'common.retry': 'Επανάληψη',
+  'common.cancel': 'Άκυρο',
+  'common.clearAll': 'Καθαρισμός όλων',
+  'common.error': 'Σφάλμα:',
+
+  'search.placeholder': 'Αναζήτηση προϊόντων, κωδικών, περιγραφών...',
+  'search.clear': 'Καθαρισμός αναζήτησης',
+  'search.interpreted': 'Ερμηνεία:',
+  'search.removeToken': 'Αφαίρεση του {token} από την αναζήτηση',
+  'search.textMatch': 'Αναζήτηση ως κείμενο (χωρίς φίλτρο ισχύος)',
+  'suggestions.taxonomy': 'Κατηγορίες',
+  'suggestions.supplier': 'Προμηθευτές',
+  'suggestions.product': 'Προϊόντα',
+  'suggestions.term': 'Αναζήτηση για',
+
+  'categories.loading': 'Φόρτωση κατηγοριών...',
+  'categories.error': 'Σφάλμα φόρτωσης κατηγοριών: {message}',
+  'categories.clearAll': 'Καθαρισμός όλων ({count})',
+  'categories.autoSearchOne': 'Αυτόματη αναζήτηση σε {count} κατηγορία...',
+  'categories.autoSearchMany': 'Αυτόματη αναζήτηση σε {count} κατηγορίες...',
+  'activeFilters.categories': 'Κατηγορίες:',
+  'activeFilters.remove': 'Αφαίρεση φίλτρου {name}',
+  'activeFilters.filters': 'Φίλτρα:',
+  'activeFilters.suppliers': 'Προμηθευτές:',
+  'activeFilters.yes': 'Ναι',
+  'activeFilters.no': 'Όχι',
+
+  'filters.title': 'Τεχνικά φίλτρα',
+  'filters.loading': 'Φόρτωση φίλτρων...',
+  'filters.none': 'Δεν υπάρχουν φίλτρα για αυτή την κατηγορία',
+  'filters.selectCategory': 'Επιλέξτε κατηγορία για να δείτε τα τεχνικά φίλτρα',
+  'filters.category.electricals': 'Ηλεκτρολογικά',
+  'filters.category.design': 'Σχεδιασμός',
+  'filters.category.light_engine': 'Φωτεινή πηγή',
+  'filters.category.location': 'Τοποθέτηση',
+  'filters.category.options': 'Επιλογές',
+  'filters.category.other': 'Άλλα',
+  'filters.numeric.exact': 'Ακριβώς',
+  'filters.numeric.min': 'Τουλάχιστον',
+  'filters.numeric.max': 'Το πολύ',
+  'preset.warmWhite': 'Θερμό λευκό',
+  'preset.warmWhite.description': 'Ζεστός, φιλικός φωτισμός',
+  'preset.neutralWhite': 'Ουδέτερο λευκό',
+  'preset.neutralWhite.description': 'Ισορροπημένο φως ημέρας',
+  'preset.coolWhite': 'Ψυχρό λευκό',
+  'preset.coolWhite.description': 'Έντονος, τονωτικός φωτισμός',
+  'preset.low': 'Χαμηλή',
+  'preset.low.description': 'Γενικός φωτισμός',
+  'preset.medium': 'Μεσαία',
+  'preset.medium.description': 'Φωτισμός εργασίας',
+  'preset.high': 'Υψηλή',
+  'preset.high.description': 'Υψηλή φωτεινή ροή',
+
+  'suppliers.title': 'Προμηθευτές',
+
+  'results.title': 'Προϊόντα',
+  'results.searching': 'Αναζήτηση...',
+  'results.countOfTotal': '({shown} από {total})',
+  'results.count': '({shown})',
+  'results.sortBy': 'Ταξινόμηση',
+  'results.loadMore': 'Περισσότερα ({count} ακόμη)',
+
+  'sort.relevance': 'Συνάφεια',
+  'sort.price_asc': 'Τιμή: αύξουσα',
+  'sort.price_desc': 'Τιμή: φθίνουσα',
+  'sort.lumens_output_desc': 'Φωτεινή ροή: φθίνουσα',
+  'sort.lumens_output_asc': 'Φωτεινή ροή: αύξουσα',
+  'sort.cct_asc': 'CCT: από θερμό σε ψυχρό',
+  'sort.cct_desc': 'CCT: από ψυχρό σε θερμό',
+  'sort.voltage_asc': 'Τάση: αύξουσα',
+  'sort.voltage_desc': 'Τάση: φθίνουσα',
+  'sort.supplier_asc': 'Προμηθευτής: Α-Ω',
+  'sort.supplier_desc': 'Προμηθευτής: Ω-Α',
+  'sort.foss_pid_asc': 'Κωδικός προϊόντος: Α-Ω',
+  'sort.foss_pid_desc': 'Κωδικός προϊόντος: Ω-Α',
+  'sort.name': 'Περιγραφή: Α-Ω',
+
+  'empty.noMatchTitle': 'Κανένα προϊόν δεν ταιριάζει με τα φίλτρα σας',
+  'empty.noResultsTitle': 'Δεν βρέθηκαν προϊόντα',
+  'empty.noMatchText': 'Αλλάξτε τις επιλογές των φίλτρων για να δείτε περισσότερα αποτελέσματα.',
+  'empty.noResultsText': 'Ξεκινήστε επιλέγοντας κατηγορία ή αλλάζοντας τα κριτήρια αναζήτησης.',
+  'empty.tipLabel': 'Συμβουλή:',
+  'empty.tip': 'Αφαιρέστε κάποια φίλτρα ή επιλέξτε άλλες κατηγορίες για να διευρύνετε την αναζήτηση.',
+
+  'flag.indoor': 'Εσωτερικού χώρου',
+  'flag.outdoor': 'Εξωτερικού χώρου',
+  'flag.submersible': 'Υποβρύχιο',
+  'flag.trimless': 'Χωρίς πλαίσιο',
+  'flag.cut_shape_round': 'Στρογγυλή οπή',
+  'flag.cut_shape_rectangular': 'Ορθογώνια οπή',
+  'flag.ceiling': 'Οροφής',
+  'flag.wall': 'Τοίχου',
+  'flag.floor': 'Δαπέδου',
+  'flag.recessed': 'Χωνευτό',
+  'flag.surface_mounted': 'Επιφανειακό',
+  'flag.suspended': 'Κρεμαστό',
+
+  'compare.add': 'Προσθήκη στη σύγκριση',
+  'compare.remove': 'Αφαίρεση από τη σύγκριση',
+  'compare.full': 'Η σύγκριση είναι πλήρης',
+  'compare.pin': 'Σύγκριση',
+  'compare.pinned': 'Σε σύγκριση',
+
+  'export.button': 'Εξαγωγή',
+  'export.exporting': 'Εξαγωγή {size}...',
+  'export.format': 'Μορφή',
+  'export.columns': 'Στήλες ({count})',
+  'export.reset': 'Επαναφορά',
+  'export.download': 'Λήψη',
+  'export.downloadCount': 'Λήψη {count} προϊόντων',
+  'export.done': 'Η εξαγωγή ολοκληρώθηκε ({size})',
+  'export.failed': 'Η εξαγωγή απέτυχε: {message}',
+
+  'saved.button': 'Αποθηκευμένες',
+  'saved.saveCurrent': 'Αποθήκευση τρέχουσας αναζήτησης',
+  'saved.placeholder': 'π.χ. Εξωτερικά τοίχου IP65 3000K',
+  'saved.save': 'Αποθήκευση',
+  'saved.saveName': 'Αποθήκευση ονόματος',
+  'saved.empty': 'Δεν υπάρχουν αποθηκευμένες αναζητήσεις',
+  'saved.lastRun': 'Τελευταία εκτέλεση: {date}',
+  'saved.never': 'ποτέ',
+  'saved.run': 'Εκτέλεση',
+  'saved.runTitle': 'Εκτέλεση αυτής της αναζήτησης',
+  'saved.rename': 'Μετονομασία',
+  'saved.delete': 'Διαγραφή',
+  'saved.confirmOverwrite': 'Αντικατάσταση της «{name}» με την τρέχουσα αναζήτηση;',
+  'saved.confirmDelete': 'Διαγραφή της αποθηκευμένης αναζήτησης «{name}»;'
+}
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, el }
+
+/**
+ * UI string in a locale with {name} placeholders filled in
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: Record<string, string | number>
+): string {
+  const message = MESSAGES[locale][key] ?? en[key]
+  if (!params) return message
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match))
+}
+
+// Chosen language, kept in localStorage so it applies on every page
+const STORAGE_KEY = 'search-test-app:locale'
+const CHANGE_EVENT = 'locale-change' // Same-tab updates ('storage' only fires in other tabs)
+
+function readLocale(): Locale {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE
+  const stored = window.localStorage.getItem(STORAGE_KEY)
+  return isLocale(stored) ? stored : DEFAULT_LOCALE
+}
+
+/**
+ * Current locale, a setter and t() for UI strings; every component using
+ * the hook switches together
+ */
+export function useLocale() {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE)
+
+  useEffect(() => {
+    const sync = () => {
+      const current = readLocale()
+      setLocaleState(current)
+      document.documentElement.lang = current
+    }
+    sync()
+    window.addEventListener(CHANGE_EVENT, sync)
+    window.addEventListener('storage', sync)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync)
+      window.removeEventListener('storage', sync)
+    }
+  }, [])
+
+  const setLocale = useCallback((next: Locale) => {
+    window.localStorage.setItem(STORAGE_KEY, next)
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale]
+  )
+
+  return { locale, setLocale, t }
+}
+
+// Same shape as FilterTranslations in search-actions.ts
+export type FilterTranslations = {
+  labels: Record<string, string>                  // filter_key -> label
+  values: Record<string, Record<string, string>>  // filter_key -> value -> label
+}
+
+const NO_TRANSLATIONS: FilterTranslations = { labels: {}, values: {} }
+const filterTranslationsCache = new Map<Locale, FilterTranslations>()
+
+/**
+ * Filter label and value translations of a locale (get_filter_translations),
+ * cached for the session. English needs none: it is what the database stores.
+ */
+export async function fetchFilterTranslations(locale: Locale): Promise<FilterTranslations> {
+  if (locale === 'en') return NO_TRANSLATIONS
+
+  const cached = filterTranslationsCache.get(locale)
+  if (cached) return cached
+
+  const { data, error } = await supabase.rpc('get_filter_translations', { p_locale: locale })
+  if (error) throw error
+
+  const translations: FilterTranslations = { labels: {}, values: {} }
+  for (const row of (data || []) as Array<{ filter_key: string; filter_value: string | null; label: string }>) {
+    if (row.filter_value === null) {
+      translations.labels[row.filter_key] = row.label
+    } else {
+      (translations.values[row.filter_key] ??= {})[row.filter_value] = row.label
+    }
+  }
+
+  filterTranslationsCache.set(locale, translations)
+  return translations
+}
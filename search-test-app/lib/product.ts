@@ -0,0 +1,129 @@
+import { supabase } from '@/lib/supabase'
+
+// Same shapes as ProductDetail & co. in search-actions.ts (FOSSAPP server actions)
+export type ProductFeature = {
+  feature_id: string
+  filter_key: string | null // Set when the feature is also a search filter
+  label: string
+  value: string | number | boolean | null
+  unit: string | null
+}
+
+export type ProductTaxonomyNode = {
+  code: string
+  name: string
+  level: number
+  parent_code: string | null
+}
+
+export type ProductImage = {
+  mime_code: string
+  url: string
+}
+
+export type ProductDetail = {
+  product: {
+    product_id: string
+    foss_pid: string
+    description_short: string
+    description_long: string | null
+    supplier_name: string
+    class_name: string | null
+    price: number | null
+    image_url: string | null
+    taxonomy_path: string[]
+    voltage: number | null
+    cct: number | null
+    cri: string | null
+    ip_rating: string | null
+    finishing_colour: string | null
+    light_source: string | null
+    light_distribution: string | null
+    beam_angle_type: string | null
+    protection_class: string | null
+    lumens_output: number | null
+  }
+  flags: Record<string, boolean>
+  features: ProductFeature[]
+  taxonomy: ProductTaxonomyNode[]
+  images: ProductImage[]
+}
+
+/**
+ * Full product detail via get_product_detail(). Resolves to null when
+ * no product has this id; throws the Supabase error on failure.
+ */
+export async function fetchProductDetail(productId: string): Promise<ProductDetail | null> {
+  const { data, error } = await supabase.rpc('get_product_detail', { p_product_id: productId })
+  if (error) throw error
+  return (data as ProductDetail | null) ?? null
+}
+
+/**
+ * Breadcrumb trails (root first) for the deepest taxonomy nodes of a product.
+ * A product can sit in several branches, so there can be more than one trail.
+ */
+export function buildBreadcrumbs(nodes: ProductTaxonomyNode[]): ProductTaxonomyNode[][] {
+  const byCode = new Map(nodes.map(node => [node.code, node]))
+  const parents = new Set(nodes.map(node => node.parent_code).filter(Boolean))
+  const leaves = nodes.filter(node => !parents.has(node.code))
+
+  return leaves.map(leaf => {
+    const trail: ProductTaxonomyNode[] = []
+    let node: ProductTaxonomyNode | undefined = leaf
+    while (node && !trail.includes(node)) {
+      trail.unshift(node)
+      node = node.parent_code ? byCode.get(node.parent_code) : undefined
+    }
+    return trail
+  })
+}
+
+/**
+ * Human-readable feature value with unit ("3000 K", "Yes", "IP65")
+ */
+export function formatFeatureValue(feature: Pick<ProductFeature, 'value' | 'unit'>): string {
+  if (feature.value === null || feature.value === undefined) return '—'
+  if (typeof feature.value === 'boolean') return feature.value ? 'Yes' : 'No'
+  const text = typeof feature.value === 'number' ? feature.value.toLocaleString() : feature.value
+  return feature.unit ? `${text} ${feature.unit}` : text
+}
+
+// Same shapes as SimilarProduct / SimilarityWeights in search-actions.ts
+export type SimilarityFeature = 'cct' | 'lumens_output' | 'voltage' | 'ip_rating' | 'cri' | 'light_distribution'
+
+export type SimilarityWeights = Partial<Record<SimilarityFeature, number>>
+
+export type SimilarProduct = {
+  product_id: string
+  foss_pid: string
+  description_short: string
+  supplier_name: string
+  price: number | null
+  image_url: string | null
+  cct: number | null
+  lumens_output: number | null
+  voltage: number | null
+  ip_rating: string | null
+  cri: string | null
+  light_distribution: string | null
+  similarity: number // 0-1
+}
+
+/**
+ * Substitutes for a product via find_similar_products(), best match first.
+ * Omitted weights keep the SQL defaults.
+ */
+export async function fetchSimilarProducts(
+  productId: string,
+  options: { limit?: number; weights?: SimilarityWeights; otherSuppliersOnly?: boolean } = {}
+): Promise<SimilarProduct[]> {
+  const { data, error } = await supabase.rpc('find_similar_products', {
+    p_product_id: productId,
+    p_limit: options.limit ?? 12,
+    p_weights: options.weights ?? {},
+    p_other_suppliers_only: options.otherSuppliersOnly ?? true
+  })
+  if (error) throw error
+  return (data || []).map((row: SimilarProduct) => ({ ...row, similarity: Number(row.similarity) }))
+}
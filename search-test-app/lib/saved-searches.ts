@@ -0,0 +1,111 @@
+import type { SavedSearch, SavedSearchState } from '@search/search-actions'
+import { ensureSignedIn, supabase } from '@/lib/supabase'
+import type { FilterValue, SearchState } from '@/lib/search-state'
+import { isSortOption } from '@/lib/search'
+
+// The saved state is search-actions.ts's SavedSearchState, so searches saved
+// here can be re-run from FOSSAPP and vice versa
+
+// Location/options flags live in activeFilters here but are top-level in SavedSearchState
+const FLAG_KEYS = {
+  indoor: 'indoor',
+  outdoor: 'outdoor',
+  submersible: 'submersible',
+  trimless: 'trimless',
+  cut_shape_round: 'cutShapeRound',
+  cut_shape_rectangular: 'cutShapeRectangular'
+} as const
+
+type FlagFilterKey = keyof typeof FLAG_KEYS
+
+export function toSavedSearchState(state: SearchState): SavedSearchState {
+  const saved: SavedSearchState = {}
+  const filters: Record<string, FilterValue> = {}
+
+  for (const [key, value] of Object.entries(state.filters)) {
+    if (key in FLAG_KEYS && typeof value === 'boolean') {
+      saved[FLAG_KEYS[key as FlagFilterKey]] = value
+    } else {
+      filters[key] = value
+    }
+  }
+
+  if (state.tab) saved.tab = state.tab
+  if (state.query) saved.query = state.query
+  if (state.taxonomies.length > 0) saved.taxonomyCodes = state.taxonomies
+  if (state.suppliers.length > 0) saved.suppliers = state.suppliers
+  if (Object.keys(filters).length > 0) saved.filters = filters
+  if (state.sort !== 'relevance') saved.sortBy = state.sort
+  return saved
+}
+
+export function fromSavedSearchState(saved: SavedSearchState): SearchState {
+  const filters: Record<string, FilterValue> = { ...(saved.filters ?? {}) }
+  for (const [filterKey, stateKey] of Object.entries(FLAG_KEYS)) {
+    const value = saved[stateKey]
+    if (typeof value === 'boolean') filters[filterKey] = value
+  }
+
+  return {
+    query: saved.query ?? '',
+    tab: saved.tab ?? '',
+    taxonomies: saved.taxonomyCodes ?? [],
+    suppliers: saved.suppliers ?? [],
+    filters,
+    sort: saved.sortBy && isSortOption(saved.sortBy) ? saved.sortBy : 'relevance'
+  }
+}
+
+/**
+ * Saved searches of the signed-in user, ordered by name
+ */
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  await ensureSignedIn()
+  const { data, error } = await supabase.rpc('list_saved_searches')
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Save under a name; an existing search with that name (any case) is overwritten
+ */
+export async function saveSearch(name: string, state: SearchState): Promise<SavedSearch> {
+  await ensureSignedIn()
+  const { data, error } = await supabase.rpc('save_search', {
+    p_name: name.trim(),
+    p_state: toSavedSearchState(state)
+  })
+  if (error) throw error
+  return data
+}
+
+/**
+ * Rename a saved search. Throws a readable error when the name is taken.
+ */
+export async function renameSavedSearch(id: string, name: string): Promise<SavedSearch> {
+  await ensureSignedIn()
+  const { data, error } = await supabase.rpc('rename_saved_search', {
+    p_id: id,
+    p_name: name.trim()
+  })
+  if (error) {
+    // Postgres: 23505 = unique_violation
+    throw error.code === '23505' ? new Error(`A saved search named "${name.trim()}" already exists`) : error
+  }
+  return data
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  await ensureSignedIn()
+  const { error } = await supabase.rpc('delete_saved_search', { p_id: id })
+  if (error) throw error
+}
+
+/**
+ * Record that a saved search was re-run (last_run_at)
+ */
+export async function markSavedSearchRun(id: string): Promise<void> {
+  await ensureSignedIn()
+  const { error } = await supabase.rpc('mark_saved_search_run', { p_id: id })
+  if (error) throw error
+}
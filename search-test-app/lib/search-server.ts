@@ -0,0 +1,16 @@
+import { createSearchActions, createSearchServerClient, type SearchActions } from '@search/search-actions'
+
+// Server only: route handlers in app/api. Never import from a client component.
+
+let actions: SearchActions | undefined
+
+/**
+ * Search actions on the server client (service role key, no session),
+ * created on the first request so the key is read at runtime. Saved
+ * searches go through lib/saved-searches.ts with the browser session, so
+ * there is no session owner here.
+ */
+export function getServerSearchActions(): SearchActions {
+  actions ??= createSearchActions(createSearchServerClient(), 'public-wrappers', { getSessionOwner: () => null })
+  return actions
+}
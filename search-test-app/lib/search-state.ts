@@ -0,0 +1,119 @@
+/**
+ * URL codec for the search page state
+ *
+ * Query parameter layout (all optional, repeated keys for arrays):
+ *   q=led                    text query
+ *   tab=LUMINAIRE            active root tab (taxonomy code)
+ *   cat=LUMINAIRE-INDOOR     selected taxonomy codes
+ *   supplier=Delta%20Light   selected suppliers
+ *   f.ip=IP65&f.ip=IP67      multi-select filter values
+ *   r.cct=2700..3000         range filter (open ends: "2700.." or "..3000")
+ *   b.dimmable=1             boolean filter (1 = true, 0 = false)
+ *   sort=price_asc           sort order (omitted for relevance)
+ *
+ * Each filter kind has its own prefix so values never have to be guessed
+ * (a multi-select value "1" or "2700..3000" stays a string).
+ */
+
+import { isSortOption, type SortOption } from '@/lib/search'
+
+export type RangeValue = { min?: number; max?: number }
+
+export type FilterValue = string[] | RangeValue | boolean
+
+export type SearchState = {
+  query: string
+  tab: string
+  taxonomies: string[]
+  suppliers: string[]
+  filters: Record<string, FilterValue>
+  sort: SortOption
+}
+
+export const EMPTY_SEARCH_STATE: SearchState = {
+  query: '',
+  tab: '',
+  taxonomies: [],
+  suppliers: [],
+  filters: {},
+  sort: 'relevance'
+}
+
+const RANGE_SEPARATOR = '..'
+
+const parseBound = (value: string): number | undefined => {
+  if (value === '') return undefined
+  const num = Number(value)
+  return Number.isFinite(num) ? num : undefined
+}
+
+export function encodeSearchState(state: SearchState): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (state.query) params.set('q', state.query)
+  if (state.tab) params.set('tab', state.tab)
+  state.taxonomies.forEach(code => params.append('cat', code))
+  state.suppliers.forEach(supplier => params.append('supplier', supplier))
+  if (state.sort !== 'relevance') params.set('sort', state.sort)
+
+  // Sorted keys keep the URL stable regardless of selection order
+  for (const key of Object.keys(state.filters).sort()) {
+    const value = state.filters[key]
+
+    if (Array.isArray(value)) {
+      value.forEach(v => params.append(`f.${key}`, v))
+    } else if (typeof value === 'boolean') {
+      params.set(`b.${key}`, value ? '1' : '0')
+    } else if (value && (value.min !== undefined || value.max !== undefined)) {
+      params.set(`r.${key}`, `${value.min ?? ''}${RANGE_SEPARATOR}${value.max ?? ''}`)
+    }
+  }
+
+  return params
+}
+
+export function decodeSearchState(params: URLSearchParams): SearchState {
+  const filters: Record<string, FilterValue> = {}
+
+  params.forEach((value, name) => {
+    const dot = name.indexOf('.')
+    if (dot < 0) return
+    const prefix = name.slice(0, dot)
+    const key = name.slice(dot + 1)
+    if (!key) return
+
+    if (prefix === 'f') {
+      const values = Array.isArray(filters[key]) ? filters[key] as string[] : []
+      if (value && !values.includes(value)) values.push(value)
+      if (values.length > 0) filters[key] = values
+    } else if (prefix === 'b') {
+      if (value === '1' || value === 'true') filters[key] = true
+      if (value === '0' || value === 'false') filters[key] = false
+    } else if (prefix === 'r') {
+      const [minPart, maxPart = ''] = value.split(RANGE_SEPARATOR)
+      const range: RangeValue = {}
+      const min = parseBound(minPart)
+      const max = parseBound(maxPart)
+      if (min !== undefined) range.min = min
+      if (max !== undefined) range.max = max
+      if (Object.keys(range).length > 0) filters[key] = range
+    }
+  })
+
+  const sort = params.get('sort')
+  return {
+    query: params.get('q') || '',
+    tab: params.get('tab') || '',
+    taxonomies: params.getAll('cat').filter(Boolean),
+    suppliers: params.getAll('supplier').filter(Boolean),
+    filters,
+    sort: sort && isSortOption(sort) ? sort : 'relevance'
+  }
+}
+
+/**
+ * Canonical query string for a state (used to compare state with the URL)
+ */
+export function searchStateToQueryString(state: SearchState): string {
+  return encodeSearchState(state).toString()
+}
@@ -0,0 +1,302 @@
+import { supabase } from '@/lib/supabase'
+import type { FilterDefinition, FilterFacet } from '@/components/filters'
+import { normalizeSearchText } from '@search/search-normalize'
+import { type FilterValueV3, getFilterValidationKind } from '@search/search-filter-validation'
+import {
+  parseSearchQuery,
+  type ParsedSearchQuery,
+  type QueryParserContext
+} from '@search/search-query-parser'
+
+// Keyset position after the last row shown (p_cursor_sort_value / p_cursor_product_id
+// of search_products_v3); the FOSSAPP server actions wrap it in an opaque token
+export type PageCursor = {
+  sortValue: string | null
+  productId: string
+}
+
+// Same shape as PaginatedResult in search-actions.ts (FOSSAPP server actions),
+// minus offset: pages continue from nextCursor
+export type PaginatedResult<T> = {
+  items: T[]
+  total: number
+  limit: number
+  hasMore: boolean
+  nextCursor: PageCursor | null
+}
+
+// Parameters shared by search_products_v3 and count_products_v3
+export type SearchParams = {
+  p_query: string | null
+  p_filters: Record<string, FilterValueV3>
+  p_taxonomy_codes: string[] | null
+  p_suppliers: string[] | null
+  p_indoor: boolean | null
+  p_outdoor: boolean | null
+  p_submersible: boolean | null
+  p_trimless: boolean | null
+  p_cut_shape_round: boolean | null
+  p_cut_shape_rectangular: boolean | null
+}
+
+// Same values as V3SortOption in search-cursor.ts (p_sort_by of search_products_v3)
+export const SORT_OPTIONS = [
+  'relevance',
+  'price_asc',
+  'price_desc',
+  'lumens_output_desc',
+  'lumens_output_asc',
+  'cct_asc',
+  'cct_desc',
+  'voltage_asc',
+  'voltage_desc',
+  'supplier_asc',
+  'supplier_desc',
+  'foss_pid_asc',
+  'foss_pid_desc',
+  'name'
+] as const
+
+export type SortOption = typeof SORT_OPTIONS[number]
+
+export const isSortOption = (value: string): value is SortOption =>
+  (SORT_OPTIONS as readonly string[]).includes(value)
+
+/**
+ * Keyset cursor value of a search_products_v3 row for a sort
+ * (mirrors cursorAfterRow in search-cursor.ts)
+ */
+export function cursorSortValue(row: Record<string, any>, sortBy: SortOption, hasQuery: boolean): string | null {
+  const column =
+    sortBy === 'relevance' ? (hasQuery ? 'relevance_score' : 'foss_pid')
+    : sortBy === 'name' ? 'description_short'
+    : sortBy.startsWith('supplier_') ? 'supplier_name'
+    : sortBy.replace(/_(asc|desc)$/, '')
+  const value = row[column]
+  return value === null || value === undefined ? null : String(value)
+}
+
+/**
+ * search_products_v3 row in the search_products_with_filters shape the
+ * product cards use (v3 has no power column, so key_features.power is null)
+ */
+function toLegacyRow(row: Record<string, any>) {
+  return {
+    ...row,
+    flags: {
+      indoor: row.indoor,
+      outdoor: row.outdoor,
+      submersible: row.submersible,
+      trimless: row.trimless,
+      cut_shape_round: row.cut_shape_round,
+      cut_shape_rectangular: row.cut_shape_rectangular,
+      ceiling: row.ceiling,
+      wall: row.wall,
+      floor: false,
+      recessed: row.recessed,
+      surface_mounted: false,
+      suspended: false
+    },
+    key_features: {
+      power: null,
+      color_temp: row.cct,
+      ip_rating: row.ip_rating
+    }
+  }
+}
+
+/**
+ * Fetch one page of products and the total count in a single round trip
+ * (search_products_v3 and count_products_v3 run concurrently), continuing
+ * after cursor when given. Throws the Supabase error on failure.
+ * Pass an AbortSignal to cancel both requests when a newer search starts.
+ *
+ * Mirrors searchProductsV3Paginated in search-actions.ts: one extra row
+ * tells whether another page exists, and nextCursor points after the last
+ * item. The query is normalised like the fts column.
+ */
+export async function searchProductsPage<T>(
+  params: SearchParams,
+  limit = 24,
+  cursor: PageCursor | null = null,
+  signal?: AbortSignal,
+  sortBy: SortOption = 'relevance'
+): Promise<PaginatedResult<T>> {
+  const v3Params = { ...params, p_query: params.p_query ? normalizeSearchText(params.p_query) : null }
+  const search = supabase.rpc('search_products_v3', {
+    ...v3Params,
+    p_sort_by: sortBy,
+    p_limit: limit + 1,
+    p_offset: 0,
+    p_cursor_sort_value: cursor?.sortValue ?? null,
+    p_cursor_product_id: cursor?.productId ?? null
+  })
+  const count = supabase.rpc('count_products_v3', v3Params)
+  if (signal) {
+    search.abortSignal(signal)
+    count.abortSignal(signal)
+  }
+
+  const [searchResult, countResult] = await Promise.all([search, count])
+  if (signal?.aborted) {
+    throw new DOMException('Search cancelled', 'AbortError')
+  }
+
+  if (searchResult.error) throw searchResult.error
+  if (countResult.error) throw countResult.error
+
+  const rows: Record<string, any>[] = searchResult.data || []
+  const hasMore = rows.length > limit
+  const page = rows.slice(0, limit)
+  const last = page[page.length - 1]
+
+  return {
+    items: page.map(row => toLegacyRow(row) as T),
+    // count_products_v3 returns an estimate above 500K rows
+    total: Math.max(Number(countResult.data) || 0, page.length),
+    limit,
+    hasMore,
+    nextCursor: hasMore && last
+      ? { sortValue: cursorSortValue(last, sortBy, !!params.p_query), productId: last.product_id }
+      : null
+  }
+}
+
+// Session cache; cleared on failure so the next call retries
+let filterDefinitionsRequest: Promise<FilterDefinition[]> | null = null
+
+/**
+ * All active filter definitions (get_active_filter_definitions) with English
+ * labels and ui_config, cached for the session. Throws the Supabase error on failure.
+ */
+export function fetchFilterDefinitions(): Promise<FilterDefinition[]> {
+  filterDefinitionsRequest ??= (async () => {
+    const { data, error } = await supabase.rpc('get_active_filter_definitions')
+    if (error) throw error
+    return (data || []) as FilterDefinition[]
+  })().catch(error => {
+    filterDefinitionsRequest = null
+    throw error
+  })
+  return filterDefinitionsRequest
+}
+
+/**
+ * Filter kinds (get_active_filter_definitions) and the values of every
+ * filter (unfiltered get_dynamic_facets) used to turn query tokens into
+ * filters. Throws the Supabase error on failure.
+ */
+export async function fetchQueryParserContext(): Promise<QueryParserContext> {
+  const [definitions, facets] = await Promise.all([
+    fetchFilterDefinitions(),
+    supabase.rpc('get_dynamic_facets', {})
+  ])
+  if (facets.error) throw facets.error
+
+  const context: Required<QueryParserContext> = { kinds: {}, values: {} }
+  for (const row of definitions) {
+    const kind = getFilterValidationKind(row.filter_type)
+    if (kind) context.kinds[row.filter_key] = kind
+  }
+  for (const row of facets.data || []) {
+    (context.values[row.filter_key] ??= []).push(row.filter_value)
+  }
+  return context
+}
+
+/**
+ * Parse the search box text and merge its spec filters with the filter panel
+ * selection. The panel wins: a token for a key the panel already filters
+ * stays in the text (same rule as applyQueryParsing in search-actions.ts).
+ */
+export function splitSearchQuery(
+  query: string,
+  panelFilters: Record<string, FilterValueV3>,
+  context: QueryParserContext
+): ParsedSearchQuery {
+  const parsed = parseSearchQuery(query, context)
+  const unused: string[] = []
+
+  const interpreted = parsed.interpreted.filter(item => {
+    if (item.filterKey && item.filterKey in panelFilters) {
+      unused.push(item.token)
+      return false
+    }
+    return true
+  })
+
+  return {
+    text: [parsed.text, ...unused].filter(Boolean).join(' '),
+    filters: { ...parsed.filters, ...panelFilters },
+    interpreted
+  }
+}
+
+/**
+ * Supplier counts for the current search context via get_supplier_facets().
+ * The supplier selection is not sent: each supplier keeps its count while
+ * others are selected. Rows use the get_dynamic_facets shape.
+ */
+export async function fetchSupplierFacets(
+  params: Omit<SearchParams, 'p_suppliers'>,
+  signal?: AbortSignal
+): Promise<FilterFacet[]> {
+  const request = supabase.rpc('get_supplier_facets', params)
+  if (signal) request.abortSignal(signal)
+
+  const { data, error } = await request
+  if (signal?.aborted) {
+    throw new DOMException('Supplier facets cancelled', 'AbortError')
+  }
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({
+    ...row,
+    filter_label: 'Supplier',
+    product_count: Number(row.product_count)
+  }))
+}
+
+// Same shape as SearchSuggestion / SearchSuggestions in search-actions.ts
+export type SuggestionType = 'product' | 'supplier' | 'taxonomy' | 'term'
+
+export type Suggestion = {
+  type: SuggestionType
+  value: string
+  label: string
+  count: number
+  productId: string | null  // Set for product suggestions (opens /product/[id])
+}
+
+export type SuggestionGroups = Record<SuggestionType, Suggestion[]>
+
+/**
+ * Type-ahead suggestions for a prefix via get_search_suggestions(),
+ * grouped by type. Prefixes shorter than 2 characters return no groups.
+ */
+export async function fetchSuggestions(
+  prefix: string,
+  limit = 5,
+  signal?: AbortSignal
+): Promise<SuggestionGroups> {
+  const groups: SuggestionGroups = { product: [], supplier: [], taxonomy: [], term: [] }
+  const trimmed = prefix.trim()
+  if (trimmed.length < 2) return groups
+
+  const request = supabase.rpc('get_search_suggestions', { p_prefix: trimmed, p_limit: limit })
+  if (signal) request.abortSignal(signal)
+
+  const { data, error } = await request
+  if (error) throw error
+
+  for (const row of data || []) {
+    groups[row.suggestion_type as SuggestionType]?.push({
+      type: row.suggestion_type,
+      value: row.value,
+      label: row.label,
+      count: Number(row.product_count) || 0,
+      productId: row.product_id ?? null
+    })
+  }
+  return groups
+}
@@ -4,3 +4,17 @@ const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+
+/**
+ * Saved searches are granted to authenticated users only (they belong to
+ * auth.uid()). The test app has no login form, so each browser signs in
+ * anonymously once; the session is kept by supabase-js. Needs anonymous sign-ins enabled in the
+ * Supabase project (Auth settings).
+ */
+export async function ensureSignedIn(): Promise<void> {
+  const { data } = await supabase.auth.getSession()
+  if (data.session) return
+
+  const { error } = await supabase.auth.signInAnonymously()
+  if (error) throw error
+}
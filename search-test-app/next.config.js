@@ -1,4 +1,16 @@
+const path = require('path')
+
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  // Shared modules at the repository root (imported as @search/*)
+  experimental: {
+    externalDir: true
+  },
+  webpack: (config) => {
+    // The shared modules use this app's Supabase client, not a second copy
+    config.resolve.alias['@supabase/supabase-js'] = path.resolve(__dirname, 'node_modules/@supabase/supabase-js')
+    return config
+  }
+}
 
 module.exports = nextConfig
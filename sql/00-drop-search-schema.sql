@@ -32,6 +32,7 @@ DROP TABLE IF EXISTS search.classification_rules CASCADE;
 DROP TABLE IF EXISTS search.taxonomy CASCADE;
 
 -- Drop functions if they exist
+DROP FUNCTION IF EXISTS search.evaluate_feature_conditions(jsonb, jsonb) CASCADE;
 DROP FUNCTION IF EXISTS search.evaluate_feature_condition(jsonb, jsonb) CASCADE;
 DROP FUNCTION IF EXISTS search.build_histogram(numeric[], integer) CASCADE;
 
@@ -166,9 +166,23 @@ BEGIN
             -- Check alphanumeric or boolean value
             RETURN (feature->>'fvalueC' = expected_value
                     OR (feature->>'fvalueB')::TEXT = expected_value);
+        WHEN 'not_equals' THEN
+            -- Feature present without that value (no value at all counts)
+            RETURN NOT COALESCE(feature->>'fvalueC' = expected_value
+                                OR (feature->>'fvalueB')::TEXT = expected_value, false);
+        WHEN 'in' THEN
+            -- Alphanumeric or boolean value is one of "values"
+            RETURN EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements_text(COALESCE(condition->feature_id->'values', '[]'::jsonb)) AS v(value)
+                WHERE v.value = feature->>'fvalueC' OR v.value = feature->>'fvalueB'
+            );
         WHEN 'contains' THEN
             -- Text contains substring (case-insensitive)
             RETURN (feature->>'fvalueC_desc' ILIKE '%' || expected_value || '%');
+        WHEN 'regex' THEN
+            -- Description matches a POSIX regex (case-insensitive)
+            RETURN (feature->>'fvalueC_desc' ~* expected_value);
         WHEN 'greater_than' THEN
             -- Numeric comparison
             RETURN (feature->>'fvalueN')::NUMERIC > expected_value::NUMERIC;
@@ -181,14 +195,69 @@ BEGIN
                 (condition->feature_id->>'min')::NUMERIC AND
                 (condition->feature_id->>'max')::NUMERIC;
         ELSE
+            -- Unknown operators, and not_exists (see evaluate_feature_conditions)
             RETURN false;
     END CASE;
 END;
 $$ LANGUAGE plpgsql IMMUTABLE;
 
 COMMENT ON FUNCTION search.evaluate_feature_condition IS
-'Evaluates whether a product feature matches a condition from classification_rules.
-Operators: exists, equals, contains, greater_than, less_than, in_range';
+'Evaluates whether a product feature matches a leaf condition from classification_rules.
+Operators: exists, equals, not_equals, in, contains, regex, greater_than, less_than, in_range.
+not_exists and all/any/not need the whole feature array: see evaluate_feature_conditions().';
+
+-- Function: Evaluate a whole condition (all/any/not, not_exists) against a product's features
+CREATE OR REPLACE FUNCTION search.evaluate_feature_conditions(
+    features JSONB,
+    condition JSONB
+) RETURNS BOOLEAN AS $$
+DECLARE
+    feature_id TEXT;
+    child JSONB;
+BEGIN
+    -- Combinators (children evaluated in order, stopping once the result is known)
+    IF jsonb_typeof(condition->'all') = 'array' THEN
+        FOR child IN SELECT value FROM jsonb_array_elements(condition->'all') LOOP
+            IF NOT search.evaluate_feature_conditions(features, child) THEN
+                RETURN false;
+            END IF;
+        END LOOP;
+        RETURN true;
+    ELSIF jsonb_typeof(condition->'any') = 'array' THEN
+        FOR child IN SELECT value FROM jsonb_array_elements(condition->'any') LOOP
+            IF search.evaluate_feature_conditions(features, child) THEN
+                RETURN true;
+            END IF;
+        END LOOP;
+        RETURN false;
+    ELSIF jsonb_typeof(condition->'not') = 'object' THEN
+        RETURN NOT search.evaluate_feature_conditions(features, condition->'not');
+    END IF;
+
+    -- Leaf: first key, as in evaluate_feature_condition()
+    feature_id := (SELECT jsonb_object_keys(condition) LIMIT 1);
+
+    IF condition->feature_id->>'operator' = 'not_exists' THEN
+        RETURN NOT EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(features) f
+            WHERE search.evaluate_feature_condition(f, jsonb_build_object(feature_id, '{"operator": "exists"}'::jsonb))
+        );
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(features) f
+        WHERE search.evaluate_feature_condition(f, condition)
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION search.evaluate_feature_conditions IS
+'Whether a product feature array (items.product_info.features) satisfies an
+etim_feature_conditions value: a leaf matches when some feature matches it
+(not_exists when none has the feature id); {"all": [...]}, {"any": [...]} and
+{"not": {...}} combine conditions. Never returns NULL.';
 
 -- Function: Build histogram for numeric filter facets
 CREATE OR REPLACE FUNCTION search.build_histogram(
@@ -261,7 +330,7 @@ DO $$
 BEGIN
     RAISE NOTICE 'Search schema created successfully!';
     RAISE NOTICE 'Tables: taxonomy, classification_rules, filter_definitions';
-    RAISE NOTICE 'Functions: evaluate_feature_condition, build_histogram';
+    RAISE NOTICE 'Functions: evaluate_feature_condition, evaluate_feature_conditions, build_histogram';
     RAISE NOTICE '';
     RAISE NOTICE 'Next step: Run 02-populate-taxonomy.sql';
 END $$;
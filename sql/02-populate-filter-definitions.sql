@@ -38,9 +38,9 @@ INSERT INTO search.filter_definitions (
 )
 VALUES
   -- ELECTRICALS (3 filters)
-  ('voltage', 'multi-select', 'Voltage', 'EF005127', NULL, 10,
-   'FilterMultiSelect',
-   '{"filter_category": "electricals", "show_count": true, "sort_by": "numeric"}'::jsonb,
+  ('voltage', 'range', 'Voltage (V)', 'EF005127', NULL, 10,
+   'FilterRange',
+   '{"filter_category": "electricals", "min": 0, "max": 1000, "step": 1, "unit": "V"}'::jsonb,
    ARRAY['LUMINAIRE']::text[], true),
 
   ('dimmable', 'boolean', 'Dimmable', 'EF000137', NULL, 20,
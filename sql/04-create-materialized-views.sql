@@ -32,13 +32,9 @@ WITH product_classifications AS (
           OR (cr.etim_class_ids IS NOT NULL
               AND pi.class = ANY(cr.etim_class_ids))
 
-          -- Rule matches feature conditions
+          -- Rule matches feature conditions (leaves, not_exists, all/any/not)
           OR (cr.etim_feature_conditions IS NOT NULL
-              AND EXISTS (
-                  SELECT 1
-                  FROM jsonb_array_elements(pi.features) f
-                  WHERE search.evaluate_feature_condition(f, cr.etim_feature_conditions)
-              ))
+              AND search.evaluate_feature_conditions(pi.features, cr.etim_feature_conditions))
 
           -- Rule matches text pattern (case-insensitive)
           OR (cr.text_pattern IS NOT NULL
@@ -116,6 +116,10 @@ GRANT SELECT ON search.product_taxonomy_flags TO authenticated, service_role, an
 --   2. PL/pgSQL evaluate_feature_condition() calls are too slow (22M calls)
 --   3. No progress visibility during execution
 --
+-- Its feature-condition step reads search.product_feature_classifications
+-- (sql/28), which matches rules with search.evaluate_feature_conditions()
+-- like sql/04, so all/any/not and not_exists rules are rebuilt too.
+--
 -- Usage:
 --   ./rebuild-search-tables.sh --taxonomy-only  # ~16 min for 2.2M products
 --   ./rebuild-search-tables.sh --filter-only    # filter index only
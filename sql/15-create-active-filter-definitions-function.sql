@@ -0,0 +1,106 @@
+-- =====================================================
+-- File: 15-create-active-filter-definitions-function.sql
+-- Purpose: Expose ALL active filter definitions (any taxonomy) for
+--          server-side validation of p_filters
+-- =====================================================
+-- get_filter_definitions_with_type() only returns the filters of one
+-- taxonomy (plus universal ones). The server actions validate p_filters
+-- before calling search_products_v3 / count_products_v3 / get_facets_v3
+-- and need every active definition with its filter_type and ui_config
+-- (min / max / step / unit / pattern), regardless of category.
+-- =====================================================
+
+DROP FUNCTION IF EXISTS search.get_active_filter_definitions();
+DROP FUNCTION IF EXISTS public.get_active_filter_definitions();
+
+-- =====================================================
+-- search.get_active_filter_definitions()
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION search.get_active_filter_definitions()
+RETURNS TABLE (
+    filter_key TEXT,
+    label TEXT,
+    filter_type TEXT,
+    etim_feature_id TEXT,
+    ui_config JSONB,
+    applicable_taxonomy_codes TEXT[],
+    display_order INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        fd.filter_key,
+        fd.label,
+        fd.filter_type,
+        fd.etim_feature_id,
+        COALESCE(fd.ui_config, '{}'::JSONB),
+        fd.applicable_taxonomy_codes,
+        fd.display_order
+    FROM search.filter_definitions fd
+    WHERE fd.active = true
+    ORDER BY fd.display_order;
+$$;
+
+COMMENT ON FUNCTION search.get_active_filter_definitions IS
+'Returns every active filter definition, regardless of taxonomy.
+
+Used by the server actions to validate p_filters per filter_type:
+  - range / numeric_range:          { "min": n, "max": n } within ui_config min/max, aligned to ui_config.step
+  - multi-select / categorical /
+    alphanumeric:                   array of strings, optionally matching ui_config.pattern
+  - boolean:                        true / false
+
+The result is cached by the caller; reload after editing filter_definitions.';
+
+-- =====================================================
+-- Public wrapper (for anon/authenticated access)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_active_filter_definitions()
+RETURNS TABLE (
+    filter_key TEXT,
+    label TEXT,
+    filter_type TEXT,
+    etim_feature_id TEXT,
+    ui_config JSONB,
+    applicable_taxonomy_codes TEXT[],
+    display_order INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT * FROM search.get_active_filter_definitions();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_active_filter_definitions() TO anon, authenticated;
+
+COMMENT ON FUNCTION public.get_active_filter_definitions IS
+'Public wrapper for search.get_active_filter_definitions().
+Security: SECURITY DEFINER allows reading search.filter_definitions without direct table access.';
+
+-- =====================================================
+-- Optional: validation patterns for alphanumeric filters
+-- =====================================================
+-- ui_config.pattern is a regex every selected value must match.
+-- Keeps the IP rating format in the database instead of in code.
+
+UPDATE search.filter_definitions
+SET ui_config = COALESCE(ui_config, '{}'::JSONB) || '{"pattern": "^IP\\d{2}$"}'::JSONB
+WHERE filter_key = 'ip'
+  AND NOT (COALESCE(ui_config, '{}'::JSONB) ? 'pattern');
+
+-- =====================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================
+
+-- Test 1: All active definitions with their validation config
+-- SELECT filter_key, filter_type, ui_config->>'min' AS min, ui_config->>'max' AS max,
+--        ui_config->>'step' AS step, ui_config->>'pattern' AS pattern
+-- FROM get_active_filter_definitions();
+
+-- Test 2: Range filters without bounds (accepted without range checks)
+-- SELECT filter_key FROM get_active_filter_definitions()
+-- WHERE filter_type IN ('range', 'numeric_range') AND NOT (ui_config ? 'min' AND ui_config ? 'max');
@@ -0,0 +1,314 @@
+-- =====================================================================
+-- 16-add-keyset-pagination-v3.sql
+-- =====================================================================
+-- Adds keyset (cursor) pagination to search_products_v3.
+--
+-- OFFSET pagination scans and discards every skipped row, which gets slow
+-- on deep pages of search.product_search (2.2M rows), and pages shift
+-- when the table is rebuilt between requests. A cursor continues after
+-- the last row that was actually shown.
+--
+-- Changes:
+--   search.search_products_v3()  - New p_cursor_sort_value / p_cursor_product_id
+--                                  parameters, product_id tie-break in every sort
+--   public.search_products_v3()  - Wrapper passes the cursor through
+--
+-- p_offset keeps working; callers pass either an offset or a cursor.
+-- The server actions wrap the cursor pair in an opaque token
+-- (search-cursor.ts).
+-- =====================================================================
+
+-- =====================================================================
+-- SEARCH PRODUCTS V3 (WITH KEYSET CURSOR)
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.search_products_v3 CASCADE;
+
+CREATE OR REPLACE FUNCTION search.search_products_v3(
+    p_query TEXT DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_suppliers TEXT[] DEFAULT NULL,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_sort_by TEXT DEFAULT 'relevance',
+    p_limit INTEGER DEFAULT 24,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor_sort_value TEXT DEFAULT NULL,
+    p_cursor_product_id UUID DEFAULT NULL
+) RETURNS TABLE (
+    product_id UUID,
+    foss_pid TEXT,
+    description_short TEXT,
+    description_long TEXT,
+    supplier_name TEXT,
+    class_name TEXT,
+    price NUMERIC,
+    image_url TEXT,
+    taxonomy_path TEXT[],
+    -- Direct feature columns (no more JSONB)
+    voltage NUMERIC,
+    cct NUMERIC,
+    cri TEXT,
+    ip_rating TEXT,
+    finishing_colour TEXT,
+    light_source TEXT,
+    light_distribution TEXT,
+    beam_angle_type TEXT,
+    protection_class TEXT,
+    lumens_output NUMERIC,
+    -- Boolean flags
+    indoor BOOLEAN,
+    outdoor BOOLEAN,
+    ceiling BOOLEAN,
+    wall BOOLEAN,
+    recessed BOOLEAN,
+    dimmable BOOLEAN,
+    submersible BOOLEAN,
+    trimless BOOLEAN,
+    cut_shape_round BOOLEAN,
+    cut_shape_rectangular BOOLEAN,
+    -- Relevance
+    relevance_score REAL
+) AS $$
+DECLARE
+    base_where TEXT := 'WHERE TRUE';
+    bool_col TEXT;
+    taxonomy_handled BOOLEAN := FALSE;
+    order_clause TEXT;
+    sort_expr TEXT;
+    sort_dir TEXT := 'ASC';
+    sort_type TEXT := 'TEXT';
+    cursor_value TEXT;
+    dyn_sql TEXT;
+    supplier_list TEXT;
+BEGIN
+    -- === TAXONOMY FILTER ===
+    -- Map taxonomy codes to boolean columns (uses partial indexes, 35x faster)
+    IF p_taxonomy_codes IS NOT NULL AND cardinality(p_taxonomy_codes) > 0 THEN
+        -- Check if ALL codes have boolean column mappings
+        SELECT string_agg('ps.' || quote_ident(t.boolean_column) || ' = TRUE', ' AND ')
+        INTO bool_col
+        FROM search.taxonomy t
+        WHERE t.code = ANY(p_taxonomy_codes) AND t.boolean_column IS NOT NULL;
+
+        IF bool_col IS NOT NULL AND
+           (SELECT COUNT(*) FROM search.taxonomy WHERE code = ANY(p_taxonomy_codes) AND boolean_column IS NOT NULL)
+           = cardinality(p_taxonomy_codes) THEN
+            -- All codes mapped to booleans — use indexed columns
+            base_where := base_where || ' AND (' || bool_col || ')';
+            taxonomy_handled := TRUE;
+        END IF;
+
+        IF NOT taxonomy_handled THEN
+            -- Fallback: use taxonomy_path array overlap (for unmapped codes)
+            base_where := base_where || ' AND ps.taxonomy_path && ' || quote_literal(p_taxonomy_codes::TEXT) || '::TEXT[]';
+        END IF;
+    END IF;
+
+    -- === FTS ===
+    IF p_query IS NOT NULL THEN
+        base_where := base_where || ' AND ps.fts @@ plainto_tsquery(''english'', ' || quote_literal(p_query) || ')';
+    END IF;
+
+    -- === BOOLEAN FLAGS ===
+    IF p_indoor IS NOT NULL THEN base_where := base_where || ' AND ps.indoor = ' || p_indoor; END IF;
+    IF p_outdoor IS NOT NULL THEN base_where := base_where || ' AND ps.outdoor = ' || p_outdoor; END IF;
+    IF p_submersible IS NOT NULL THEN base_where := base_where || ' AND ps.submersible = ' || p_submersible; END IF;
+    IF p_trimless IS NOT NULL THEN base_where := base_where || ' AND ps.trimless = ' || p_trimless; END IF;
+    IF p_cut_shape_round IS NOT NULL THEN base_where := base_where || ' AND ps.cut_shape_round = ' || p_cut_shape_round; END IF;
+    IF p_cut_shape_rectangular IS NOT NULL THEN base_where := base_where || ' AND ps.cut_shape_rectangular = ' || p_cut_shape_rectangular; END IF;
+
+    -- === SUPPLIER ===
+    -- Use = for single supplier (enables composite index), IN for multiple
+    IF p_suppliers IS NOT NULL AND cardinality(p_suppliers) > 0 THEN
+        IF cardinality(p_suppliers) = 1 THEN
+            base_where := base_where || ' AND ps.supplier_name = ' || quote_literal(p_suppliers[1]);
+        ELSE
+            SELECT string_agg(quote_literal(s), ', ') INTO supplier_list FROM unnest(p_suppliers) s;
+            base_where := base_where || ' AND ps.supplier_name IN (' || supplier_list || ')';
+        END IF;
+    END IF;
+
+    -- === CATEGORICAL FILTERS ===
+    -- Use IN (subquery) instead of = ANY(ARRAY(...)) for better index usage
+    IF p_filters ? 'class' THEN base_where := base_where || ' AND ps.protection_class IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'class') || '::JSONB))'; END IF;
+    IF p_filters ? 'ip' THEN base_where := base_where || ' AND ps.ip_rating IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'ip') || '::JSONB))'; END IF;
+    IF p_filters ? 'finishing_colour' THEN base_where := base_where || ' AND ps.finishing_colour IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'finishing_colour') || '::JSONB))'; END IF;
+    IF p_filters ? 'cri' THEN base_where := base_where || ' AND ps.cri IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'cri') || '::JSONB))'; END IF;
+    IF p_filters ? 'beam_angle_type' THEN base_where := base_where || ' AND ps.beam_angle_type IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'beam_angle_type') || '::JSONB))'; END IF;
+    IF p_filters ? 'light_source' THEN base_where := base_where || ' AND ps.light_source IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'light_source') || '::JSONB))'; END IF;
+    IF p_filters ? 'light_distribution' THEN base_where := base_where || ' AND ps.light_distribution IN (SELECT jsonb_array_elements_text(' || quote_literal(p_filters->'light_distribution') || '::JSONB))'; END IF;
+
+    -- === BOOLEAN JSONB FILTER ===
+    IF p_filters ? 'dimmable' THEN base_where := base_where || ' AND ps.dimmable = ' || quote_literal(p_filters->>'dimmable') || '::BOOLEAN'; END IF;
+
+    -- === RANGE FILTERS ===
+    IF p_filters->'cct'->>'min' IS NOT NULL THEN base_where := base_where || ' AND ps.cct >= ' || (p_filters->'cct'->>'min')::NUMERIC; END IF;
+    IF p_filters->'cct'->>'max' IS NOT NULL THEN base_where := base_where || ' AND ps.cct <= ' || (p_filters->'cct'->>'max')::NUMERIC; END IF;
+    IF p_filters->'lumens_output'->>'min' IS NOT NULL THEN base_where := base_where || ' AND ps.lumens_output >= ' || (p_filters->'lumens_output'->>'min')::NUMERIC; END IF;
+    IF p_filters->'lumens_output'->>'max' IS NOT NULL THEN base_where := base_where || ' AND ps.lumens_output <= ' || (p_filters->'lumens_output'->>'max')::NUMERIC; END IF;
+    IF p_filters->'voltage'->>'min' IS NOT NULL THEN base_where := base_where || ' AND ps.voltage >= ' || (p_filters->'voltage'->>'min')::NUMERIC; END IF;
+    IF p_filters->'voltage'->>'max' IS NOT NULL THEN base_where := base_where || ' AND ps.voltage <= ' || (p_filters->'voltage'->>'max')::NUMERIC; END IF;
+
+    -- === ORDER BY ===
+    -- Every sort ends with ps.product_id so the order is total and a
+    -- (sort value, product_id) cursor identifies exactly one position.
+    IF p_sort_by = 'relevance' AND p_query IS NOT NULL THEN
+        sort_expr := 'ts_rank(ps.fts, plainto_tsquery(''english'', ' || quote_literal(p_query) || '))';
+        sort_dir := 'DESC';
+        sort_type := 'REAL';
+    ELSIF p_sort_by = 'price_asc' THEN
+        sort_expr := 'ps.price';
+        sort_type := 'NUMERIC';
+    ELSIF p_sort_by = 'price_desc' THEN
+        sort_expr := 'ps.price';
+        sort_dir := 'DESC';
+        sort_type := 'NUMERIC';
+    ELSIF p_sort_by = 'name' THEN
+        sort_expr := 'ps.description_short';
+    ELSE
+        sort_expr := 'ps.foss_pid';
+    END IF;
+
+    order_clause := 'ORDER BY ' || sort_expr || ' ' || sort_dir || ' NULLS LAST, ps.product_id ASC';
+
+    -- === KEYSET CURSOR ===
+    -- Rows strictly after the last row of the previous page. NULL sort
+    -- values sort last, so a NULL cursor value only continues within NULLs.
+    IF p_cursor_product_id IS NOT NULL THEN
+        IF p_cursor_sort_value IS NULL THEN
+            base_where := base_where || ' AND ' || sort_expr || ' IS NULL'
+                || ' AND ps.product_id > ' || quote_literal(p_cursor_product_id) || '::UUID';
+        ELSE
+            cursor_value := quote_literal(p_cursor_sort_value) || '::' || sort_type;
+            base_where := base_where || ' AND (' || sort_expr
+                || CASE WHEN sort_dir = 'ASC' THEN ' > ' ELSE ' < ' END || cursor_value
+                || ' OR (' || sort_expr || ' = ' || cursor_value
+                || ' AND ps.product_id > ' || quote_literal(p_cursor_product_id) || '::UUID)'
+                || ' OR ' || sort_expr || ' IS NULL)';
+        END IF;
+    END IF;
+
+    -- === EXECUTE ===
+    dyn_sql := format(
+        'SELECT ps.product_id, ps.foss_pid, ps.description_short, ps.description_long,
+                ps.supplier_name, ps.class_name, ps.price, ps.image_url, ps.taxonomy_path,
+                ps.voltage, ps.cct, ps.cri, ps.ip_rating, ps.finishing_colour,
+                ps.light_source, ps.light_distribution, ps.beam_angle_type,
+                ps.protection_class, ps.lumens_output,
+                ps.indoor, ps.outdoor, ps.ceiling, ps.wall, ps.recessed,
+                ps.dimmable, ps.submersible, ps.trimless,
+                ps.cut_shape_round, ps.cut_shape_rectangular,
+                CASE WHEN %L IS NOT NULL AND ps.fts @@ plainto_tsquery(''english'', %L)
+                     THEN ts_rank(ps.fts, plainto_tsquery(''english'', %L))
+                     WHEN %L IS NOT NULL THEN 0.0 ELSE 1.0 END::REAL as relevance_score
+         FROM search.product_search ps %s %s LIMIT %s OFFSET %s',
+        p_query, p_query, p_query, p_query,
+        base_where, order_clause, p_limit, p_offset
+    );
+
+    RETURN QUERY EXECUTE dyn_sql;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.search_products_v3 IS
+'v3 search using dynamic SQL with boolean column mapping.
+Maps taxonomy codes to boolean columns via search.taxonomy.boolean_column,
+enabling partial index usage (35x faster than taxonomy_path GIN for broad categories).
+Falls back to taxonomy_path array overlap for unmapped codes.
+
+Pagination: p_offset, or keyset via p_cursor_sort_value + p_cursor_product_id
+(sort value and product_id of the last row of the previous page). Sort value per p_sort_by:
+  relevance (with query) -> relevance_score
+  price_asc / price_desc -> price
+  name                   -> description_short
+  otherwise              -> foss_pid';
+
+-- =====================================================================
+-- PUBLIC WRAPPER (SECURITY DEFINER)
+-- =====================================================================
+
+DROP FUNCTION IF EXISTS public.search_products_v3 CASCADE;
+
+CREATE OR REPLACE FUNCTION public.search_products_v3(
+    p_query TEXT DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_suppliers TEXT[] DEFAULT NULL,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_sort_by TEXT DEFAULT 'relevance',
+    p_limit INTEGER DEFAULT 24,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor_sort_value TEXT DEFAULT NULL,
+    p_cursor_product_id UUID DEFAULT NULL
+) RETURNS TABLE (
+    product_id UUID,
+    foss_pid TEXT,
+    description_short TEXT,
+    description_long TEXT,
+    supplier_name TEXT,
+    class_name TEXT,
+    price NUMERIC,
+    image_url TEXT,
+    taxonomy_path TEXT[],
+    voltage NUMERIC,
+    cct NUMERIC,
+    cri TEXT,
+    ip_rating TEXT,
+    finishing_colour TEXT,
+    light_source TEXT,
+    light_distribution TEXT,
+    beam_angle_type TEXT,
+    protection_class TEXT,
+    lumens_output NUMERIC,
+    indoor BOOLEAN,
+    outdoor BOOLEAN,
+    ceiling BOOLEAN,
+    wall BOOLEAN,
+    recessed BOOLEAN,
+    dimmable BOOLEAN,
+    submersible BOOLEAN,
+    trimless BOOLEAN,
+    cut_shape_round BOOLEAN,
+    cut_shape_rectangular BOOLEAN,
+    relevance_score REAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT * FROM search.search_products_v3(
+        p_query, p_filters, p_taxonomy_codes, p_suppliers,
+        p_indoor, p_outdoor, p_submersible, p_trimless,
+        p_cut_shape_round, p_cut_shape_rectangular,
+        p_sort_by, p_limit, p_offset,
+        p_cursor_sort_value, p_cursor_product_id
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_products_v3 TO anon, authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: First page sorted by price
+-- SELECT product_id, price FROM search_products_v3(
+--     p_taxonomy_codes := ARRAY['LUMINAIRE-INDOOR-CEILING'], p_sort_by := 'price_asc', p_limit := 5);
+
+-- Test 2: Next page from the last row of Test 1 (must not repeat any row)
+-- SELECT product_id, price FROM search_products_v3(
+--     p_taxonomy_codes := ARRAY['LUMINAIRE-INDOOR-CEILING'], p_sort_by := 'price_asc', p_limit := 5,
+--     p_cursor_sort_value := '<price of last row>', p_cursor_product_id := '<product_id of last row>');
+
+-- Test 3: Same page via offset (should match Test 2)
+-- SELECT product_id, price FROM search_products_v3(
+--     p_taxonomy_codes := ARRAY['LUMINAIRE-INDOOR-CEILING'], p_sort_by := 'price_asc', p_limit := 5, p_offset := 5);
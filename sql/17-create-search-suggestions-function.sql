@@ -0,0 +1,179 @@
+-- =====================================================================
+-- 17-create-search-suggestions-function.sql
+-- =====================================================================
+-- Type-ahead suggestions for the search box. Given a prefix, returns
+-- grouped suggestions with product counts:
+--   product   - foss_pid starting with the prefix (with its product_id,
+--               so the UI can open the product page)
+--   supplier  - supplier names starting with the prefix
+--   taxonomy  - taxonomy nodes whose name or code matches
+--   term      - common description words starting with the prefix
+--
+-- Objects:
+--   search.suggestion_terms             - Precomputed description words + counts
+--   search.refresh_suggestion_terms()   - Rebuild suggestion_terms (run after rebuild)
+--   search.get_search_suggestions()     - Suggestions for a prefix
+--   public.get_search_suggestions()     - Public SECURITY DEFINER wrapper
+-- =====================================================================
+
+-- =====================================================================
+-- PREFIX INDEXES
+-- =====================================================================
+-- text_pattern_ops lets LIKE 'ABC%' use a btree index (no trigram needed)
+
+CREATE INDEX IF NOT EXISTS idx_ps_foss_pid_prefix
+    ON search.product_search (upper(foss_pid) text_pattern_ops);
+
+CREATE INDEX IF NOT EXISTS idx_ps_supplier_prefix
+    ON search.product_search (lower(supplier_name) text_pattern_ops);
+
+-- =====================================================================
+-- SUGGESTION TERMS
+-- =====================================================================
+-- ts_stat() over 2.2M descriptions is far too slow per keystroke, so the
+-- word list is computed once and stored. Words are taken with the
+-- 'simple' config (no stemming) so suggestions read like real words.
+
+CREATE TABLE IF NOT EXISTS search.suggestion_terms (
+    term TEXT PRIMARY KEY,
+    product_count INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_terms_prefix
+    ON search.suggestion_terms (term text_pattern_ops);
+
+COMMENT ON TABLE search.suggestion_terms IS
+'Most common words in product descriptions (lowercase, unstemmed) with the number
+of products using them. Rebuilt by search.refresh_suggestion_terms().';
+
+DROP FUNCTION IF EXISTS search.refresh_suggestion_terms(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search.refresh_suggestion_terms(
+    p_min_products INTEGER DEFAULT 5,
+    p_max_terms INTEGER DEFAULT 20000
+) RETURNS INTEGER AS $$
+DECLARE
+    term_count INTEGER;
+BEGIN
+    TRUNCATE search.suggestion_terms;
+
+    INSERT INTO search.suggestion_terms (term, product_count)
+    SELECT word, ndoc
+    FROM ts_stat('SELECT to_tsvector(''simple'', description_short) FROM search.product_search')
+    WHERE ndoc >= p_min_products
+      AND length(word) >= 3
+      AND word !~ '^[0-9.,]+$'   -- Skip bare numbers
+    ORDER BY ndoc DESC
+    LIMIT p_max_terms;
+
+    GET DIAGNOSTICS term_count = ROW_COUNT;
+    RETURN term_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION search.refresh_suggestion_terms IS
+'Rebuilds search.suggestion_terms from product_search.description_short.
+Slow (full scan) - run after rebuilding product_search, not per request.';
+
+-- =====================================================================
+-- GET SEARCH SUGGESTIONS
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.get_search_suggestions(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search.get_search_suggestions(
+    p_prefix TEXT,
+    p_limit INTEGER DEFAULT 5
+) RETURNS TABLE (
+    suggestion_type TEXT,
+    value TEXT,
+    label TEXT,
+    product_count BIGINT,
+    product_id UUID
+) AS $$
+DECLARE
+    -- Escape LIKE wildcards so the prefix is matched literally
+    like_prefix TEXT := replace(replace(replace(trim(p_prefix), '\', '\\'), '%', '\%'), '_', '\_');
+BEGIN
+    IF p_prefix IS NULL OR length(trim(p_prefix)) < 2 THEN
+        RETURN;
+    END IF;
+
+    -- Product codes
+    RETURN QUERY
+    SELECT 'product'::TEXT, ps.foss_pid, ps.description_short, 1::BIGINT, ps.product_id
+    FROM search.product_search ps
+    WHERE upper(ps.foss_pid) LIKE upper(like_prefix) || '%'
+    ORDER BY upper(ps.foss_pid)
+    LIMIT p_limit;
+
+    -- Suppliers
+    RETURN QUERY
+    SELECT 'supplier'::TEXT, ps.supplier_name, ps.supplier_name, COUNT(*)::BIGINT, NULL::UUID
+    FROM search.product_search ps
+    WHERE lower(ps.supplier_name) LIKE lower(like_prefix) || '%'
+    GROUP BY ps.supplier_name
+    ORDER BY COUNT(*) DESC
+    LIMIT p_limit;
+
+    -- Taxonomy nodes (name anywhere, code by prefix)
+    RETURN QUERY
+    SELECT 'taxonomy'::TEXT, t.code, t.name, COALESCE(t.product_count, 0)::BIGINT, NULL::UUID
+    FROM search.taxonomy t
+    WHERE t.active = true
+      AND t.level > 0
+      AND (t.name ILIKE '%' || like_prefix || '%' OR t.code ILIKE like_prefix || '%')
+    ORDER BY COALESCE(t.product_count, 0) DESC, t.level
+    LIMIT p_limit;
+
+    -- Description terms
+    RETURN QUERY
+    SELECT 'term'::TEXT, st.term, st.term, st.product_count::BIGINT, NULL::UUID
+    FROM search.suggestion_terms st
+    WHERE st.term LIKE lower(like_prefix) || '%'
+    ORDER BY st.product_count DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.get_search_suggestions IS
+'Type-ahead suggestions for a prefix (min 2 characters), up to p_limit per type:
+product (foss_pid), supplier, taxonomy (name or code) and term (description word).
+product_count is 1 and product_id is set for product rows (NULL for the others).';
+
+-- =====================================================================
+-- PUBLIC WRAPPER (SECURITY DEFINER)
+-- =====================================================================
+DROP FUNCTION IF EXISTS public.get_search_suggestions(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_search_suggestions(
+    p_prefix TEXT,
+    p_limit INTEGER DEFAULT 5
+) RETURNS TABLE (
+    suggestion_type TEXT,
+    value TEXT,
+    label TEXT,
+    product_count BIGINT,
+    product_id UUID
+) AS $$
+    SELECT * FROM search.get_search_suggestions(p_prefix, p_limit);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_search_suggestions(TEXT, INTEGER) TO anon, authenticated;
+
+-- =====================================================================
+-- INITIAL POPULATION
+-- =====================================================================
+SELECT search.refresh_suggestion_terms();
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Suggestions for a product code / supplier prefix
+-- SELECT * FROM get_search_suggestions('DL', 5);
+
+-- Test 2: Suggestions for a category / description word
+-- SELECT * FROM get_search_suggestions('down', 5);
+
+-- Test 3: Most common terms
+-- SELECT * FROM search.suggestion_terms ORDER BY product_count DESC LIMIT 20;
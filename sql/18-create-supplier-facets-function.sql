@@ -0,0 +1,146 @@
+-- =====================================================================
+-- 18-create-supplier-facets-function.sql
+-- =====================================================================
+-- Supplier facet with live counts for the Suppliers filter.
+--
+-- Counts products per supplier_name under the current search context:
+-- query, taxonomy, location/options flags and technical filters (p_filters).
+-- The supplier selection itself is NOT applied, so every supplier keeps
+-- its count while others are selected (multi-select OR semantics).
+--
+-- Objects:
+--   search.get_supplier_facets()   - Supplier counts for a search context
+--   public.get_supplier_facets()   - Public SECURITY DEFINER wrapper
+-- =====================================================================
+
+DROP FUNCTION IF EXISTS search.get_supplier_facets CASCADE;
+
+CREATE OR REPLACE FUNCTION search.get_supplier_facets(
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_query TEXT DEFAULT NULL
+) RETURNS TABLE (
+    filter_category TEXT,
+    filter_key TEXT,
+    filter_value TEXT,
+    product_count BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        'supplier'::TEXT as filter_category,
+        'supplier'::TEXT as filter_key,
+        pi.supplier_name as filter_value,
+        COUNT(DISTINCT pi.product_id) as product_count
+    FROM items.product_info pi
+    INNER JOIN search.product_taxonomy_flags ptf ON pi.product_id = ptf.product_id
+    WHERE
+        pi.supplier_name IS NOT NULL
+
+        -- Text search
+        AND (p_query IS NULL OR
+             pi.description_short ILIKE '%' || p_query || '%' OR
+             pi.description_long ILIKE '%' || p_query || '%')
+
+        -- Taxonomy filter
+        AND (p_taxonomy_codes IS NULL OR ptf.taxonomy_path && p_taxonomy_codes)
+
+        -- Boolean flags from UI
+        AND (p_indoor IS NULL OR ptf.indoor = p_indoor)
+        AND (p_outdoor IS NULL OR ptf.outdoor = p_outdoor)
+        AND (p_submersible IS NULL OR ptf.submersible = p_submersible)
+        AND (p_trimless IS NULL OR ptf.trimless = p_trimless)
+        AND (p_cut_shape_round IS NULL OR ptf.cut_shape_round = p_cut_shape_round)
+        AND (p_cut_shape_rectangular IS NULL OR ptf.cut_shape_rectangular = p_cut_shape_rectangular)
+
+        -- Technical filters: every p_filters entry must match the product.
+        -- Shape decides the match: array = any of the values, object = min/max
+        -- range, boolean = flag value. Flag keys are covered by p_indoor etc.
+        AND NOT EXISTS (
+            SELECT 1
+            FROM jsonb_each(COALESCE(p_filters, '{}'::JSONB)) f
+            WHERE f.key NOT IN ('indoor', 'outdoor', 'submersible', 'trimless',
+                                'cut_shape_round', 'cut_shape_rectangular')
+              AND NOT EXISTS (
+                SELECT 1 FROM search.product_filter_index pfi
+                WHERE pfi.product_id = pi.product_id
+                  AND pfi.filter_key = f.key
+                  AND CASE jsonb_typeof(f.value)
+                      WHEN 'array' THEN pfi.alphanumeric_value = ANY(
+                          ARRAY(SELECT jsonb_array_elements_text(f.value)))
+                      WHEN 'object' THEN
+                          (f.value->>'min' IS NULL OR pfi.numeric_value >= (f.value->>'min')::NUMERIC)
+                          AND (f.value->>'max' IS NULL OR pfi.numeric_value <= (f.value->>'max')::NUMERIC)
+                      WHEN 'boolean' THEN pfi.boolean_value = (f.value)::TEXT::BOOLEAN
+                      ELSE FALSE
+                  END
+              )
+        )
+    GROUP BY pi.supplier_name
+    ORDER BY product_count DESC, pi.supplier_name;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.get_supplier_facets IS
+'Returns supplier names and their product counts for the current search context
+(query, taxonomy, flags, p_filters). Rows use the get_dynamic_facets shape with
+filter_key = ''supplier''. The supplier selection is intentionally not a parameter:
+counts show how many products each supplier would add.
+
+Example usage:
+SELECT * FROM search.get_supplier_facets(
+    p_taxonomy_codes := ARRAY[''LUMINAIRE-INDOOR-CEILING''],
+    p_filters := ''{"ip": ["IP65"]}''::JSONB
+);';
+
+-- =====================================================================
+-- PUBLIC WRAPPER (SECURITY DEFINER)
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION public.get_supplier_facets(
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_query TEXT DEFAULT NULL
+) RETURNS TABLE (
+    filter_category TEXT,
+    filter_key TEXT,
+    filter_value TEXT,
+    product_count BIGINT
+) AS $$
+    SELECT * FROM search.get_supplier_facets(
+        p_taxonomy_codes, p_filters,
+        p_indoor, p_outdoor, p_submersible, p_trimless,
+        p_cut_shape_round, p_cut_shape_rectangular,
+        p_query
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_supplier_facets TO anon, authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: All suppliers with counts
+-- SELECT filter_value, product_count FROM get_supplier_facets();
+
+-- Test 2: Suppliers within a category and technical filter
+-- SELECT filter_value, product_count FROM get_supplier_facets(
+--     p_taxonomy_codes := ARRAY['LUMINAIRE'],
+--     p_filters := '{"ip": ["IP65"], "cct": {"min": 2700, "max": 3000}}'::JSONB
+-- );
+
+-- Test 3: Counts should add up to the unfiltered-by-supplier total
+-- SELECT SUM(product_count) FROM get_supplier_facets(p_taxonomy_codes := ARRAY['LUMINAIRE']);
@@ -0,0 +1,201 @@
+-- =====================================================================
+-- 19-create-range-histograms-function.sql
+-- =====================================================================
+-- Product-count histograms for range filters (CCT, lumens, voltage, ...)
+-- under the current search context, drawn under the RangeFilter inputs.
+--
+-- Also fixes search.build_histogram(): values equal to the maximum fell
+-- outside the last bucket (v < bucket_end), so the top bar was always
+-- one short - or empty when many products share the maximum.
+--
+-- Objects:
+--   search.build_histogram()        - Last bucket now includes max_val
+--   search.get_range_histograms()   - Histogram per active range filter
+--   public.get_range_histograms()   - Public SECURITY DEFINER wrapper
+-- =====================================================================
+
+-- =====================================================================
+-- FIX BUILD HISTOGRAM (inclusive last bucket)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.build_histogram(
+    value_array NUMERIC[],
+    bucket_count INTEGER DEFAULT 10
+) RETURNS JSONB AS $$
+DECLARE
+    min_val NUMERIC;
+    max_val NUMERIC;
+    bucket_width NUMERIC;
+    histogram JSONB := '[]'::JSONB;
+    bucket_start NUMERIC;
+    bucket_end NUMERIC;
+    bucket_label TEXT;
+    count INTEGER;
+BEGIN
+    -- Get min and max values
+    min_val := (SELECT MIN(v) FROM unnest(value_array) v);
+    max_val := (SELECT MAX(v) FROM unnest(value_array) v);
+
+    -- No values: no buckets
+    IF min_val IS NULL THEN
+        RETURN histogram;
+    END IF;
+
+    -- Avoid division by zero
+    IF min_val = max_val THEN
+        RETURN jsonb_build_array(
+            jsonb_build_object(
+                'range', min_val::TEXT,
+                'min', min_val,
+                'max', max_val,
+                'count', array_length(value_array, 1)
+            )
+        );
+    END IF;
+
+    -- Calculate bucket width
+    bucket_width := (max_val - min_val) / bucket_count;
+
+    -- Build histogram buckets
+    FOR i IN 0..(bucket_count - 1) LOOP
+        bucket_start := min_val + (i * bucket_width);
+        bucket_end := bucket_start + bucket_width;
+        bucket_label := bucket_start::TEXT || '-' || bucket_end::TEXT;
+
+        -- Count values in this bucket (the last bucket is closed: includes max_val)
+        SELECT COUNT(*) INTO count
+        FROM unnest(value_array) v
+        WHERE v >= bucket_start
+          AND (v < bucket_end OR (i = bucket_count - 1 AND v <= max_val));
+
+        -- Add to histogram
+        histogram := histogram || jsonb_build_object(
+            'range', bucket_label,
+            'min', bucket_start,
+            'max', bucket_end,
+            'count', count
+        );
+    END LOOP;
+
+    RETURN histogram;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION search.build_histogram IS
+'Builds histogram for numeric filters (e.g., power distribution).
+Returns JSONB array of buckets with range, min, max, and count.
+Buckets are half-open [min, max) except the last, which includes the maximum.';
+
+-- =====================================================================
+-- GET RANGE HISTOGRAMS
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.get_range_histograms CASCADE;
+
+CREATE OR REPLACE FUNCTION search.get_range_histograms(
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_suppliers TEXT[] DEFAULT NULL,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_query TEXT DEFAULT NULL,
+    p_bucket_count INTEGER DEFAULT 20
+) RETURNS TABLE (
+    filter_key TEXT,
+    histogram JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH filtered_products AS (
+        SELECT DISTINCT pi.product_id
+        FROM items.product_info pi
+        INNER JOIN search.product_taxonomy_flags ptf ON pi.product_id = ptf.product_id
+        WHERE
+            -- Text search
+            (p_query IS NULL OR
+             pi.description_short ILIKE '%' || p_query || '%' OR
+             pi.description_long ILIKE '%' || p_query || '%')
+
+            -- Taxonomy filter
+            AND (p_taxonomy_codes IS NULL OR ptf.taxonomy_path && p_taxonomy_codes)
+
+            -- Boolean flags from UI
+            AND (p_indoor IS NULL OR ptf.indoor = p_indoor)
+            AND (p_outdoor IS NULL OR ptf.outdoor = p_outdoor)
+            AND (p_submersible IS NULL OR ptf.submersible = p_submersible)
+            AND (p_trimless IS NULL OR ptf.trimless = p_trimless)
+            AND (p_cut_shape_round IS NULL OR ptf.cut_shape_round = p_cut_shape_round)
+            AND (p_cut_shape_rectangular IS NULL OR ptf.cut_shape_rectangular = p_cut_shape_rectangular)
+
+            -- Supplier filter
+            AND (p_suppliers IS NULL OR cardinality(p_suppliers) = 0 OR pi.supplier_name = ANY(p_suppliers))
+    )
+    SELECT
+        pfi.filter_key,
+        -- One value per product (not DISTINCT values) so bars show product counts
+        search.build_histogram(array_agg(pfi.numeric_value), LEAST(GREATEST(p_bucket_count, 1), 50))
+    FROM search.product_filter_index pfi
+    INNER JOIN filtered_products fp ON pfi.product_id = fp.product_id
+    INNER JOIN search.filter_definitions fd ON pfi.filter_key = fd.filter_key
+    WHERE
+        fd.active = true
+        AND fd.filter_type IN ('range', 'numeric', 'numeric_range')
+        AND pfi.numeric_value IS NOT NULL
+    GROUP BY pfi.filter_key;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.get_range_histograms IS
+'Returns a product-count histogram (search.build_histogram buckets: range, min, max, count)
+for every active range/numeric filter, under the given taxonomy/supplier/flag/query context.
+p_bucket_count is clamped to 1-50.
+
+Example usage:
+SELECT * FROM search.get_range_histograms(
+    p_taxonomy_codes := ARRAY[''LUMINAIRE-INDOOR-CEILING'']
+);';
+
+-- =====================================================================
+-- PUBLIC WRAPPER (SECURITY DEFINER)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION public.get_range_histograms(
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_suppliers TEXT[] DEFAULT NULL,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_query TEXT DEFAULT NULL,
+    p_bucket_count INTEGER DEFAULT 20
+) RETURNS TABLE (
+    filter_key TEXT,
+    histogram JSONB
+) AS $$
+    SELECT * FROM search.get_range_histograms(
+        p_taxonomy_codes, p_suppliers,
+        p_indoor, p_outdoor, p_submersible, p_trimless,
+        p_cut_shape_round, p_cut_shape_rectangular,
+        p_query, p_bucket_count
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_range_histograms TO anon, authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Last bucket includes the maximum (expect 2 in the last bucket)
+-- SELECT search.build_histogram(ARRAY[0, 5, 10, 10]::NUMERIC[], 2);
+
+-- Test 2: Histograms for a category
+-- SELECT filter_key, jsonb_array_length(histogram)
+-- FROM get_range_histograms(p_taxonomy_codes := ARRAY['LUMINAIRE']);
+
+-- Test 3: CCT distribution for indoor products
+-- SELECT jsonb_pretty(histogram) FROM get_range_histograms(
+--     p_taxonomy_codes := ARRAY['LUMINAIRE'], p_indoor := true
+-- ) WHERE filter_key = 'cct';
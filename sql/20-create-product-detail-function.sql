@@ -0,0 +1,116 @@
+-- =====================================================================
+-- 20-create-product-detail-function.sql
+-- =====================================================================
+-- Everything about one product for the detail view, in one call:
+--   product   - product_search row (feature columns, descriptions, price)
+--   flags     - every boolean column of product_search
+--   features  - every ETIM feature of the product, labels and units
+--               resolved through filter_definitions (etim.feature as fallback)
+--   taxonomy  - taxonomy nodes in taxonomy_path (for breadcrumbs)
+--   images    - MD* multimedia entries (MD01 thumbnail first)
+--
+-- Objects:
+--   search.get_product_detail()   - Detail JSONB for a product_id (NULL if unknown)
+--   public.get_product_detail()   - Public SECURITY DEFINER wrapper
+-- =====================================================================
+
+DROP FUNCTION IF EXISTS search.get_product_detail(UUID);
+
+CREATE OR REPLACE FUNCTION search.get_product_detail(
+    p_product_id UUID
+) RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'product', to_jsonb(ps) - 'fts',
+
+        'flags', (
+            SELECT jsonb_object_agg(col.key, col.value)
+            FROM jsonb_each(to_jsonb(ps)) col
+            WHERE jsonb_typeof(col.value) = 'boolean'
+        ),
+
+        'features', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'feature_id', f->>'id',
+                'filter_key', fd.filter_key,
+                'label', COALESCE(fd.label, ef."FEATUREDESC", f->>'id'),
+                'value', COALESCE(
+                    to_jsonb(f->>'fvalueC_desc'),
+                    to_jsonb(f->>'fvalueC'),
+                    to_jsonb((f->>'fvalueN')::NUMERIC),
+                    to_jsonb((f->>'fvalueB')::BOOLEAN),
+                    to_jsonb(f->>'fvalueR')
+                ),
+                'unit', COALESCE(fd.ui_config->>'unit', f->>'unit_abbrev')
+            ) ORDER BY fd.display_order NULLS LAST, COALESCE(fd.label, ef."FEATUREDESC", f->>'id'))
+            FROM items.product_info pi
+            CROSS JOIN LATERAL jsonb_array_elements(pi.features) f
+            LEFT JOIN search.filter_definitions fd ON fd.etim_feature_id = f->>'id'
+            LEFT JOIN etim.feature ef ON ef."FEATUREID" = f->>'id'
+            WHERE pi.product_id = ps.product_id
+              -- Skip features the supplier left empty
+              AND COALESCE(f->>'fvalueC_desc', f->>'fvalueC', f->>'fvalueN', f->>'fvalueB', f->>'fvalueR') IS NOT NULL
+        ), '[]'::JSONB),
+
+        'taxonomy', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'code', t.code,
+                'name', t.name,
+                'level', t.level,
+                'parent_code', t.parent_code
+            ) ORDER BY t.level, t.display_order)
+            FROM search.taxonomy t
+            WHERE t.code = ANY(ps.taxonomy_path)
+        ), '[]'::JSONB),
+
+        'images', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'mime_code', m->>'mime_code',
+                'url', m->>'mime_source'
+            ) ORDER BY m->>'mime_code')
+            FROM items.product_info pi
+            CROSS JOIN LATERAL jsonb_array_elements(pi.multimedia) m
+            WHERE pi.product_id = ps.product_id
+              AND m->>'mime_code' LIKE 'MD%'
+              AND m->>'mime_source' IS NOT NULL
+        ), '[]'::JSONB)
+    )
+    FROM search.product_search ps
+    WHERE ps.product_id = p_product_id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.get_product_detail IS
+'Returns one product for the detail view as JSONB: product (product_search row),
+flags (all boolean columns), features (all ETIM features with label/unit from
+filter_definitions, etim.feature as fallback), taxonomy (nodes in taxonomy_path)
+and images (MD* multimedia). NULL when the product_id is unknown.';
+
+-- =====================================================================
+-- PUBLIC WRAPPER (SECURITY DEFINER)
+-- =====================================================================
+DROP FUNCTION IF EXISTS public.get_product_detail(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_product_detail(
+    p_product_id UUID
+) RETURNS JSONB AS $$
+    SELECT search.get_product_detail(p_product_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_product_detail(UUID) TO anon, authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Detail for any product
+-- SELECT jsonb_pretty(get_product_detail(
+--     (SELECT product_id FROM search.product_search LIMIT 1)
+-- ));
+
+-- Test 2: Feature sheet as rows
+-- SELECT f->>'label', f->>'value', f->>'unit'
+-- FROM jsonb_array_elements(get_product_detail(
+--     (SELECT product_id FROM search.product_search LIMIT 1)
+-- )->'features') f;
+
+-- Test 3: Unknown product returns NULL
+-- SELECT get_product_detail('00000000-0000-0000-0000-000000000000');
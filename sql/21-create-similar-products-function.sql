@@ -0,0 +1,193 @@
+-- =====================================================================
+-- 21-create-similar-products-function.sql
+-- =====================================================================
+-- "Find similar": substitutes for a product (discontinued, too expensive)
+-- from the same taxonomy node, ranked by feature closeness.
+--
+-- Candidates share the source product's deepest taxonomy node(s).
+-- Score (0-1) is a weighted average of per-feature scores:
+--   numeric     cct, lumens_output, voltage
+--               1 - |a - b| / max(|a|, |b|), floored at 0
+--   categorical ip_rating, cri, light_distribution
+--               1 when equal, 0 otherwise
+-- A feature missing on either product scores 0 (but keeps its weight),
+-- so sparsely described products rank below well-matched ones.
+--
+-- Objects:
+--   search.numeric_closeness()       - 0-1 closeness of two numeric values
+--   search.find_similar_products()   - Ranked substitutes for a product_id
+--   public.find_similar_products()   - Public SECURITY DEFINER wrapper
+-- =====================================================================
+
+-- =====================================================================
+-- HELPER: NUMERIC CLOSENESS
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.numeric_closeness(
+    a NUMERIC,
+    b NUMERIC
+) RETURNS NUMERIC AS $$
+    SELECT CASE
+        WHEN a IS NULL OR b IS NULL THEN 0
+        WHEN a = b THEN 1
+        ELSE GREATEST(0, 1 - ABS(a - b) / GREATEST(ABS(a), ABS(b)))
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION search.numeric_closeness IS
+'1 for equal values, falling linearly with the relative difference; 0 when either is NULL.';
+
+-- =====================================================================
+-- FIND SIMILAR PRODUCTS
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.find_similar_products(UUID, INTEGER, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION search.find_similar_products(
+    p_product_id UUID,
+    p_limit INTEGER DEFAULT 12,
+    p_weights JSONB DEFAULT '{}'::JSONB,          -- Overrides, e.g. {"cct": 2, "voltage": 0}
+    p_other_suppliers_only BOOLEAN DEFAULT TRUE
+) RETURNS TABLE (
+    product_id UUID,
+    foss_pid TEXT,
+    description_short TEXT,
+    supplier_name TEXT,
+    price NUMERIC,
+    image_url TEXT,
+    cct NUMERIC,
+    lumens_output NUMERIC,
+    voltage NUMERIC,
+    ip_rating TEXT,
+    cri TEXT,
+    light_distribution TEXT,
+    similarity NUMERIC
+) AS $$
+DECLARE
+    src search.product_search%ROWTYPE;
+    leaf_codes TEXT[];
+    weights JSONB;
+    w_cct NUMERIC;
+    w_lumens NUMERIC;
+    w_voltage NUMERIC;
+    w_ip NUMERIC;
+    w_cri NUMERIC;
+    w_distribution NUMERIC;
+    w_total NUMERIC;
+BEGIN
+    SELECT * INTO src FROM search.product_search ps WHERE ps.product_id = p_product_id;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Deepest taxonomy node(s) of the source product
+    SELECT array_agg(t.code) INTO leaf_codes
+    FROM search.taxonomy t
+    WHERE t.code = ANY(src.taxonomy_path)
+      AND t.level = (
+          SELECT MAX(t2.level) FROM search.taxonomy t2 WHERE t2.code = ANY(src.taxonomy_path)
+      );
+
+    IF leaf_codes IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Default weights, overridden per key by p_weights (negative weights count as 0)
+    weights := '{"cct": 1, "lumens_output": 1, "voltage": 0.5, "ip_rating": 1, "cri": 0.5, "light_distribution": 0.5}'::JSONB
+               || COALESCE(p_weights, '{}'::JSONB);
+    w_cct          := GREATEST(COALESCE((weights->>'cct')::NUMERIC, 0), 0);
+    w_lumens       := GREATEST(COALESCE((weights->>'lumens_output')::NUMERIC, 0), 0);
+    w_voltage      := GREATEST(COALESCE((weights->>'voltage')::NUMERIC, 0), 0);
+    w_ip           := GREATEST(COALESCE((weights->>'ip_rating')::NUMERIC, 0), 0);
+    w_cri          := GREATEST(COALESCE((weights->>'cri')::NUMERIC, 0), 0);
+    w_distribution := GREATEST(COALESCE((weights->>'light_distribution')::NUMERIC, 0), 0);
+    w_total := w_cct + w_lumens + w_voltage + w_ip + w_cri + w_distribution;
+
+    IF w_total = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        ps.product_id,
+        ps.foss_pid,
+        ps.description_short,
+        ps.supplier_name,
+        ps.price,
+        ps.image_url,
+        ps.cct,
+        ps.lumens_output,
+        ps.voltage,
+        ps.ip_rating,
+        ps.cri,
+        ps.light_distribution,
+        ROUND((
+            w_cct * search.numeric_closeness(src.cct, ps.cct)
+            + w_lumens * search.numeric_closeness(src.lumens_output, ps.lumens_output)
+            + w_voltage * search.numeric_closeness(src.voltage, ps.voltage)
+            + w_ip * (src.ip_rating IS NOT NULL AND ps.ip_rating = src.ip_rating)::INT
+            + w_cri * (src.cri IS NOT NULL AND ps.cri = src.cri)::INT
+            + w_distribution * (src.light_distribution IS NOT NULL AND ps.light_distribution = src.light_distribution)::INT
+        ) / w_total, 4) AS similarity
+    FROM search.product_search ps
+    WHERE ps.taxonomy_path && leaf_codes
+      AND ps.product_id <> src.product_id
+      AND (NOT p_other_suppliers_only OR ps.supplier_name IS DISTINCT FROM src.supplier_name)
+    -- 13 = similarity (the bare name would clash with the OUT column)
+    ORDER BY 13 DESC, ps.price ASC NULLS LAST, ps.product_id
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.find_similar_products IS
+'Ranks products in the same (deepest) taxonomy node as p_product_id by weighted
+feature closeness: cct, lumens_output, voltage (relative difference) and
+ip_rating, cri, light_distribution (exact match). similarity is 0-1.
+p_weights overrides the defaults per key; p_other_suppliers_only (default true)
+skips the source supplier. p_limit is clamped to 1-50.';
+
+-- =====================================================================
+-- PUBLIC WRAPPER (SECURITY DEFINER)
+-- =====================================================================
+DROP FUNCTION IF EXISTS public.find_similar_products(UUID, INTEGER, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.find_similar_products(
+    p_product_id UUID,
+    p_limit INTEGER DEFAULT 12,
+    p_weights JSONB DEFAULT '{}'::JSONB,
+    p_other_suppliers_only BOOLEAN DEFAULT TRUE
+) RETURNS TABLE (
+    product_id UUID,
+    foss_pid TEXT,
+    description_short TEXT,
+    supplier_name TEXT,
+    price NUMERIC,
+    image_url TEXT,
+    cct NUMERIC,
+    lumens_output NUMERIC,
+    voltage NUMERIC,
+    ip_rating TEXT,
+    cri TEXT,
+    light_distribution TEXT,
+    similarity NUMERIC
+) AS $$
+    SELECT * FROM search.find_similar_products(p_product_id, p_limit, p_weights, p_other_suppliers_only);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.find_similar_products(UUID, INTEGER, JSONB, BOOLEAN) TO anon, authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Closeness helper (expect 1, 0.9, 0)
+-- SELECT search.numeric_closeness(3000, 3000), search.numeric_closeness(3000, 2700), search.numeric_closeness(NULL, 3000);
+
+-- Test 2: Substitutes for a product from other suppliers
+-- SELECT foss_pid, supplier_name, cct, lumens_output, ip_rating, similarity
+-- FROM find_similar_products((SELECT product_id FROM search.product_search WHERE cct IS NOT NULL LIMIT 1));
+
+-- Test 3: Colour temperature matters most, voltage not at all
+-- SELECT foss_pid, cct, similarity
+-- FROM find_similar_products(
+--     (SELECT product_id FROM search.product_search WHERE cct IS NOT NULL LIMIT 1),
+--     10, '{"cct": 5, "voltage": 0}'::JSONB, FALSE
+-- );
@@ -0,0 +1,274 @@
+-- =====================================================================
+-- 22-create-saved-searches.sql
+-- =====================================================================
+-- Named searches per user ("outdoor IP65 3000K wall luminaires") that
+-- can be listed, renamed, deleted and re-run.
+--
+-- state holds the full search (tab, query, taxonomyCodes, suppliers,
+-- filters, flags, sortBy) as the server actions validated it; SQL
+-- stores it as-is.
+--
+-- owner identifies the user and never comes from the client:
+--   - browser clients call the public wrappers, which take no owner and
+--     use auth.uid() of the signed-in Supabase user (authenticated only)
+--   - server actions call the *_for_owner functions with the user of
+--     their own session (the Supabase user id from auth.getUser(), so
+--     both paths share one owner); these are granted to service_role only
+--
+-- Objects:
+--   search.saved_searches                        - Saved searches (unique name per owner)
+--   search.saved_search_owner()                  - auth.uid() as owner (42501 when signed out)
+--   search.list_saved_searches_for_owner()       - Saved searches of an owner, by name
+--   search.save_search_for_owner()               - Insert, or overwrite the state of a same-named search
+--   search.rename_saved_search_for_owner()       - Rename (NULL if not found)
+--   search.delete_saved_search_for_owner()       - Delete (FALSE if not found)
+--   search.mark_saved_search_run_for_owner()     - Set last_run_at (NULL if not found)
+--   public.*_for_owner()                         - service_role wrappers for the server actions
+--   public.list_saved_searches() etc.            - Signed-in user wrappers (auth.uid())
+-- =====================================================================
+
+-- =====================================================================
+-- TABLE
+-- =====================================================================
+CREATE TABLE IF NOT EXISTS search.saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    owner TEXT NOT NULL,
+    name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 100),
+    state JSONB NOT NULL DEFAULT '{}'::JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_run_at TIMESTAMPTZ
+);
+
+-- Names are unique per owner, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_searches_owner_name
+    ON search.saved_searches (owner, lower(name));
+
+-- Same RLS pattern as the configuration tables: no direct access for
+-- anon/authenticated, everything goes through the functions below
+ALTER TABLE search.saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restrict saved_searches to service_role" ON search.saved_searches;
+CREATE POLICY "Restrict saved_searches to service_role"
+ON search.saved_searches
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE search.saved_searches IS
+'Named search states per owner. state is the validated search object from the server actions.';
+
+-- =====================================================================
+-- LIST
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.list_saved_searches_for_owner(
+    p_owner TEXT
+) RETURNS SETOF search.saved_searches AS $$
+    SELECT *
+    FROM search.saved_searches s
+    WHERE s.owner = p_owner
+    ORDER BY lower(s.name);
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================================
+-- SAVE (insert or overwrite by name)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.save_search_for_owner(
+    p_owner TEXT,
+    p_name TEXT,
+    p_state JSONB
+) RETURNS search.saved_searches AS $$
+    INSERT INTO search.saved_searches (owner, name, state)
+    VALUES (p_owner, trim(p_name), COALESCE(p_state, '{}'::JSONB))
+    ON CONFLICT (owner, lower(name)) DO UPDATE
+        SET state = EXCLUDED.state,
+            updated_at = NOW()
+    RETURNING *;
+$$ LANGUAGE sql VOLATILE;
+
+COMMENT ON FUNCTION search.save_search_for_owner IS
+'Saves a search under a name. Saving again under an existing name (any case) overwrites its state.';
+
+-- =====================================================================
+-- RENAME
+-- =====================================================================
+-- Raises unique_violation (23505) when the owner already uses the new name
+CREATE OR REPLACE FUNCTION search.rename_saved_search_for_owner(
+    p_owner TEXT,
+    p_id UUID,
+    p_name TEXT
+) RETURNS search.saved_searches AS $$
+    UPDATE search.saved_searches s
+    SET name = trim(p_name),
+        updated_at = NOW()
+    WHERE s.id = p_id
+      AND s.owner = p_owner
+    RETURNING *;
+$$ LANGUAGE sql VOLATILE;
+
+-- =====================================================================
+-- DELETE
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.delete_saved_search_for_owner(
+    p_owner TEXT,
+    p_id UUID
+) RETURNS BOOLEAN AS $$
+    WITH deleted AS (
+        DELETE FROM search.saved_searches s
+        WHERE s.id = p_id
+          AND s.owner = p_owner
+        RETURNING s.id
+    )
+    SELECT EXISTS (SELECT 1 FROM deleted);
+$$ LANGUAGE sql VOLATILE;
+
+-- =====================================================================
+-- MARK AS RUN
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.mark_saved_search_run_for_owner(
+    p_owner TEXT,
+    p_id UUID
+) RETURNS search.saved_searches AS $$
+    UPDATE search.saved_searches s
+    SET last_run_at = NOW()
+    WHERE s.id = p_id
+      AND s.owner = p_owner
+    RETURNING *;
+$$ LANGUAGE sql VOLATILE;
+
+-- =====================================================================
+-- OWNER-TAKING FUNCTIONS: service_role only
+-- =====================================================================
+-- Functions are executable by PUBLIC by default, so PUBLIC is revoked
+-- along with anon and authenticated
+REVOKE EXECUTE ON FUNCTION search.list_saved_searches_for_owner(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search.save_search_for_owner(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search.rename_saved_search_for_owner(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search.delete_saved_search_for_owner(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION search.mark_saved_search_run_for_owner(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION search.list_saved_searches_for_owner(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION search.save_search_for_owner(TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION search.rename_saved_search_for_owner(TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION search.delete_saved_search_for_owner(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION search.mark_saved_search_run_for_owner(TEXT, UUID) TO service_role;
+
+-- =====================================================================
+-- PUBLIC WRAPPERS FOR THE SERVER ACTIONS (service_role only)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION public.list_saved_searches_for_owner(p_owner TEXT)
+RETURNS SETOF search.saved_searches AS $$
+    SELECT * FROM search.list_saved_searches_for_owner(p_owner);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.save_search_for_owner(p_owner TEXT, p_name TEXT, p_state JSONB)
+RETURNS search.saved_searches AS $$
+    SELECT * FROM search.save_search_for_owner(p_owner, p_name, p_state);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.rename_saved_search_for_owner(p_owner TEXT, p_id UUID, p_name TEXT)
+RETURNS search.saved_searches AS $$
+    SELECT * FROM search.rename_saved_search_for_owner(p_owner, p_id, p_name);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.delete_saved_search_for_owner(p_owner TEXT, p_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT search.delete_saved_search_for_owner(p_owner, p_id);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.mark_saved_search_run_for_owner(p_owner TEXT, p_id UUID)
+RETURNS search.saved_searches AS $$
+    SELECT * FROM search.mark_saved_search_run_for_owner(p_owner, p_id);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.list_saved_searches_for_owner(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_search_for_owner(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.rename_saved_search_for_owner(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_saved_search_for_owner(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_saved_search_run_for_owner(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.list_saved_searches_for_owner(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.save_search_for_owner(TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.rename_saved_search_for_owner(TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.delete_saved_search_for_owner(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_saved_search_run_for_owner(TEXT, UUID) TO service_role;
+
+-- =====================================================================
+-- PUBLIC WRAPPERS FOR SIGNED-IN USERS (owner = auth.uid())
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.saved_search_owner()
+RETURNS TEXT AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Saved searches need a signed-in user'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN auth.uid()::TEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION public.list_saved_searches()
+RETURNS SETOF search.saved_searches AS $$
+    SELECT * FROM search.list_saved_searches_for_owner(search.saved_search_owner());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.save_search(p_name TEXT, p_state JSONB)
+RETURNS search.saved_searches AS $$
+    SELECT * FROM search.save_search_for_owner(search.saved_search_owner(), p_name, p_state);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.rename_saved_search(p_id UUID, p_name TEXT)
+RETURNS search.saved_searches AS $$
+    SELECT * FROM search.rename_saved_search_for_owner(search.saved_search_owner(), p_id, p_name);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.delete_saved_search(p_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT search.delete_saved_search_for_owner(search.saved_search_owner(), p_id);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.mark_saved_search_run(p_id UUID)
+RETURNS search.saved_searches AS $$
+    SELECT * FROM search.mark_saved_search_run_for_owner(search.saved_search_owner(), p_id);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.list_saved_searches() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.save_search(TEXT, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.rename_saved_search(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.delete_saved_search(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_saved_search_run(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.list_saved_searches() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_search(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rename_saved_search(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_saved_search(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_saved_search_run(UUID) TO authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Save, then save again under the same name in another case (expect one row, new state)
+-- SELECT id, name, state FROM search.save_search_for_owner('test@example.com', 'Outdoor wall IP65', '{"tab": "LUMINAIRE"}');
+-- SELECT id, name, state FROM search.save_search_for_owner('test@example.com', 'outdoor wall ip65', '{"tab": "LUMINAIRE", "suppliers": ["Delta Light"]}');
+-- SELECT name, state, last_run_at FROM search.list_saved_searches_for_owner('test@example.com');
+
+-- Test 2: Rename, run and delete (other owners see nothing)
+-- SELECT name FROM search.rename_saved_search_for_owner('test@example.com', (SELECT id FROM search.saved_searches WHERE owner = 'test@example.com' LIMIT 1), 'Facade IP65');
+-- SELECT last_run_at FROM search.mark_saved_search_run_for_owner('test@example.com', (SELECT id FROM search.saved_searches WHERE owner = 'test@example.com' LIMIT 1));
+-- SELECT COUNT(*) FROM search.list_saved_searches_for_owner('someone-else@example.com');
+-- SELECT search.delete_saved_search_for_owner('test@example.com', id) FROM search.saved_searches WHERE owner = 'test@example.com';
+
+-- Test 3: No access without a session (expect permission denied for anon, 42501 for a signed-out call)
+-- SET ROLE anon;
+-- SELECT * FROM list_saved_searches();
+-- SELECT * FROM list_saved_searches_for_owner('test@example.com');
+-- RESET ROLE;
+
+-- Test 4: Execute privileges (expect only authenticated / service_role)
+-- SELECT p.proname, r.rolname, has_function_privilege(r.rolname, p.oid, 'EXECUTE') AS can_execute
+-- FROM pg_proc p
+-- CROSS JOIN (VALUES ('anon'), ('authenticated'), ('service_role')) r(rolname)
+-- WHERE p.proname LIKE '%saved_search%' OR p.proname LIKE 'save_search%'
+-- ORDER BY p.proname, r.rolname;
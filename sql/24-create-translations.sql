@@ -0,0 +1,360 @@
+-- =====================================================================
+-- 24-create-translations.sql
+-- =====================================================================
+-- Greek (and any further) translations for taxonomy names, filter
+-- labels and filter values.
+--
+-- English stays in the base tables (taxonomy.name, filter_definitions.label,
+-- raw facet values). A translation table only holds the other locales;
+-- anything without a translation falls back to English, so a
+-- half-translated catalogue still renders completely.
+--
+-- Taxonomy names are resolved in SQL (get_taxonomy_tree / get_root_categories
+-- take p_locale). Filter labels and values are returned as one lookup
+-- (get_filter_translations) that callers lay over filter definitions and
+-- facets, so the facet functions keep their signatures.
+--
+-- Objects:
+--   search.taxonomy_translations           - Taxonomy name/description per locale
+--   search.filter_label_translations       - Filter label per locale
+--   search.filter_value_translations       - Filter value label per locale
+--   search.get_taxonomy_tree(p_locale)     - Taxonomy tree with localized names
+--   search.get_root_categories(p_locale)   - Level 1 categories (tabs) with localized names
+--   search.get_filter_translations()       - Filter label and value translations of a locale
+--   public.*                               - Public SECURITY DEFINER wrappers
+-- =====================================================================
+
+-- =====================================================================
+-- TABLES
+-- =====================================================================
+CREATE TABLE IF NOT EXISTS search.taxonomy_translations (
+    taxonomy_code TEXT NOT NULL REFERENCES search.taxonomy(code) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2}$'),
+    name TEXT NOT NULL,
+    description TEXT,
+    PRIMARY KEY (taxonomy_code, locale)
+);
+
+CREATE TABLE IF NOT EXISTS search.filter_label_translations (
+    filter_key TEXT NOT NULL REFERENCES search.filter_definitions(filter_key) ON DELETE CASCADE,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2}$'),
+    label TEXT NOT NULL,
+    PRIMARY KEY (filter_key, locale)
+);
+
+-- filter_value is the raw facet value as stored in product_search /
+-- product_filter_index ('Yes', 'White', 'Symmetric', ...)
+CREATE TABLE IF NOT EXISTS search.filter_value_translations (
+    filter_key TEXT NOT NULL REFERENCES search.filter_definitions(filter_key) ON DELETE CASCADE,
+    filter_value TEXT NOT NULL,
+    locale TEXT NOT NULL CHECK (locale ~ '^[a-z]{2}$'),
+    label TEXT NOT NULL,
+    PRIMARY KEY (filter_key, filter_value, locale)
+);
+
+-- Same RLS pattern as the configuration tables: no direct access for
+-- anon/authenticated, reads go through the functions below
+ALTER TABLE search.taxonomy_translations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search.filter_label_translations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search.filter_value_translations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restrict taxonomy_translations to service_role" ON search.taxonomy_translations;
+CREATE POLICY "Restrict taxonomy_translations to service_role"
+ON search.taxonomy_translations
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Restrict filter_label_translations to service_role" ON search.filter_label_translations;
+CREATE POLICY "Restrict filter_label_translations to service_role"
+ON search.filter_label_translations
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Restrict filter_value_translations to service_role" ON search.filter_value_translations;
+CREATE POLICY "Restrict filter_value_translations to service_role"
+ON search.filter_value_translations
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+COMMENT ON TABLE search.taxonomy_translations IS
+'Taxonomy names per locale. English lives in search.taxonomy; missing rows fall back to it.';
+
+COMMENT ON TABLE search.filter_label_translations IS
+'Filter labels per locale. English lives in search.filter_definitions.label; missing rows fall back to it.';
+
+COMMENT ON TABLE search.filter_value_translations IS
+'Display labels for raw filter values per locale. Values without a row are shown as stored.';
+
+-- =====================================================================
+-- GREEK SEED DATA
+-- =====================================================================
+-- Taxonomy rows are matched on the English name so the seed works
+-- whatever codes a deployment uses. Existing translations are kept.
+
+INSERT INTO search.taxonomy_translations (taxonomy_code, locale, name)
+SELECT t.code, 'el', g.name_el
+FROM search.taxonomy t
+JOIN (VALUES
+    ('Products', 'Προϊόντα'),
+    ('Luminaires', 'Φωτιστικά'),
+    ('Lamps', 'Λαμπτήρες'),
+    ('Accessories', 'Αξεσουάρ'),
+    ('Drivers', 'Τροφοδοτικά'),
+    ('Indoor', 'Εσωτερικού χώρου'),
+    ('Outdoor', 'Εξωτερικού χώρου'),
+    ('Ceiling', 'Οροφής'),
+    ('Wall', 'Τοίχου'),
+    ('Floor', 'Δαπέδου'),
+    ('Pendant', 'Κρεμαστά'),
+    ('Decorative', 'Διακοσμητικά'),
+    ('Special', 'Ειδικά'),
+    ('Garden', 'Κήπου'),
+    ('Recessed', 'Χωνευτά'),
+    ('Surface-mounted', 'Επιφανειακά'),
+    ('Suspended', 'Αναρτημένα'),
+    ('Downlight', 'Downlight'),
+    ('Track', 'Ράγες'),
+    ('Track Systems', 'Συστήματα ράγας'),
+    ('Constant Current', 'Σταθερού ρεύματος'),
+    ('Constant Voltage', 'Σταθερής τάσης'),
+    ('Filament', 'Νήματος'),
+    ('LED Modules', 'Πλακέτες LED'),
+    ('Modules', 'Πλακέτες')
+) AS g(name_en, name_el) ON lower(t.name) = lower(g.name_en)
+ON CONFLICT (taxonomy_code, locale) DO NOTHING;
+
+INSERT INTO search.filter_label_translations (filter_key, locale, label)
+SELECT fd.filter_key, 'el', g.label_el
+FROM search.filter_definitions fd
+JOIN (VALUES
+    ('voltage', 'Τάση'),
+    ('dimmable', 'Ρυθμιζόμενης έντασης'),
+    ('class', 'Κλάση προστασίας'),
+    ('ip', 'Βαθμός στεγανότητας (IP)'),
+    ('finishing_colour', 'Χρώμα φινιρίσματος'),
+    ('cct', 'Θερμοκρασία χρώματος (K)'),
+    ('cri', 'Δείκτης χρωματικής απόδοσης (CRI)'),
+    ('lumens_output', 'Φωτεινή ροή (lm)'),
+    ('light_source', 'Πηγή φωτός'),
+    ('dimming_dali', 'Ρύθμιση DALI'),
+    ('ik', 'Αντοχή σε κρούση (IK)'),
+    ('adjustability', 'Ρυθμιζόμενη κατεύθυνση'),
+    ('light_distribution', 'Κατανομή φωτός'),
+    ('beam_angle', 'Γωνία δέσμης'),
+    ('driver_included', 'Με τροφοδοτικό'),
+    ('builtin_height', 'Ελάχ. βάθος χωνευτού (mm)'),
+    ('efficacy', 'Απόδοση (lm/W)'),
+    ('max_power', 'Μέγ. ισχύς (W)'),
+    ('current', 'Ρεύμα (mA)'),
+    ('material', 'Υλικό'),
+    ('indoor', 'Εσωτερικού χώρου'),
+    ('outdoor', 'Εξωτερικού χώρου'),
+    ('submersible', 'Υποβρύχιο'),
+    ('trimless', 'Χωρίς πλαίσιο'),
+    ('cut_shape_round', 'Στρογγυλή οπή'),
+    ('cut_shape_rectangular', 'Ορθογώνια οπή')
+) AS g(filter_key, label_el) ON fd.filter_key = g.filter_key
+ON CONFLICT (filter_key, locale) DO NOTHING;
+
+-- Yes/No of every boolean filter, plus common colours
+INSERT INTO search.filter_value_translations (filter_key, filter_value, locale, label)
+SELECT fd.filter_key, g.value_en, 'el', g.value_el
+FROM search.filter_definitions fd
+JOIN (VALUES
+    ('Yes', 'Ναι'),
+    ('No', 'Όχι')
+) AS g(value_en, value_el) ON fd.filter_type = 'boolean'
+ON CONFLICT (filter_key, filter_value, locale) DO NOTHING;
+
+INSERT INTO search.filter_value_translations (filter_key, filter_value, locale, label)
+SELECT fd.filter_key, g.value_en, 'el', g.value_el
+FROM search.filter_definitions fd
+JOIN (VALUES
+    ('White', 'Λευκό'),
+    ('Black', 'Μαύρο'),
+    ('Grey', 'Γκρι'),
+    ('Gray', 'Γκρι'),
+    ('Silver', 'Ασημί'),
+    ('Gold', 'Χρυσό'),
+    ('Bronze', 'Μπρούντζινο'),
+    ('Anthracite', 'Ανθρακί'),
+    ('Brass', 'Ορείχαλκος'),
+    ('Copper', 'Χάλκινο'),
+    ('Aluminium', 'Αλουμίνιο'),
+    ('Transparent', 'Διάφανο'),
+    ('Red', 'Κόκκινο'),
+    ('Blue', 'Μπλε'),
+    ('Green', 'Πράσινο')
+) AS g(value_en, value_el) ON fd.filter_key = 'finishing_colour'
+ON CONFLICT (filter_key, filter_value, locale) DO NOTHING;
+
+-- =====================================================================
+-- TAXONOMY TREE
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.get_taxonomy_tree();
+DROP FUNCTION IF EXISTS search.get_taxonomy_tree(TEXT);
+
+CREATE OR REPLACE FUNCTION search.get_taxonomy_tree(
+    p_locale TEXT DEFAULT 'en'
+) RETURNS TABLE (
+    code TEXT,
+    parent_code TEXT,
+    level INTEGER,
+    name TEXT,
+    product_count BIGINT,
+    icon TEXT
+) AS $$
+    SELECT
+        t.code,
+        t.parent_code,
+        t.level,
+        COALESCE(tt.name, t.name) AS name,
+        COALESCE(tpc.product_count, 0) AS product_count,
+        t.icon
+    FROM search.taxonomy t
+    LEFT JOIN search.taxonomy_translations tt
+        ON tt.taxonomy_code = t.code AND tt.locale = p_locale
+    LEFT JOIN search.taxonomy_product_counts tpc ON t.code = tpc.taxonomy_code
+    WHERE t.active = true
+    ORDER BY t.level, t.display_order;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.get_taxonomy_tree IS
+'Returns the taxonomy tree with product counts. name is in p_locale
+(''en'', ''el'', ...), falling back to English where no translation exists.';
+
+-- =====================================================================
+-- ROOT CATEGORIES (tabs)
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.get_root_categories();
+DROP FUNCTION IF EXISTS search.get_root_categories(TEXT);
+
+CREATE OR REPLACE FUNCTION search.get_root_categories(
+    p_locale TEXT DEFAULT 'en'
+) RETURNS TABLE (
+    code TEXT,
+    name TEXT,
+    icon TEXT,
+    description TEXT,
+    display_order INTEGER
+) AS $$
+    SELECT
+        t.code,
+        COALESCE(tt.name, t.name) AS name,
+        t.icon,
+        COALESCE(tt.description, t.description) AS description,
+        t.display_order
+    FROM search.taxonomy t
+    LEFT JOIN search.taxonomy_translations tt
+        ON tt.taxonomy_code = t.code AND tt.locale = p_locale
+    WHERE t.active = true
+      AND t.level = 1
+    ORDER BY t.display_order;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.get_root_categories IS
+'Returns the level 1 categories shown as search tabs, named in p_locale
+(falling back to English).';
+
+-- =====================================================================
+-- FILTER LABEL / VALUE TRANSLATIONS
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.get_filter_translations(TEXT);
+
+-- filter_value is NULL for the filter's own label
+CREATE OR REPLACE FUNCTION search.get_filter_translations(
+    p_locale TEXT
+) RETURNS TABLE (
+    filter_key TEXT,
+    filter_value TEXT,
+    label TEXT
+) AS $$
+    SELECT flt.filter_key, NULL::TEXT, flt.label
+    FROM search.filter_label_translations flt
+    WHERE flt.locale = p_locale
+    UNION ALL
+    SELECT fvt.filter_key, fvt.filter_value, fvt.label
+    FROM search.filter_value_translations fvt
+    WHERE fvt.locale = p_locale
+    ORDER BY 1, 2 NULLS FIRST;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.get_filter_translations IS
+'Filter label (filter_value NULL) and filter value translations of a locale.
+Callers lay these over get_filter_definitions_with_type / get_active_filter_definitions
+labels and facet values; anything missing stays English.';
+
+-- =====================================================================
+-- PUBLIC WRAPPERS (SECURITY DEFINER)
+-- =====================================================================
+DROP FUNCTION IF EXISTS public.get_taxonomy_tree();
+DROP FUNCTION IF EXISTS public.get_taxonomy_tree(TEXT);
+DROP FUNCTION IF EXISTS public.get_root_categories();
+DROP FUNCTION IF EXISTS public.get_root_categories(TEXT);
+DROP FUNCTION IF EXISTS public.get_filter_translations(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_taxonomy_tree(p_locale TEXT DEFAULT 'en')
+RETURNS TABLE (
+    code TEXT,
+    parent_code TEXT,
+    level INTEGER,
+    name TEXT,
+    product_count BIGINT,
+    icon TEXT
+) AS $$
+    SELECT * FROM search.get_taxonomy_tree(p_locale);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.get_root_categories(p_locale TEXT DEFAULT 'en')
+RETURNS TABLE (
+    code TEXT,
+    name TEXT,
+    icon TEXT,
+    description TEXT,
+    display_order INTEGER
+) AS $$
+    SELECT * FROM search.get_root_categories(p_locale);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.get_filter_translations(p_locale TEXT)
+RETURNS TABLE (
+    filter_key TEXT,
+    filter_value TEXT,
+    label TEXT
+) AS $$
+    SELECT * FROM search.get_filter_translations(p_locale);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_taxonomy_tree(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_root_categories(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_filter_translations(TEXT) TO anon, authenticated;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Tabs and tree in Greek (untranslated nodes stay English)
+-- SELECT code, name FROM get_root_categories('el');
+-- SELECT code, level, name, product_count FROM get_taxonomy_tree('el') LIMIT 20;
+
+-- Test 2: English is unchanged
+-- SELECT code, name FROM get_root_categories();
+
+-- Test 3: Filter translations (label rows first, then values)
+-- SELECT * FROM get_filter_translations('el');
+
+-- Test 4: Nodes and filters still missing a Greek translation
+-- SELECT t.code, t.name FROM search.taxonomy t
+-- WHERE t.active AND NOT EXISTS (
+--     SELECT 1 FROM search.taxonomy_translations tt WHERE tt.taxonomy_code = t.code AND tt.locale = 'el'
+-- );
+-- SELECT fd.filter_key, fd.label FROM search.filter_definitions fd
+-- WHERE fd.active AND NOT EXISTS (
+--     SELECT 1 FROM search.filter_label_translations flt WHERE flt.filter_key = fd.filter_key AND flt.locale = 'el'
+-- );
@@ -0,0 +1,195 @@
+-- =====================================================================
+-- 25-create-search-text-normalization.sql
+-- =====================================================================
+-- Greek-aware, accent-insensitive full-text search for the v3 functions.
+--
+-- Greek supplier descriptions mix accented Greek, unaccented capitals
+-- ("ΦΩΤΙΣΤΙΚΟ") and Latin terms, sometimes with Greek look-alike letters
+-- inside Latin words. The fts column is now built from normalised text:
+--   1. lower case and accent folding   ("Φωτιστικό" -> "φωτιστικο")
+--   2. final sigma                     ("φωτεινός"  -> "φωτεινοσ")
+--   3. Greek -> Greeklish              ("φωτιστικο" -> "fotistiko")
+-- so Greek, Greeklish and mixed-script spellings end up as the same lexemes.
+--
+-- Queries must be normalised the same way before they reach
+-- plainto_tsquery(): the server actions do this with normalizeSearchText()
+-- in search-normalize.ts (same character tables as below).
+--
+-- The fts column is maintained by a trigger, so rebuild-product-search.sh
+-- no longer needs to compute it; whatever it writes is replaced on insert.
+--
+-- This file only creates the functions and the trigger: rows already in
+-- product_search keep their old fts until the separate backfill step,
+-- run outside a transaction block (it commits after each batch):
+--   CALL search.refresh_product_fts();
+-- or a full rebuild-product-search.sh run.
+--
+-- Objects:
+--   search.normalize_search_text()          - Text folding (mirror of search-normalize.ts)
+--   search.build_product_fts()              - Weighted tsvector of one product
+--   search.product_search_set_fts()         - Trigger function keeping fts up to date
+--   search.refresh_product_fts()            - Recompute fts for every row, in batches (procedure)
+--   public.normalize_search_text()          - Public SECURITY DEFINER wrapper
+-- =====================================================================
+
+-- =====================================================================
+-- NORMALISATION
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION search.normalize_search_text(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT btrim(regexp_replace(
+        translate(
+            replace(replace(replace(replace(replace(replace(
+                -- 1 + 2: accents, upper case Greek, final sigma (one char -> one char)
+                translate(
+                    lower(p_text),
+                    'ΑΒΓΔΕΖΗΘΙΚΛΜΝΞΟΠΡΣΤΥΦΧΨΩΆΈΉΊΌΎΏΪΫ'
+                    || 'άέήίόύώϊϋΐΰς'
+                    || 'àáâãäåèéêëìíîïòóôõöùúûüýÿñç'
+                    || 'ÀÁÂÃÄÅÈÉÊËÌÍÎÏÒÓÔÕÖÙÚÛÜÝÑÇ',
+                    'αβγδεζηθικλμνξοπρστυφχψωαεηιουωιυ'
+                    || 'αεηιουωιυιυσ'
+                    || 'aaaaaaeeeeiiiiooooouuuuyync'
+                    || 'aaaaaaeeeeiiiiooooouuuuync'
+                ),
+                -- 3: digraphs and multi-letter sounds first ...
+                'ου', 'ou'), 'αυ', 'av'), 'ευ', 'ev'), 'θ', 'th'), 'χ', 'ch'), 'ψ', 'ps'),
+            -- ... then letter by letter
+            'αβγδεζηικλμνξοπρστυφω',
+            'avgdeziiklmnxoprstyfo'
+        ),
+        '\s+', ' ', 'g'
+    ));
+$$ LANGUAGE sql IMMUTABLE STRICT PARALLEL SAFE;
+
+COMMENT ON FUNCTION search.normalize_search_text IS
+'Lower case, accent and final sigma folding, then Greek -> Greeklish transliteration.
+Used for search.product_search.fts; must match normalizeSearchText() in search-normalize.ts.';
+
+-- =====================================================================
+-- FTS COLUMN
+-- =====================================================================
+-- Weights: code and short description (A), supplier / class / family (B),
+-- long description (C). The 'english' config stems English words; the
+-- transliterated Greek words pass through it the same way on both sides.
+
+CREATE OR REPLACE FUNCTION search.build_product_fts(
+    p_foss_pid TEXT,
+    p_description_short TEXT,
+    p_supplier_name TEXT,
+    p_class_name TEXT,
+    p_family TEXT,
+    p_description_long TEXT
+) RETURNS TSVECTOR AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(search.normalize_search_text(
+            concat_ws(' ', p_foss_pid, p_description_short)), '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(search.normalize_search_text(
+            concat_ws(' ', p_supplier_name, p_class_name, p_family)), '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(search.normalize_search_text(
+            p_description_long), '')), 'C');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+COMMENT ON FUNCTION search.build_product_fts IS
+'Weighted tsvector of a product_search row from normalised text (see normalize_search_text).';
+
+CREATE OR REPLACE FUNCTION search.product_search_set_fts()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.fts := search.build_product_fts(
+        NEW.foss_pid, NEW.description_short, NEW.supplier_name,
+        NEW.class_name, NEW.family, NEW.description_long
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_product_search_fts ON search.product_search;
+
+CREATE TRIGGER trg_product_search_fts
+    BEFORE INSERT OR UPDATE OF foss_pid, description_short, supplier_name, class_name, family, description_long
+    ON search.product_search
+    FOR EACH ROW EXECUTE FUNCTION search.product_search_set_fts();
+
+CREATE OR REPLACE PROCEDURE search.refresh_product_fts(p_batch_size INTEGER DEFAULT 50000)
+AS $$
+DECLARE
+    last_id UUID;
+    batch_rows INTEGER;
+    total_rows BIGINT := 0;
+BEGIN
+    LOOP
+        -- Next batch in product_id order (primary key), one short transaction each
+        WITH batch AS (
+            SELECT product_id
+            FROM search.product_search
+            WHERE last_id IS NULL OR product_id > last_id
+            ORDER BY product_id
+            LIMIT p_batch_size
+        ), updated AS (
+            UPDATE search.product_search ps
+            SET fts = search.build_product_fts(
+                ps.foss_pid, ps.description_short, ps.supplier_name,
+                ps.class_name, ps.family, ps.description_long
+            )
+            FROM batch
+            WHERE ps.product_id = batch.product_id
+            RETURNING ps.product_id
+        )
+        SELECT COUNT(*), (array_agg(product_id ORDER BY product_id DESC))[1]
+        INTO batch_rows, last_id
+        FROM updated;
+
+        EXIT WHEN batch_rows = 0;
+
+        total_rows := total_rows + batch_rows;
+        COMMIT;
+        RAISE NOTICE 'fts refreshed: % rows', total_rows;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON PROCEDURE search.refresh_product_fts IS
+'Recompute fts for every product_search row (after deploying sql/25, or after changing
+build_product_fts or normalize_search_text). Commits every p_batch_size rows, so run it
+with CALL outside a transaction block.';
+
+-- =====================================================================
+-- PUBLIC WRAPPER
+-- =====================================================================
+-- Lets clients check how a query will be matched (debugging, test app)
+
+CREATE OR REPLACE FUNCTION public.normalize_search_text(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT search.normalize_search_text(p_text);
+$$ LANGUAGE sql IMMUTABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.normalize_search_text(TEXT) TO anon, authenticated;
+
+-- =====================================================================
+-- BACKFILL (separate step, run after this file)
+-- =====================================================================
+-- About 2.2M rows: not run here, so the migration stays short. From psql,
+-- outside BEGIN / COMMIT:
+-- CALL search.refresh_product_fts();          -- batches of 50,000
+-- CALL search.refresh_product_fts(10000);     -- smaller batches, shorter locks
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Normalisation corpus (real Greek / English product names).
+-- Returns no rows when SQL and search-normalize.ts agree.
+-- \i sql/30-test-search-text-normalization.sql
+
+-- Test 2: Greek, unaccented capitals and Greeklish find the same products
+-- SELECT
+--     (SELECT COUNT(*) FROM search.product_search WHERE fts @@ plainto_tsquery('english', search.normalize_search_text('φωτιστικό οροφής'))) AS greek,
+--     (SELECT COUNT(*) FROM search.product_search WHERE fts @@ plainto_tsquery('english', search.normalize_search_text('ΦΩΤΙΣΤΙΚΟ ΟΡΟΦΗΣ'))) AS capitals,
+--     (SELECT COUNT(*) FROM search.product_search WHERE fts @@ plainto_tsquery('english', 'fotistiko orofis')) AS greeklish;
+
+-- Test 3: Trigger keeps fts current
+-- UPDATE search.product_search SET description_short = description_short
+-- WHERE product_id = (SELECT product_id FROM search.product_search LIMIT 1)
+-- RETURNING foss_pid, fts;
@@ -0,0 +1,180 @@
+-- =====================================================================
+-- 26-test-classification-conformance.sql
+-- =====================================================================
+-- Conformance cases for search.evaluate_feature_condition() and
+-- search.evaluate_feature_conditions() (sql/28).
+--
+-- search-classification.ts evaluates classification rules in TypeScript
+-- (previews, tests) and must give the same answers as the SQL functions
+-- used to build search.product_taxonomy_flags. The cases below are
+-- CLASSIFICATION_CONFORMANCE_CASES and FEATURE_CONDITIONS_CONFORMANCE_CASES
+-- from search-classification-conformance.ts, with the same names; keep the
+-- lists identical.
+--
+-- Run after changing either function or the TS engine:
+--   - this script returns no rows when the SQL functions match the cases
+--   - checkClassificationConformance() returns [] when the TS engine does
+--
+-- expected is 'true', 'false', 'null' (the function returns NULL, which
+-- the rule WHERE clause treats as no match) or 'error' (the call raises,
+-- which aborts a refresh).
+--
+-- Read-only: the helpers live in pg_temp and disappear with the session.
+--
+-- Objects:
+--   pg_temp.try_feature_condition()   - Result as text, 'error' when it raises
+--   pg_temp.try_feature_conditions()  - Same, for a feature array
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION pg_temp.try_feature_condition(
+    p_feature JSONB,
+    p_condition JSONB
+) RETURNS TEXT AS $$
+DECLARE
+    v_result BOOLEAN;
+BEGIN
+    v_result := search.evaluate_feature_condition(p_feature, p_condition);
+    RETURN COALESCE(v_result::TEXT, 'null');
+EXCEPTION WHEN OTHERS THEN
+    RETURN 'error';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION pg_temp.try_feature_conditions(
+    p_features JSONB,
+    p_condition JSONB
+) RETURNS TEXT AS $$
+DECLARE
+    v_result BOOLEAN;
+BEGIN
+    v_result := search.evaluate_feature_conditions(p_features, p_condition);
+    RETURN COALESCE(v_result::TEXT, 'null');
+EXCEPTION WHEN OTHERS THEN
+    RETURN 'error';
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================================
+-- Cases that differ from the expected result (no rows = conformant)
+-- =====================================================================
+
+WITH cases (case_name, feature, condition, expected) AS (
+  VALUES
+    ('exists: same feature', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"exists"}}'::jsonb, 'true'),
+    ('exists: other feature', '{"FEATUREID":"EF000002"}'::jsonb, '{"EF000001":{"operator":"exists"}}'::jsonb, 'false'),
+    ('exists: feature without FEATUREID', '{"fvalueN":5}'::jsonb, '{"EF000001":{"operator":"exists"}}'::jsonb, 'true'),
+    ('first key in jsonb order wins', '{"FEATUREID":"EF1"}'::jsonb, '{"EF000001":{"operator":"exists"},"EF1":{"operator":"exists"}}'::jsonb, 'true'),
+    ('later key is ignored', '{"FEATUREID":"EF000002"}'::jsonb, '{"EF000001":{"operator":"exists"},"EF000002":{"operator":"exists"}}'::jsonb, 'false'),
+    ('empty condition', '{"FEATUREID":"EF000001"}'::jsonb, '{}'::jsonb, 'false'),
+    ('unknown operator', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"starts_with","value":"EV"}}'::jsonb, 'false'),
+    ('missing operator', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"value":"EV000001"}}'::jsonb, 'false'),
+    ('operator is case sensitive', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"EXISTS"}}'::jsonb, 'false'),
+    ('equals: fvalueC', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"equals","value":"EV000001"}}'::jsonb, 'true'),
+    ('equals: neither value matches', '{"FEATUREID":"EF000001","fvalueC":"EV000001","fvalueB":false}'::jsonb, '{"EF000001":{"operator":"equals","value":"EV000002"}}'::jsonb, 'false'),
+    ('equals: fvalueC is case sensitive', '{"FEATUREID":"EF000001","fvalueC":"EV000001","fvalueB":false}'::jsonb, '{"EF000001":{"operator":"equals","value":"ev000001"}}'::jsonb, 'false'),
+    ('equals: fvalueB true', '{"FEATUREID":"EF000001","fvalueB":true}'::jsonb, '{"EF000001":{"operator":"equals","value":"true"}}'::jsonb, 'true'),
+    ('equals: fvalueB against JSON boolean', '{"FEATUREID":"EF000001","fvalueB":false}'::jsonb, '{"EF000001":{"operator":"equals","value":false}}'::jsonb, 'true'),
+    ('equals: no value in feature', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"equals","value":"EV000001"}}'::jsonb, 'null'),
+    ('equals: fvalueC differs, fvalueB missing', '{"FEATUREID":"EF000001","fvalueC":"EV000002"}'::jsonb, '{"EF000001":{"operator":"equals","value":"EV000001"}}'::jsonb, 'null'),
+    ('equals: fvalueN is not compared', '{"FEATUREID":"EF000001","fvalueN":5}'::jsonb, '{"EF000001":{"operator":"equals","value":"5"}}'::jsonb, 'null'),
+    ('not_equals: other value', '{"FEATUREID":"EF000001","fvalueC":"EV000002"}'::jsonb, '{"EF000001":{"operator":"not_equals","value":"EV000001"}}'::jsonb, 'true'),
+    ('not_equals: same value', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"not_equals","value":"EV000001"}}'::jsonb, 'false'),
+    ('not_equals: fvalueB same value', '{"FEATUREID":"EF000001","fvalueB":true}'::jsonb, '{"EF000001":{"operator":"not_equals","value":true}}'::jsonb, 'false'),
+    ('not_equals: no value in feature', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"not_equals","value":"EV000001"}}'::jsonb, 'true'),
+    ('not_equals: other feature', '{"FEATUREID":"EF000002","fvalueC":"EV000002"}'::jsonb, '{"EF000001":{"operator":"not_equals","value":"EV000001"}}'::jsonb, 'false'),
+    ('in: fvalueC listed', '{"FEATUREID":"EF000001","fvalueC":"EV000002"}'::jsonb, '{"EF000001":{"operator":"in","values":["EV000001","EV000002"]}}'::jsonb, 'true'),
+    ('in: fvalueC not listed', '{"FEATUREID":"EF000001","fvalueC":"EV000003"}'::jsonb, '{"EF000001":{"operator":"in","values":["EV000001","EV000002"]}}'::jsonb, 'false'),
+    ('in: fvalueB against JSON boolean', '{"FEATUREID":"EF000001","fvalueB":false}'::jsonb, '{"EF000001":{"operator":"in","values":[false]}}'::jsonb, 'true'),
+    ('in: no value in feature', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"in","values":["EV000001"]}}'::jsonb, 'false'),
+    ('in: null in the list', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"in","values":[null]}}'::jsonb, 'false'),
+    ('in: no values', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"in"}}'::jsonb, 'false'),
+    ('in: values is not an array', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"in","values":"EV000001"}}'::jsonb, 'error'),
+    ('contains: case insensitive', '{"FEATUREID":"EF000001","fvalueC_desc":"Recessed mounting"}'::jsonb, '{"EF000001":{"operator":"contains","value":"RECESSED"}}'::jsonb, 'true'),
+    ('contains: no match', '{"FEATUREID":"EF000001","fvalueC_desc":"Surface"}'::jsonb, '{"EF000001":{"operator":"contains","value":"recessed"}}'::jsonb, 'false'),
+    ('contains: % is a wildcard', '{"FEATUREID":"EF000001","fvalueC_desc":"Wall recessed"}'::jsonb, '{"EF000001":{"operator":"contains","value":"wall%recessed"}}'::jsonb, 'true'),
+    ('contains: _ is a wildcard', '{"FEATUREID":"EF000001","fvalueC_desc":"IP-65"}'::jsonb, '{"EF000001":{"operator":"contains","value":"IP_65"}}'::jsonb, 'true'),
+    ('contains: escaped _', '{"FEATUREID":"EF000001","fvalueC_desc":"IP-65"}'::jsonb, '{"EF000001":{"operator":"contains","value":"IP\\_65"}}'::jsonb, 'false'),
+    ('contains: regex characters are literal', '{"FEATUREID":"EF000001","fvalueC_desc":"Ø 80 (round)"}'::jsonb, '{"EF000001":{"operator":"contains","value":"(round)"}}'::jsonb, 'true'),
+    ('contains: no description', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"contains","value":"recessed"}}'::jsonb, 'null'),
+    ('contains: no value', '{"FEATUREID":"EF000001","fvalueC_desc":"Recessed"}'::jsonb, '{"EF000001":{"operator":"contains"}}'::jsonb, 'null'),
+    ('contains: trailing backslash escapes the closing %', '{"FEATUREID":"EF000001","fvalueC_desc":"Data%"}'::jsonb, '{"EF000001":{"operator":"contains","value":"a\\"}}'::jsonb, 'true'),
+    ('regex: case insensitive', '{"FEATUREID":"EF000001","fvalueC_desc":"Recessed mounting"}'::jsonb, '{"EF000001":{"operator":"regex","value":"^recessed"}}'::jsonb, 'true'),
+    ('regex: anchored no match', '{"FEATUREID":"EF000001","fvalueC_desc":"Wall recessed"}'::jsonb, '{"EF000001":{"operator":"regex","value":"^recessed"}}'::jsonb, 'false'),
+    ('regex: alternation', '{"FEATUREID":"EF000001","fvalueC_desc":"Square"}'::jsonb, '{"EF000001":{"operator":"regex","value":"^(round|square)$"}}'::jsonb, 'true'),
+    ('regex: no description', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"regex","value":"recessed"}}'::jsonb, 'null'),
+    ('regex: invalid pattern', '{"FEATUREID":"EF000001","fvalueC_desc":"Recessed"}'::jsonb, '{"EF000001":{"operator":"regex","value":"("}}'::jsonb, 'error'),
+    ('regex: invalid pattern, no description', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"regex","value":"("}}'::jsonb, 'null'),
+    ('not_exists: false for a single feature', '{"FEATUREID":"EF000002"}'::jsonb, '{"EF000001":{"operator":"not_exists"}}'::jsonb, 'false'),
+    ('greater_than: above', '{"FEATUREID":"EF000001","fvalueN":1200}'::jsonb, '{"EF000001":{"operator":"greater_than","value":1000}}'::jsonb, 'true'),
+    ('greater_than: equal is not greater', '{"FEATUREID":"EF000001","fvalueN":1000}'::jsonb, '{"EF000001":{"operator":"greater_than","value":"1000"}}'::jsonb, 'false'),
+    ('greater_than: numeric, not text, order', '{"FEATUREID":"EF000001","fvalueN":9}'::jsonb, '{"EF000001":{"operator":"greater_than","value":"10"}}'::jsonb, 'false'),
+    ('greater_than: numeric string in feature', '{"FEATUREID":"EF000001","fvalueN":" 12.5 "}'::jsonb, '{"EF000001":{"operator":"greater_than","value":12}}'::jsonb, 'true'),
+    ('greater_than: no fvalueN', '{"FEATUREID":"EF000001","fvalueC":"EV000001"}'::jsonb, '{"EF000001":{"operator":"greater_than","value":10}}'::jsonb, 'null'),
+    ('greater_than: no value', '{"FEATUREID":"EF000001","fvalueN":10}'::jsonb, '{"EF000001":{"operator":"greater_than"}}'::jsonb, 'null'),
+    ('greater_than: text value', '{"FEATUREID":"EF000001","fvalueN":10}'::jsonb, '{"EF000001":{"operator":"greater_than","value":"ten"}}'::jsonb, 'error'),
+    ('greater_than: text value, no fvalueN', '{"FEATUREID":"EF000001"}'::jsonb, '{"EF000001":{"operator":"greater_than","value":"ten"}}'::jsonb, 'error'),
+    ('greater_than: other feature skips the cast', '{"FEATUREID":"EF000002","fvalueN":10}'::jsonb, '{"EF000001":{"operator":"greater_than","value":"ten"}}'::jsonb, 'false'),
+    ('less_than: below', '{"FEATUREID":"EF000001","fvalueN":-5}'::jsonb, '{"EF000001":{"operator":"less_than","value":0}}'::jsonb, 'true'),
+    ('less_than: exponent notation', '{"FEATUREID":"EF000001","fvalueN":2000}'::jsonb, '{"EF000001":{"operator":"less_than","value":"1e3"}}'::jsonb, 'false'),
+    ('less_than: NaN is above everything', '{"FEATUREID":"EF000001","fvalueN":"NaN"}'::jsonb, '{"EF000001":{"operator":"less_than","value":"Infinity"}}'::jsonb, 'false'),
+    ('in_range: inside', '{"FEATUREID":"EF000001","fvalueN":3000}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700,"max":4000}}'::jsonb, 'true'),
+    ('in_range: bounds are inclusive', '{"FEATUREID":"EF000001","fvalueN":4000}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700,"max":4000}}'::jsonb, 'true'),
+    ('in_range: outside', '{"FEATUREID":"EF000001","fvalueN":6500}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700,"max":4000}}'::jsonb, 'false'),
+    ('in_range: min above max', '{"FEATUREID":"EF000001","fvalueN":3000}'::jsonb, '{"EF000001":{"operator":"in_range","min":4000,"max":2700}}'::jsonb, 'false'),
+    ('in_range: value is ignored', '{"FEATUREID":"EF000001","fvalueN":3000}'::jsonb, '{"EF000001":{"operator":"in_range","value":3000}}'::jsonb, 'null'),
+    ('in_range: no max, above min', '{"FEATUREID":"EF000001","fvalueN":3000}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700}}'::jsonb, 'null'),
+    ('in_range: no max, below min', '{"FEATUREID":"EF000001","fvalueN":2000}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700}}'::jsonb, 'false'),
+    ('in_range: text max, below min', '{"FEATUREID":"EF000001","fvalueN":2000}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700,"max":"high"}}'::jsonb, 'false'),
+    ('in_range: text max, above min', '{"FEATUREID":"EF000001","fvalueN":3000}'::jsonb, '{"EF000001":{"operator":"in_range","min":2700,"max":"high"}}'::jsonb, 'error')
+)
+SELECT
+  case_name,
+  expected,
+  pg_temp.try_feature_condition(feature, condition) AS actual,
+  feature,
+  condition
+FROM cases
+WHERE pg_temp.try_feature_condition(feature, condition) <> expected
+ORDER BY case_name;
+
+-- =====================================================================
+-- Feature array cases that differ (no rows = conformant)
+-- =====================================================================
+
+WITH cases (case_name, features, condition, expected) AS (
+  VALUES
+    ('leaf: second feature matches', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"},{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"EF000001":{"operator":"equals","value":"EV000001"}}'::jsonb, 'true'),
+    ('leaf: no feature matches', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"EF000001":{"operator":"exists"}}'::jsonb, 'false'),
+    ('leaf: no features', NULL::jsonb, '{"EF000001":{"operator":"exists"}}'::jsonb, 'false'),
+    ('leaf: empty features', '[]'::jsonb, '{"EF000001":{"operator":"exists"}}'::jsonb, 'false'),
+    ('leaf: not_equals needs the feature', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"EF000001":{"operator":"not_equals","value":"EV000001"}}'::jsonb, 'false'),
+    ('leaf: error after a match is not reached', '[{"FEATUREID":"EF000001","fvalueN":5},{"FEATUREID":"EF000001","fvalueN":"x"}]'::jsonb, '{"EF000001":{"operator":"greater_than","value":1}}'::jsonb, 'true'),
+    ('leaf: non-object condition', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '[]'::jsonb, 'error'),
+    ('not_exists: feature missing', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"EF000001":{"operator":"not_exists"}}'::jsonb, 'true'),
+    ('not_exists: feature present', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"},{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"EF000001":{"operator":"not_exists"}}'::jsonb, 'false'),
+    ('not_exists: no features', NULL::jsonb, '{"EF000001":{"operator":"not_exists"}}'::jsonb, 'true'),
+    ('not_exists: feature without FEATUREID counts as present', '[{"fvalueN":5}]'::jsonb, '{"EF000001":{"operator":"not_exists"}}'::jsonb, 'false'),
+    ('all: every condition matches', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"},{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"all":[{"EF000001":{"operator":"exists"}},{"EF000002":{"operator":"equals","value":"EV000002"}}]}'::jsonb, 'true'),
+    ('all: one condition fails', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"all":[{"EF000001":{"operator":"exists"}},{"EF000002":{"operator":"exists"}}]}'::jsonb, 'false'),
+    ('all: empty list', NULL::jsonb, '{"all":[]}'::jsonb, 'true'),
+    ('all: stops at the first failure', '[{"FEATUREID":"EF000001","fvalueN":5}]'::jsonb, '{"all":[{"EF000002":{"operator":"exists"}},{"EF000001":{"operator":"greater_than","value":"ten"}}]}'::jsonb, 'false'),
+    ('any: one condition matches', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"any":[{"EF000001":{"operator":"exists"}},{"EF000002":{"operator":"exists"}}]}'::jsonb, 'true'),
+    ('any: none matches', '[{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"any":[{"EF000001":{"operator":"exists"}},{"EF000002":{"operator":"equals","value":"EV000001"}}]}'::jsonb, 'false'),
+    ('any: empty list', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"any":[]}'::jsonb, 'false'),
+    ('any: stops at the first match', '[{"FEATUREID":"EF000001","fvalueN":5}]'::jsonb, '{"any":[{"EF000001":{"operator":"exists"}},{"EF000001":{"operator":"greater_than","value":"ten"}}]}'::jsonb, 'true'),
+    ('not: value is absent', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"not":{"EF000001":{"operator":"equals","value":"EV000009"}}}'::jsonb, 'true'),
+    ('not: value is present', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"not":{"EF000001":{"operator":"equals","value":"EV000001"}}}'::jsonb, 'false'),
+    ('not: no features', NULL::jsonb, '{"not":{"EF000001":{"operator":"exists"}}}'::jsonb, 'true'),
+    ('nested: all of any and not', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"},{"FEATUREID":"EF000002","fvalueC":"EV000002"}]'::jsonb, '{"all":[{"any":[{"EF000003":{"operator":"exists"}},{"EF000001":{"operator":"in","values":["EV000001"]}}]},{"not":{"EF000002":{"operator":"regex","value":"^x"}}}]}'::jsonb, 'true'),
+    ('all that is not an array is a feature key', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"all":{"operator":"exists"}}'::jsonb, 'false'),
+    ('not that is not an object is a feature key', '[{"FEATUREID":"EF000001","fvalueC":"EV000001"}]'::jsonb, '{"not":[{"EF000001":{"operator":"exists"}}]}'::jsonb, 'false')
+)
+SELECT
+  case_name,
+  expected,
+  pg_temp.try_feature_conditions(features, condition) AS actual,
+  features,
+  condition
+FROM cases
+WHERE pg_temp.try_feature_conditions(features, condition) <> expected
+ORDER BY case_name;
@@ -0,0 +1,434 @@
+-- =====================================================================
+-- 27-create-classification-preview-function.sql
+-- =====================================================================
+-- "What would move": preview a change to search.classification_rules
+-- before making it. Draft edits (or new rules) are evaluated against
+-- items.product_info and compared with the stored rules; nothing is
+-- written, product_taxonomy_flags is not touched.
+--
+-- p_changes is a JSON array of draft rules:
+--   { "id": 12, "active": false }                    -- edit: given columns replace the stored ones
+--   { "id": 12, "etim_class_ids": ["EC002710"] }
+--   { "rule_name": "...", "taxonomy_code": "...",    -- no id: new rule (active, priority 100
+--     "etim_feature_conditions": {...} }             -- unless given)
+--
+-- Only products matched by an old or new version of a changed rule can
+-- move, so those are the only ones re-classified; unchanged rules are
+-- evaluated for them where they give the same codes/flags (a product
+-- keeps a code another rule still gives it). Matching is the WHERE
+-- clause of product_classifications (sql/04), in
+-- search.classification_rule_matches().
+--
+-- classification_rule_matches() is too slow to run for every product:
+-- products are first narrowed to those in a changed version's ETIM
+-- groups/classes, with a feature its conditions name
+-- (search.feature_condition_feature_ids()) or matching its text
+-- pattern. Each changed version is then matched once per candidate.
+--
+-- Rules are configuration: the wrappers are granted to service_role
+-- only, for server code (FOSSAPP server actions, the test app's
+-- /api/classification route). Not to authenticated: the test app signs
+-- every visitor in anonymously, and an anonymous session has that role.
+--
+-- priority is accepted but currently moves nothing: every matching rule
+-- contributes its code and flag, whatever its priority.
+--
+-- Objects:
+--   search.classification_rule_matches()       - Whether a rule applies to a product
+--   search.feature_condition_feature_ids()     - Feature ids a product needs to match a condition
+--   search.get_classification_rules()          - All rules, for editing
+--   search.preview_classification_changes()    - Gained/lost counts and samples per code/flag
+--   public.*                                   - Public SECURITY DEFINER wrappers
+-- =====================================================================
+
+-- =====================================================================
+-- RULE MATCHING
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.classification_rule_matches(
+    p_rule search.classification_rules,
+    p_product items.product_info
+) RETURNS BOOLEAN AS $$
+    SELECT COALESCE(
+        -- Rule matches ETIM group
+        (p_rule.etim_group_ids IS NOT NULL
+         AND p_product."group" = ANY(p_rule.etim_group_ids))
+
+        -- Rule matches ETIM class
+        OR (p_rule.etim_class_ids IS NOT NULL
+            AND p_product.class = ANY(p_rule.etim_class_ids))
+
+        -- Rule matches feature conditions
+        OR (p_rule.etim_feature_conditions IS NOT NULL
+            AND EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements(p_product.features) f
+                WHERE search.evaluate_feature_condition(f, p_rule.etim_feature_conditions)
+            ))
+
+        -- Rule matches text pattern (case-insensitive)
+        OR (p_rule.text_pattern IS NOT NULL
+            AND (p_product.description_short ~* p_rule.text_pattern
+                 OR p_product.description_long ~* p_rule.text_pattern)),
+        false
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.classification_rule_matches IS
+'Whether a classification rule applies to a product: the rule conditions of the
+product_classifications WHERE clause (sql/04), without the active check.';
+
+-- =====================================================================
+-- FEATURE IDS OF A CONDITION (candidate pre-filter)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.feature_condition_feature_ids(
+    condition JSONB
+) RETURNS TEXT[] AS $$
+DECLARE
+    child JSONB;
+    child_ids TEXT[];
+    ids TEXT[] := '{}';
+    feature_id TEXT;
+BEGIN
+    -- Combinators (sql/28), checked in the order evaluate_feature_conditions() does
+    IF jsonb_typeof(condition->'all') = 'array' THEN
+        -- Every child must match, so any bounded child narrows
+        FOR child IN SELECT value FROM jsonb_array_elements(condition->'all') LOOP
+            ids := ids || COALESCE(search.feature_condition_feature_ids(child), '{}');
+        END LOOP;
+        RETURN NULLIF(ids, '{}');
+    ELSIF jsonb_typeof(condition->'any') = 'array' THEN
+        FOR child IN SELECT value FROM jsonb_array_elements(condition->'any') LOOP
+            child_ids := search.feature_condition_feature_ids(child);
+            IF child_ids IS NULL THEN
+                RETURN NULL;
+            END IF;
+            ids := ids || child_ids;
+        END LOOP;
+        RETURN ids;
+    ELSIF jsonb_typeof(condition->'not') = 'object' THEN
+        RETURN NULL;
+    END IF;
+
+    -- Leaf: first key, as in evaluate_feature_condition()
+    feature_id := (SELECT jsonb_object_keys(condition) LIMIT 1);
+    IF feature_id IS NULL OR condition->feature_id->>'operator' = 'not_exists' THEN
+        RETURN NULL;
+    END IF;
+    RETURN ARRAY[feature_id];
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION search.feature_condition_feature_ids IS
+'Feature ids of which a product needs at least one to match an
+etim_feature_conditions value, or NULL when it can match without any
+(not_exists, not, an all of such conditions). Used to narrow candidates;
+the condition itself is still evaluated.';
+
+-- =====================================================================
+-- GET CLASSIFICATION RULES
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.get_classification_rules()
+RETURNS SETOF search.classification_rules AS $$
+    SELECT *
+    FROM search.classification_rules
+    ORDER BY priority, rule_name;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.get_classification_rules IS
+'All classification rules (active and inactive), by priority then name.';
+
+-- =====================================================================
+-- PREVIEW CLASSIFICATION CHANGES
+-- =====================================================================
+DROP FUNCTION IF EXISTS search.preview_classification_changes CASCADE;
+
+CREATE OR REPLACE FUNCTION search.preview_classification_changes(
+    p_changes JSONB,
+    p_sample_size INTEGER DEFAULT 10
+) RETURNS TABLE (
+    change_type TEXT,        -- 'product' (any change), 'taxonomy' or 'flag'
+    code TEXT,               -- Taxonomy code or flag name (NULL for 'product')
+    gained BIGINT,           -- Products that would get it
+    lost BIGINT,             -- Products that would lose it
+    sample_gained TEXT[],    -- foss_pids, first p_sample_size by foss_pid
+    sample_lost TEXT[]
+) AS $$
+DECLARE
+    v_sample_size INTEGER := LEAST(GREATEST(COALESCE(p_sample_size, 10), 0), 100);
+    v_unknown_id TEXT;
+BEGIN
+    IF p_changes IS NULL OR jsonb_typeof(p_changes) <> 'array' THEN
+        RAISE EXCEPTION 'p_changes must be a JSON array of rule changes'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- Edits must name an existing rule
+    SELECT c->>'id' INTO v_unknown_id
+    FROM jsonb_array_elements(p_changes) c
+    WHERE c ? 'id'
+      AND NOT EXISTS (
+          SELECT 1 FROM search.classification_rules cr
+          WHERE cr.id::TEXT = c->>'id'
+      )
+    LIMIT 1;
+
+    IF v_unknown_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Classification rule not found: %', v_unknown_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN QUERY
+    WITH edits AS (
+        -- Draft row per change: merged over the stored rule (the last change
+        -- wins when an id repeats), or over the column defaults for a new rule
+        SELECT DISTINCT ON (COALESCE(cr.id::TEXT, 'new:' || c.ordinality))
+            cr.id AS rule_id,
+            jsonb_populate_record(
+                COALESCE(cr, jsonb_populate_record(NULL::search.classification_rules,
+                                                   '{"active": true, "priority": 100}')),
+                c.value
+            ) AS draft
+        FROM jsonb_array_elements(p_changes) WITH ORDINALITY AS c(value, ordinality)
+        LEFT JOIN search.classification_rules cr ON cr.id::TEXT = c.value->>'id'
+        ORDER BY COALESCE(cr.id::TEXT, 'new:' || c.ordinality), c.ordinality DESC
+    ),
+    rule_versions AS (
+        -- Stored active versions of the changed rules, and their active drafts
+        SELECT v.side, v.rule_row,
+               search.feature_condition_feature_ids((v.rule_row).etim_feature_conditions) AS feature_ids
+        FROM (
+            SELECT 'before' AS side, cr AS rule_row
+            FROM search.classification_rules cr
+            WHERE cr.active = true
+              AND cr.id IN (SELECT e.rule_id FROM edits e)
+            UNION ALL
+            SELECT 'after', e.draft
+            FROM edits e
+            WHERE (e.draft).active = true
+        ) v
+    ),
+    unchanged_rules AS (
+        -- Unchanged rules giving one of the same codes/flags
+        SELECT cr AS rule_row
+        FROM search.classification_rules cr
+        WHERE cr.active = true
+          AND cr.id NOT IN (SELECT e.rule_id FROM edits e WHERE e.rule_id IS NOT NULL)
+          AND (cr.taxonomy_code IN (SELECT (rv.rule_row).taxonomy_code FROM rule_versions rv)
+               OR cr.flag_name IN (SELECT (rv.rule_row).flag_name FROM rule_versions rv))
+    ),
+    flag_columns AS (
+        -- Rule flags stored in product_taxonomy_flags (decorative/special are computed)
+        SELECT col.column_name::TEXT AS flag_name
+        FROM information_schema.columns col
+        WHERE col.table_schema = 'search'
+          AND col.table_name = 'product_taxonomy_flags'
+          AND col.data_type = 'boolean'
+          AND col.column_name NOT IN ('decorative', 'special')
+    ),
+    candidates AS (
+        -- Cheap pre-filter: products a changed version could match at all
+        SELECT pi AS product
+        FROM items.product_info pi
+        WHERE EXISTS (
+            SELECT 1 FROM rule_versions rv
+            WHERE pi."group" = ANY((rv.rule_row).etim_group_ids)
+               OR pi.class = ANY((rv.rule_row).etim_class_ids)
+               OR ((rv.rule_row).etim_feature_conditions IS NOT NULL
+                   AND (rv.feature_ids IS NULL
+                        OR EXISTS (
+                            SELECT 1 FROM unnest(rv.feature_ids) fid
+                            WHERE pi.features @> jsonb_build_array(jsonb_build_object('FEATUREID', fid))
+                        )))
+               OR pi.description_short ~* (rv.rule_row).text_pattern
+               OR pi.description_long ~* (rv.rule_row).text_pattern
+        )
+    ),
+    version_matches AS (
+        -- Each changed version matched once per candidate (referenced twice
+        -- below, so Postgres materializes it)
+        SELECT c.product, rv.side, rv.rule_row
+        FROM candidates c
+        INNER JOIN rule_versions rv ON search.classification_rule_matches(rv.rule_row, c.product)
+    ),
+    matches AS (
+        -- Only products a changed rule matches (before or after) can move
+        SELECT
+            (vm.product).product_id AS product_id,
+            (vm.product).foss_pid::TEXT AS foss_pid,
+            vm.side,
+            (vm.rule_row).taxonomy_code AS taxonomy_code,
+            (vm.rule_row).flag_name AS flag_name
+        FROM version_matches vm
+        UNION ALL
+        SELECT
+            (p.product).product_id,
+            (p.product).foss_pid::TEXT,
+            'both',
+            (ur.rule_row).taxonomy_code,
+            (ur.rule_row).flag_name
+        FROM (
+            SELECT DISTINCT ON ((vm.product).product_id) vm.product
+            FROM version_matches vm
+            ORDER BY (vm.product).product_id
+        ) p
+        INNER JOIN unchanged_rules ur ON search.classification_rule_matches(ur.rule_row, p.product)
+    ),
+    product_outputs AS (
+        SELECT
+            m.product_id, m.foss_pid,
+            'taxonomy' AS kind, m.taxonomy_code AS item,
+            bool_or(m.side <> 'after') AS had,
+            bool_or(m.side <> 'before') AS has
+        FROM matches m
+        WHERE m.taxonomy_code IS NOT NULL
+        GROUP BY m.product_id, m.foss_pid, m.taxonomy_code
+        UNION ALL
+        SELECT
+            m.product_id, m.foss_pid,
+            'flag', m.flag_name,
+            bool_or(m.side <> 'after'),
+            bool_or(m.side <> 'before')
+        FROM matches m
+        INNER JOIN flag_columns fc ON fc.flag_name = m.flag_name
+        GROUP BY m.product_id, m.foss_pid, m.flag_name
+    ),
+    diffs AS (
+        SELECT po.*
+        FROM product_outputs po
+        WHERE po.had <> po.has
+    )
+    SELECT r.kind, r.item, r.n_gained, r.n_lost, r.s_gained, r.s_lost
+    FROM (
+        SELECT
+            'product' AS kind,
+            NULL::TEXT AS item,
+            COUNT(DISTINCT d.product_id) FILTER (WHERE d.has) AS n_gained,
+            COUNT(DISTINCT d.product_id) FILTER (WHERE d.had) AS n_lost,
+            COALESCE((array_agg(DISTINCT d.foss_pid ORDER BY d.foss_pid) FILTER (WHERE d.has))[1:v_sample_size], '{}') AS s_gained,
+            COALESCE((array_agg(DISTINCT d.foss_pid ORDER BY d.foss_pid) FILTER (WHERE d.had))[1:v_sample_size], '{}') AS s_lost
+        FROM diffs d
+        UNION ALL
+        SELECT
+            d.kind,
+            d.item,
+            COUNT(*) FILTER (WHERE d.has),
+            COUNT(*) FILTER (WHERE d.had),
+            COALESCE((array_agg(d.foss_pid ORDER BY d.foss_pid) FILTER (WHERE d.has))[1:v_sample_size], '{}'),
+            COALESCE((array_agg(d.foss_pid ORDER BY d.foss_pid) FILTER (WHERE d.had))[1:v_sample_size], '{}')
+        FROM diffs d
+        GROUP BY d.kind, d.item
+    ) r
+    ORDER BY
+        CASE r.kind WHEN 'product' THEN 0 WHEN 'taxonomy' THEN 1 ELSE 2 END,
+        r.n_gained + r.n_lost DESC,
+        r.item;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.preview_classification_changes IS
+'Previews draft classification rule changes without writing anything.
+p_changes: JSON array; {"id": N, ...columns} edits rule N, an object without
+id is a new rule. Returns one ''product'' row (products gaining / losing
+anything) and one row per taxonomy code and flag that moves, with gained/lost
+product counts and up to p_sample_size (0-100) foss_pids each.
+Raises no_data_found for an unknown rule id.
+
+Example usage:
+SELECT * FROM search.preview_classification_changes(
+    ''[{"id": 12, "active": false}]''::jsonb
+);';
+
+-- =====================================================================
+-- PUBLIC WRAPPERS (SECURITY DEFINER)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION public.get_classification_rules()
+RETURNS SETOF search.classification_rules AS $$
+    SELECT * FROM search.get_classification_rules();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.preview_classification_changes(
+    p_changes JSONB,
+    p_sample_size INTEGER DEFAULT 10
+) RETURNS TABLE (
+    change_type TEXT,
+    code TEXT,
+    gained BIGINT,
+    lost BIGINT,
+    sample_gained TEXT[],
+    sample_lost TEXT[]
+) AS $$
+    SELECT * FROM search.preview_classification_changes(p_changes, p_sample_size);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Functions are executable by PUBLIC by default, so PUBLIC is revoked with
+-- anon and authenticated (anonymous sign-ins are authenticated too)
+REVOKE EXECUTE ON FUNCTION public.get_classification_rules() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.preview_classification_changes(JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_classification_rules() TO service_role;
+GRANT EXECUTE ON FUNCTION public.preview_classification_changes(JSONB, INTEGER) TO service_role;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Rule matching agrees with the stored classification
+-- (expect 0 for a freshly rebuilt product_taxonomy_flags)
+-- SELECT COUNT(*)
+-- FROM items.product_info pi
+-- INNER JOIN search.classification_rules cr ON cr.active = true AND cr.taxonomy_code IS NOT NULL
+-- LEFT JOIN search.product_taxonomy_flags ptf ON ptf.product_id = pi.product_id
+-- WHERE search.classification_rule_matches(cr, pi)
+--   AND NOT (cr.taxonomy_code = ANY(COALESCE(ptf.taxonomy_path, '{}')));
+
+-- Test 2: Deactivating a rule (lost counts, nothing gained)
+-- SELECT change_type, code, gained, lost, sample_lost
+-- FROM preview_classification_changes(
+--     jsonb_build_array(jsonb_build_object(
+--         'id', (SELECT id FROM search.classification_rules WHERE active ORDER BY priority LIMIT 1),
+--         'active', false
+--     ))
+-- );
+
+-- Test 3: A draft rule (new text pattern flag)
+-- SELECT * FROM preview_classification_changes(
+--     '[{"rule_name": "draft_dimmable_dali", "flag_name": "dimmable", "text_pattern": "\\mDALI\\M"}]'::jsonb,
+--     5
+-- );
+
+-- Test 4: Priority only (expect no rows besides an all-zero 'product' row)
+-- SELECT * FROM preview_classification_changes(
+--     jsonb_build_array(jsonb_build_object(
+--         'id', (SELECT id FROM search.classification_rules ORDER BY id LIMIT 1),
+--         'priority', 1
+--     ))
+-- );
+
+-- Test 5: Unknown rule id (expect ERROR: Classification rule not found: -1)
+-- SELECT * FROM preview_classification_changes('[{"id": -1, "active": false}]'::jsonb);
+
+-- Test 6: Candidate pre-filter keeps every match (expect 0)
+-- SELECT COUNT(*)
+-- FROM search.classification_rules cr
+-- CROSS JOIN LATERAL (SELECT pi FROM items.product_info pi LIMIT 10000) p
+-- WHERE cr.etim_feature_conditions IS NOT NULL
+--   AND search.feature_condition_feature_ids(cr.etim_feature_conditions) IS NOT NULL
+--   AND search.evaluate_feature_conditions((p.pi).features, cr.etim_feature_conditions)
+--   AND NOT EXISTS (
+--       SELECT 1 FROM unnest(search.feature_condition_feature_ids(cr.etim_feature_conditions)) fid
+--       WHERE (p.pi).features @> jsonb_build_array(jsonb_build_object('FEATUREID', fid))
+--   );
+
+-- Test 7: No anon access (expect permission denied)
+-- SET ROLE anon;
+-- SELECT * FROM preview_classification_changes('[]'::jsonb);
+-- RESET ROLE;
+
+-- Test 8: No access for an anonymous-session user (expect permission denied)
+-- BEGIN;
+-- SELECT set_config('request.jwt.claims',
+--     '{"sub": "00000000-0000-0000-0000-000000000001", "role": "authenticated", "is_anonymous": true}', true);
+-- SET LOCAL ROLE authenticated;
+-- SELECT * FROM get_classification_rules();
+-- SELECT * FROM preview_classification_changes('[]'::jsonb);
+-- ROLLBACK;
@@ -0,0 +1,270 @@
+-- =====================================================================
+-- 28-extend-feature-condition-grammar.sql
+-- =====================================================================
+-- Richer etim_feature_conditions for classification rules: more
+-- operators, and all/any/not across several ETIM features in one rule.
+--
+-- Grammar (a condition is a leaf or a combinator):
+--   { "EF000001": { "operator": "exists" } }                    -- leaf, as before
+--   { "EF000001": { "operator": "not_exists" } }                -- product has no EF000001
+--   { "EF000001": { "operator": "not_equals", "value": "EV000002" } }
+--   { "EF000001": { "operator": "in", "values": ["EV000001", "EV000002"] } }
+--   { "EF000001": { "operator": "regex", "value": "^(round|square)" } }
+--   { "all": [ <condition>, ... ] }                             -- every one matches
+--   { "any": [ <condition>, ... ] }                             -- at least one matches
+--   { "not": <condition> }                                      -- it doesn't match
+--
+-- Leaves keep their meaning: "some feature of the product satisfies it".
+-- not_equals is therefore "has the feature, with another value"; use
+-- { "not": { ... "equals" ... } } for "doesn't have that value".
+-- not_exists and the combinators look at the whole feature array, so they
+-- are evaluated by search.evaluate_feature_conditions(features, condition);
+-- search.evaluate_feature_condition(feature, condition) still evaluates
+-- one leaf against one feature (and returns false for not_exists).
+--
+-- Existing rules match exactly the same products: for a leaf,
+-- evaluate_feature_conditions() is the EXISTS over the features that the
+-- product_classifications WHERE clause used before. Both build paths now
+-- match with search.evaluate_feature_conditions(pi.features, cr.etim_feature_conditions):
+--   - sql/04 (product_taxonomy_flags matview, fresh installs; the
+--     functions themselves are in sql/01)
+--   - the rebuild (supabase/db-maintenance/rebuild-search-tables.sh, see
+--     sql/13): its feature-condition step reads
+--     search.product_feature_classifications below instead of its own
+--     per-feature EXISTS
+--
+-- search-classification.ts mirrors both functions; the conformance cases
+-- in sql/26 and search-classification-conformance.ts cover the new
+-- operators and combinators.
+--
+-- Objects:
+--   search.evaluate_feature_condition()    - + not_equals, in, regex
+--   search.evaluate_feature_conditions()   - Product-level: leaves, not_exists, all/any/not
+--   search.classification_rule_matches()   - Now uses evaluate_feature_conditions()
+--   search.product_feature_classifications - Feature-condition matches for the rebuild
+-- =====================================================================
+
+-- =====================================================================
+-- FEATURE CONDITION (one leaf, one feature)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.evaluate_feature_condition(
+    feature JSONB,
+    condition JSONB
+) RETURNS BOOLEAN AS $$
+DECLARE
+    feature_id TEXT;
+    operator TEXT;
+    expected_value TEXT;
+BEGIN
+    -- Extract feature ID from condition keys
+    feature_id := (SELECT jsonb_object_keys(condition) LIMIT 1);
+
+    -- Check if this is the feature we're looking for
+    IF (feature->>'FEATUREID') != feature_id THEN
+        RETURN false;
+    END IF;
+
+    -- Get operator and value from condition
+    operator := condition->feature_id->>'operator';
+    expected_value := condition->feature_id->>'value';
+
+    -- Evaluate based on operator
+    CASE operator
+        WHEN 'exists' THEN
+            -- Feature simply exists (any value)
+            RETURN true;
+        WHEN 'equals' THEN
+            -- Check alphanumeric or boolean value
+            RETURN (feature->>'fvalueC' = expected_value
+                    OR (feature->>'fvalueB')::TEXT = expected_value);
+        WHEN 'not_equals' THEN
+            -- Feature present without that value (no value at all counts)
+            RETURN NOT COALESCE(feature->>'fvalueC' = expected_value
+                                OR (feature->>'fvalueB')::TEXT = expected_value, false);
+        WHEN 'in' THEN
+            -- Alphanumeric or boolean value is one of "values"
+            RETURN EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements_text(COALESCE(condition->feature_id->'values', '[]'::jsonb)) AS v(value)
+                WHERE v.value = feature->>'fvalueC' OR v.value = feature->>'fvalueB'
+            );
+        WHEN 'contains' THEN
+            -- Text contains substring (case-insensitive)
+            RETURN (feature->>'fvalueC_desc' ILIKE '%' || expected_value || '%');
+        WHEN 'regex' THEN
+            -- Description matches a POSIX regex (case-insensitive)
+            RETURN (feature->>'fvalueC_desc' ~* expected_value);
+        WHEN 'greater_than' THEN
+            -- Numeric comparison
+            RETURN (feature->>'fvalueN')::NUMERIC > expected_value::NUMERIC;
+        WHEN 'less_than' THEN
+            -- Numeric comparison
+            RETURN (feature->>'fvalueN')::NUMERIC < expected_value::NUMERIC;
+        WHEN 'in_range' THEN
+            -- Numeric range
+            RETURN (feature->>'fvalueN')::NUMERIC BETWEEN
+                (condition->feature_id->>'min')::NUMERIC AND
+                (condition->feature_id->>'max')::NUMERIC;
+        ELSE
+            -- Unknown operators, and not_exists (see evaluate_feature_conditions)
+            RETURN false;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION search.evaluate_feature_condition IS
+'Evaluates whether a product feature matches a leaf condition from classification_rules.
+Operators: exists, equals, not_equals, in, contains, regex, greater_than, less_than, in_range.
+not_exists and all/any/not need the whole feature array: see evaluate_feature_conditions().';
+
+-- =====================================================================
+-- FEATURE CONDITIONS (whole condition, all features of a product)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.evaluate_feature_conditions(
+    features JSONB,
+    condition JSONB
+) RETURNS BOOLEAN AS $$
+DECLARE
+    feature_id TEXT;
+    child JSONB;
+BEGIN
+    -- Combinators (children evaluated in order, stopping once the result is known)
+    IF jsonb_typeof(condition->'all') = 'array' THEN
+        FOR child IN SELECT value FROM jsonb_array_elements(condition->'all') LOOP
+            IF NOT search.evaluate_feature_conditions(features, child) THEN
+                RETURN false;
+            END IF;
+        END LOOP;
+        RETURN true;
+    ELSIF jsonb_typeof(condition->'any') = 'array' THEN
+        FOR child IN SELECT value FROM jsonb_array_elements(condition->'any') LOOP
+            IF search.evaluate_feature_conditions(features, child) THEN
+                RETURN true;
+            END IF;
+        END LOOP;
+        RETURN false;
+    ELSIF jsonb_typeof(condition->'not') = 'object' THEN
+        RETURN NOT search.evaluate_feature_conditions(features, condition->'not');
+    END IF;
+
+    -- Leaf: first key, as in evaluate_feature_condition()
+    feature_id := (SELECT jsonb_object_keys(condition) LIMIT 1);
+
+    IF condition->feature_id->>'operator' = 'not_exists' THEN
+        RETURN NOT EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(features) f
+            WHERE search.evaluate_feature_condition(f, jsonb_build_object(feature_id, '{"operator": "exists"}'::jsonb))
+        );
+    END IF;
+
+    RETURN EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(features) f
+        WHERE search.evaluate_feature_condition(f, condition)
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION search.evaluate_feature_conditions IS
+'Whether a product feature array (items.product_info.features) satisfies an
+etim_feature_conditions value: a leaf matches when some feature matches it
+(not_exists when none has the feature id); {"all": [...]}, {"any": [...]} and
+{"not": {...}} combine conditions. Never returns NULL.';
+
+-- =====================================================================
+-- RULE MATCHING
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.classification_rule_matches(
+    p_rule search.classification_rules,
+    p_product items.product_info
+) RETURNS BOOLEAN AS $$
+    SELECT COALESCE(
+        -- Rule matches ETIM group
+        (p_rule.etim_group_ids IS NOT NULL
+         AND p_product."group" = ANY(p_rule.etim_group_ids))
+
+        -- Rule matches ETIM class
+        OR (p_rule.etim_class_ids IS NOT NULL
+            AND p_product.class = ANY(p_rule.etim_class_ids))
+
+        -- Rule matches feature conditions
+        OR (p_rule.etim_feature_conditions IS NOT NULL
+            AND search.evaluate_feature_conditions(p_product.features, p_rule.etim_feature_conditions))
+
+        -- Rule matches text pattern (case-insensitive)
+        OR (p_rule.text_pattern IS NOT NULL
+            AND (p_product.description_short ~* p_rule.text_pattern
+                 OR p_product.description_long ~* p_rule.text_pattern)),
+        false
+    );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search.classification_rule_matches IS
+'Whether a classification rule applies to a product: the rule conditions of the
+product_classifications WHERE clause (sql/04), without the active check.
+Feature conditions go through evaluate_feature_conditions() (all/any/not, not_exists).';
+
+-- =====================================================================
+-- REBUILD: FEATURE-CONDITION MATCHES
+-- =====================================================================
+-- The taxonomy rebuild splits rules by type (sql/13); this is its
+-- feature-condition step, so the grammar lives in one place:
+--   INSERT INTO <staging> SELECT * FROM search.product_feature_classifications;
+CREATE OR REPLACE VIEW search.product_feature_classifications AS
+SELECT
+    pi.product_id,
+    pi.foss_pid,
+    cr.taxonomy_code,
+    cr.flag_name,
+    cr.priority
+FROM search.classification_rules cr
+JOIN items.product_info pi
+    ON search.evaluate_feature_conditions(pi.features, cr.etim_feature_conditions)
+WHERE cr.active = true
+  AND cr.etim_feature_conditions IS NOT NULL;
+
+COMMENT ON VIEW search.product_feature_classifications IS
+'Products matched by the feature conditions of active classification rules
+(same columns as the product_classifications CTE of sql/04). Read by the
+feature-condition step of rebuild-search-tables.sh.';
+
+REVOKE ALL ON search.product_feature_classifications FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON search.product_feature_classifications TO service_role;
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Conformance (expect no rows)
+-- \i sql/26-test-classification-conformance.sql
+
+-- Test 2: Existing rules match the same products as before
+-- (expect 0: the former leaf EXISTS of sql/04 against the new function)
+-- SELECT COUNT(*)
+-- FROM search.classification_rules cr
+-- CROSS JOIN LATERAL (
+--     SELECT pi.features FROM items.product_info pi LIMIT 10000
+-- ) pi
+-- WHERE cr.etim_feature_conditions IS NOT NULL
+--   AND search.evaluate_feature_conditions(pi.features, cr.etim_feature_conditions)
+--       IS DISTINCT FROM EXISTS (
+--           SELECT 1 FROM jsonb_array_elements(pi.features) f
+--           WHERE search.evaluate_feature_condition(f, cr.etim_feature_conditions)
+--       );
+
+-- Test 3: Combined draft rule (ceiling-mountable but not wall-mountable)
+-- SELECT * FROM preview_classification_changes(
+--     '[{"rule_name": "draft_ceiling_only", "flag_name": "ceiling",
+--        "etim_feature_conditions": {"all": [
+--            {"EF021180": {"operator": "exists"}},
+--            {"EF000664": {"operator": "not_exists"}}
+--        ]}}]'::jsonb,
+--     5
+-- );
+
+-- Test 4: Feature-condition matches per rule, as the rebuild will insert them
+-- SELECT flag_name, taxonomy_code, COUNT(*)
+-- FROM search.product_feature_classifications
+-- GROUP BY flag_name, taxonomy_code
+-- ORDER BY flag_name;
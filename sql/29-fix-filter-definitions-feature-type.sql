@@ -0,0 +1,153 @@
+-- =====================================================================
+-- 29-fix-filter-definitions-feature-type.sql
+-- =====================================================================
+-- get_filter_definitions_with_type() returned 'A' for every filter
+-- (sql/10-create-filter-definitions-function.sql), so the filter panel
+-- never saw 'L', 'N' or 'R' and could not dispatch ETIM N features to
+-- its single-value NumericFilter.
+--
+-- The type now comes from search.filter_definitions.etim_feature_type:
+--   1. the column is created if missing (sql/10-add-location-options-filters.sql
+--      already writes 'L' into it for the flag filters)
+--   2. empty values are filled from the ETIM values the products carry for
+--      that feature: fvalueN -> N, fvalueR -> R, fvalueB -> L, fvalueC -> A
+--   3. a filter no product has a value for falls back to its filter_type
+--
+-- Objects:
+--   search.filter_definitions.etim_feature_type  - Column + check constraint
+--   search.get_filter_definitions_with_type()    - Returns the stored type
+-- =====================================================================
+
+-- =====================================================================
+-- COLUMN
+-- =====================================================================
+ALTER TABLE search.filter_definitions
+    ADD COLUMN IF NOT EXISTS etim_feature_type TEXT;
+
+ALTER TABLE search.filter_definitions
+    DROP CONSTRAINT IF EXISTS filter_definitions_etim_feature_type_check;
+
+ALTER TABLE search.filter_definitions
+    ADD CONSTRAINT filter_definitions_etim_feature_type_check
+    CHECK (etim_feature_type IN ('A', 'L', 'N', 'R'));
+
+COMMENT ON COLUMN search.filter_definitions.etim_feature_type IS
+'ETIM data type of the feature: A=Alphanumeric, L=Logical, N=Numeric, R=Range.
+Flag filters (no etim_feature_id) are L.';
+
+-- =====================================================================
+-- BACKFILL FROM PRODUCT FEATURES
+-- =====================================================================
+-- The value field an ETIM feature uses in items.product_info.features
+-- tells its type; the most common one wins if suppliers disagree.
+UPDATE search.filter_definitions fd
+SET etim_feature_type = observed.etim_feature_type,
+    updated_at = NOW()
+FROM (
+    SELECT DISTINCT ON (feature_id)
+        feature_id,
+        etim_feature_type
+    FROM (
+        SELECT
+            f->>'id' AS feature_id,
+            CASE
+                WHEN f->>'fvalueN' IS NOT NULL THEN 'N'
+                WHEN f->>'fvalueR' IS NOT NULL THEN 'R'
+                WHEN f->>'fvalueB' IS NOT NULL THEN 'L'
+                ELSE 'A'
+            END AS etim_feature_type
+        FROM items.product_info pi
+        CROSS JOIN LATERAL jsonb_array_elements(pi.features) f
+        WHERE f->>'id' IN (
+            SELECT etim_feature_id
+            FROM search.filter_definitions
+            WHERE etim_feature_id IS NOT NULL
+              AND etim_feature_type IS NULL
+        )
+          AND COALESCE(f->>'fvalueN', f->>'fvalueR', f->>'fvalueB', f->>'fvalueC') IS NOT NULL
+    ) typed
+    GROUP BY feature_id, etim_feature_type
+    ORDER BY feature_id, COUNT(*) DESC, etim_feature_type
+) observed
+WHERE fd.etim_feature_id = observed.feature_id
+  AND fd.etim_feature_type IS NULL;
+
+-- Flag filters (product_taxonomy_flags columns, no ETIM feature)
+UPDATE search.filter_definitions
+SET etim_feature_type = 'L',
+    updated_at = NOW()
+WHERE etim_feature_id IS NULL
+  AND filter_type = 'boolean'
+  AND etim_feature_type IS NULL;
+
+-- =====================================================================
+-- FUNCTION
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.get_filter_definitions_with_type(
+    p_taxonomy_code TEXT DEFAULT 'LUMINAIRE'
+)
+RETURNS TABLE (
+    filter_key TEXT,
+    label TEXT,
+    filter_type TEXT,
+    etim_feature_id TEXT,
+    etim_feature_type TEXT,
+    ui_config JSONB,
+    display_order INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        fd.filter_key,
+        fd.label,
+        fd.filter_type,
+        fd.etim_feature_id,
+        COALESCE(
+            fd.etim_feature_type,
+            -- No product has a value for the feature yet
+            CASE fd.filter_type
+                WHEN 'boolean' THEN 'L'
+                WHEN 'numeric' THEN 'N'
+                WHEN 'range' THEN 'R'
+                WHEN 'numeric_range' THEN 'R'
+                ELSE 'A'
+            END
+        ) AS etim_feature_type,
+        fd.ui_config,
+        fd.display_order
+    FROM search.filter_definitions fd
+    WHERE fd.active = true
+      -- NULL applicable_taxonomy_codes = universal filter
+      AND (
+        fd.applicable_taxonomy_codes IS NULL
+        OR p_taxonomy_code = ANY(fd.applicable_taxonomy_codes)
+      )
+    ORDER BY fd.display_order;
+END;
+$$;
+
+COMMENT ON FUNCTION search.get_filter_definitions_with_type IS
+'Returns filter definitions applicable to a specific taxonomy code.
+
+Filters with NULL applicable_taxonomy_codes are universal (shown everywhere).
+etim_feature_type is filter_definitions.etim_feature_type (A=Alphanumeric,
+L=Logical, N=Numeric, R=Range), or derived from filter_type when unset.';
+
+-- public.get_filter_definitions_with_type() (sql/10) selects * from this
+-- function and keeps working unchanged.
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: Types per filter (flag filters L, CCT / lumens N, IP rating A)
+-- SELECT filter_key, filter_type, etim_feature_id, etim_feature_type
+-- FROM get_filter_definitions_with_type('LUMINAIRE');
+
+-- Test 2: Filters still without a stored type (expect only unused features)
+-- SELECT filter_key, etim_feature_id
+-- FROM search.filter_definitions
+-- WHERE active = true AND etim_feature_type IS NULL;
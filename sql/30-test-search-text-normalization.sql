@@ -0,0 +1,61 @@
+-- =====================================================================
+-- 30-test-search-text-normalization.sql
+-- =====================================================================
+-- Corpus check for search.normalize_search_text() (sql/25).
+--
+-- normalizeSearchText() in search-normalize.ts normalises v3 queries
+-- and must fold text exactly like the SQL function that builds
+-- search.product_search.fts, or Greek / Greeklish queries stop matching.
+-- The rows below are SEARCH_TEXT_CORPUS from
+-- search-normalize-conformance.ts, in the same order; keep the lists
+-- identical.
+--
+-- Run after changing either function:
+--   - this script returns no rows when the SQL function matches the corpus
+--   - checkSearchTextNormalization() returns [] when the TS function does
+--
+-- Read-only.
+-- =====================================================================
+
+WITH corpus (input, expected) AS (
+  VALUES
+    ('Φωτιστικό οροφής LED 3000K',        'fotistiko orofis led 3000k'),
+    ('Χωνευτό σποτ IP65',                 'chonevto spot ip65'),
+    ('Προβολέας εξωτερικού χώρου',        'provoleas exoterikou chorou'),
+    ('Ψυχρό λευκό 6500K',                 'psychro levko 6500k'),
+    ('Απλίκα τοίχου μαύρη',               'aplika toichou mavri'),
+    ('Γραμμικό φωτιστικό αλουμινίου',     'grammiko fotistiko alouminiou'),
+    ('Ταινία LED 24V θερμό λευκό',        'tainia led 24v thermo levko'),
+    ('Κρεμαστό φωτιστικό ράγας',          'kremasto fotistiko ragas'),
+    ('Επιφανειακό στεγανό IP66',          'epifaneiako stegano ip66'),
+    ('Φωτεινός δακτύλιος',                'foteinos daktylios'),
+    ('Ρυθμιζόμενη δέσμη 24°-60°',         'rythmizomeni desmi 24°-60°'),
+    ('Τροφοδοτικό σταθερής τάσης 24V DC', 'trofodotiko statheris tasis 24v dc'),
+    ('Ποδαρικό ψηλό δαπέδου',             'podariko psilo dapedou'),
+    ('Διακόπτης αφής ντίμερ',             'diakoptis afis ntimer'),
+    ('Προϊόντα εξωτερικού χώρου',         'proionta exoterikou chorou'),
+    ('Ευρωπαϊκό πρότυπο',                 'evropaiko protypo'),
+    ('ΦΩΤΙΣΤΙΚΟ ΟΡΟΦΗΣ',                  'fotistiko orofis'),
+    ('ΑΛΟΥΜΙΝΙΟ ΜΑΥΡΟ ΜΑΤ',               'alouminio mavro mat'),
+    ('ΛΑΜΠΤΗΡΑΣ LED E27 9W',              'lamptiras led e27 9w'),
+    ('ΧΩΝΕΥΤΟ ΣΠΟΤ',                      'chonevto spot'),
+    ('LΕD Downlight',                     'led downlight'),
+    ('Μοντέλο DALI-2 dimmable',           'montelo dali-2 dimmable'),
+    ('Προφίλ αλουμινίου για LED strip',   'profil alouminiou gia led strip'),
+    ('Recessed downlight 3000K CRI90',    'recessed downlight 3000k cri90'),
+    ('Track spotlight, 3-phase, black',   'track spotlight, 3-phase, black'),
+    ('Café  Crème   finish',              'cafe creme finish'),
+    ('Façade wall washer',                'facade wall washer'),
+    ('Señal Über Ångström',               'senal uber angstrom'),
+    ('fotistiko orofis',                  'fotistiko orofis'),
+    ('chonevto spot ip65',                'chonevto spot ip65'),
+    ('provoleas exoterikou chorou',       'provoleas exoterikou chorou'),
+    (E'  Leading and trailing\tspaces\n', 'leading and trailing spaces'),
+    ('',                                  '')
+)
+SELECT
+  input,
+  expected,
+  search.normalize_search_text(input) AS actual
+FROM corpus
+WHERE search.normalize_search_text(input) IS DISTINCT FROM expected;
@@ -0,0 +1,35 @@
+-- =====================================================================
+-- 31-make-voltage-a-range-filter.sql
+-- =====================================================================
+-- The voltage filter was defined as 'multi-select' (sql/02), so the
+-- server actions validated it as an array of strings ("220-240V"),
+-- while search_products_v3 / count_products_v3 filter the numeric
+-- product_search.voltage column by p_filters->'voltage'->>'min'/'max'.
+-- A selected voltage was accepted and then ignored, and the { min, max }
+-- range the query parser builds for "24V" or "220-240V" was rejected.
+--
+-- Voltage is now a range filter everywhere, like cct and lumens_output:
+--   p_filters: {"voltage": {"min": 220, "max": 240}}
+--
+-- Objects:
+--   search.filter_definitions ('voltage')  - filter_type 'range', FilterRange
+-- =====================================================================
+
+UPDATE search.filter_definitions
+SET filter_type = 'range',
+    ui_component = 'FilterRange',
+    ui_config = '{"filter_category": "electricals", "min": 0, "max": 1000, "step": 1, "unit": "V"}'::JSONB,
+    updated_at = NOW()
+WHERE filter_key = 'voltage';
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: voltage is a range with V bounds
+-- SELECT filter_key, filter_type, ui_component, ui_config
+-- FROM get_active_filter_definitions() WHERE filter_key = 'voltage';
+
+-- Test 2: A 220-240 V range filters the search (every voltage between 220 and 240)
+-- SELECT DISTINCT voltage FROM search_products_v3(
+--     p_filters := '{"voltage": {"min": 220, "max": 240}}'::JSONB, p_limit := 100);
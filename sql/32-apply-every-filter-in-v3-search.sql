@@ -0,0 +1,465 @@
+-- =====================================================================
+-- 32-apply-every-filter-in-v3-search.sql
+-- =====================================================================
+-- search_products_v3 / count_products_v3 only read a fixed set of
+-- p_filters keys (the product_search columns: class, ip, cri, cct, ...).
+-- Every other active filter - ik, material, colour_consistency,
+-- max_power, beam_angle, efficacy, ... - was accepted by the server
+-- actions and then silently dropped, so the results ignored it.
+--
+-- Both functions now build their technical filter conditions with
+-- search.v3_filter_conditions():
+--   - keys with a product_search column keep the column condition
+--     (indexed, same SQL as before)
+--   - every other active filter_definitions key matches through
+--     search.product_filter_index, by the definition's filter_type
+--     (array = any of the values, { min, max } = range, boolean = flag)
+--   - unknown or inactive keys and values of the wrong shape raise
+--     invalid_parameter_value instead of being ignored
+--
+-- Objects:
+--   search.v3_filter_conditions()  - New (WHERE fragment for p_filters)
+--   search.search_products_v3()    - Replaced in place (sql/23 body, same
+--                                    signature, public wrapper unchanged)
+--   search.count_products_v3()     - Replaced in place (sql/11 body, same
+--                                    signature, public wrapper unchanged)
+-- =====================================================================
+
+-- =====================================================================
+-- V3 FILTER CONDITIONS
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.v3_filter_conditions(
+    p_filters JSONB
+) RETURNS TEXT AS $$
+DECLARE
+    f RECORD;
+    filter_kind TEXT;
+    column_name TEXT;
+    conditions TEXT := '';
+BEGIN
+    FOR f IN SELECT key, value FROM jsonb_each(COALESCE(p_filters, '{}'::JSONB)) LOOP
+        -- Columns of search.product_search (indexed, no filter index lookup)
+        column_name := CASE f.key
+            WHEN 'class' THEN 'protection_class'
+            WHEN 'ip' THEN 'ip_rating'
+            WHEN 'finishing_colour' THEN 'finishing_colour'
+            WHEN 'cri' THEN 'cri'
+            WHEN 'beam_angle_type' THEN 'beam_angle_type'
+            WHEN 'light_source' THEN 'light_source'
+            WHEN 'light_distribution' THEN 'light_distribution'
+            WHEN 'dimmable' THEN 'dimmable'
+            WHEN 'indoor' THEN 'indoor'
+            WHEN 'outdoor' THEN 'outdoor'
+            WHEN 'submersible' THEN 'submersible'
+            WHEN 'trimless' THEN 'trimless'
+            WHEN 'cut_shape_round' THEN 'cut_shape_round'
+            WHEN 'cut_shape_rectangular' THEN 'cut_shape_rectangular'
+            WHEN 'cct' THEN 'cct'
+            WHEN 'lumens_output' THEN 'lumens_output'
+            WHEN 'voltage' THEN 'voltage'
+        END;
+
+        SELECT CASE fd.filter_type
+            WHEN 'range' THEN 'range'
+            WHEN 'numeric_range' THEN 'range'
+            WHEN 'numeric' THEN 'range'
+            WHEN 'multi-select' THEN 'values'
+            WHEN 'categorical' THEN 'values'
+            WHEN 'alphanumeric' THEN 'values'
+            WHEN 'boolean' THEN 'boolean'
+        END
+        INTO filter_kind
+        FROM search.filter_definitions fd
+        WHERE fd.filter_key = f.key AND fd.active = TRUE;
+
+        -- Column keys keep working without a definition, as before
+        IF filter_kind IS NULL AND column_name IS NOT NULL THEN
+            filter_kind := CASE
+                WHEN f.key IN ('cct', 'lumens_output', 'voltage') THEN 'range'
+                WHEN column_name IN ('protection_class', 'ip_rating', 'finishing_colour', 'cri',
+                                     'beam_angle_type', 'light_source', 'light_distribution') THEN 'values'
+                ELSE 'boolean'
+            END;
+        END IF;
+
+        IF filter_kind IS NULL THEN
+            RAISE EXCEPTION 'Unknown filter: %', f.key
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF (filter_kind = 'values' AND jsonb_typeof(f.value) <> 'array')
+           OR (filter_kind = 'range' AND jsonb_typeof(f.value) <> 'object')
+           OR (filter_kind = 'boolean' AND jsonb_typeof(f.value) <> 'boolean') THEN
+            RAISE EXCEPTION 'Filter % takes a % value, got %', f.key, filter_kind, jsonb_typeof(f.value)
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF column_name IS NOT NULL THEN
+            -- Use IN (subquery) instead of = ANY(ARRAY(...)) for better index usage
+            IF filter_kind = 'values' THEN
+                conditions := conditions || ' AND ps.' || quote_ident(column_name)
+                    || ' IN (SELECT jsonb_array_elements_text(' || quote_literal(f.value) || '::JSONB))';
+            ELSIF filter_kind = 'range' THEN
+                IF f.value->>'min' IS NOT NULL THEN
+                    conditions := conditions || ' AND ps.' || quote_ident(column_name) || ' >= ' || (f.value->>'min')::NUMERIC;
+                END IF;
+                IF f.value->>'max' IS NOT NULL THEN
+                    conditions := conditions || ' AND ps.' || quote_ident(column_name) || ' <= ' || (f.value->>'max')::NUMERIC;
+                END IF;
+            ELSE
+                conditions := conditions || ' AND ps.' || quote_ident(column_name) || ' = ' || (f.value)::TEXT::BOOLEAN;
+            END IF;
+        ELSE
+            -- Every other filter: the product must have a matching filter index row
+            conditions := conditions || ' AND EXISTS (SELECT 1 FROM search.product_filter_index pfi'
+                || ' WHERE pfi.product_id = ps.product_id AND pfi.filter_key = ' || quote_literal(f.key);
+            IF filter_kind = 'values' THEN
+                conditions := conditions || ' AND pfi.alphanumeric_value IN (SELECT jsonb_array_elements_text('
+                    || quote_literal(f.value) || '::JSONB))';
+            ELSIF filter_kind = 'range' THEN
+                IF f.value->>'min' IS NOT NULL THEN
+                    conditions := conditions || ' AND pfi.numeric_value >= ' || (f.value->>'min')::NUMERIC;
+                END IF;
+                IF f.value->>'max' IS NOT NULL THEN
+                    conditions := conditions || ' AND pfi.numeric_value <= ' || (f.value->>'max')::NUMERIC;
+                END IF;
+            ELSE
+                conditions := conditions || ' AND pfi.boolean_value = ' || (f.value)::TEXT::BOOLEAN;
+            END IF;
+            conditions := conditions || ')';
+        END IF;
+    END LOOP;
+
+    RETURN conditions;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.v3_filter_conditions IS
+'WHERE fragment (" AND ...") for the p_filters of search_products_v3 and count_products_v3.
+product_search column keys use the column, every other active filter_definitions key
+matches through product_filter_index. Unknown keys and wrong value shapes raise 22023.';
+
+-- =====================================================================
+-- SEARCH PRODUCTS V3 (EVERY FILTER)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.search_products_v3(
+    p_query TEXT DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_suppliers TEXT[] DEFAULT NULL,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL,
+    p_sort_by TEXT DEFAULT 'relevance',
+    p_limit INTEGER DEFAULT 24,
+    p_offset INTEGER DEFAULT 0,
+    p_cursor_sort_value TEXT DEFAULT NULL,
+    p_cursor_product_id UUID DEFAULT NULL
+) RETURNS TABLE (
+    product_id UUID,
+    foss_pid TEXT,
+    description_short TEXT,
+    description_long TEXT,
+    supplier_name TEXT,
+    class_name TEXT,
+    price NUMERIC,
+    image_url TEXT,
+    taxonomy_path TEXT[],
+    -- Direct feature columns (no more JSONB)
+    voltage NUMERIC,
+    cct NUMERIC,
+    cri TEXT,
+    ip_rating TEXT,
+    finishing_colour TEXT,
+    light_source TEXT,
+    light_distribution TEXT,
+    beam_angle_type TEXT,
+    protection_class TEXT,
+    lumens_output NUMERIC,
+    -- Boolean flags
+    indoor BOOLEAN,
+    outdoor BOOLEAN,
+    ceiling BOOLEAN,
+    wall BOOLEAN,
+    recessed BOOLEAN,
+    dimmable BOOLEAN,
+    submersible BOOLEAN,
+    trimless BOOLEAN,
+    cut_shape_round BOOLEAN,
+    cut_shape_rectangular BOOLEAN,
+    -- Relevance
+    relevance_score REAL
+) AS $$
+DECLARE
+    base_where TEXT := 'WHERE TRUE';
+    bool_col TEXT;
+    taxonomy_handled BOOLEAN := FALSE;
+    order_clause TEXT;
+    sort_expr TEXT;
+    sort_dir TEXT := 'ASC';
+    sort_type TEXT := 'TEXT';
+    sort_column TEXT;
+    cursor_value TEXT;
+    dyn_sql TEXT;
+    supplier_list TEXT;
+BEGIN
+    -- === TAXONOMY FILTER ===
+    -- Map taxonomy codes to boolean columns (uses partial indexes, 35x faster)
+    IF p_taxonomy_codes IS NOT NULL AND cardinality(p_taxonomy_codes) > 0 THEN
+        -- Check if ALL codes have boolean column mappings
+        SELECT string_agg('ps.' || quote_ident(t.boolean_column) || ' = TRUE', ' AND ')
+        INTO bool_col
+        FROM search.taxonomy t
+        WHERE t.code = ANY(p_taxonomy_codes) AND t.boolean_column IS NOT NULL;
+
+        IF bool_col IS NOT NULL AND
+           (SELECT COUNT(*) FROM search.taxonomy WHERE code = ANY(p_taxonomy_codes) AND boolean_column IS NOT NULL)
+           = cardinality(p_taxonomy_codes) THEN
+            -- All codes mapped to booleans — use indexed columns
+            base_where := base_where || ' AND (' || bool_col || ')';
+            taxonomy_handled := TRUE;
+        END IF;
+
+        IF NOT taxonomy_handled THEN
+            -- Fallback: use taxonomy_path array overlap (for unmapped codes)
+            base_where := base_where || ' AND ps.taxonomy_path && ' || quote_literal(p_taxonomy_codes::TEXT) || '::TEXT[]';
+        END IF;
+    END IF;
+
+    -- === FTS ===
+    IF p_query IS NOT NULL THEN
+        base_where := base_where || ' AND ps.fts @@ plainto_tsquery(''english'', ' || quote_literal(p_query) || ')';
+    END IF;
+
+    -- === BOOLEAN FLAGS ===
+    IF p_indoor IS NOT NULL THEN base_where := base_where || ' AND ps.indoor = ' || p_indoor; END IF;
+    IF p_outdoor IS NOT NULL THEN base_where := base_where || ' AND ps.outdoor = ' || p_outdoor; END IF;
+    IF p_submersible IS NOT NULL THEN base_where := base_where || ' AND ps.submersible = ' || p_submersible; END IF;
+    IF p_trimless IS NOT NULL THEN base_where := base_where || ' AND ps.trimless = ' || p_trimless; END IF;
+    IF p_cut_shape_round IS NOT NULL THEN base_where := base_where || ' AND ps.cut_shape_round = ' || p_cut_shape_round; END IF;
+    IF p_cut_shape_rectangular IS NOT NULL THEN base_where := base_where || ' AND ps.cut_shape_rectangular = ' || p_cut_shape_rectangular; END IF;
+
+    -- === SUPPLIER ===
+    -- Use = for single supplier (enables composite index), IN for multiple
+    IF p_suppliers IS NOT NULL AND cardinality(p_suppliers) > 0 THEN
+        IF cardinality(p_suppliers) = 1 THEN
+            base_where := base_where || ' AND ps.supplier_name = ' || quote_literal(p_suppliers[1]);
+        ELSE
+            SELECT string_agg(quote_literal(s), ', ') INTO supplier_list FROM unnest(p_suppliers) s;
+            base_where := base_where || ' AND ps.supplier_name IN (' || supplier_list || ')';
+        END IF;
+    END IF;
+
+    -- === TECHNICAL FILTERS (every p_filters key) ===
+    base_where := base_where || search.v3_filter_conditions(p_filters);
+
+    -- === ORDER BY ===
+    -- Every sort ends with ps.product_id so the order is total and a
+    -- (sort value, product_id) cursor identifies exactly one position.
+    -- Column sorts are '<column>_asc' / '<column>_desc' (supplier = supplier_name).
+    IF p_sort_by = 'relevance' AND p_query IS NOT NULL THEN
+        sort_expr := 'ts_rank(ps.fts, plainto_tsquery(''english'', ' || quote_literal(p_query) || '))';
+        sort_dir := 'DESC';
+        sort_type := 'REAL';
+    ELSIF p_sort_by = 'name' THEN
+        sort_expr := 'ps.description_short';
+    ELSIF p_sort_by ~ '^(price|lumens_output|cct|voltage|supplier|foss_pid)_(asc|desc)$' THEN
+        sort_column := regexp_replace(p_sort_by, '_(asc|desc)$', '');
+        sort_expr := 'ps.' || CASE sort_column WHEN 'supplier' THEN 'supplier_name' ELSE sort_column END;
+        IF right(p_sort_by, 5) = '_desc' THEN
+            sort_dir := 'DESC';
+        END IF;
+        IF sort_column IN ('price', 'lumens_output', 'cct', 'voltage') THEN
+            sort_type := 'NUMERIC';
+        END IF;
+    ELSE
+        sort_expr := 'ps.foss_pid';
+    END IF;
+
+    order_clause := 'ORDER BY ' || sort_expr || ' ' || sort_dir || ' NULLS LAST, ps.product_id ASC';
+
+    -- === KEYSET CURSOR ===
+    -- Rows strictly after the last row of the previous page. NULL sort
+    -- values sort last, so a NULL cursor value only continues within NULLs.
+    IF p_cursor_product_id IS NOT NULL THEN
+        IF p_cursor_sort_value IS NULL THEN
+            base_where := base_where || ' AND ' || sort_expr || ' IS NULL'
+                || ' AND ps.product_id > ' || quote_literal(p_cursor_product_id) || '::UUID';
+        ELSE
+            cursor_value := quote_literal(p_cursor_sort_value) || '::' || sort_type;
+            base_where := base_where || ' AND (' || sort_expr
+                || CASE WHEN sort_dir = 'ASC' THEN ' > ' ELSE ' < ' END || cursor_value
+                || ' OR (' || sort_expr || ' = ' || cursor_value
+                || ' AND ps.product_id > ' || quote_literal(p_cursor_product_id) || '::UUID)'
+                || ' OR ' || sort_expr || ' IS NULL)';
+        END IF;
+    END IF;
+
+    -- === EXECUTE ===
+    dyn_sql := format(
+        'SELECT ps.product_id, ps.foss_pid, ps.description_short, ps.description_long,
+                ps.supplier_name, ps.class_name, ps.price, ps.image_url, ps.taxonomy_path,
+                ps.voltage, ps.cct, ps.cri, ps.ip_rating, ps.finishing_colour,
+                ps.light_source, ps.light_distribution, ps.beam_angle_type,
+                ps.protection_class, ps.lumens_output,
+                ps.indoor, ps.outdoor, ps.ceiling, ps.wall, ps.recessed,
+                ps.dimmable, ps.submersible, ps.trimless,
+                ps.cut_shape_round, ps.cut_shape_rectangular,
+                CASE WHEN %L IS NOT NULL AND ps.fts @@ plainto_tsquery(''english'', %L)
+                     THEN ts_rank(ps.fts, plainto_tsquery(''english'', %L))
+                     WHEN %L IS NOT NULL THEN 0.0 ELSE 1.0 END::REAL as relevance_score
+         FROM search.product_search ps %s %s LIMIT %s OFFSET %s',
+        p_query, p_query, p_query, p_query,
+        base_where, order_clause, p_limit, p_offset
+    );
+
+    RETURN QUERY EXECUTE dyn_sql;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search.search_products_v3 IS
+'v3 search using dynamic SQL with boolean column mapping.
+Maps taxonomy codes to boolean columns via search.taxonomy.boolean_column,
+enabling partial index usage (35x faster than taxonomy_path GIN for broad categories).
+Falls back to taxonomy_path array overlap for unmapped codes.
+
+Pagination: p_offset, or keyset via p_cursor_sort_value + p_cursor_product_id
+(sort value and product_id of the last row of the previous page).
+
+p_sort_by and the matching cursor sort value:
+  relevance (with query)               -> relevance_score
+  name                                 -> description_short
+  price_asc / price_desc               -> price
+  lumens_output_asc / _desc            -> lumens_output
+  cct_asc / cct_desc                   -> cct
+  voltage_asc / voltage_desc           -> voltage
+  supplier_asc / supplier_desc         -> supplier_name
+  foss_pid_asc / foss_pid_desc         -> foss_pid
+  otherwise (incl. relevance w/o query) -> foss_pid ascending
+NULL sort values always come last; product_id ASC breaks ties.';
+
+-- =====================================================================
+-- COUNT PRODUCTS V3 (EVERY FILTER)
+-- =====================================================================
+CREATE OR REPLACE FUNCTION search.count_products_v3(
+    p_query TEXT DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_taxonomy_codes TEXT[] DEFAULT NULL,
+    p_suppliers TEXT[] DEFAULT NULL,
+    p_indoor BOOLEAN DEFAULT NULL,
+    p_outdoor BOOLEAN DEFAULT NULL,
+    p_submersible BOOLEAN DEFAULT NULL,
+    p_trimless BOOLEAN DEFAULT NULL,
+    p_cut_shape_round BOOLEAN DEFAULT NULL,
+    p_cut_shape_rectangular BOOLEAN DEFAULT NULL
+) RETURNS BIGINT AS $$
+DECLARE
+    result BIGINT;
+    base_where TEXT := 'WHERE TRUE';
+    bool_col TEXT;
+    taxonomy_handled BOOLEAN := FALSE;
+    has_extra_filters BOOLEAN;
+    supplier_list TEXT;
+    explain_result JSONB;
+BEGIN
+    -- Check if there are any filters beyond taxonomy
+    has_extra_filters := (
+        p_query IS NOT NULL OR
+        p_indoor IS NOT NULL OR p_outdoor IS NOT NULL OR
+        p_submersible IS NOT NULL OR p_trimless IS NOT NULL OR
+        p_cut_shape_round IS NOT NULL OR p_cut_shape_rectangular IS NOT NULL OR
+        (p_suppliers IS NOT NULL AND cardinality(p_suppliers) > 0) OR
+        (p_filters IS NOT NULL AND p_filters != '{}'::JSONB)
+    );
+
+    -- FAST PATH: taxonomy-only count → use pre-computed value
+    IF NOT has_extra_filters AND p_taxonomy_codes IS NOT NULL AND cardinality(p_taxonomy_codes) = 1 THEN
+        SELECT t.product_count INTO result
+        FROM search.taxonomy t
+        WHERE t.code = p_taxonomy_codes[1] AND t.product_count > 0;
+
+        IF FOUND AND result IS NOT NULL THEN
+            RETURN result;
+        END IF;
+    END IF;
+
+    -- STANDARD PATH: dynamic SQL with boolean column mapping
+    IF p_taxonomy_codes IS NOT NULL AND cardinality(p_taxonomy_codes) > 0 THEN
+        SELECT string_agg('ps.' || quote_ident(t.boolean_column) || ' = TRUE', ' AND ')
+        INTO bool_col
+        FROM search.taxonomy t
+        WHERE t.code = ANY(p_taxonomy_codes) AND t.boolean_column IS NOT NULL;
+
+        IF bool_col IS NOT NULL AND
+           (SELECT COUNT(*) FROM search.taxonomy WHERE code = ANY(p_taxonomy_codes) AND boolean_column IS NOT NULL)
+           = cardinality(p_taxonomy_codes) THEN
+            base_where := base_where || ' AND (' || bool_col || ')';
+            taxonomy_handled := TRUE;
+        END IF;
+
+        IF NOT taxonomy_handled THEN
+            base_where := base_where || ' AND ps.taxonomy_path && ' || quote_literal(p_taxonomy_codes::TEXT) || '::TEXT[]';
+        END IF;
+    END IF;
+
+    IF p_query IS NOT NULL THEN
+        base_where := base_where || ' AND ps.fts @@ plainto_tsquery(''english'', ' || quote_literal(p_query) || ')';
+    END IF;
+
+    IF p_indoor IS NOT NULL THEN base_where := base_where || ' AND ps.indoor = ' || p_indoor; END IF;
+    IF p_outdoor IS NOT NULL THEN base_where := base_where || ' AND ps.outdoor = ' || p_outdoor; END IF;
+    IF p_submersible IS NOT NULL THEN base_where := base_where || ' AND ps.submersible = ' || p_submersible; END IF;
+    IF p_trimless IS NOT NULL THEN base_where := base_where || ' AND ps.trimless = ' || p_trimless; END IF;
+    IF p_cut_shape_round IS NOT NULL THEN base_where := base_where || ' AND ps.cut_shape_round = ' || p_cut_shape_round; END IF;
+    IF p_cut_shape_rectangular IS NOT NULL THEN base_where := base_where || ' AND ps.cut_shape_rectangular = ' || p_cut_shape_rectangular; END IF;
+
+    IF p_suppliers IS NOT NULL AND cardinality(p_suppliers) > 0 THEN
+        IF cardinality(p_suppliers) = 1 THEN
+            base_where := base_where || ' AND ps.supplier_name = ' || quote_literal(p_suppliers[1]);
+        ELSE
+            SELECT string_agg(quote_literal(s), ', ') INTO supplier_list FROM unnest(p_suppliers) s;
+            base_where := base_where || ' AND ps.supplier_name IN (' || supplier_list || ')';
+        END IF;
+    END IF;
+
+    base_where := base_where || search.v3_filter_conditions(p_filters);
+
+    -- Use EXPLAIN estimate for large result sets (instant), exact count for small ones
+    EXECUTE 'EXPLAIN (FORMAT JSON) SELECT * FROM search.product_search ps ' || base_where INTO explain_result;
+    result := (explain_result->0->'Plan'->>'Plan Rows')::BIGINT;
+
+    -- For small-to-moderate result sets (< 500K), do exact count (fast enough)
+    IF result < 500000 THEN
+        EXECUTE 'SELECT COUNT(*) FROM search.product_search ps ' || base_where INTO result;
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+COMMENT ON FUNCTION search.count_products_v3 IS
+'v3 count with boolean column mapping + fast path for taxonomy-only counts.
+Uses pre-computed taxonomy.product_count when no filters are active (instant).
+Dynamic SQL with boolean columns for filtered counts (35x faster than taxonomy_path).';
+
+-- =====================================================================
+-- Verification Queries (Run these after deployment)
+-- =====================================================================
+
+-- Test 1: A filter without a product_search column narrows the results
+-- SELECT count_products_v3(p_filters := '{"ik": ["IK08"]}'::JSONB);
+-- SELECT count_products_v3(p_filters := '{"ik": ["IK08"], "ip": ["IP65"]}'::JSONB);
+
+-- Test 2: Range filters through the filter index (max_power in W)
+-- SELECT foss_pid FROM search_products_v3(
+--     p_filters := '{"max_power": {"min": 5, "max": 10}}'::JSONB, p_limit := 10);
+
+-- Test 3: Unknown key and wrong shape raise invalid_parameter_value (22023)
+-- SELECT count_products_v3(p_filters := '{"power": {"min": 10}}'::JSONB);
+-- SELECT count_products_v3(p_filters := '{"material": "Aluminium"}'::JSONB);
+
+-- Test 4: Column filters keep the same conditions as before
+-- SELECT search.v3_filter_conditions('{"ip": ["IP65"], "cct": {"min": 2700, "max": 3000}}'::JSONB);
@@ -0,0 +1,59 @@
+// =====================================================================
+// MOCK SUPABASE CLIENT
+// =====================================================================
+// Just enough of SupabaseClient for createSearchActions(): .rpc() and
+// .schema(name).rpc(). Every call is recorded with the schema it went
+// through, so a test can check the access strategy as well as the result.
+// An RPC without a handler answers like PostgREST for a missing function.
+// =====================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface RpcResponse {
+  data?: unknown
+  error?: { code?: string; message: string } | null
+}
+
+export type RpcHandler = (args: Record<string, unknown> | undefined) => RpcResponse | Promise<RpcResponse>
+
+export interface RecordedRpcCall {
+  schema: string | null   // null = default schema (public wrappers)
+  fn: string
+  args: Record<string, unknown> | undefined
+}
+
+export interface MockSupabase {
+  client: SupabaseClient
+  calls: RecordedRpcCall[]
+  callsTo(fn: string): RecordedRpcCall[]
+}
+
+/**
+ * Build a mock client answering RPCs from handlers keyed by function name
+ */
+export function createMockSupabase(handlers: Record<string, RpcHandler> = {}): MockSupabase {
+  const calls: RecordedRpcCall[] = []
+
+  const call = async (schema: string | null, fn: string, args?: Record<string, unknown>) => {
+    calls.push({ schema, fn, args })
+    const handler = handlers[fn]
+    if (!handler) {
+      return { data: null, error: { code: 'PGRST202', message: `Could not find the function ${fn}` } }
+    }
+    const response = await handler(args)
+    return { data: response.data ?? null, error: response.error ?? null }
+  }
+
+  const client = {
+    rpc: (fn: string, args?: Record<string, unknown>) => call(null, fn, args),
+    schema: (name: string) => ({
+      rpc: (fn: string, args?: Record<string, unknown>) => call(name, fn, args)
+    })
+  }
+
+  return {
+    client: client as unknown as SupabaseClient,
+    calls,
+    callsTo: fn => calls.filter(c => c.fn === fn)
+  }
+}
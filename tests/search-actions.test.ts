@@ -0,0 +1,679 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createSearchActions, type SearchAccessStrategy, type SearchProductV3 } from '../search-actions'
+import { decodeSearchCursor } from '../search-cursor'
+import { createMockSupabase, type RpcHandler } from './mock-supabase'
+
+// Every case runs once per strategy: the same inputs must give the same
+// results whichever way the RPCs are reached.
+const STRATEGIES: Array<{ strategy: SearchAccessStrategy; schema: string | null }> = [
+  { strategy: 'public-wrappers', schema: null },
+  { strategy: 'direct-schema', schema: 'search' }
+]
+
+const PRODUCT_ID = '0b6c3c1e-6f3a-4a57-9d59-2f0d1c1e4a01'
+
+function product(index: number, overrides: Partial<SearchProductV3> = {}): SearchProductV3 {
+  return {
+    product_id: `0b6c3c1e-6f3a-4a57-9d59-2f0d1c1e4a${String(index).padStart(2, '0')}`,
+    foss_pid: `DL-${1000 + index}`,
+    description_short: `Downlight ${index}`,
+    description_long: null,
+    supplier_name: 'Delta Light',
+    class_name: 'Downlight',
+    price: 100 + index,
+    image_url: null,
+    taxonomy_path: ['LUMINAIRE', 'LUMINAIRE-INDOOR-CEILING'],
+    voltage: 230,
+    cct: 3000,
+    cri: '≥90',
+    ip_rating: 'IP20',
+    finishing_colour: 'White',
+    light_source: 'LED',
+    light_distribution: 'Direct',
+    beam_angle_type: null,
+    protection_class: 'II',
+    lumens_output: 800,
+    indoor: true,
+    outdoor: false,
+    ceiling: true,
+    wall: false,
+    recessed: true,
+    dimmable: true,
+    submersible: false,
+    trimless: false,
+    cut_shape_round: true,
+    cut_shape_rectangular: false,
+    relevance_score: 0,
+    ...overrides
+  }
+}
+
+const FILTER_DEFINITIONS = [
+  {
+    filter_key: 'cct', label: 'Colour temperature', filter_type: 'range', etim_feature_id: 'EF009346',
+    ui_config: { min: 1800, max: 6500, step: 100, unit: 'K' }, applicable_taxonomy_codes: null, display_order: 1
+  },
+  {
+    filter_key: 'ip', label: 'IP rating', filter_type: 'multi-select', etim_feature_id: 'EF005474',
+    ui_config: { pattern: '^IP\\d{2}$' }, applicable_taxonomy_codes: null, display_order: 2
+  },
+  {
+    filter_key: 'dimmable', label: 'Dimmable', filter_type: 'boolean', etim_feature_id: null,
+    ui_config: null, applicable_taxonomy_codes: null, display_order: 3
+  },
+  {
+    filter_key: 'voltage', label: 'Voltage (V)', filter_type: 'range', etim_feature_id: 'EF005127',
+    ui_config: { min: 0, max: 1000, step: 1, unit: 'V' }, applicable_taxonomy_codes: null, display_order: 4
+  }
+]
+
+describe.each(STRATEGIES)('createSearchActions ($strategy)', ({ strategy, schema }) => {
+  function setup(handlers: Record<string, RpcHandler> = {}, sessionOwner: string | null = 'test@example.com') {
+    const mock = createMockSupabase({
+      get_active_filter_definitions: () => ({ data: FILTER_DEFINITIONS }),
+      ...handlers
+    })
+    const actions = createSearchActions(mock.client, strategy, { getSessionOwner: async () => sessionOwner })
+    return { ...mock, actions }
+  }
+
+  it('routes every RPC through the strategy', async () => {
+    const { actions, calls } = setup({ search_products_v3: () => ({ data: [] }) })
+
+    await actions.searchProductsV3({ query: 'downlight' })
+
+    expect(calls.length).toBeGreaterThan(0)
+    expect(calls.every(call => call.schema === schema)).toBe(true)
+  })
+
+  describe('searchProductsV3', () => {
+    it('sends validated filters and a normalised query', async () => {
+      const { actions, callsTo } = setup({ search_products_v3: () => ({ data: [product(1)] }) })
+
+      const result = await actions.searchProductsV3({
+        query: '  Φωτιστικό Οροφής ',
+        filters: { cct: { min: 2700, max: 4000 }, ip: ['IP65'] },
+        suppliers: [' Delta Light '],
+        indoor: true,
+        sortBy: 'price_asc',
+        limit: 10
+      })
+
+      expect(result).toEqual({ ok: true, data: [product(1)] })
+      expect(callsTo('search_products_v3')[0].args).toMatchObject({
+        p_query: 'fotistiko orofis',
+        p_filters: { cct: { min: 2700, max: 4000 }, ip: ['IP65'] },
+        p_suppliers: ['Delta Light'],
+        p_indoor: true,
+        p_outdoor: null,
+        p_sort_by: 'price_asc',
+        p_limit: 10,
+        p_offset: 0,
+        p_cursor_sort_value: null,
+        p_cursor_product_id: null
+      })
+    })
+
+    it('rejects filters outside the definitions without calling search', async () => {
+      const { actions, callsTo } = setup({ search_products_v3: () => ({ data: [] }) })
+
+      const result = await actions.searchProductsV3({
+        filters: { cct: { min: 100 }, ip: ['waterproof'] },
+        sortBy: 'random' as never,
+        limit: 500
+      })
+
+      expect(result.ok).toBe(false)
+      if (result.ok) return
+      expect(result.error.code).toBe('VALIDATION')
+      expect(result.error.issues?.map(i => i.field)).toEqual(
+        expect.arrayContaining(['filters.cct.min', 'filters.ip', 'sortBy', 'limit'])
+      )
+      expect(callsTo('search_products_v3')).toHaveLength(0)
+    })
+
+    it('sends a voltage range, given or parsed from the query, as p_filters.voltage', async () => {
+      const { actions, callsTo } = setup({
+        search_products_v3: () => ({ data: [] }),
+        get_facets_v3: () => ({ data: {} })
+      })
+
+      await actions.searchProductsV3({ filters: { voltage: { min: 220, max: 240 } } })
+      await actions.searchProductsV3({ query: 'downlight 220-240V', parseQuery: true })
+
+      const [given, parsed] = callsTo('search_products_v3')
+      expect(given.args).toMatchObject({ p_filters: { voltage: { min: 220, max: 240 } } })
+      expect(parsed.args).toMatchObject({ p_query: 'downlight', p_filters: { voltage: { min: 220, max: 240 } } })
+    })
+
+    it('maps a statement timeout to TIMEOUT', async () => {
+      const { actions } = setup({
+        search_products_v3: () => ({ error: { code: '57014', message: 'canceling statement due to statement timeout' } })
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await actions.searchProductsV3({ query: 'led' })
+
+      expect(result).toEqual({
+        ok: false,
+        error: { code: 'TIMEOUT', message: 'canceling statement due to statement timeout' }
+      })
+    })
+
+    it('maps a thrown network error to RPC_ERROR', async () => {
+      const { actions } = setup({
+        search_products_v3: () => {
+          throw new Error('fetch failed')
+        }
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await actions.searchProductsV3({ query: 'led' })
+
+      expect(result).toEqual({ ok: false, error: { code: 'RPC_ERROR', message: 'fetch failed' } })
+    })
+  })
+
+  describe('searchProductsV3Paginated', () => {
+    it('returns one page, the total and a cursor after the last item', async () => {
+      const rows = [product(1), product(2), product(3)]
+      const { actions, callsTo } = setup({
+        search_products_v3: () => ({ data: rows }),
+        count_products_v3: () => ({ data: 57 })
+      })
+
+      const result = await actions.searchProductsV3Paginated({ sortBy: 'price_asc', limit: 2 })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.data).toMatchObject({ items: rows.slice(0, 2), total: 57, limit: 2, offset: 0, hasMore: true })
+      expect(callsTo('search_products_v3')[0].args?.p_limit).toBe(3)
+      expect(decodeSearchCursor(result.data.nextCursor!)).toEqual({
+        sortKey: 'price_asc',
+        sortValue: '102',
+        productId: rows[1].product_id
+      })
+    })
+
+    it('ranks by relevance on the normalised query, for the page and the count', async () => {
+      const { actions, callsTo } = setup({
+        search_products_v3: () => ({ data: [product(1)] }),
+        count_products_v3: () => ({ data: 1 })
+      })
+
+      await actions.searchProductsV3Paginated({ query: 'ΧΩΝΕΥΤΟ Σποτ', sortBy: 'relevance' })
+
+      expect(callsTo('search_products_v3')[0].args).toMatchObject({ p_query: 'chonevto spot', p_sort_by: 'relevance' })
+      expect(callsTo('count_products_v3')[0].args).toMatchObject({ p_query: 'chonevto spot' })
+    })
+
+    it('continues from a cursor with the keyset pair instead of an offset', async () => {
+      const first = setup({
+        search_products_v3: () => ({ data: [product(1), product(2)] }),
+        count_products_v3: () => ({ data: 10 })
+      })
+      const page1 = await first.actions.searchProductsV3Paginated({ sortBy: 'price_asc', limit: 1 })
+      if (!page1.ok) throw new Error(page1.error.message)
+
+      const { actions, callsTo } = setup({
+        search_products_v3: () => ({ data: [product(2)] }),
+        count_products_v3: () => ({ data: 10 })
+      })
+      const page2 = await actions.searchProductsV3Paginated({ sortBy: 'price_asc', limit: 1, cursor: page1.data.nextCursor! })
+
+      expect(page2.ok && page2.data).toMatchObject({ hasMore: false, nextCursor: null })
+      expect(callsTo('search_products_v3')[0].args).toMatchObject({
+        p_offset: 0,
+        p_cursor_sort_value: '101',
+        p_cursor_product_id: product(1).product_id
+      })
+    })
+
+    it('rejects a cursor from another sort order', async () => {
+      const first = setup({
+        search_products_v3: () => ({ data: [product(1), product(2)] }),
+        count_products_v3: () => ({ data: 10 })
+      })
+      const page1 = await first.actions.searchProductsV3Paginated({ sortBy: 'price_asc', limit: 1 })
+      if (!page1.ok) throw new Error(page1.error.message)
+
+      const { actions } = setup()
+      const result = await actions.searchProductsV3Paginated({ sortBy: 'cct_desc', cursor: page1.data.nextCursor! })
+
+      expect(!result.ok && result.error.issues).toEqual([
+        { field: 'cursor', message: 'cursor belongs to a different sort order' }
+      ])
+    })
+  })
+
+  describe('getSearchStatistics', () => {
+    it('turns stat rows into an object', async () => {
+      const { actions } = setup({
+        get_search_statistics: () => ({
+          data: [
+            { stat_name: 'total_products', stat_value: '14889' },
+            { stat_name: 'dimmable_products', stat_value: 3120 }
+          ]
+        })
+      })
+
+      const result = await actions.getSearchStatistics()
+
+      expect(result.ok && result.data).toMatchObject({ total_products: 14889, dimmable_products: 3120, indoor_products: 0 })
+    })
+
+    it('reports a missing function as NOT_FOUND', async () => {
+      const { actions } = setup()
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await actions.getSearchStatistics()
+
+      expect(!result.ok && result.error.code).toBe('NOT_FOUND')
+    })
+  })
+
+  describe('translations', () => {
+    const TRANSLATIONS = [
+      { filter_key: 'ip', filter_value: null, label: 'Βαθμός στεγανότητας (IP)' },
+      { filter_key: 'finishing_colour', filter_value: 'Black', label: 'Μαύρο' }
+    ]
+    const FACETS = [
+      { filter_key: 'ip', filter_type: 'alphanumeric', label: 'IP rating', facet_data: { values: [{ value: 'IP65', count: 3 }] } },
+      {
+        filter_key: 'finishing_colour', filter_type: 'alphanumeric', label: 'Finishing colour',
+        facet_data: { values: [{ value: 'Black', count: 5 }, { value: 'Grey', count: 2 }] }
+      }
+    ]
+
+    it('translates facet labels and values, falling back to English', async () => {
+      const { actions } = setup({
+        get_available_facets: () => ({ data: FACETS }),
+        get_filter_translations: () => ({ data: TRANSLATIONS })
+      })
+
+      const result = await actions.getAvailableFacets('el')
+
+      expect(result.ok && result.data).toEqual([
+        {
+          ...FACETS[0],
+          label: 'Βαθμός στεγανότητας (IP)',
+          label_el: 'Βαθμός στεγανότητας (IP)',
+          label_en: 'IP rating'
+        },
+        {
+          ...FACETS[1],
+          label: 'Finishing colour',
+          label_el: 'Finishing colour',
+          label_en: 'Finishing colour',
+          facet_data: { values: [{ value: 'Black', label: 'Μαύρο', count: 5 }, { value: 'Grey', count: 2 }] }
+        }
+      ])
+    })
+
+    it('keeps English labels and values by default but still returns label_el', async () => {
+      const { actions } = setup({
+        get_available_facets: () => ({ data: FACETS }),
+        get_filter_translations: () => ({ data: TRANSLATIONS })
+      })
+
+      const result = await actions.getAvailableFacets()
+
+      expect(result.ok && result.data[0]).toMatchObject({ label: 'IP rating', label_el: 'Βαθμός στεγανότητας (IP)', label_en: 'IP rating' })
+      expect(result.ok && result.data[1].facet_data.values).toEqual(FACETS[1].facet_data.values)
+    })
+
+    it('names taxonomy nodes in the locale and returns both names', async () => {
+      const node = (code: string, name: string) => ({ code, parent_code: null, level: 1, name, product_count: 1, icon: null })
+      const { actions, callsTo } = setup({
+        get_taxonomy_tree: args => ({
+          data: args?.p_locale === 'el'
+            ? [node('LUMINAIRE', 'Φωτιστικά'), node('ACCESSORIES', 'Accessories')]
+            : [node('LUMINAIRE', 'Luminaires'), node('ACCESSORIES', 'Accessories')]
+        })
+      })
+
+      const result = await actions.getTaxonomyTree('el')
+
+      expect(callsTo('get_taxonomy_tree').map(call => call.args)).toEqual([{ p_locale: 'en' }, { p_locale: 'el' }])
+      expect(result.ok && result.data).toEqual([
+        { ...node('LUMINAIRE', 'Φωτιστικά'), name_el: 'Φωτιστικά', name_en: 'Luminaires' },
+        { ...node('ACCESSORIES', 'Accessories'), name_el: 'Accessories', name_en: 'Accessories' }
+      ])
+    })
+
+    it('rejects an unsupported locale without calling the RPCs', async () => {
+      const { actions, calls } = setup()
+
+      const result = await actions.getTaxonomyTree('de' as 'en')
+
+      expect(!result.ok && result.error.issues).toEqual([{ field: 'locale', message: 'must be one of: en, el' }])
+      expect(calls).toHaveLength(0)
+    })
+
+    it('loads the translations of a locale once and not at all for English', async () => {
+      const { actions, callsTo } = setup({ get_filter_translations: () => ({ data: TRANSLATIONS }) })
+
+      await actions.getFilterDefinitions('en')
+      const first = await actions.getFilterDefinitions('el')
+      await actions.getFilterDefinitions('el')
+
+      expect(callsTo('get_filter_translations').map(call => call.args)).toEqual([{ p_locale: 'el' }])
+      expect(first.ok && first.data.find(d => d.filter_key === 'ip')?.label).toBe('Βαθμός στεγανότητας (IP)')
+    })
+
+    it('falls back to English labels when the translations fail to load', async () => {
+      const { actions } = setup({
+        get_filter_translations: () => ({ error: { code: '57014', message: 'canceling statement due to statement timeout' } })
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await actions.getFilterDefinitions('el')
+
+      expect(result.ok && result.data.map(d => d.label)).toEqual(FILTER_DEFINITIONS.map(d => d.label))
+    })
+  })
+
+  describe('getSearchSuggestions', () => {
+    it('groups suggestion rows by type', async () => {
+      const { actions, callsTo } = setup({
+        get_search_suggestions: () => ({
+          data: [
+            { suggestion_type: 'product', value: 'DL-1001', label: 'Downlight 1', product_count: 1, product_id: PRODUCT_ID },
+            { suggestion_type: 'supplier', value: 'Delta Light', label: 'Delta Light', product_count: '42', product_id: null },
+            { suggestion_type: 'unknown', value: 'x', label: 'x', product_count: 1 }
+          ]
+        })
+      })
+
+      const result = await actions.getSearchSuggestions('  dl ', 3)
+
+      expect(callsTo('get_search_suggestions')[0].args).toEqual({ p_prefix: 'dl', p_limit: 3 })
+      expect(result.ok && result.data).toEqual({
+        products: [{ type: 'product', value: 'DL-1001', label: 'Downlight 1', count: 1, productId: PRODUCT_ID }],
+        suppliers: [{ type: 'supplier', value: 'Delta Light', label: 'Delta Light', count: 42, productId: null }],
+        taxonomies: [],
+        terms: []
+      })
+    })
+
+    it('returns nothing for a one-character prefix without calling the RPC', async () => {
+      const { actions, calls } = setup()
+
+      const result = await actions.getSearchSuggestions('d')
+
+      expect(result).toEqual({ ok: true, data: { products: [], suppliers: [], taxonomies: [], terms: [] } })
+      expect(calls).toHaveLength(0)
+    })
+  })
+
+  describe('getProductDetail', () => {
+    it('validates the product id', async () => {
+      const { actions, calls } = setup()
+
+      const result = await actions.getProductDetail('DL-1001')
+
+      expect(!result.ok && result.error.issues).toEqual([{ field: 'productId', message: 'must be a UUID' }])
+      expect(calls).toHaveLength(0)
+    })
+
+    it('reports an unknown product as NOT_FOUND', async () => {
+      const { actions } = setup({ get_product_detail: () => ({ data: null }) })
+
+      const result = await actions.getProductDetail(PRODUCT_ID)
+
+      expect(!result.ok && result.error.code).toBe('NOT_FOUND')
+    })
+  })
+
+  describe('findSimilarProducts', () => {
+    it('passes weights and converts similarity to a number', async () => {
+      const { actions, callsTo } = setup({
+        find_similar_products: () => ({ data: [{ ...product(2), similarity: '0.875' }] })
+      })
+
+      const result = await actions.findSimilarProducts(PRODUCT_ID, { limit: 5, weights: { cct: 2 } })
+
+      expect(callsTo('find_similar_products')[0].args).toEqual({
+        p_product_id: PRODUCT_ID,
+        p_limit: 5,
+        p_weights: { cct: 2 },
+        p_other_suppliers_only: true
+      })
+      expect(result.ok && result.data[0].similarity).toBe(0.875)
+    })
+
+    it('rejects unknown weights', async () => {
+      const { actions } = setup()
+
+      const result = await actions.findSimilarProducts(PRODUCT_ID, { weights: { price: 1 } as never })
+
+      expect(!result.ok && result.error.code).toBe('VALIDATION')
+    })
+  })
+
+  describe('previewClassificationChanges', () => {
+    it('maps impact rows into products, taxonomy and flags', async () => {
+      const { actions } = setup({
+        preview_classification_changes: () => ({
+          data: [
+            { change_type: 'product', code: null, gained: '3', lost: '1', sample_gained: ['DL-1'], sample_lost: ['DL-2'] },
+            { change_type: 'taxonomy', code: 'LUM_CEIL', gained: '3', lost: '0', sample_gained: ['DL-1'], sample_lost: null },
+            { change_type: 'flag', code: 'ceiling', gained: '0', lost: '1', sample_gained: null, sample_lost: ['DL-2'] }
+          ]
+        })
+      })
+
+      const result = await actions.previewClassificationChanges([{ id: 12, active: false }])
+
+      expect(result.ok && result.data).toEqual({
+        products: { gained: 3, lost: 1, sample_gained: ['DL-1'], sample_lost: ['DL-2'] },
+        taxonomy: [{ code: 'LUM_CEIL', gained: 3, lost: 0, sample_gained: ['DL-1'], sample_lost: [] }],
+        flags: [{ code: 'ceiling', gained: 0, lost: 1, sample_gained: [], sample_lost: ['DL-2'] }]
+      })
+    })
+
+    it('reports an unknown rule id as NOT_FOUND', async () => {
+      const { actions } = setup({
+        preview_classification_changes: () => ({ error: { code: 'P0002', message: 'Classification rule not found: 99' } })
+      })
+
+      const result = await actions.previewClassificationChanges([{ id: 99, active: false }])
+
+      expect(result).toEqual({ ok: false, error: { code: 'NOT_FOUND', message: 'Classification rule not found: 99' } })
+    })
+
+    it('validates feature conditions before calling the RPC', async () => {
+      const { actions, calls } = setup()
+
+      const result = await actions.previewClassificationChanges([
+        { rule_name: 'draft', flag_name: 'ceiling', etim_feature_conditions: { any: [] } }
+      ])
+
+      expect(!result.ok && result.error.issues).toEqual([
+        { field: 'changes[0].etim_feature_conditions.any', message: 'must be a non-empty array of conditions' }
+      ])
+      expect(calls).toHaveLength(0)
+    })
+  })
+
+  describe('saved searches', () => {
+    const SAVED_SEARCH_ID = '5f1d2c3b-8a7e-4c6d-9b0a-1e2f3a4b5c6d'
+
+    function savedSearch(state: Record<string, unknown> = {}) {
+      return {
+        id: SAVED_SEARCH_ID, owner: 'test@example.com', name: 'Outdoor wall IP65', state,
+        created_at: '2025-11-20T10:00:00Z', updated_at: '2025-11-20T10:00:00Z', last_run_at: null
+      }
+    }
+
+    it('saves under the session owner with the validated state', async () => {
+      const { actions, callsTo } = setup({ save_search_for_owner: args => ({ data: savedSearch(args?.p_state as Record<string, unknown>) }) })
+
+      const result = await actions.saveSearch(' Outdoor wall IP65 ', {
+        tab: 'LUMINAIRE',
+        filters: { ip: ['IP65'], cct: { min: 3000, max: 3000 } },
+        outdoor: true
+      })
+
+      expect(result.ok).toBe(true)
+      expect(callsTo('save_search_for_owner')).toEqual([{
+        schema,
+        fn: 'save_search_for_owner',
+        args: {
+          p_owner: 'test@example.com',
+          p_name: 'Outdoor wall IP65',
+          p_state: { filters: { ip: ['IP65'], cct: { min: 3000, max: 3000 } }, outdoor: true, sortBy: 'relevance', tab: 'LUMINAIRE' }
+        }
+      }])
+    })
+
+    it('returns UNAUTHORIZED without a session, before any RPC', async () => {
+      const { actions, calls } = setup({}, null)
+
+      const results = await Promise.all([
+        actions.listSavedSearches(),
+        actions.saveSearch('Outdoor wall IP65', {}),
+        actions.renameSavedSearch(SAVED_SEARCH_ID, 'Facade IP65'),
+        actions.deleteSavedSearch(SAVED_SEARCH_ID),
+        actions.runSavedSearch(SAVED_SEARCH_ID)
+      ])
+
+      for (const result of results) {
+        expect(!result.ok && result.error.code).toBe('UNAUTHORIZED')
+      }
+      expect(calls).toHaveLength(0)
+    })
+
+    it('reports a search of another owner as NOT_FOUND', async () => {
+      const { actions, callsTo } = setup({ delete_saved_search_for_owner: () => ({ data: false }) })
+
+      const result = await actions.deleteSavedSearch(SAVED_SEARCH_ID)
+
+      expect(!result.ok && result.error.code).toBe('NOT_FOUND')
+      expect(callsTo('delete_saved_search_for_owner')[0].args).toEqual({ p_owner: 'test@example.com', p_id: SAVED_SEARCH_ID })
+    })
+
+    it('re-runs the saved filters and returns the first page', async () => {
+      const { actions, callsTo } = setup({
+        mark_saved_search_run_for_owner: () => ({ data: savedSearch({ tab: 'LUMINAIRE', filters: { ip: ['IP65'] } }) }),
+        search_products_v3: () => ({ data: [product(1)] }),
+        count_products_v3: () => ({ data: 1 })
+      })
+
+      const result = await actions.runSavedSearch(SAVED_SEARCH_ID, 10)
+
+      expect(result.ok && result.data.results.items).toHaveLength(1)
+      expect(callsTo('search_products_v3')[0].args).toMatchObject({ p_filters: { ip: ['IP65'] }, p_limit: 11 })
+    })
+  })
+
+  describe('exportProductsV3', () => {
+    // 50 full batches of 1000 = EXPORT_MAX_ROWS, then `after` for any later request
+    function exportHandlers(after: SearchProductV3[]): Record<string, RpcHandler> {
+      const full = Array.from({ length: 1000 }, (_, i) => product(i % 100, { price: i }))
+      let batches = 0
+      return {
+        search_products_v3: () => ({ data: batches++ < 50 ? full : after })
+      }
+    }
+
+    it('does not report an export of exactly 50,000 rows as truncated', async () => {
+      const { actions, callsTo } = setup(exportHandlers([]))
+
+      const result = await actions.exportProductsV3({}, { columns: ['foss_pid'] })
+
+      expect(result.ok && { rowCount: result.data.rowCount, truncated: result.data.truncated })
+        .toEqual({ rowCount: 50000, truncated: false })
+      expect(callsTo('search_products_v3').map(c => c.args?.p_limit).slice(-2)).toEqual([1000, 1])
+    })
+
+    it('reports more than 50,000 matching rows as truncated', async () => {
+      const { actions } = setup(exportHandlers([product(1)]))
+
+      const result = await actions.exportProductsV3({}, { columns: ['foss_pid'] })
+
+      expect(result.ok && { rowCount: result.data.rowCount, truncated: result.data.truncated })
+        .toEqual({ rowCount: 50000, truncated: true })
+    })
+
+    it('exports a short result in one batch', async () => {
+      const { actions, callsTo } = setup({ search_products_v3: () => ({ data: [product(1), product(2)] }) })
+
+      const result = await actions.exportProductsV3({ sortBy: 'price_asc' }, { columns: ['foss_pid'] })
+      if (!result.ok) throw new Error(result.error.message)
+
+      expect(result.data).toMatchObject({ mimeType: 'text/csv;charset=utf-8', rowCount: 2, truncated: false })
+      expect(Buffer.from(result.data.content, 'base64').toString('utf8')).toContain('DL-1001')
+      expect(callsTo('search_products_v3')).toHaveLength(1)
+    })
+  })
+
+  describe('streamProductsV3', () => {
+    async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+      return new Response(stream).text()
+    }
+
+    it('pages through the keyset cursor while the stream is read', async () => {
+      const full = Array.from({ length: 1000 }, (_, i) => product(i % 100, { price: i }))
+      const { actions, callsTo } = setup({
+        search_products_v3: args => ({ data: args?.p_cursor_product_id ? [product(1)] : full })
+      })
+
+      const result = await actions.streamProductsV3({ sortBy: 'price_asc', limit: 5 }, { columns: ['foss_pid'] })
+      if (!result.ok) throw new Error(result.error.message)
+      expect(result.data.mimeType).toBe('text/csv;charset=utf-8')
+      expect(callsTo('search_products_v3')).toHaveLength(1)
+
+      const lines = (await readText(result.data.stream)).trim().split('\r\n')
+
+      expect(lines).toHaveLength(1 + 1000 + 1)
+      expect(callsTo('search_products_v3').map(c => c.args?.p_limit)).toEqual([1000, 1000])
+      expect(callsTo('search_products_v3')[1].args).toMatchObject({
+        p_cursor_sort_value: '999',
+        p_cursor_product_id: full[999].product_id
+      })
+    })
+
+    it('returns a typed error when the first batch fails', async () => {
+      const { actions } = setup({
+        search_products_v3: () => ({ error: { code: '57014', message: 'canceling statement due to statement timeout' } })
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await actions.streamProductsV3({}, { format: 'xlsx' })
+
+      expect(!result.ok && result.error.code).toBe('TIMEOUT')
+    })
+
+    it('aborts the stream when a later batch fails', async () => {
+      const full = Array.from({ length: 1000 }, (_, i) => product(i % 100))
+      const { actions } = setup({
+        search_products_v3: args => (args?.p_cursor_product_id ? { error: { message: 'connection reset' } } : { data: full })
+      })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await actions.streamProductsV3()
+      if (!result.ok) throw new Error(result.error.message)
+
+      await expect(readText(result.data.stream)).rejects.toThrow('connection reset')
+    })
+
+    it('validates format and columns', async () => {
+      const { actions, calls } = setup()
+
+      const result = await actions.streamProductsV3({}, { format: 'pdf' as never, columns: ['power' as never] })
+
+      expect(!result.ok && result.error.issues?.map(i => i.field)).toEqual(['format', 'columns'])
+      expect(calls.filter(c => c.fn === 'search_products_v3')).toHaveLength(0)
+    })
+  })
+
+  describe('searchProductsCompat', () => {
+    it('unwraps to the legacy empty array on errors', async () => {
+      const { actions } = setup({ search_products: () => ({ error: { message: 'boom' } }) })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(await actions.searchProductsCompat('downlight')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import {
+  checkClassificationConformance,
+  CLASSIFICATION_CONFORMANCE_CASES,
+  FEATURE_CONDITIONS_CONFORMANCE_CASES
+} from '../search-classification-conformance'
+
+// sql/26 runs the same cases against the database; its VALUES rows are
+// read here so a case added or changed on one side only fails the suite
+const SQL_CASES = join(__dirname, '..', 'sql', '26-test-classification-conformance.sql')
+const CASE_ROW = /^\s*\('([^']*)', (NULL::jsonb|'[^']*'::jsonb), ('[^']*'::jsonb), '(true|false|null|error)'\),?$/
+
+interface SqlCase {
+  name: string
+  input: unknown
+  condition: unknown
+  expected: boolean | null | 'error'
+}
+
+function readSqlCases(): SqlCase[][] {
+  const blocks = readFileSync(SQL_CASES, 'utf8').split(/^WITH cases/m).slice(1)
+
+  return blocks.map(block => block.split('\n').flatMap(line => {
+    const match = CASE_ROW.exec(line)
+    if (!match) return []
+    const [, name, input, condition, expected] = match
+    const json = (literal: string) => literal === 'NULL::jsonb' ? null : JSON.parse(literal.slice(1, -'\'::jsonb'.length))
+    return [{
+      name,
+      input: json(input),
+      condition: json(condition),
+      expected: expected === 'error' ? 'error' : JSON.parse(expected)
+    }]
+  }))
+}
+
+describe('classification conformance', () => {
+  it('evaluates every case like the SQL functions', () => {
+    expect(checkClassificationConformance()).toEqual([])
+  })
+
+  it('has the same feature condition cases as sql/26', () => {
+    const [featureCases] = readSqlCases()
+
+    expect(featureCases).toEqual(CLASSIFICATION_CONFORMANCE_CASES.map(c => ({
+      name: c.name, input: c.feature, condition: c.condition, expected: c.expected
+    })))
+  })
+
+  it('has the same feature array cases as sql/26', () => {
+    const [, conditionsCases] = readSqlCases()
+
+    expect(conditionsCases).toEqual(FEATURE_CONDITIONS_CONFORMANCE_CASES.map(c => ({
+      name: c.name, input: c.features, condition: c.condition, expected: c.expected
+    })))
+  })
+})
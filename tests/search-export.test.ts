@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import type { SearchProductV3 } from '../search-actions'
+import { buildCsv, buildXlsx, streamCsv, streamXlsx, type ExportColumn } from '../search-export'
+
+const COLUMNS: ExportColumn[] = ['foss_pid', 'description_short', 'price', 'indoor', 'taxonomy_path']
+
+function row(index: number): SearchProductV3 {
+  return {
+    foss_pid: `DL-${index}`,
+    description_short: index % 2 ? `Φωτιστικό "${index}", οροφής` : '=SUM(A1)',
+    price: index * 10.5,
+    indoor: index % 3 === 0,
+    taxonomy_path: ['LUMINAIRE', 'LUMINAIRE-INDOOR-CEILING']
+  } as SearchProductV3
+}
+
+const ROWS = Array.from({ length: 7 }, (_, i) => row(i + 1))
+
+async function* inBatches(rows: SearchProductV3[], size: number) {
+  for (let i = 0; i < rows.length; i += size) yield rows.slice(i, i + size)
+  yield []
+}
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = []
+  for await (const chunk of chunks) parts.push(chunk)
+  return Buffer.concat(parts)
+}
+
+/**
+ * Entries of a stored zip, read through the central directory like Excel does
+ */
+function readZip(bytes: Uint8Array): Record<string, { data: string; crc: number; flags: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const end = bytes.byteLength - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const entries: Record<string, { data: string; crc: number; flags: number }> = {}
+  let position = view.getUint32(end + 16, true)
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50)
+    const flags = view.getUint16(position + 8, true)
+    const crc = view.getUint32(position + 16, true)
+    const size = view.getUint32(position + 24, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const local = view.getUint32(position + 42, true)
+    const name = Buffer.from(bytes.subarray(position + 46, position + 46 + nameLength)).toString('utf8')
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50)
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true)
+    entries[name] = { data: Buffer.from(bytes.subarray(start, start + size)).toString('utf8'), crc, flags }
+    position += 46 + nameLength
+  }
+  return entries
+}
+
+describe('streamCsv', () => {
+  it('writes the same file as buildCsv, batch by batch', async () => {
+    const streamed = await collect(streamCsv(inBatches(ROWS, 3), COLUMNS))
+
+    expect(Buffer.from(streamed).toString('utf8')).toBe(buildCsv(ROWS, COLUMNS))
+  })
+
+  it('writes only the header when nothing matched', async () => {
+    const streamed = await collect(streamCsv(inBatches([], 3), COLUMNS))
+
+    expect(Buffer.from(streamed).toString('utf8')).toBe(buildCsv([], COLUMNS))
+  })
+})
+
+describe('streamXlsx', () => {
+  it('writes the same workbook parts as buildXlsx', async () => {
+    const streamed = readZip(await collect(streamXlsx(inBatches(ROWS, 3), COLUMNS)))
+    const built = readZip(buildXlsx(ROWS, COLUMNS))
+
+    expect(Object.keys(streamed)).toEqual(Object.keys(built))
+    for (const name of Object.keys(built)) {
+      expect(streamed[name].data).toBe(built[name].data)
+      expect(streamed[name].crc).toBe(built[name].crc)
+    }
+  })
+
+  it('puts the worksheet last, with a data descriptor', async () => {
+    const bytes = await collect(streamXlsx(inBatches(ROWS, 2), COLUMNS))
+    const sheet = readZip(bytes)['xl/worksheets/sheet1.xml']
+
+    expect(sheet.flags & 0x0008).toBe(0x0008)
+    expect(sheet.data).toContain('<row r="8">')
+    expect(sheet.data.endsWith('</sheetData></worksheet>')).toBe(true)
+
+    // Data descriptor right before the central directory
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const central = view.getUint32(bytes.byteLength - 22 + 16, true)
+    expect(view.getUint32(central - 16, true)).toBe(0x08074b50)
+    expect(view.getUint32(central - 12, true)).toBe(sheet.crc)
+  })
+})
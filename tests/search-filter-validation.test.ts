@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { type FilterDefinitionRecord, validateTechnicalFilters } from '../search-filter-validation'
+
+function definition(
+  filter_key: string,
+  filter_type: string,
+  ui_config: FilterDefinitionRecord['ui_config'] = null
+): FilterDefinitionRecord {
+  return {
+    filter_key,
+    label: filter_key,
+    filter_type,
+    etim_feature_id: null,
+    ui_config,
+    applicable_taxonomy_codes: null,
+    display_order: 0
+  }
+}
+
+// Same shapes as sql/02 and sql/31
+const DEFINITIONS = [
+  definition('cct', 'range', { min: 2700, max: 6500, step: 100, unit: 'K' }),
+  definition('lumens_output', 'range', { min: 0, max: 50000, step: 100, unit: 'lm' }),
+  definition('voltage', 'range', { min: 0, max: 1000, step: 1, unit: 'V' }),
+  definition('ip', 'multi-select', { pattern: '^IP\\d{2}$' }),
+  definition('class', 'multi-select'),
+  definition('dimmable', 'boolean')
+]
+
+const fields = (input: unknown) => validateTechnicalFilters(input, DEFINITIONS).issues.map(issue => issue.field)
+
+describe('validateTechnicalFilters', () => {
+  it('keeps valid filters of every kind', () => {
+    expect(validateTechnicalFilters({
+      cct: { min: 2700, max: 3000 },
+      voltage: { min: 220, max: 240 },
+      ip: [' IP65 ', 'IP67'],
+      dimmable: false
+    }, DEFINITIONS)).toEqual({
+      filters: {
+        cct: { min: 2700, max: 3000 },
+        voltage: { min: 220, max: 240 },
+        ip: ['IP65', 'IP67'],
+        dimmable: false
+      },
+      issues: []
+    })
+  })
+
+  it('accepts typed values between slider steps', () => {
+    const { filters, issues } = validateTechnicalFilters({
+      cct: { min: 2750, max: 2750 },
+      lumens_output: { min: 1234 }
+    }, DEFINITIONS)
+
+    expect(issues).toEqual([])
+    expect(filters).toEqual({ cct: { min: 2750, max: 2750 }, lumens_output: { min: 1234 } })
+  })
+
+  it('rejects unknown and malformed keys', () => {
+    expect(fields({ power: { min: 10 }, 'bad key': ['x'] })).toEqual(['filters.power', 'filters.bad key'])
+  })
+
+  it('rejects values of the wrong kind', () => {
+    expect(fields({
+      cct: ['3000'],
+      voltage: ['220-240V'],
+      ip: 'IP65',
+      dimmable: 'yes'
+    })).toEqual(['filters.cct', 'filters.voltage', 'filters.ip', 'filters.dimmable'])
+  })
+
+  it('rejects bounds outside ui_config and reversed ranges', () => {
+    const { filters, issues } = validateTechnicalFilters({
+      cct: { min: 1800 },
+      voltage: { max: 1500 },
+      lumens_output: { min: 2000, max: 1000 }
+    }, DEFINITIONS)
+
+    expect(filters).toEqual({})
+    expect(issues).toEqual([
+      { field: 'filters.cct.min', message: 'must be at least 2700 K' },
+      { field: 'filters.voltage.max', message: 'must be at most 1000 V' },
+      { field: 'filters.lumens_output', message: 'min must not be greater than max' }
+    ])
+  })
+
+  it('rejects values not matching ui_config.pattern and non-numeric bounds', () => {
+    expect(fields({ ip: ['IP65', 'waterproof'], cct: { min: 'warm' } })).toEqual(['filters.ip', 'filters.cct.min'])
+  })
+
+  it('takes true and false for boolean filters', () => {
+    expect(validateTechnicalFilters({ dimmable: true }, DEFINITIONS).filters).toEqual({ dimmable: true })
+    expect(validateTechnicalFilters({ dimmable: false }, DEFINITIONS).filters).toEqual({ dimmable: false })
+    expect(fields({ dimmable: 1 })).toEqual(['filters.dimmable'])
+  })
+
+  it('checks only value shapes without definitions', () => {
+    const { filters, issues } = validateTechnicalFilters({
+      power: { min: 10 },
+      material: ['Aluminium'],
+      adjustable: true,
+      beam_angle: 'wide'
+    }, null)
+
+    expect(filters).toEqual({ power: { min: 10 }, material: ['Aluminium'], adjustable: true })
+    expect(issues.map(issue => issue.field)).toEqual(['filters.beam_angle'])
+  })
+
+  it('rejects a non-object filters value', () => {
+    expect(fields(['IP65'])).toEqual(['filters'])
+  })
+})
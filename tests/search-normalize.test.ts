@@ -0,0 +1,75 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { checkSearchTextNormalization, SEARCH_TEXT_CORPUS } from '../search-normalize-conformance'
+import { foldAccents, normalizeSearchText } from '../search-normalize'
+
+const SQL_DIR = join(__dirname, '..', 'sql')
+
+// ('input', 'expected') rows of sql/30; E'' strings for tabs / newlines
+const CORPUS_ROW = /^\s*\((E?)'([^']*)',\s*'([^']*)'\),?$/
+
+function unescape(literal: string, escaped: boolean): string {
+  return escaped ? literal.replace(/\\t/g, '\t').replace(/\\n/g, '\n') : literal
+}
+
+function readSqlCorpus(): Array<{ input: string; expected: string }> {
+  const sql = readFileSync(join(SQL_DIR, '30-test-search-text-normalization.sql'), 'utf8')
+  return sql.split('\n').flatMap(line => {
+    const match = CORPUS_ROW.exec(line)
+    return match ? [{ input: unescape(match[2], match[1] === 'E'), expected: match[3] }] : []
+  })
+}
+
+// String literals of search.normalize_search_text() in sql/25, in order:
+// the fold table (from, to), the multi-letter replacements, the Greeklish table
+function readSqlTables() {
+  const sql = readFileSync(join(SQL_DIR, '25-create-search-text-normalization.sql'), 'utf8')
+  const start = sql.indexOf('CREATE OR REPLACE FUNCTION search.normalize_search_text')
+  const body = sql.slice(start, sql.indexOf('$$ LANGUAGE sql', start))
+
+  const translations = [...body.matchAll(/^\s*('[^']*'(?:\s*\|\|\s*'[^']*')*),?$/gm)]
+    .map(match => [...match[1].matchAll(/'([^']*)'/g)].map(part => part[1]).join(''))
+  const replacements = [...body.matchAll(/'([^']+)', '([^']+)'\)/g)].map(match => [match[1], match[2]])
+
+  return {
+    foldFrom: translations[0],
+    foldTo: translations[1],
+    greeklishFrom: translations[2],
+    greeklishTo: translations[3],
+    replacements
+  }
+}
+
+describe('normalizeSearchText', () => {
+  it('normalises the corpus like search.normalize_search_text()', () => {
+    expect(checkSearchTextNormalization()).toEqual([])
+  })
+
+  it('has the same corpus as sql/30', () => {
+    expect(readSqlCorpus()).toEqual(SEARCH_TEXT_CORPUS)
+  })
+
+  it('is idempotent', () => {
+    for (const { expected } of SEARCH_TEXT_CORPUS) {
+      expect(normalizeSearchText(expected)).toBe(expected)
+    }
+  })
+
+  it('folds with the same character tables as sql/25', () => {
+    const tables = readSqlTables()
+
+    expect(tables.foldFrom).not.toBe('')
+    expect(Array.from(tables.foldFrom)).toHaveLength(Array.from(tables.foldTo).length)
+    expect(foldAccents(tables.foldFrom)).toBe(tables.foldTo)
+
+    expect(tables.replacements).toEqual([['ου', 'ou'], ['αυ', 'av'], ['ευ', 'ev'], ['θ', 'th'], ['χ', 'ch'], ['ψ', 'ps']])
+    for (const [greek, latin] of tables.replacements) {
+      expect(normalizeSearchText(greek)).toBe(latin)
+    }
+
+    Array.from(tables.greeklishFrom).forEach((letter, index) => {
+      expect(normalizeSearchText(letter)).toBe(tables.greeklishTo[index])
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { parseSearchQuery, removeQueryToken } from '../search-query-parser'
+
+const CRI_VALUES = { values: { cri: ['≥80', '≥90'] } }
+
+describe('parseSearchQuery', () => {
+  it('turns IP tokens into ip values, in any case and spelling', () => {
+    expect(parseSearchQuery('IP65').filters).toEqual({ ip: ['IP65'] })
+    expect(parseSearchQuery('ip 44').filters).toEqual({ ip: ['IP44'] })
+    expect(parseSearchQuery('Ipx4').filters).toEqual({ ip: ['IPX4'] })
+  })
+
+  it('keeps IP codes missing from the known values in the text', () => {
+    expect(parseSearchQuery('IP44 spot', { values: { ip: ['IP65'] } })).toEqual({
+      text: 'IP44 spot',
+      filters: {},
+      interpreted: []
+    })
+  })
+
+  it('matches CRI tokens to the known values at or above the number', () => {
+    expect(parseSearchQuery('Ra90', CRI_VALUES).filters).toEqual({ cri: ['≥90'] })
+    expect(parseSearchQuery('CRI > 80', CRI_VALUES).filters).toEqual({ cri: ['≥80', '≥90'] })
+    expect(parseSearchQuery('cri 95', CRI_VALUES)).toEqual({ text: 'cri 95', filters: {}, interpreted: [] })
+  })
+
+  it('reads K, lm and V values and ranges', () => {
+    expect(parseSearchQuery('3000K').filters).toEqual({ cct: { min: 3000, max: 3000 } })
+    expect(parseSearchQuery('2700-3000k').filters).toEqual({ cct: { min: 2700, max: 3000 } })
+    expect(parseSearchQuery('<4000K').filters).toEqual({ cct: { max: 4000 } })
+    expect(parseSearchQuery('3000 K').filters).toEqual({ cct: { min: 3000, max: 3000 } })
+    expect(parseSearchQuery('800lm').filters).toEqual({ lumens_output: { min: 800 } })
+    expect(parseSearchQuery('>1000LM').filters).toEqual({ lumens_output: { min: 1000 } })
+    expect(parseSearchQuery('24V').filters).toEqual({ voltage: { min: 24, max: 24 } })
+    expect(parseSearchQuery('220-240V').filters).toEqual({ voltage: { min: 220, max: 240 } })
+  })
+
+  it('reports wattage but leaves it in the text', () => {
+    expect(parseSearchQuery('10W downlight')).toEqual({
+      text: '10W downlight',
+      filters: {},
+      interpreted: [{ token: '10W', filterKey: null, value: null, label: 'Power 10 W' }]
+    })
+  })
+
+  it('leaves the other words, and implausible values, in the text', () => {
+    const parsed = parseSearchQuery('black IP65 downlight 3000K 50K')
+
+    expect(parsed.text).toBe('black downlight 50K')
+    expect(parsed.filters).toEqual({ ip: ['IP65'], cct: { min: 3000, max: 3000 } })
+    expect(parsed.interpreted.map(item => item.label)).toEqual(['IP65', 'CCT 3000 K'])
+  })
+
+  it('merges repeated tokens of a key into one filter', () => {
+    expect(parseSearchQuery('3000K 4000K')).toEqual({
+      text: '',
+      filters: { cct: { min: 3000, max: 4000 } },
+      interpreted: [
+        { token: '3000K', filterKey: 'cct', value: { min: 3000, max: 3000 }, label: 'CCT 3000 K' },
+        { token: '4000K', filterKey: 'cct', value: { min: 4000, max: 4000 }, label: 'CCT 4000 K' }
+      ]
+    })
+    expect(parseSearchQuery('>3000K <4000K').filters).toEqual({ cct: { min: 3000, max: 4000 } })
+    expect(parseSearchQuery('800lm 1500lm').filters).toEqual({ lumens_output: { min: 800 } })
+    expect(parseSearchQuery('IP65 IP67 IP65').filters).toEqual({ ip: ['IP65', 'IP67'] })
+  })
+
+  it('shapes a key by the kind given in the context', () => {
+    expect(parseSearchQuery('24V', { kinds: { voltage: 'alphanumeric' } })).toEqual({
+      text: '24V',
+      filters: {},
+      interpreted: []
+    })
+  })
+})
+
+describe('removeQueryToken', () => {
+  it('removes the words of one token', () => {
+    expect(removeQueryToken('IP 44 downlight', 'IP 44')).toBe('downlight')
+    expect(removeQueryToken('3000K spot 3000K', '3000K')).toBe('spot 3000K')
+  })
+})